@@ -2,9 +2,10 @@ import { FunctionTool } from "@google/adk";
 import { LlmAgent } from "@google/adk";
 import { Schema, Type } from "@google/genai";
 import {
-  getPageBlocksAsText,
   createContent,
   queryContent,
+  blockBuilders,
+  markdownToBlocks,
   type CreateContentInput,
 } from "../services/notion/index.js";
 import type { CreatePageParameters } from "@notionhq/client/build/src/api-endpoints.js";
@@ -22,7 +23,12 @@ import {
   type ContentTargetAudienceValue,
   type ContentEditingWorkflowValue,
 } from "../config/notionConfig.js";
-import { visionTools } from "./visionAgent.js";
+import {
+  visionTools,
+  readReferenceDocument,
+  referenceDocumentParameters,
+  type ReferenceDocumentArgs,
+} from "./visionAgent.js";
 
 // ============================================================================
 // Constants
@@ -41,17 +47,13 @@ const STRATEGY_2026_PAGE_ID = "29e82787-0ecb-801c-a110-c6a50af733f4";
 export const get2026StrategyTool = new FunctionTool({
   name: "get_2026_strategy",
   description:
-    "Retrieve the 2026 strategy document from Notion for content alignment and planning. Use this when creating content outlines to ensure alignment with strategic goals.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {},
-    required: [],
-  },
-  execute: async () => {
+    "Retrieve the 2026 strategy document from Notion for content alignment and planning. Use this when creating content outlines to ensure alignment with strategic goals. Returns Markdown with section IDs (e.g. s2.1) that can be cited.",
+  parameters: referenceDocumentParameters,
+  execute: async (args: ReferenceDocumentArgs = {}) => {
     try {
-      const strategyContent = await getPageBlocksAsText(STRATEGY_2026_PAGE_ID);
+      const reference = await readReferenceDocument(STRATEGY_2026_PAGE_ID, args);
 
-      if (!strategyContent || strategyContent.trim().length === 0) {
+      if (!reference) {
         return {
           status: "not_found",
           message:
@@ -61,9 +63,10 @@ export const get2026StrategyTool = new FunctionTool({
 
       return {
         status: "success",
-        strategyContent,
+        strategyContent: reference.markdown,
+        sections: reference.sections,
         pageId: STRATEGY_2026_PAGE_ID,
-        note: "This is a read-only reference. Use this strategy to guide content creation, ensure alignment with goals, and maintain strategic focus.",
+        note: "This is a read-only reference. Use this strategy to guide content creation, ensure alignment with goals, and maintain strategic focus. Cite the section ID (e.g. [s2.1]) when referencing a part of the strategy.",
       };
     } catch (error) {
       const message =
@@ -466,7 +469,8 @@ const saveContentEntrySchema: Schema = {
     },
     outline: {
       type: Type.STRING,
-      description: "Content outline or draft to save as page content",
+      description:
+        "Content outline or draft to save as page content. Markdown is converted to Notion blocks (headings, lists, to-dos, quotes, code, links, bold/italic).",
     },
   },
   required: ["title"],
@@ -516,22 +520,7 @@ export const saveContentEntryTool = new FunctionTool({
 
       // Build content blocks if outline provided
       const contentBlocks: CreatePageParameters["children"] | undefined = outline
-        ? [
-            {
-              object: "block",
-              type: "heading_2",
-              heading_2: {
-                rich_text: [{ type: "text", text: { content: "Outline" } }],
-              },
-            },
-            {
-              object: "block",
-              type: "paragraph",
-              paragraph: {
-                rich_text: [{ type: "text", text: { content: outline } }],
-              },
-            },
-          ] as CreatePageParameters["children"]
+        ? [blockBuilders.heading2("Outline"), ...markdownToBlocks(outline)]
         : undefined;
 
       const contentInput: CreateContentInput = {
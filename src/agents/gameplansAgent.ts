@@ -1,16 +1,59 @@
 import { FunctionTool } from "@google/adk";
 import { Schema, Type } from "@google/genai";
-import type { CreatePageParameters } from "@notionhq/client/build/src/api-endpoints.js";
 import {
   createGameplan,
   getTodaysGameplan,
   getGameplanForDate,
   appendGameplanContent,
+  blockBuilders,
+  getTask,
+  compactId,
+  getCarryOverTasks,
+  reconcileGameplan,
+  getGameplanByTitle,
+  type BlockObjectRequest,
   type GameplanResponse,
+  type RichTextItem,
 } from "../services/notion/index.js";
+import {
+  addDays,
+  buildDayPlan,
+  getBusyIntervals,
+  zonedDate,
+  type BusyInterval,
+  type DayPlan,
+  type DayPlanBlock,
+  type DayPlanTask,
+  type EnergyWindow,
+} from "../services/scheduling/index.js";
+import {
+  weekRange,
+  weeklyReviewTitle,
+  buildWeeklyReview,
+  summarizeWeeklyReview,
+  weeklyReviewToBlocks,
+  parseQuarter,
+  quarterOf,
+  quarterlyPlanTitle,
+  buildQuarterlyPlan,
+  describeCapacity,
+  quarterlyPlanToBlocks,
+  type DailyScore,
+  type QuarterlyObjective,
+} from "../services/reviews/index.js";
+import {
+  getEnergyScheduleForDate,
+  getEnergyEventsForRange,
+} from "../app/api/_lib/storage/energyStorage.js";
+import {
+  upsertGameplanReview,
+  getGameplanReviews,
+} from "../app/api/_lib/storage/gameplanReviewStorage.js";
+import { APP_TIME_ZONE, APP_USER_ID } from "../config/userConfig.js";
 import {
   GameplanStatus,
   GameplanCategory,
+  TaskStatus,
   type GameplanStatusValue,
   type GameplanCategoryValue,
   type GameplanPriorityValue,
@@ -28,10 +71,13 @@ interface EnergySegmentInput {
 }
 
 interface TaskInput {
+  taskId?: string;
   title: string;
   priority?: string;
   dueDate?: string;
   projectName?: string;
+  taskType?: string[];
+  estimateMinutes?: number;
   recommendedWindow?: string;
 }
 
@@ -55,90 +101,37 @@ interface CreateDailyGameplanParams {
   productBriefs?: ProductBriefInput[];
   priority?: string;
   category?: string[];
+  schedule?: boolean;
+  workStart?: string;
+  workEnd?: string;
+  carryOver?: boolean;
 }
 
 interface GetGameplanForDateParams {
   date: string;
 }
 
-// ============================================================================
-// Block Builders - Helpers to construct Notion block content
-// ============================================================================
-
-type BlockObjectRequest = NonNullable<CreatePageParameters["children"]>[number];
-
-const blockBuilders = {
-  heading1: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "heading_1",
-    heading_1: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
-
-  heading2: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "heading_2",
-    heading_2: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
-
-  heading3: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "heading_3",
-    heading_3: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
-
-  paragraph: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "paragraph",
-    paragraph: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
-
-  bulletedListItem: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "bulleted_list_item",
-    bulleted_list_item: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
+interface ReconcileDailyGameplanParams {
+  date?: string;
+  dryRun?: boolean;
+}
 
-  numberedListItem: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "numbered_list_item",
-    numbered_list_item: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
-
-  divider: (): BlockObjectRequest => ({
-    object: "block",
-    type: "divider",
-    divider: {},
-  }),
-
-  callout: (text: string, emoji: string = "💡"): BlockObjectRequest => ({
-    object: "block",
-    type: "callout",
-    callout: {
-      rich_text: [{ type: "text", text: { content: text } }],
-      icon: { type: "emoji", emoji: emoji as "💡" },
-    },
-  }),
+interface CreateWeeklyReviewParams {
+  weekOf?: string;
+  summary?: string;
+  focus?: string[];
+  dryRun?: boolean;
+}
 
-  quote: (text: string): BlockObjectRequest => ({
-    object: "block",
-    type: "quote",
-    quote: {
-      rich_text: [{ type: "text", text: { content: text } }],
-    },
-  }),
-};
+interface CreateQuarterlyPlanParams {
+  quarter?: string;
+  summary?: string;
+  objectives?: QuarterlyObjective[];
+  lookbackDays?: number;
+  workStart?: string;
+  workEnd?: string;
+  dryRun?: boolean;
+}
 
 // ============================================================================
 // Helper Functions
@@ -148,7 +141,8 @@ const blockBuilders = {
  * Generate content blocks for daily gameplan
  */
 function buildGameplanContent(
-  params: CreateDailyGameplanParams
+  params: CreateDailyGameplanParams,
+  plan: DayPlan | null = null
 ): BlockObjectRequest[] {
   const blocks: BlockObjectRequest[] = [];
 
@@ -179,20 +173,75 @@ function buildGameplanContent(
     blocks.push(blockBuilders.divider());
   }
 
+  // Timeline section
+  if (plan && plan.blocks.length > 0) {
+    blocks.push(blockBuilders.heading2("Timeline"));
+    blocks.push(
+      blockBuilders.table([
+        ["Time", "Block", "Energy", "Why"],
+        ...plan.blocks.map((block) => [
+          formatBlockTime(block),
+          formatBlockTitle(block),
+          block.energyLabel ?? block.energyCategory ?? "",
+          block.reason,
+        ]),
+      ])
+    );
+
+    if (plan.unscheduled.length > 0) {
+      blocks.push(blockBuilders.heading3("Not Scheduled"));
+      for (const item of plan.unscheduled) {
+        blocks.push(
+          blockBuilders.bulletedListItem(
+            `${item.task.title} (${item.minutes} min): ${item.reason}`
+          )
+        );
+      }
+    }
+    blocks.push(blockBuilders.divider());
+  }
+
   // Priority Tasks section
   if (params.tasks && params.tasks.length > 0) {
     blocks.push(blockBuilders.heading2("Priority Tasks"));
 
     for (const task of params.tasks) {
-      let taskText = task.title;
+      // Tasks with an ID link to their page, so the end-of-day wrap-up can
+      // look them up
+      const taskText: RichTextItem[] = [
+        {
+          type: "text",
+          text: {
+            content: task.title,
+            link: task.taskId ? { url: taskPageUrl(task.taskId) } : null,
+          },
+        },
+      ];
       if (task.priority) {
-        taskText = `[${task.priority}] ${taskText}`;
+        taskText.unshift({
+          type: "text",
+          text: { content: `[${task.priority}] ` },
+        });
       }
-      if (task.recommendedWindow) {
-        taskText += ` → ${task.recommendedWindow}`;
+      // Scheduled times replace the free-text window, so the calendar
+      // export picks them up as time blocks
+      const scheduled = plan?.blocks.find(
+        (block) =>
+          block.kind === "task" &&
+          (task.taskId ? block.taskId === task.taskId : block.title === task.title)
+      );
+      const window = scheduled
+        ? formatBlockTime(scheduled)
+        : task.recommendedWindow;
+      let suffix = "";
+      if (window) {
+        suffix += ` → ${window}`;
       }
       if (task.projectName) {
-        taskText += ` (${task.projectName})`;
+        suffix += ` (${task.projectName})`;
+      }
+      if (suffix) {
+        taskText.push({ type: "text", text: { content: suffix } });
       }
       blocks.push(blockBuilders.bulletedListItem(taskText));
     }
@@ -240,6 +289,187 @@ function buildGameplanContent(
   return blocks;
 }
 
+function taskPageUrl(taskId: string): string {
+  return `https://www.notion.so/${compactId(taskId)}`;
+}
+
+/**
+ * 9:00 AM from an ISO timestamp's wall-clock time
+ */
+function formatClockTime(iso: string): string {
+  const [hours, minutes] = iso.slice(11, 16).split(":").map(Number);
+  const meridiem = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${meridiem}`;
+}
+
+function formatBlockTime(block: DayPlanBlock): string {
+  return `${formatClockTime(block.start)} - ${formatClockTime(block.end)}`;
+}
+
+function formatBlockTitle(block: DayPlanBlock): string {
+  const icons: Record<DayPlanBlock["kind"], string> = {
+    task: "✅",
+    meeting: "📅",
+    buffer: "⏸️",
+    break: "☕",
+  };
+  let title = `${icons[block.kind]} ${block.title}`;
+  if (block.priority) title += ` [${block.priority}]`;
+  if (block.projectName) title += ` (${block.projectName})`;
+  return title;
+}
+
+/**
+ * energy_events rows as scheduling energy windows
+ */
+function toEnergyWindows(
+  rows: Array<{
+    category: string;
+    label: string;
+    start_at: string;
+    end_at: string;
+  }>
+): EnergyWindow[] {
+  return rows.map((row) => ({
+    category: row.category,
+    label: row.label,
+    start: Date.parse(row.start_at),
+    end: Date.parse(row.end_at),
+  }));
+}
+
+/**
+ * gameplan_reviews rows as daily completion scores
+ */
+function toDailyScores(
+  rows: Array<{
+    day_date: string;
+    completion_score: number | string | null;
+    planned_count: number;
+    done_count: number;
+  }>
+): DailyScore[] {
+  // Postgres numeric columns come back as strings
+  return rows.map((row) => ({
+    date: row.day_date,
+    completionScore:
+      row.completion_score === null ? null : Number(row.completion_score),
+    planned: row.planned_count,
+    done: row.done_count,
+  }));
+}
+
+/**
+ * Inputs for the day planner: energy segments from energy_events, the
+ * day's meetings from Notion, and the candidate tasks (filled in from Notion when
+ * only a taskId is known). Energy and meetings are optional; a failure to
+ * load them is reported rather than thrown.
+ */
+async function loadDayPlanInputs(date: string, tasks: TaskInput[]) {
+  const errors: { energyError?: string; meetingsError?: string } = {};
+  const message = (error: unknown) =>
+    error instanceof Error ? error.message : "Unknown error occurred";
+
+  let energy: EnergyWindow[] = [];
+  try {
+    const schedule = await getEnergyScheduleForDate({
+      userId: APP_USER_ID,
+      dayDate: date,
+    });
+    energy = toEnergyWindows(schedule?.segments ?? []);
+  } catch (error) {
+    errors.energyError = message(error);
+  }
+
+  let meetings: BusyInterval[] = [];
+  try {
+    meetings = (await getBusyIntervals(date, date, APP_TIME_ZONE)).filter(
+      (meeting) => zonedDate(meeting.start, APP_TIME_ZONE) === date
+    );
+  } catch (error) {
+    errors.meetingsError = message(error);
+  }
+
+  const planTasks: DayPlanTask[] = await Promise.all(
+    tasks.map(async (task) => {
+      const base: DayPlanTask = {
+        taskId: task.taskId,
+        title: task.title,
+        priority: task.priority,
+        taskType: task.taskType,
+        estimateMinutes: task.estimateMinutes,
+        dueDate: task.dueDate,
+        projectName: task.projectName,
+      };
+      if (!task.taskId) return base;
+
+      try {
+        const stored = await getTask(task.taskId);
+        return {
+          ...base,
+          priority: task.priority ?? stored.priority,
+          taskType: task.taskType ?? stored.taskType,
+          timeEstimate: stored.timeEstimate,
+          dueDate: task.dueDate ?? stored.dueDate,
+          projectName: task.projectName ?? stored.projectTitle,
+        };
+      } catch {
+        return base;
+      }
+    })
+  );
+
+  return { energy, meetings, tasks: planTasks, ...errors };
+}
+
+/**
+ * Tasks carried over in the last wrap-up before a day that are still open
+ * and not already among the candidates, with the gameplan they came from
+ */
+async function loadCarryOverTasks(
+  date: string,
+  candidates: TaskInput[]
+): Promise<{ from: GameplanResponse | null; tasks: TaskInput[] }> {
+  const { gameplan, lines } = await getCarryOverTasks(date);
+  const carried: TaskInput[] = [];
+
+  for (const line of lines) {
+    const listed = [...candidates, ...carried].some((task) =>
+      line.taskId
+        ? task.taskId === line.taskId
+        : task.title.toLowerCase() === line.title.toLowerCase()
+    );
+    if (listed) continue;
+
+    if (!line.taskId) {
+      carried.push({ title: line.title });
+      continue;
+    }
+
+    try {
+      const task = await getTask(line.taskId);
+      if (
+        task.status === TaskStatus.DONE ||
+        task.status === TaskStatus.ARCHIVED
+      ) {
+        continue;
+      }
+      carried.push({
+        taskId: task.pageId,
+        title: task.title,
+        priority: task.priority ?? undefined,
+        dueDate: task.dueDate ?? undefined,
+        projectName: task.projectTitle ?? undefined,
+        taskType: task.taskType,
+      });
+    } catch {
+      carried.push({ taskId: line.taskId, title: line.title });
+    }
+  }
+
+  return { from: gameplan, tasks: carried };
+}
+
 /**
  * Format gameplan response for agent output
  */
@@ -314,6 +544,11 @@ const createDailyGameplanSchema: Schema = {
       items: {
         type: Type.OBJECT,
         properties: {
+          taskId: {
+            type: Type.STRING,
+            description:
+              "Notion page ID of the task; missing priority, task type and time estimate are read from it",
+          },
           title: { type: Type.STRING, description: "Task title" },
           priority: {
             type: Type.STRING,
@@ -328,15 +563,27 @@ const createDailyGameplanSchema: Schema = {
             type: Type.STRING,
             description: "Related project/brief name",
           },
+          taskType: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description:
+              "Task types (e.g., Development, Discovery, Communication); decide which energy window it needs",
+          },
+          estimateMinutes: {
+            type: Type.NUMBER,
+            description:
+              "Estimated minutes (default: the task's Time Estimates value, else 60)",
+          },
           recommendedWindow: {
             type: Type.STRING,
             description:
-              "Recommended energy window for this task (e.g., Morning Peak)",
+              "Recommended energy window, only used when schedule is false (e.g., Morning Peak)",
           },
         },
         required: ["title"],
       },
-      description: "Priority tasks for today, matched to energy windows",
+      description:
+        "Candidate tasks for today; the scheduler fits them into time blocks",
     },
     meetings: {
       type: Type.ARRAY,
@@ -387,6 +634,24 @@ const createDailyGameplanSchema: Schema = {
         GameplanCategory
       ).join(", ")}`,
     },
+    schedule: {
+      type: Type.BOOLEAN,
+      description:
+        "Time-block the tasks around today's meetings and energy segments (default: true)",
+    },
+    workStart: {
+      type: Type.STRING,
+      description: "Start of working hours (HH:MM, default: 09:00)",
+    },
+    workEnd: {
+      type: Type.STRING,
+      description: "End of working hours (HH:MM, default: 18:00)",
+    },
+    carryOver: {
+      type: Type.BOOLEAN,
+      description:
+        "Add open tasks carried over in the most recent wrap-up (default: true)",
+    },
   },
   required: ["summary"],
 };
@@ -394,17 +659,18 @@ const createDailyGameplanSchema: Schema = {
 export const createDailyGameplanTool = new FunctionTool({
   name: "create_daily_gameplan",
   description:
-    "Create a daily gameplan in Notion with a summary, energy timeline, priority tasks matched to energy windows, meetings, and product brief context. The gameplan provides a complete view of what needs to be done and why.",
+    "Create a daily gameplan in Notion with a summary, energy timeline, a time-blocked timeline, priority tasks, meetings, and product brief context. Open tasks carried over in the most recently reconciled gameplan's wrap-up are added to the candidates. Tasks are scheduled deterministically around today's meetings (from Notion) and energy segments (from WHOOP): deep work in peak, routine and communication in dip, review in groggy, wrap-up in wind-down, with buffers and breaks. Tasks that don't fit are returned with the reason.",
   parameters: createDailyGameplanSchema,
   execute: async (input) => {
-    const params = input as CreateDailyGameplanParams;
+    let params = input as CreateDailyGameplanParams;
 
     try {
-      const today = new Date().toISOString().split("T")[0];
-      const title = generateGameplanTitle(today);
+      // One calendar day in APP_TIME_ZONE for the title, lookup and plan
+      const date = zonedDate(Date.now(), APP_TIME_ZONE);
+      const title = generateGameplanTitle(date);
 
       // Check if a gameplan already exists for today
-      const existing = await getTodaysGameplan();
+      const existing = await getGameplanForDate(date);
       if (existing) {
         return {
           status: "exists",
@@ -413,8 +679,49 @@ export const createDailyGameplanTool = new FunctionTool({
         };
       }
 
+      // Seed from the last reconciled day's wrap-up, which is not always
+      // yesterday (weekends, skipped days)
+      let carriedOver: TaskInput[] = [];
+      let carriedOverFrom: GameplanResponse | null = null;
+      let carryOverError: string | undefined;
+      if (params.carryOver !== false) {
+        try {
+          const carry = await loadCarryOverTasks(date, params.tasks ?? []);
+          carriedOver = carry.tasks;
+          carriedOverFrom = carry.from;
+          params = {
+            ...params,
+            tasks: [...(params.tasks ?? []), ...carriedOver],
+          };
+        } catch (error) {
+          carryOverError =
+            error instanceof Error ? error.message : "Unknown error occurred";
+        }
+      }
+
+      // Time-block the day
+      let plan: DayPlan | null = null;
+      let scheduleNotes: Record<string, string> = {};
+      if (params.schedule !== false && (params.tasks?.length || 0) > 0) {
+        const { energy, meetings, tasks, ...errors } = await loadDayPlanInputs(
+          date,
+          params.tasks ?? []
+        );
+        plan = buildDayPlan({
+          date,
+          timeZone: APP_TIME_ZONE,
+          tasks,
+          meetings,
+          energy,
+          workStart: params.workStart,
+          workEnd: params.workEnd,
+          notBefore: Date.now(),
+        });
+        scheduleNotes = errors;
+      }
+
       // Build content blocks
-      const contentBlocks = buildGameplanContent(params);
+      const contentBlocks = buildGameplanContent(params, plan);
 
       // Validate and prepare categories
       const validCategories = params.category?.filter((cat) =>
@@ -438,7 +745,7 @@ export const createDailyGameplanTool = new FunctionTool({
 
       return {
         status: "success",
-        message: `Created daily gameplan for ${today}`,
+        message: `Created daily gameplan for ${date}`,
         gameplanId: result.pageId,
         notionUrl: result.url,
         title,
@@ -448,7 +755,41 @@ export const createDailyGameplanTool = new FunctionTool({
           tasks: (params.tasks?.length || 0) > 0,
           meetings: (params.meetings?.length || 0) > 0,
           productBriefs: (params.productBriefs?.length || 0) > 0,
+          timeline: Boolean(plan && plan.blocks.length > 0),
         },
+        ...(plan && {
+          schedule: {
+            scheduledMinutes: plan.scheduledMinutes,
+            freeMinutes: plan.freeMinutes,
+            blocks: plan.blocks.map((block) => ({
+              kind: block.kind,
+              title: block.title,
+              start: block.start,
+              end: block.end,
+              energy: block.energyCategory,
+              taskId: block.taskId,
+              reason: block.reason,
+            })),
+            unscheduled: plan.unscheduled.map((item) => ({
+              title: item.task.title,
+              taskId: item.task.taskId,
+              minutes: item.minutes,
+              reason: item.reason,
+            })),
+          },
+        }),
+        carriedOver: carriedOver.map((task) => ({
+          title: task.title,
+          taskId: task.taskId,
+        })),
+        ...(carriedOverFrom && {
+          carriedOverFrom: {
+            title: carriedOverFrom.title,
+            notionUrl: carriedOverFrom.url,
+          },
+        }),
+        ...scheduleNotes,
+        ...(carryOverError && { carryOverError }),
       };
     } catch (error) {
       const message =
@@ -484,7 +825,7 @@ export const getGameplanForDateTool = new FunctionTool({
   parameters: getGameplanForDateSchema,
   execute: async (input) => {
     const { date } = input as GetGameplanForDateParams;
-    const targetDate = date || new Date().toISOString().split("T")[0];
+    const targetDate = date || zonedDate(Date.now(), APP_TIME_ZONE);
 
     try {
       const gameplan = date
@@ -516,9 +857,439 @@ export const getGameplanForDateTool = new FunctionTool({
   },
 });
 
+// ============================================================================
+// Tool: Reconcile Daily Gameplan
+// ============================================================================
+
+const reconcileDailyGameplanSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    date: {
+      type: Type.STRING,
+      description:
+        "The gameplan date to reconcile (YYYY-MM-DD format). Omit for today.",
+    },
+    dryRun: {
+      type: Type.BOOLEAN,
+      description:
+        "Only report the comparison; don't append the wrap-up, archive the gameplan or store the score (default: false)",
+    },
+  },
+  required: [],
+};
+
+export const reconcileDailyGameplanTool = new FunctionTool({
+  name: "reconcile_daily_gameplan",
+  description:
+    "End-of-day wrap-up: check each planned task of a day's gameplan in Notion and classify it as done, slipped (still open) or dropped (archived), and list unplanned work: Done tasks edited that day that weren't in the plan (Notion has no completion date, so this counts tasks edited while Done). Writes a Wrap-up section to the gameplan (replacing the one from any earlier run), archives it, and stores the planned-vs-actual completion score. Slipped tasks are carried over into the next day's create_daily_gameplan.",
+  parameters: reconcileDailyGameplanSchema,
+  execute: async (input) => {
+    const { date, dryRun = false } = input as ReconcileDailyGameplanParams;
+    const targetDate = date || zonedDate(Date.now(), APP_TIME_ZONE);
+
+    try {
+      const result = await reconcileGameplan(targetDate, { dryRun });
+
+      // The score is kept for trends; a storage failure doesn't undo the
+      // wrap-up
+      let storageError: string | undefined;
+      if (!dryRun) {
+        try {
+          await upsertGameplanReview({
+            userId: APP_USER_ID,
+            dayDate: targetDate,
+            gameplanId: result.gameplan.pageId,
+            counts: result.counts,
+            completionScore: result.completionScore,
+            carryOverTaskIds: result.carryOver
+              .map((item) => item.taskId)
+              .filter((id): id is string => id !== null),
+          });
+        } catch (error) {
+          storageError =
+            error instanceof Error ? error.message : "Unknown error occurred";
+        }
+      }
+
+      const summarize = (item: (typeof result.planned)[number]) => ({
+        title: item.title,
+        taskId: item.taskId,
+        status: item.status,
+        window: item.window,
+        url: item.url,
+      });
+
+      return {
+        status: "success",
+        date: targetDate,
+        dryRun,
+        gameplan: formatGameplanForOutput(result.gameplan),
+        wrapUpWritten: result.written,
+        completionScore: result.completionScore,
+        counts: result.counts,
+        done: result.planned
+          .filter((item) => item.outcome === "done")
+          .map(summarize),
+        slipped: result.carryOver.map(summarize),
+        dropped: result.planned
+          .filter((item) => item.outcome === "dropped")
+          .map(summarize),
+        notFound: result.planned
+          .filter((item) => item.outcome === "missing")
+          .map((item) => item.title),
+        unplanned: result.unplanned.map((task) => ({
+          title: task.title,
+          taskId: task.pageId,
+          url: task.url,
+        })),
+        unplannedNote:
+          "Unplanned tasks are Done tasks edited on this date, not necessarily completed on it: Notion keeps no completion date.",
+        ...(storageError && { storageError }),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        date: targetDate,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Create Weekly Review
+// ============================================================================
+
+const createWeeklyReviewSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    weekOf: {
+      type: Type.STRING,
+      description:
+        "Any date in the week to review (YYYY-MM-DD); weeks run Monday to Sunday. Omit for the current week.",
+    },
+    summary: {
+      type: Type.STRING,
+      description:
+        "Reflection on the week vs. the yearly vision, shown at the top of the page (default: a generated one-line summary)",
+    },
+    focus: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Priorities for next week, listed at the end",
+    },
+    dryRun: {
+      type: Type.BOOLEAN,
+      description:
+        "Only return the review; don't write the page (default: false)",
+    },
+  },
+  required: [],
+};
+
+export const createWeeklyReviewTool = new FunctionTool({
+  name: "create_weekly_review",
+  description:
+    "Create a weekly review page (\"Weekly Review - Week of …\") in the Gameplans database from real data for a Monday-Sunday week: the week's daily gameplans with completion scores, tasks completed, planned tasks that slipped, meetings held, ideas captured and WHOOP energy averages. Returns the existing page if the week was already reviewed.",
+  parameters: createWeeklyReviewSchema,
+  execute: async (input) => {
+    const { weekOf, summary, focus, dryRun = false } =
+      input as CreateWeeklyReviewParams;
+    const { weekStart, weekEnd } = weekRange(
+      weekOf || zonedDate(Date.now(), APP_TIME_ZONE)
+    );
+
+    try {
+      const title = weeklyReviewTitle(weekStart);
+      const existing = await getGameplanByTitle(title, GameplanCategory.REVIEW);
+      if (existing && !dryRun) {
+        return {
+          status: "exists",
+          message: `A weekly review already exists for the week of ${weekStart}`,
+          gameplan: formatGameplanForOutput(existing),
+        };
+      }
+
+      // Energy and scores live in Supabase; the review works without them
+      const notes: { energyError?: string; scoresError?: string } = {};
+      let energy: EnergyWindow[] = [];
+      try {
+        energy = toEnergyWindows(
+          await getEnergyEventsForRange({
+            userId: APP_USER_ID,
+            startDate: weekStart,
+            endDate: weekEnd,
+          })
+        );
+      } catch (error) {
+        notes.energyError =
+          error instanceof Error ? error.message : "Unknown error occurred";
+      }
+
+      let scores: DailyScore[] = [];
+      try {
+        scores = toDailyScores(
+          await getGameplanReviews({
+            userId: APP_USER_ID,
+            startDate: weekStart,
+            endDate: weekEnd,
+          })
+        );
+      } catch (error) {
+        notes.scoresError =
+          error instanceof Error ? error.message : "Unknown error occurred";
+      }
+
+      const review = await buildWeeklyReview({
+        weekOf: weekStart,
+        timeZone: APP_TIME_ZONE,
+        energy,
+        scores,
+      });
+
+      let page: { pageId: string; url: string } | null = null;
+      if (!dryRun) {
+        page = await createGameplan({
+          title,
+          summary: summary || summarizeWeeklyReview(review),
+          status: GameplanStatus.DRAFT,
+          category: [GameplanCategory.REVIEW],
+          contentBlocks: weeklyReviewToBlocks(review, { summary, focus }),
+        });
+      }
+
+      return {
+        status: "success",
+        dryRun,
+        title,
+        weekStart,
+        weekEnd,
+        gameplanId: page?.pageId ?? null,
+        notionUrl: page?.url ?? null,
+        completion: review.completion,
+        gameplans: review.gameplans.map((gameplan) => ({
+          title: gameplan.title,
+          url: gameplan.url,
+          completionScore: gameplan.completionScore,
+        })),
+        completed: review.completed.map((task) => ({
+          title: task.title,
+          taskId: task.pageId,
+          project: task.projectTitle,
+        })),
+        slipped: review.slipped,
+        meetingsHeld: review.meetings.map((meeting) => ({
+          title: meeting.title,
+          eventTime: meeting.eventTime,
+        })),
+        ideasCaptured: review.ideas.map((idea) => ({
+          title: idea.title,
+          ideaId: idea.pageId,
+        })),
+        energy: review.energy,
+        ...notes,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        weekStart,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Create Quarterly Plan
+// ============================================================================
+
+const createQuarterlyPlanSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    quarter: {
+      type: Type.STRING,
+      description:
+        "Quarter to plan, YYYY-Qn (e.g. 2026-Q4). Omit for the current quarter.",
+    },
+    summary: {
+      type: Type.STRING,
+      description:
+        "How the quarter serves the yearly vision, shown at the top of the page (default: a generated summary with the capacity verdict)",
+    },
+    objectives: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "Objective" },
+          description: {
+            type: Type.STRING,
+            description: "Why it matters / vision link",
+          },
+          briefIds: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Notion page IDs of the briefs that deliver it",
+          },
+          keyResults: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Measurable results",
+          },
+        },
+        required: ["title"],
+      },
+      description:
+        "Quarterly objectives drafted from the yearly vision (default: one per brief in Planning or In Progress)",
+    },
+    lookbackDays: {
+      type: Type.NUMBER,
+      description:
+        "Days of recent gameplans the capacity estimate is based on (default: 28)",
+    },
+    workStart: {
+      type: Type.STRING,
+      description: "Start of working hours (HH:MM, default: 09:00)",
+    },
+    workEnd: {
+      type: Type.STRING,
+      description: "End of working hours (HH:MM, default: 18:00)",
+    },
+    dryRun: {
+      type: Type.BOOLEAN,
+      description: "Only return the plan; don't write the page (default: false)",
+    },
+  },
+  required: [],
+};
+
+export const createQuarterlyPlanTool = new FunctionTool({
+  name: "create_quarterly_plan",
+  description:
+    "Create a quarterly plan page (\"Quarterly Plan - Q4 2026\") in the Gameplans database: objectives with their briefs, milestones per active brief (open tasks due each month, brief end dates), and a capacity estimate comparing focus time left (working hours minus recent meeting load) with the estimated open brief work and recent task throughput. Links the daily gameplans the estimate is based on. Returns the existing page if the quarter was already planned.",
+  parameters: createQuarterlyPlanSchema,
+  execute: async (input) => {
+    const params = input as CreateQuarterlyPlanParams;
+    const { dryRun = false, lookbackDays = 28 } = params;
+
+    try {
+      const today = zonedDate(Date.now(), APP_TIME_ZONE);
+      const { quarter } = parseQuarter(params.quarter || quarterOf(today));
+      const title = quarterlyPlanTitle(quarter);
+
+      const existing = await getGameplanByTitle(
+        title,
+        GameplanCategory.PLANNING
+      );
+      if (existing && !dryRun) {
+        return {
+          status: "exists",
+          message: `A quarterly plan already exists for ${quarter}`,
+          gameplan: formatGameplanForOutput(existing),
+        };
+      }
+
+      // Throughput is best-effort; the plan works without scores
+      let scores: DailyScore[] = [];
+      let scoresError: string | undefined;
+      try {
+        scores = toDailyScores(
+          await getGameplanReviews({
+            userId: APP_USER_ID,
+            startDate: addDays(today, -lookbackDays),
+            endDate: today,
+          })
+        );
+      } catch (error) {
+        scoresError =
+          error instanceof Error ? error.message : "Unknown error occurred";
+      }
+
+      const plan = await buildQuarterlyPlan({
+        quarter,
+        timeZone: APP_TIME_ZONE,
+        objectives: params.objectives,
+        lookbackDays,
+        workStart: params.workStart,
+        workEnd: params.workEnd,
+        scores,
+      });
+
+      let page: { pageId: string; url: string } | null = null;
+      if (!dryRun) {
+        page = await createGameplan({
+          title,
+          summary:
+            params.summary ||
+            `${plan.objectives.length} objective(s), ${plan.briefs.length} brief(s). ${describeCapacity(plan.capacity)}`,
+          status: GameplanStatus.DRAFT,
+          category: [GameplanCategory.PLANNING],
+          contentBlocks: quarterlyPlanToBlocks(plan, {
+            summary: params.summary,
+          }),
+        });
+      }
+
+      return {
+        status: "success",
+        dryRun,
+        title,
+        quarter,
+        startDate: plan.startDate,
+        endDate: plan.endDate,
+        gameplanId: page?.pageId ?? null,
+        notionUrl: page?.url ?? null,
+        objectives: plan.objectives.map((objective) => ({
+          title: objective.title,
+          briefs: objective.briefs.map((brief) => brief.title),
+          keyResults: objective.keyResults ?? [],
+        })),
+        briefs: plan.briefs.map((briefPlan) => ({
+          briefId: briefPlan.brief.pageId,
+          title: briefPlan.brief.title,
+          openTasks: briefPlan.openTasks,
+          overdueTasks: briefPlan.overdueTasks,
+          estimatedMinutes: briefPlan.estimatedMinutes,
+          milestones: briefPlan.milestones.map((milestone) => ({
+            date: milestone.date,
+            title: milestone.title,
+            tasks: milestone.tasks.map((task) => task.title),
+          })),
+        })),
+        capacity: {
+          ...plan.capacity,
+          verdict: describeCapacity(plan.capacity),
+        },
+        sourceGameplans: plan.sourceGameplans.map((gameplan) => ({
+          title: gameplan.title,
+          url: gameplan.url,
+        })),
+        ...(scoresError && { scoresError }),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
 // ============================================================================
 // Export all tools
 // ============================================================================
 
-export const gameplansTools = [createDailyGameplanTool, getGameplanForDateTool];
+export const gameplansTools = [
+  createDailyGameplanTool,
+  getGameplanForDateTool,
+  reconcileDailyGameplanTool,
+  createWeeklyReviewTool,
+  createQuarterlyPlanTool,
+];
 
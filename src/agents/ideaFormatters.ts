@@ -0,0 +1,36 @@
+import type {
+  IdeaResponse,
+  IdeaDuplicateCandidate,
+} from "../services/notion/index.js";
+
+/**
+ * Idea Formatters
+ * Shared output shapes for tools that return ideas
+ */
+
+/**
+ * Format idea response for agent output
+ */
+export function formatIdeaForOutput(idea: IdeaResponse) {
+  return {
+    id: idea.pageId,
+    title: idea.title,
+    summary: idea.summary,
+    tags: idea.tags,
+    status: idea.status,
+    url: idea.url,
+    createdAt: idea.createdTime,
+    lastEdited: idea.lastEditedTime,
+  };
+}
+
+/**
+ * Format a duplicate candidate for agent output
+ */
+export function formatDuplicateCandidate(candidate: IdeaDuplicateCandidate) {
+  return {
+    ...formatIdeaForOutput(candidate.idea),
+    score: candidate.score,
+    reasons: candidate.reasons,
+  };
+}
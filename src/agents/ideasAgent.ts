@@ -8,9 +8,34 @@ import {
   getRecentIdeas,
   getIdeasByStatus,
   createProject,
+  findSimilarIdeas,
+  findDuplicateIdeaGroups,
+  mergeIdeas,
+  appendToIdea,
+  linkIdeas,
+  clusterIdeas,
+  normalizeIdeaResponse,
+  getRunningIdeaTimers,
+  startIdeaTimer,
+  stopIdeaTimer,
+  getIdeaTimeReport,
+  createGameplan,
+  getGameplanByTitle,
+  markdownToBlocks,
   type IdeaResponse,
+  type IdeaCluster,
+  type IdeaClusterTheme,
 } from "../services/notion/index.js";
 import {
+  getYearlyVisionThemes,
+  YEARLY_VISION_PAGE_ID,
+} from "./visionAgent.js";
+import {
+  formatIdeaForOutput,
+  formatDuplicateCandidate,
+} from "./ideaFormatters.js";
+import {
+  GameplanCategory,
   IdeaStatus,
   IdeaTags,
   IdeaStatus1,
@@ -18,16 +43,63 @@ import {
   type IdeaTagValue,
   type IdeaStatus1Value,
 } from "../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../config/userConfig.js";
+import { zonedDate, addDays } from "../services/scheduling/index.js";
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
+/**
+ * What to do when a capture looks like an existing idea
+ * - ask: create nothing, return the candidates
+ * - merge: append the text to an existing idea instead of creating one
+ * - link: create the idea and cross-link it to the best match
+ * - create: skip the duplicate check
+ */
+type DuplicateAction = "ask" | "merge" | "link" | "create";
+
 interface CaptureIdeaParams {
   rawText: string;
   tags?: string[];
   status?: string;
   autoElevateToBrief?: boolean;
+  onDuplicate?: DuplicateAction;
+  duplicateOfId?: string;
+}
+
+interface FindDuplicateIdeasParams {
+  threshold?: number;
+  scanLimit?: number;
+}
+
+interface MergeIdeasParams {
+  primaryId: string;
+  duplicateIds: string[];
+}
+
+interface ClusterIdeasParams {
+  days?: number;
+  status?: string;
+  tags?: string[];
+  scanLimit?: number;
+  minClusterSize?: number;
+  threshold?: number;
+  saveReport?: boolean;
+}
+
+interface StartIdeaTimerParams {
+  ideaId: string;
+  stopRunning?: boolean;
+}
+
+interface StopIdeaTimerParams {
+  ideaId?: string;
+}
+
+interface GetActiveTimersParams {
+  startDate?: string;
+  endDate?: string;
 }
 
 interface UpdateIdeaParams {
@@ -73,10 +145,132 @@ const captureIdeaSchema: Schema = {
       description:
         "If true, also create a Product Brief candidate from this idea",
     },
+    onDuplicate: {
+      type: Type.STRING,
+      enum: ["ask", "merge", "link", "create"],
+      description:
+        "When similar ideas exist: 'ask' (default) returns candidates without creating; 'merge' appends to an existing idea; 'link' creates and cross-links; 'create' skips the check",
+    },
+    duplicateOfId: {
+      type: Type.STRING,
+      description:
+        "Existing idea to merge into or link to (default: the best candidate)",
+    },
   },
   required: ["rawText"],
 };
 
+const findDuplicateIdeasSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    threshold: {
+      type: Type.NUMBER,
+      description:
+        "Similarity score (0-1) at which ideas are grouped. Defaults to 0.6",
+    },
+    scanLimit: {
+      type: Type.NUMBER,
+      description: "Only scan this many most recent ideas (default: 1000)",
+    },
+  },
+};
+
+const mergeIdeasSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    primaryId: {
+      type: Type.STRING,
+      description: "The idea to keep",
+    },
+    duplicateIds: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Ideas to fold into the primary (they are hidden, not deleted)",
+    },
+  },
+  required: ["primaryId", "duplicateIds"],
+};
+
+const clusterIdeasSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    days: {
+      type: Type.NUMBER,
+      description:
+        "Only include ideas captured in the last N days. Defaults to 30; 0 includes all",
+    },
+    status: {
+      type: Type.STRING,
+      description: `Only cluster ideas with this status. Valid values: ${Object.values(IdeaStatus).join(", ")}`,
+    },
+    tags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: `Only cluster ideas with these tags (AND logic). Valid values: ${Object.values(IdeaTags).join(", ")}`,
+    },
+    scanLimit: {
+      type: Type.NUMBER,
+      description: "Maximum number of recent ideas to read. Defaults to 200",
+    },
+    minClusterSize: {
+      type: Type.NUMBER,
+      description: "Smallest group reported as a cluster. Defaults to 2",
+    },
+    threshold: {
+      type: Type.NUMBER,
+      description:
+        "Similarity (0-1) needed to join a cluster. Lower gives fewer, broader clusters. Defaults to 0.2",
+    },
+    saveReport: {
+      type: Type.BOOLEAN,
+      description:
+        "Write the theme report to the Gameplans database (category Review). Defaults to true",
+    },
+  },
+};
+
+const startIdeaTimerSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ideaId: {
+      type: Type.STRING,
+      description: "The idea to start timing",
+    },
+    stopRunning: {
+      type: Type.BOOLEAN,
+      description:
+        "Stop any other running timer first. Defaults to false, which fails when another timer is running",
+    },
+  },
+  required: ["ideaId"],
+};
+
+const stopIdeaTimerSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ideaId: {
+      type: Type.STRING,
+      description:
+        "The idea to stop. Defaults to the running timer when exactly one is running",
+    },
+  },
+};
+
+const getActiveTimersSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    startDate: {
+      type: Type.STRING,
+      description:
+        "Start of the time-spent range (YYYY-MM-DD). Defaults to 6 days before endDate",
+    },
+    endDate: {
+      type: Type.STRING,
+      description: "End of the time-spent range (YYYY-MM-DD). Defaults to today",
+    },
+  },
+};
+
 const updateIdeaSchema: Schema = {
   type: Type.OBJECT,
   properties: {
@@ -180,19 +374,56 @@ function validateTags(tags: string[] | undefined): IdeaTagValue[] {
 }
 
 /**
- * Format idea response for agent output
+ * Render clusters as a Markdown theme report
  */
-function formatIdeaForOutput(idea: IdeaResponse) {
-  return {
-    id: idea.pageId,
-    title: idea.title,
-    summary: idea.summary,
-    tags: idea.tags,
-    status: idea.status,
-    url: idea.url,
-    createdAt: idea.createdTime,
-    lastEdited: idea.lastEditedTime,
-  };
+function buildIdeaThemeReport(
+  clusters: IdeaCluster[],
+  unclustered: IdeaResponse[],
+  themes: IdeaClusterTheme[],
+  scope: string
+): string {
+  const lines: string[] = [
+    "## Summary",
+    `- Scope: ${scope}`,
+    `- ${clusters.length} cluster(s), ${unclustered.length} unclustered idea(s)`,
+    "",
+    "## Clusters",
+  ];
+
+  if (clusters.length === 0) {
+    lines.push("No recurring themes found.");
+  }
+
+  for (const cluster of clusters) {
+    lines.push(
+      "",
+      `### ${cluster.rank}. ${cluster.name}`,
+      `- Ideas: ${cluster.ideas.length} · activity ${cluster.activityScore} · last ${cluster.lastActivity.split("T")[0]}`,
+      `- Keywords: ${cluster.keywords.join(", ") || "none"}`,
+      `- Vision theme: ${cluster.theme ? `${cluster.theme.title} [${cluster.theme.id}]` : "unmapped"}`
+    );
+    for (const idea of cluster.ideas) {
+      lines.push(`  - [${idea.title}](${idea.url})`);
+    }
+  }
+
+  const mapped = new Set(clusters.map((cluster) => cluster.theme?.id));
+  const quiet = themes.filter((theme) => !mapped.has(theme.id));
+  if (quiet.length > 0) {
+    lines.push("", "## Vision Themes Without Ideas");
+    for (const theme of quiet) {
+      lines.push(`- ${theme.title} [${theme.id}]`);
+    }
+  }
+
+  if (unclustered.length > 0) {
+    lines.push("", "## Unclustered");
+    for (const idea of unclustered) {
+      lines.push(`- [${idea.title}](${idea.url})`);
+    }
+  }
+
+  return lines.join("\n");
 }
 
 // ============================================================================
@@ -205,7 +436,7 @@ function formatIdeaForOutput(idea: IdeaResponse) {
 export const captureIdea = new FunctionTool({
   name: "capture_idea",
   description:
-    "Capture a raw idea in Notion's Idea Library. Can optionally tag, set status, and elevate to a Product Brief candidate.",
+    "Capture a raw idea in Notion's Idea Library. Checks for similar existing ideas first (see onDuplicate). Can optionally tag, set status, and elevate to a Product Brief candidate.",
   parameters: captureIdeaSchema,
   execute: async (input) => {
     const {
@@ -213,6 +444,8 @@ export const captureIdea = new FunctionTool({
       tags,
       status,
       autoElevateToBrief = false,
+      onDuplicate = "ask",
+      duplicateOfId,
     } = input as CaptureIdeaParams;
 
     try {
@@ -220,6 +453,43 @@ export const captureIdea = new FunctionTool({
       const validTags = validateTags(tags);
       const validStatus = validateStatus(status);
 
+      const candidates =
+        onDuplicate === "create"
+          ? []
+          : await findSimilarIdeas({ title, summary: rawText });
+      const duplicateOf = duplicateOfId || candidates[0]?.idea.pageId;
+
+      if (candidates.length > 0 && onDuplicate === "ask") {
+        return {
+          status: "duplicate_found",
+          message:
+            "Similar ideas already exist. Call again with onDuplicate 'merge', 'link' or 'create'.",
+          title,
+          candidates: candidates.map(formatDuplicateCandidate),
+        };
+      }
+
+      if (duplicateOf && onDuplicate === "merge") {
+        const date = zonedDate(Date.now(), APP_TIME_ZONE);
+        await appendToIdea(
+          duplicateOf,
+          [
+            `> [!NOTE] Captured again on ${date}`,
+            ">",
+            ...rawText.split("\n").map((line) => `> ${line}`),
+          ].join("\n")
+        );
+        const existing = await getIdea(duplicateOf);
+
+        return {
+          status: "success",
+          action: "merged",
+          ideaId: existing.pageId,
+          notionUrl: existing.url,
+          title: existing.title,
+        };
+      }
+
       // Create the idea in Notion
       const idea = await createIdea({
         title,
@@ -228,6 +498,12 @@ export const captureIdea = new FunctionTool({
         status: validStatus || IdeaStatus.BACKLOG,
       });
 
+      let linkedTo: string | null = null;
+      if (duplicateOf && onDuplicate === "link") {
+        await linkIdeas(idea.pageId, duplicateOf);
+        linkedTo = duplicateOf;
+      }
+
       let briefCandidate = null;
 
       // Optionally create a brief candidate
@@ -253,6 +529,8 @@ export const captureIdea = new FunctionTool({
         title,
         tags: validTags,
         ideaStatus: validStatus || IdeaStatus.BACKLOG,
+        action: "created",
+        linkedTo,
         briefCandidate,
       };
     } catch (error) {
@@ -326,13 +604,16 @@ export const queryIdeasTool = new FunctionTool({
       const validStatus = validateStatus(status);
       const validTags = validateTags(tags);
 
-      const pages = await queryIdeas({
-        status: validStatus,
-        tags: validTags.length > 0 ? validTags : undefined,
-        hidden: false, // Don't show hidden ideas
-      });
+      const pages = await queryIdeas(
+        {
+          status: validStatus,
+          tags: validTags.length > 0 ? validTags : undefined,
+          hidden: false, // Don't show hidden ideas
+        },
+        { maxResults: limit }
+      );
 
-      const ideas = pages.slice(0, limit).map((page) => {
+      const ideas = pages.map((page) => {
         const props = page.properties;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const getTitle = (p: any) => p?.title?.[0]?.plain_text || "";
@@ -438,6 +719,344 @@ export const getRecentIdeasTool = new FunctionTool({
   },
 });
 
+/**
+ * Scan the Idea Library for duplicates and propose merge groups
+ */
+export const findDuplicateIdeasTool = new FunctionTool({
+  name: "find_duplicate_ideas",
+  description:
+    "Scan the Idea Library for duplicate and near-duplicate ideas (same title, overlapping summary, same URL) and propose merge groups. Does not change anything; use merge_ideas to apply.",
+  parameters: findDuplicateIdeasSchema,
+  execute: async (input) => {
+    const { threshold, scanLimit } = input as FindDuplicateIdeasParams;
+
+    try {
+      const groups = await findDuplicateIdeaGroups({ threshold, scanLimit });
+
+      return {
+        status: "success",
+        groupCount: groups.length,
+        duplicateCount: groups.reduce(
+          (total, group) => total + group.duplicates.length,
+          0
+        ),
+        groups: groups.map((group) => ({
+          keep: formatIdeaForOutput(group.primary),
+          mergeIntoIt: group.duplicates.map(formatDuplicateCandidate),
+        })),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
+/**
+ * Merge duplicate ideas into one
+ */
+export const mergeIdeasTool = new FunctionTool({
+  name: "merge_ideas",
+  description:
+    "Merge duplicate ideas into a primary idea: copies each duplicate's summary onto the primary page with a link, then hides the duplicate (status Dump). Confirm with the user first.",
+  parameters: mergeIdeasSchema,
+  execute: async (input) => {
+    const { primaryId, duplicateIds } = input as MergeIdeasParams;
+
+    try {
+      const result = await mergeIdeas(primaryId, duplicateIds || []);
+
+      return {
+        status: "success",
+        primary: formatIdeaForOutput(result.primary),
+        mergedCount: result.merged.length,
+        merged: result.merged.map(formatIdeaForOutput),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        primaryId,
+      };
+    }
+  },
+});
+
+/**
+ * Cluster ideas into named themes and write a weekly report
+ */
+export const clusterIdeasTool = new FunctionTool({
+  name: "cluster_ideas",
+  description:
+    "Group recent ideas into themes by tags and text similarity, name and rank each cluster by recency and volume, and map it to a yearly vision section. Saves the report as a Review page in the Gameplans database unless saveReport is false; a report already saved today is returned instead of a second one (reportExists).",
+  parameters: clusterIdeasSchema,
+  execute: async (input) => {
+    const {
+      days = 30,
+      status,
+      tags,
+      scanLimit = 200,
+      minClusterSize = 2,
+      threshold,
+      saveReport = true,
+    } = input as ClusterIdeasParams;
+
+    try {
+      const validStatus = validateStatus(status);
+      const validTags = validateTags(tags);
+
+      const pages = await queryIdeas(
+        {
+          status: validStatus,
+          tags: validTags.length > 0 ? validTags : undefined,
+          hidden: false,
+        },
+        { maxResults: scanLimit }
+      );
+
+      const since =
+        days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null;
+      const ideas = pages
+        .map(normalizeIdeaResponse)
+        .filter((idea) => !since || new Date(idea.createdTime) >= since);
+
+      // The report is still useful without the vision mapping
+      let themes: IdeaClusterTheme[] = [];
+      let visionError: string | undefined;
+      try {
+        themes = await getYearlyVisionThemes();
+      } catch (error) {
+        visionError =
+          error instanceof Error ? error.message : "Unknown error occurred";
+      }
+
+      const { clusters, unclustered } = clusterIdeas(ideas, {
+        threshold,
+        minSize: minClusterSize,
+        themes,
+      });
+
+      const scope = [
+        since ? `ideas from the last ${days} days` : "all ideas",
+        validStatus && `status ${validStatus}`,
+        validTags.length > 0 && `tags ${validTags.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join(", ");
+
+      let report: { pageId: string; url: string } | null = null;
+      let reportExists = false;
+      if (saveReport && ideas.length > 0) {
+        const today = zonedDate(Date.now(), APP_TIME_ZONE);
+        const title = `Idea Themes — ${today}`;
+        const existing = await getGameplanByTitle(
+          title,
+          GameplanCategory.REVIEW
+        );
+        if (existing) {
+          report = { pageId: existing.pageId, url: existing.url };
+          reportExists = true;
+        } else {
+          const markdown = buildIdeaThemeReport(
+            clusters,
+            unclustered,
+            themes,
+            scope
+          );
+          report = await createGameplan({
+            title,
+            summary: `${clusters.length} idea cluster(s) across ${ideas.length} idea(s); top: ${clusters
+              .slice(0, 3)
+              .map((cluster) => cluster.name)
+              .join("; ") || "none"}`,
+            category: [GameplanCategory.REVIEW],
+            contentBlocks: markdownToBlocks(markdown),
+          });
+        }
+      }
+
+      return {
+        status: "success",
+        scope,
+        ideaCount: ideas.length,
+        clusterCount: clusters.length,
+        clusters: clusters.map((cluster) => ({
+          rank: cluster.rank,
+          name: cluster.name,
+          keywords: cluster.keywords,
+          tags: cluster.tags,
+          size: cluster.ideas.length,
+          activityScore: cluster.activityScore,
+          lastActivity: cluster.lastActivity,
+          visionTheme: cluster.theme,
+          ideas: cluster.ideas.map((idea) => ({
+            id: idea.pageId,
+            title: idea.title,
+            url: idea.url,
+          })),
+        })),
+        unclusteredCount: unclustered.length,
+        visionPageId: YEARLY_VISION_PAGE_ID,
+        ...(visionError && { visionError }),
+        report,
+        reportExists,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
+/**
+ * Format a timer session for agent output
+ */
+function formatTimerSession(
+  idea: IdeaResponse,
+  session: { start: string; end: string; minutes: number }
+) {
+  return {
+    ideaId: idea.pageId,
+    title: idea.title,
+    start: session.start,
+    end: session.end,
+    minutes: session.minutes,
+  };
+}
+
+/**
+ * Start timing work on an idea
+ */
+export const startIdeaTimerTool = new FunctionTool({
+  name: "start_idea_timer",
+  description:
+    "Start the timer on an idea (sets Start Time and Timer Status to Running). Only one timer can run at a time; pass stopRunning to stop the current one first.",
+  parameters: startIdeaTimerSchema,
+  execute: async (input) => {
+    const { ideaId, stopRunning } = input as StartIdeaTimerParams;
+
+    try {
+      const result = await startIdeaTimer(ideaId, { stopRunning });
+
+      return {
+        status: "success",
+        idea: formatIdeaForOutput(result.idea),
+        startedAt: result.idea.startTime,
+        alreadyRunning: result.alreadyRunning,
+        stopped: result.stopped.map(({ idea, session }) =>
+          formatTimerSession(idea, session)
+        ),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        ideaId,
+      };
+    }
+  },
+});
+
+/**
+ * Stop timing work on an idea
+ */
+export const stopIdeaTimerTool = new FunctionTool({
+  name: "stop_idea_timer",
+  description:
+    "Stop a running idea timer: sets End Time and Timer Status to Stopped and logs the session on the idea page.",
+  parameters: stopIdeaTimerSchema,
+  execute: async (input) => {
+    const { ideaId } = input as StopIdeaTimerParams;
+
+    try {
+      let targetId = ideaId;
+      if (!targetId) {
+        const running = await getRunningIdeaTimers();
+        if (running.length !== 1) {
+          return {
+            status: running.length === 0 ? "not_found" : "error",
+            error:
+              running.length === 0
+                ? "No idea timer is running"
+                : "Several timers are running; pass ideaId",
+            running: running.map(formatIdeaForOutput),
+          };
+        }
+        targetId = running[0].pageId;
+      }
+
+      const { idea, session } = await stopIdeaTimer(targetId);
+
+      return {
+        status: "success",
+        session: formatTimerSession(idea, session),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        ideaId,
+      };
+    }
+  },
+});
+
+/**
+ * Running timers plus time spent per idea and tag
+ */
+export const getActiveTimersTool = new FunctionTool({
+  name: "get_active_timers",
+  description:
+    "List running idea timers and total time spent per idea and per tag over a date range (default: the last 7 days, in the app time zone).",
+  parameters: getActiveTimersSchema,
+  execute: async (input) => {
+    const today = zonedDate(Date.now(), APP_TIME_ZONE);
+    const { startDate, endDate = today } = input as GetActiveTimersParams;
+
+    try {
+      const now = new Date();
+      const rangeStart = startDate ?? addDays(endDate, -6);
+      const [running, report] = await Promise.all([
+        getRunningIdeaTimers(),
+        getIdeaTimeReport(rangeStart, endDate, { now, timeZone: APP_TIME_ZONE }),
+      ]);
+
+      return {
+        status: "success",
+        running: running.map((idea) => ({
+          ...formatIdeaForOutput(idea),
+          startedAt: idea.startTime,
+          elapsedMinutes: idea.startTime
+            ? Math.round((now.getTime() - Date.parse(idea.startTime)) / 60000)
+            : null,
+        })),
+        timeSpent: report,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
 // ============================================================================
 // Export all tools
 // ============================================================================
@@ -448,4 +1067,10 @@ export const ideasTools = [
   queryIdeasTool,
   getIdeaTool,
   getRecentIdeasTool,
+  findDuplicateIdeasTool,
+  mergeIdeasTool,
+  clusterIdeasTool,
+  startIdeaTimerTool,
+  stopIdeaTimerTool,
+  getActiveTimersTool,
 ];
@@ -6,8 +6,42 @@ import {
   queryMeetingsByDateRange,
   normalizeMeetingResponse,
   getTodaysMeetings,
-  getUpcomingMeetings,
+  getMeeting,
+  updateMeeting,
+  cancelMeeting,
+  buildMeetingPrep,
+  writeMeetingPrep,
+  processMeetingNotes,
+  type MeetingPrepPacket,
 } from "../services/notion/index.js";
+import {
+  findMeetingConflicts,
+  findFreeSlots,
+  getBusyIntervals,
+  eachDate,
+  addDays,
+  parseEventTime,
+  toZonedIso,
+  zonedDate,
+  DEFAULT_SERIES_HORIZON_DAYS,
+  describeSeries,
+  createMeetingSeries,
+  findSeriesConflicts,
+  extendMeetingSeries,
+  projectSeriesMeetings,
+  updateMeetingSeries,
+  cancelMeetingSeries,
+  skipSeriesOccurrence,
+  type EnergyWindow,
+  type SlotPurpose,
+  type MeetingSeriesResult,
+} from "../services/scheduling/index.js";
+import {
+  importIcsIntoMeetings,
+  fetchIcsFeed,
+} from "../services/calendar/index.js";
+import { getEnergyScheduleForDate } from "../app/api/_lib/storage/energyStorage.js";
+import { APP_TIME_ZONE, APP_USER_ID } from "../config/userConfig.js";
 
 // ============================================================================
 // Query Meetings for a Day
@@ -129,32 +163,46 @@ const upcomingMeetingsSchema: Schema = {
 export const getUpcomingMeetingsTool = new FunctionTool({
   name: "get_upcoming_meetings",
   description:
-    "Get meetings scheduled for the upcoming days. Useful for weekly planning.",
+    "Get meetings scheduled for the upcoming days. Useful for weekly planning. Each occurrence of a recurring series reports its seriesId and recurrence rule; occurrences whose page hasn't been created yet are marked projected and have no meetingId.",
   parameters: upcomingMeetingsSchema,
   execute: async (input) => {
     const { days = 7 } = input as UpcomingMeetingsParams;
     const limitedDays = Math.min(days, 30);
 
     try {
-      const meetings = await getUpcomingMeetings(limitedDays);
-
-      const today = new Date();
-      const endDate = new Date(today);
-      endDate.setDate(endDate.getDate() + limitedDays);
+      const startDate = zonedDate(Date.now(), APP_TIME_ZONE);
+      const endDate = addDays(startDate, limitedDays);
+      // Series occurrences past their last page are expanded in memory
+      const [pages, projected] = await Promise.all([
+        queryMeetingsByDateRange(startDate, endDate),
+        projectSeriesMeetings(startDate, endDate),
+      ]);
+      const meetings = [
+        ...pages.map((page) => ({
+          meeting: normalizeMeetingResponse(page),
+          projected: false,
+        })),
+        ...projected.map((meeting) => ({ meeting, projected: true })),
+      ].sort((a, b) =>
+        (a.meeting.eventTime ?? "").localeCompare(b.meeting.eventTime ?? "")
+      );
 
       return {
         status: "success",
-        startDate: today.toISOString().split("T")[0],
-        endDate: endDate.toISOString().split("T")[0],
+        startDate,
+        endDate,
         days: limitedDays,
         count: meetings.length,
-        meetings: meetings.map((m) => ({
-          meetingId: m.pageId,
-          notionUrl: m.url,
+        meetings: meetings.map(({ meeting: m, projected }) => ({
+          meetingId: projected ? null : m.pageId,
+          notionUrl: projected ? null : m.url,
+          projected,
           title: m.title,
           eventTime: m.eventTime,
           eventTimeEnd: m.eventTimeEnd,
           attendeeIds: m.attendeeIds,
+          seriesId: m.seriesId,
+          recurrence: describeSeries(m.recurrence),
         })),
       };
     } catch (error) {
@@ -239,6 +287,10 @@ type CreateMeetingParams = {
   eventTime: string;
   eventTimeEnd?: string;
   attendeeIds?: string[];
+  allowConflicts?: boolean;
+  rrule?: string;
+  exceptions?: string[];
+  horizonDays?: number;
 };
 
 const createMeetingSchema: Schema = {
@@ -259,19 +311,126 @@ const createMeetingSchema: Schema = {
       items: { type: Type.STRING },
       description: "Array of Notion user IDs for attendees (optional)",
     },
+    allowConflicts: {
+      type: Type.BOOLEAN,
+      description:
+        "Create the meeting even if it overlaps existing meetings (default: false)",
+    },
+    rrule: {
+      type: Type.STRING,
+      description:
+        "Make it a recurring series (RFC 5545 RRULE, optional). FREQ=DAILY, WEEKLY or MONTHLY with INTERVAL, BYDAY (MO,WE or 1MO/-1FR for monthly), BYMONTHDAY, COUNT or UNTIL, e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12. eventTime is the first occurrence",
+    },
+    exceptions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description:
+        "Dates (YYYY-MM-DD) a recurring series skips (optional)",
+    },
+    horizonDays: {
+      type: Type.NUMBER,
+      description: `Days ahead to create occurrences of a recurring series (default: ${DEFAULT_SERIES_HORIZON_DAYS}); extend_meeting_series adds later ones`,
+    },
   },
   required: ["title", "eventTime"],
 };
 
+/**
+ * Format a series result for agent output
+ */
+function formatSeriesResult(result: MeetingSeriesResult) {
+  const count = (outcome: string) =>
+    result.occurrences.filter((item) => item.outcome === outcome).length;
+
+  return {
+    seriesId: result.seriesId,
+    title: result.title,
+    recurrence: result.description,
+    horizonDate: result.horizonDate,
+    counts: {
+      created: count("created"),
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      canceled: count("canceled"),
+    },
+    occurrences: result.occurrences.map((item) => ({
+      date: item.date,
+      eventTime: item.start,
+      eventTimeEnd: item.end,
+      outcome: item.outcome,
+      meetingId: item.meetingId,
+      notionUrl: item.url,
+    })),
+  };
+}
+
 export const scheduleMeeting = new FunctionTool({
   name: "schedule_meeting",
-  description: "Create a new meeting in the Notion Meetings database.",
+  description:
+    "Create a new meeting in the Notion Meetings database. Checks the calendar first and returns status 'conflict' with the overlapping meetings instead of creating, unless allowConflicts is true. Pass rrule to create a recurring series: one page per occurrence over the next few weeks, sharing a seriesId.",
   parameters: createMeetingSchema,
   execute: async (input) => {
-    const { title, eventTime, eventTimeEnd, attendeeIds } =
-      input as CreateMeetingParams;
+    const {
+      title,
+      eventTime,
+      eventTimeEnd,
+      attendeeIds,
+      allowConflicts,
+      rrule,
+      exceptions,
+      horizonDays,
+    } = input as CreateMeetingParams;
 
     try {
+      if (rrule) {
+        const seriesInput = {
+          title,
+          eventTime,
+          eventTimeEnd,
+          attendeeIds,
+          rrule,
+          exceptions,
+        };
+        const options = { timeZone: APP_TIME_ZONE, horizonDays };
+
+        const plan = await createMeetingSeries(seriesInput, {
+          ...options,
+          dryRun: true,
+        });
+        const conflicts = await findSeriesConflicts(plan.occurrences, {
+          timeZone: APP_TIME_ZONE,
+        });
+
+        if (conflicts.length > 0 && !allowConflicts) {
+          return {
+            status: "conflict",
+            message: `${conflicts.length} occurrence(s) of "${title}" overlap existing meetings. Nothing was created; pick another time, add the dates as exceptions, or confirm to book anyway with allowConflicts.`,
+            recurrence: plan.description,
+            conflicts,
+          };
+        }
+
+        const series = await createMeetingSeries(seriesInput, options);
+        return {
+          status: "success",
+          ...formatSeriesResult(series),
+          attendeeIds: attendeeIds || [],
+          conflicts,
+        };
+      }
+
+      const conflicts = await findMeetingConflicts(eventTime, eventTimeEnd, {
+        timeZone: APP_TIME_ZONE,
+      });
+
+      if (conflicts.length > 0 && !allowConflicts) {
+        return {
+          status: "conflict",
+          message: `"${title}" overlaps ${conflicts.length} existing meeting(s). Nothing was created; pick another time (see find_free_slots) or confirm to book anyway with allowConflicts.`,
+          conflicts,
+        };
+      }
+
       const meeting = await createMeeting({
         title,
         eventTime,
@@ -287,6 +446,885 @@ export const scheduleMeeting = new FunctionTool({
         eventTime,
         eventTimeEnd: eventTimeEnd || null,
         attendeeIds: attendeeIds || [],
+        conflicts,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Reschedule and Cancel Meetings
+// ============================================================================
+
+type RescheduleMeetingParams = {
+  meetingId: string;
+  eventTime: string;
+  eventTimeEnd?: string;
+  reason?: string;
+  allowConflicts?: boolean;
+};
+
+type CancelMeetingParams = {
+  meetingId: string;
+  reason?: string;
+};
+
+const rescheduleMeetingSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    meetingId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the meeting",
+    },
+    eventTime: {
+      type: Type.STRING,
+      description:
+        "New start date and time (ISO format, e.g., 2025-01-15T10:00:00)",
+    },
+    eventTimeEnd: {
+      type: Type.STRING,
+      description:
+        "New end date and time (ISO format, optional; defaults to keeping the current duration)",
+    },
+    reason: {
+      type: Type.STRING,
+      description: "Why the meeting moved, recorded on the page (optional)",
+    },
+    allowConflicts: {
+      type: Type.BOOLEAN,
+      description:
+        "Move the meeting even if the new time overlaps other meetings (default: false)",
+    },
+  },
+  required: ["meetingId", "eventTime"],
+};
+
+const cancelMeetingSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    meetingId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the meeting",
+    },
+    reason: {
+      type: Type.STRING,
+      description: "Why the meeting was canceled, recorded on the page (optional)",
+    },
+  },
+  required: ["meetingId"],
+};
+
+/**
+ * End time that keeps a meeting's current duration at a new start; null
+ * when either time is all-day or the meeting had no end
+ */
+function shiftedEventTimeEnd(
+  current: { eventTime: string | null; eventTimeEnd: string | null },
+  eventTime: string
+): string | null {
+  if (!current.eventTime || !current.eventTimeEnd) return null;
+
+  const start = parseEventTime(current.eventTime, APP_TIME_ZONE);
+  const end = parseEventTime(current.eventTimeEnd, APP_TIME_ZONE);
+  const newStart = parseEventTime(eventTime, APP_TIME_ZONE);
+  if (start === null || end === null || newStart === null || end <= start) {
+    return null;
+  }
+
+  return toZonedIso(newStart + (end - start), APP_TIME_ZONE);
+}
+
+export const rescheduleMeetingTool = new FunctionTool({
+  name: "reschedule_meeting",
+  description:
+    "Move a meeting to a new time. Runs the same conflict check as schedule_meeting and returns status 'conflict' with the overlapping meetings instead of moving it, unless allowConflicts is true. Keeps the current duration when no end time is given, and records the old time on the meeting page.",
+  parameters: rescheduleMeetingSchema,
+  execute: async (input) => {
+    const { meetingId, eventTime, eventTimeEnd, reason, allowConflicts } =
+      input as RescheduleMeetingParams;
+
+    try {
+      const current = await getMeeting(meetingId);
+      const newEnd = eventTimeEnd ?? shiftedEventTimeEnd(current, eventTime);
+
+      const conflicts = await findMeetingConflicts(
+        eventTime,
+        newEnd ?? undefined,
+        { timeZone: APP_TIME_ZONE, ignoreMeetingIds: [meetingId] }
+      );
+
+      if (conflicts.length > 0 && !allowConflicts) {
+        return {
+          status: "conflict",
+          message: `Moving "${current.title}" would overlap ${conflicts.length} meeting(s). Nothing was changed; pick another time (see find_free_slots) or confirm to move it anyway with allowConflicts.`,
+          conflicts,
+        };
+      }
+
+      const meeting = await updateMeeting(
+        { pageId: meetingId, eventTime, eventTimeEnd: newEnd },
+        { reason }
+      );
+
+      return {
+        status: "success",
+        meetingId: meeting.pageId,
+        notionUrl: meeting.url,
+        title: meeting.title,
+        previousEventTime: current.eventTime,
+        previousEventTimeEnd: current.eventTimeEnd,
+        eventTime: meeting.eventTime,
+        eventTimeEnd: meeting.eventTimeEnd,
+        conflicts,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        meetingId,
+      };
+    }
+  },
+});
+
+export const cancelMeetingTool = new FunctionTool({
+  name: "cancel_meeting",
+  description:
+    "Cancel a meeting: records the cancellation (and reason) on the meeting page and sets its Status to Canceled, so it no longer shows up in the calendar, conflict checks or free slots. The page is kept, so a later calendar import won't recreate it. For an occurrence of a recurring series only that date is canceled; use cancel_meeting_series to end the series.",
+  parameters: cancelMeetingSchema,
+  execute: async (input) => {
+    const { meetingId, reason } = input as CancelMeetingParams;
+
+    try {
+      const current = await getMeeting(meetingId);
+      if (current.seriesId) {
+        await skipSeriesOccurrence(meetingId, { reason });
+      } else {
+        await cancelMeeting(meetingId, { reason });
+      }
+
+      return {
+        status: "success",
+        meetingId: current.pageId,
+        notionUrl: current.url,
+        title: current.title,
+        eventTime: current.eventTime,
+        eventTimeEnd: current.eventTimeEnd,
+        seriesId: current.seriesId,
+        reason: reason || null,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        meetingId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Recurring Meeting Series
+// ============================================================================
+
+type UpdateMeetingSeriesParams = {
+  seriesId: string;
+  title?: string;
+  attendeeIds?: string[];
+  startTime?: string;
+  durationMinutes?: number;
+  rrule?: string;
+  exceptions?: string[];
+  fromDate?: string;
+  reason?: string;
+};
+
+type ExtendMeetingSeriesParams = {
+  seriesId?: string;
+};
+
+type CancelMeetingSeriesParams = {
+  seriesId: string;
+  fromDate?: string;
+  reason?: string;
+};
+
+const updateMeetingSeriesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    seriesId: {
+      type: Type.STRING,
+      description: "The seriesId shared by the occurrences",
+    },
+    title: { type: Type.STRING, description: "New title (optional)" },
+    attendeeIds: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Replacement list of Notion user IDs (optional)",
+    },
+    startTime: {
+      type: Type.STRING,
+      description: "New start time of day, HH:MM (optional)",
+    },
+    durationMinutes: {
+      type: Type.NUMBER,
+      description: "New length in minutes (optional)",
+    },
+    rrule: {
+      type: Type.STRING,
+      description:
+        "Replacement RRULE, e.g. FREQ=WEEKLY;BYDAY=TU,TH (optional). COUNT still counts from the first occurrence",
+    },
+    exceptions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Extra dates (YYYY-MM-DD) to skip (optional)",
+    },
+    fromDate: {
+      type: Type.STRING,
+      description:
+        "First date the changes apply to, YYYY-MM-DD (default: today); earlier occurrences are left as they were",
+    },
+    reason: {
+      type: Type.STRING,
+      description: "Why the series changed, recorded on moved or canceled pages (optional)",
+    },
+  },
+  required: ["seriesId"],
+};
+
+const extendMeetingSeriesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    seriesId: {
+      type: Type.STRING,
+      description: "Extend only this series (default: every series)",
+    },
+  },
+  required: [],
+};
+
+const cancelMeetingSeriesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    seriesId: {
+      type: Type.STRING,
+      description: "The seriesId shared by the occurrences",
+    },
+    fromDate: {
+      type: Type.STRING,
+      description:
+        "Cancel occurrences on or after this date, YYYY-MM-DD (default: today)",
+    },
+    reason: {
+      type: Type.STRING,
+      description: "Why the series ended, recorded on each page (optional)",
+    },
+  },
+  required: ["seriesId"],
+};
+
+export const updateMeetingSeriesTool = new FunctionTool({
+  name: "update_meeting_series",
+  description:
+    "Edit every occurrence of a recurring meeting from a date onwards: title, attendees, start time, duration, recurrence rule or skipped dates. Occurrences the new rule no longer includes are canceled and new dates are created. Occurrences that were moved to another day on their own are treated as not matching the rule.",
+  parameters: updateMeetingSeriesSchema,
+  execute: async (input) => {
+    const { seriesId, fromDate, reason, ...changes } =
+      input as UpdateMeetingSeriesParams;
+
+    try {
+      const result = await updateMeetingSeries(seriesId, changes, {
+        fromDate,
+        reason,
+      });
+
+      return {
+        status: "success",
+        fromDate: fromDate || null,
+        ...formatSeriesResult(result),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        seriesId,
+      };
+    }
+  },
+});
+
+export const extendMeetingSeriesTool = new FunctionTool({
+  name: "extend_meeting_series",
+  description: `Create the pages of recurring meeting occurrences up to ${DEFAULT_SERIES_HORIZON_DAYS} days ahead, so they can hold prep packets and notes. Calendar reads already include later occurrences without pages.`,
+  parameters: extendMeetingSeriesSchema,
+  execute: async (input) => {
+    const { seriesId } = input as ExtendMeetingSeriesParams;
+
+    try {
+      const results = await extendMeetingSeries({ seriesId });
+
+      return {
+        status: "success",
+        count: results.length,
+        series: results.map(formatSeriesResult),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        seriesId: seriesId || null,
+      };
+    }
+  },
+});
+
+export const cancelMeetingSeriesTool = new FunctionTool({
+  name: "cancel_meeting_series",
+  description:
+    "End a recurring meeting: cancels every occurrence on or after fromDate (default today) and stops the series from being extended. Earlier occurrences are kept.",
+  parameters: cancelMeetingSeriesSchema,
+  execute: async (input) => {
+    const { seriesId, fromDate, reason } = input as CancelMeetingSeriesParams;
+
+    try {
+      const result = await cancelMeetingSeries(seriesId, { fromDate, reason });
+
+      return {
+        status: "success",
+        reason: reason || null,
+        ...formatSeriesResult(result),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        seriesId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Find Free Slots
+// ============================================================================
+
+type FindFreeSlotsParams = {
+  durationMinutes: number;
+  startDate?: string;
+  endDate?: string;
+  workStart?: string;
+  workEnd?: string;
+  energyPreference?: string;
+  purpose?: SlotPurpose;
+  includeWeekends?: boolean;
+  limit?: number;
+};
+
+const findFreeSlotsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    durationMinutes: {
+      type: Type.NUMBER,
+      description: "Length of the slot in minutes",
+    },
+    startDate: {
+      type: Type.STRING,
+      description: "First day to search (YYYY-MM-DD, default: today)",
+    },
+    endDate: {
+      type: Type.STRING,
+      description:
+        "Last day to search (YYYY-MM-DD, default: 6 days after startDate)",
+    },
+    workStart: {
+      type: Type.STRING,
+      description: "Start of working hours (HH:MM, default: 09:00)",
+    },
+    workEnd: {
+      type: Type.STRING,
+      description: "End of working hours (HH:MM, default: 17:00)",
+    },
+    energyPreference: {
+      type: Type.STRING,
+      enum: ["peak", "dip", "groggy"],
+      description:
+        "Energy segment to favour. Defaults to peak for deep work and none for meetings",
+    },
+    purpose: {
+      type: Type.STRING,
+      enum: ["meeting", "deep_work"],
+      description:
+        "'meeting' (default) keeps peak blocks free; 'deep_work' looks for peak blocks",
+    },
+    includeWeekends: {
+      type: Type.BOOLEAN,
+      description: "Also search Saturdays and Sundays (default: false)",
+    },
+    limit: {
+      type: Type.NUMBER,
+      description: "Maximum number of slots to return (default: 5)",
+    },
+  },
+  required: ["durationMinutes"],
+};
+
+/**
+ * Energy segments for each date that has them; days without WHOOP data
+ * are simply left out
+ */
+async function loadEnergyWindows(dates: string[]): Promise<EnergyWindow[]> {
+  const schedules = await Promise.all(
+    dates.map((dayDate) =>
+      getEnergyScheduleForDate({ userId: APP_USER_ID, dayDate })
+    )
+  );
+
+  return schedules
+    .filter(Boolean)
+    .flatMap((schedule) => schedule.segments)
+    .map((segment) => ({
+      category: segment.category,
+      label: segment.label,
+      start: Date.parse(segment.start_at),
+      end: Date.parse(segment.end_at),
+    }));
+}
+
+export const findFreeSlotsTool = new FunctionTool({
+  name: "find_free_slots",
+  description:
+    "Find ranked open windows of a given length within working hours, avoiding existing meetings and melatonin/wind-down energy segments. Meetings keep peak energy blocks free for deep work; use purpose 'deep_work' to find those blocks instead.",
+  parameters: findFreeSlotsSchema,
+  execute: async (input) => {
+    const params = input as FindFreeSlotsParams;
+    const startDate = params.startDate || zonedDate(Date.now(), APP_TIME_ZONE);
+
+    try {
+      const endDate = params.endDate || addDays(startDate, 6);
+      // Check the span before eachDate builds it
+      if (endDate > addDays(startDate, 30)) {
+        return {
+          status: "error",
+          error: "Search at most 31 days at a time",
+        };
+      }
+      const dates = eachDate(startDate, endDate);
+
+      // Slots are still useful without energy data
+      let energy: EnergyWindow[] = [];
+      let energyError: string | undefined;
+      try {
+        energy = await loadEnergyWindows(dates);
+      } catch (error) {
+        energyError =
+          error instanceof Error ? error.message : "Unknown error occurred";
+      }
+
+      const busy = await getBusyIntervals(startDate, endDate, APP_TIME_ZONE);
+      const slots = findFreeSlots({
+        durationMinutes: params.durationMinutes,
+        startDate,
+        endDate,
+        workStart: params.workStart,
+        workEnd: params.workEnd,
+        weekdaysOnly: !params.includeWeekends,
+        timeZone: APP_TIME_ZONE,
+        busy,
+        energy,
+        energyPreference: params.energyPreference,
+        purpose: params.purpose,
+        limit: params.limit,
+      });
+
+      return {
+        status: slots.length > 0 ? "success" : "not_found",
+        timeZone: APP_TIME_ZONE,
+        startDate,
+        endDate,
+        durationMinutes: params.durationMinutes,
+        count: slots.length,
+        slots,
+        energyDays: new Set(
+          energy.map((segment) => zonedDate(segment.start, APP_TIME_ZONE))
+        ).size,
+        ...(energyError && { energyError }),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        startDate,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Meeting Prep Packets
+// ============================================================================
+
+type PrepareMeetingPacketParams = {
+  meetingId: string;
+  writeToPage?: boolean;
+  refresh?: boolean;
+};
+
+type PrepareDayPacketsParams = {
+  date?: string;
+  refresh?: boolean;
+};
+
+const prepareMeetingPacketSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    meetingId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the meeting",
+    },
+    writeToPage: {
+      type: Type.BOOLEAN,
+      description: "Append the prep section to the meeting page (default: true)",
+    },
+    refresh: {
+      type: Type.BOOLEAN,
+      description:
+        "Replace the prep section if the page already has one (default: false)",
+    },
+  },
+  required: ["meetingId"],
+};
+
+const prepareDayPacketsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    date: {
+      type: Type.STRING,
+      description: "Day to prepare (YYYY-MM-DD, default: today)",
+    },
+    refresh: {
+      type: Type.BOOLEAN,
+      description:
+        "Replace the prep sections of meetings that already have one (default: false)",
+    },
+  },
+  required: [],
+};
+
+/**
+ * Format a prep packet for agent output
+ */
+function formatPrepPacket(packet: MeetingPrepPacket) {
+  return {
+    meetingId: packet.meeting.pageId,
+    notionUrl: packet.meeting.url,
+    title: packet.meeting.title,
+    eventTime: packet.meeting.eventTime,
+    attendees: packet.attendees,
+    briefs: packet.briefs.map((brief) => ({
+      briefId: brief.pageId,
+      title: brief.title,
+      status: brief.status,
+      notionUrl: brief.url,
+    })),
+    tasks: packet.tasks.map((task) => ({
+      taskId: task.pageId,
+      title: task.title,
+      status: task.status,
+      dueDate: task.dueDate,
+      briefTitle: task.projectTitle,
+      notionUrl: task.url,
+    })),
+    ideas: packet.ideas.map((idea) => ({
+      ideaId: idea.pageId,
+      title: idea.title,
+      notionUrl: idea.url,
+    })),
+    agenda: packet.agenda,
+    openQuestions: packet.openQuestions,
+    decisionsNeeded: packet.decisionsNeeded,
+  };
+}
+
+export const prepareMeetingPacketTool = new FunctionTool({
+  name: "prepare_meeting_packet",
+  description:
+    "Build a prep packet for a meeting: attendee names, related product briefs and open tasks (by title keywords, brief owners and assignees), recent related ideas, plus an agenda, open questions and decisions needed. Writes a 'Meeting Prep' section into the meeting page unless writeToPage is false; meetings that already have one are left alone unless refresh is true.",
+  parameters: prepareMeetingPacketSchema,
+  execute: async (input) => {
+    const {
+      meetingId,
+      writeToPage = true,
+      refresh,
+    } = input as PrepareMeetingPacketParams;
+
+    try {
+      const { packet, written } = writeToPage
+        ? await writeMeetingPrep(meetingId, { refresh })
+        : { packet: await buildMeetingPrep(meetingId), written: false };
+
+      return {
+        status: "success",
+        written,
+        ...(writeToPage &&
+          !written && {
+            note: "The meeting page already has a prep section; pass refresh to replace it.",
+          }),
+        packet: formatPrepPacket(packet),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        meetingId,
+      };
+    }
+  },
+});
+
+export const prepareTodaysMeetingPacketsTool = new FunctionTool({
+  name: "prepare_todays_meeting_packets",
+  description:
+    "Generate prep packets for every meeting on a day (default: today) and write them into each meeting page. Meetings that already have a prep section are skipped unless refresh is true.",
+  parameters: prepareDayPacketsSchema,
+  execute: async (input) => {
+    const { date = zonedDate(Date.now(), APP_TIME_ZONE), refresh } =
+      input as PrepareDayPacketsParams;
+
+    try {
+      const meetings = (await queryMeetingsByDate(date)).map(
+        normalizeMeetingResponse
+      );
+
+      const results = [];
+      for (const meeting of meetings) {
+        try {
+          const { packet, written } = await writeMeetingPrep(meeting.pageId, {
+            refresh,
+          });
+          results.push({ written, ...formatPrepPacket(packet) });
+        } catch (error) {
+          results.push({
+            meetingId: meeting.pageId,
+            title: meeting.title,
+            error:
+              error instanceof Error ? error.message : "Unknown error occurred",
+          });
+        }
+      }
+
+      return {
+        status: "success",
+        date,
+        count: meetings.length,
+        written: results.filter(
+          (result) => "written" in result && result.written
+        ).length,
+        packets: results,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        date,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Process Meeting Notes
+// ============================================================================
+
+type ProcessMeetingNotesParams = {
+  meetingId: string;
+  dryRun?: boolean;
+};
+
+const processMeetingNotesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    meetingId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the meeting",
+    },
+    dryRun: {
+      type: Type.BOOLEAN,
+      description:
+        "Only report what would be created, without creating tasks or writing to the page (default: false)",
+    },
+  },
+  required: ["meetingId"],
+};
+
+export const processMeetingNotesTool = new FunctionTool({
+  name: "process_meeting_notes",
+  description:
+    "Read a meeting page's notes and extract decisions and action items (owner and due date included, e.g. 'Sam to send the deck by Friday'). Creates a To Do task per action item, assigned to the owner and linked to the product brief it belongs to when one can be inferred, then appends a 'Follow-ups' section with the decisions and task links to the meeting page, each task noting the line it came from. Safe to re-run: lines listed under Follow-ups keep their task even after it is renamed, so nothing is duplicated.",
+  parameters: processMeetingNotesSchema,
+  execute: async (input) => {
+    const { meetingId, dryRun } = input as ProcessMeetingNotesParams;
+
+    try {
+      const result = await processMeetingNotes(meetingId, { dryRun });
+
+      return {
+        status: "success",
+        dryRun: Boolean(dryRun),
+        meeting: {
+          meetingId: result.meeting.pageId,
+          title: result.meeting.title,
+          notionUrl: result.meeting.url,
+        },
+        decisions: result.decisions,
+        created: result.actionItems.filter((item) => item.outcome === "created")
+          .length,
+        existing: result.actionItems.filter(
+          (item) => item.outcome === "existing"
+        ).length,
+        actionItems: result.actionItems.map((item) => ({
+          title: item.title,
+          owner: item.ownerName,
+          assigneeId: item.assigneeId,
+          dueDate: item.dueDate,
+          briefId: item.projectId,
+          briefTitle: item.projectTitle,
+          outcome: item.outcome,
+          taskId: item.task?.pageId ?? null,
+          notionUrl: item.task?.url ?? null,
+        })),
+        followUpsWritten: result.followUpsWritten,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        meetingId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Import Calendar (ICS)
+// ============================================================================
+
+type ImportCalendarParams = {
+  url?: string;
+  icsContent?: string;
+  startDate?: string;
+  endDate?: string;
+  dryRun?: boolean;
+};
+
+const importCalendarSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    url: {
+      type: Type.STRING,
+      description:
+        "ICS feed URL (https:// or webcal://), e.g. a Google Calendar secret address",
+    },
+    icsContent: {
+      type: Type.STRING,
+      description: "Contents of an .ics file, when there is no feed URL",
+    },
+    startDate: {
+      type: Type.STRING,
+      description:
+        "Only import events starting on or after this date, YYYY-MM-DD (default: today)",
+    },
+    endDate: {
+      type: Type.STRING,
+      description:
+        "Only import events starting on or before this date, YYYY-MM-DD (default: 90 days from today)",
+    },
+    dryRun: {
+      type: Type.BOOLEAN,
+      description:
+        "Report what would be created, updated or canceled without writing (default: false)",
+    },
+  },
+};
+
+export const importCalendarTool = new FunctionTool({
+  name: "import_calendar_ics",
+  description:
+    "Import events from an external calendar (.ics feed URL or file contents) into the Notion Meetings database. Attendees are matched to workspace members by email. Events are tracked by their iCal UID, so re-importing updates moved or renamed meetings and cancels canceled ones instead of creating duplicates. Recurring events become meeting series (Series ID = event UID) with occurrences from startDate; changed occurrences take over their date's meeting.",
+  parameters: importCalendarSchema,
+  execute: async (input) => {
+    const today = zonedDate(Date.now(), APP_TIME_ZONE);
+    const {
+      url,
+      icsContent,
+      startDate = today,
+      endDate = addDays(today, 90),
+      dryRun,
+    } = input as ImportCalendarParams;
+
+    try {
+      if (!url && !icsContent) {
+        return {
+          status: "error",
+          error: "Provide a feed url or icsContent",
+        };
+      }
+
+      const ics = icsContent ?? (await fetchIcsFeed(url as string));
+      const result = await importIcsIntoMeetings(ics, {
+        startDate,
+        endDate,
+        dryRun,
+      });
+
+      return {
+        status: "success",
+        dryRun: Boolean(dryRun),
+        calendarName: result.calendarName,
+        startDate,
+        endDate,
+        counts: result.counts,
+        outOfRange: result.outOfRange,
+        meetings: result.items.map((item) => ({
+          title: item.title,
+          eventTime: item.eventTime,
+          eventTimeEnd: item.eventTimeEnd,
+          outcome: item.outcome,
+          ...(item.reason && { reason: item.reason }),
+          ...(item.seriesId && {
+            seriesId: item.seriesId,
+            occurrences: item.occurrences ?? 0,
+          }),
+          meetingId: item.meetingId,
+          notionUrl: item.url,
+        })),
+        unmatchedAttendees: result.unmatchedAttendees,
+        warnings: result.warnings,
       };
     } catch (error) {
       const message =
@@ -309,4 +1347,14 @@ export const meetingsTools = [
   getUpcomingMeetingsTool,
   getMeetingsByDateRange,
   scheduleMeeting,
+  rescheduleMeetingTool,
+  cancelMeetingTool,
+  updateMeetingSeriesTool,
+  extendMeetingSeriesTool,
+  cancelMeetingSeriesTool,
+  findFreeSlotsTool,
+  prepareMeetingPacketTool,
+  prepareTodaysMeetingPacketsTool,
+  processMeetingNotesTool,
+  importCalendarTool,
 ];
@@ -4,9 +4,24 @@ import {
   createProject,
   updatePage,
   queryProjects,
-  extractPropertyValue,
+  normalizeProjectResponse,
+  updateProject,
+  getProject,
+  getAllowedProjectTransitions,
+  transitionProjectStatus,
+  getProjectHealth,
+  promoteIdeaToProject,
+  queryTasksByProject,
 } from "../services/notion/index.js";
-import { notionConfig } from "../config/notionConfig.js";
+import { createTasksForBrief } from "./tasksAgent.js";
+import {
+  ProjectStatus,
+  ProjectPriority,
+  type ProjectStatusValue,
+  type ProjectPriorityValue,
+} from "../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../config/userConfig.js";
+import { zonedDate, addDays } from "../services/scheduling/index.js";
 
 type BriefParams = {
   title: string;
@@ -143,18 +158,18 @@ export const queryProductBriefs = new FunctionTool({
 
     try {
       const pages = await queryProjects({ status, initiative });
-      const props = notionConfig.projects.properties;
-
-      const briefs = pages.map((page) => ({
-        briefId: page.id,
-        notionUrl: page.url,
-        title: extractPropertyValue(page.properties[props.title.name]),
-        summary: extractPropertyValue(page.properties[props.summary.name]),
-        status: extractPropertyValue(page.properties[props.status.name]),
-        priority: extractPropertyValue(page.properties[props.priority.name]),
-        initiative: extractPropertyValue(
-          page.properties[props.initiative.name]
-        ),
+
+      const briefs = pages.map(normalizeProjectResponse).map((project) => ({
+        briefId: project.pageId,
+        notionUrl: project.url,
+        title: project.title,
+        summary: project.summary,
+        status: project.status,
+        priority: project.priority,
+        initiative: project.initiative,
+        startDate: project.startDate,
+        endDate: project.endDate,
+        taskCount: project.taskIds.length,
       }));
 
       return {
@@ -173,4 +188,388 @@ export const queryProductBriefs = new FunctionTool({
   },
 });
 
-export const projectsTools = [createProductBrief, queryProductBriefs];
+// ============================================================================
+// Tool: Update Product Brief
+// ============================================================================
+
+type UpdateBriefParams = {
+  briefId: string;
+  title?: string;
+  summary?: string;
+  priority?: string;
+  initiative?: string[];
+  startDate?: string;
+  endDate?: string;
+};
+
+const updateBriefSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    briefId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the Product Brief",
+    },
+    title: { type: Type.STRING, description: "New brief title" },
+    summary: {
+      type: Type.STRING,
+      description: "Replacement summary (overwrites the existing one)",
+    },
+    priority: {
+      type: Type.STRING,
+      enum: Object.values(ProjectPriority),
+      description: "New priority",
+    },
+    initiative: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description:
+        "Replacement initiatives (BENgineers, Stori, Personal, Creative Studio, Work)",
+    },
+    startDate: {
+      type: Type.STRING,
+      description: "New start date (YYYY-MM-DD); keeps the current one if omitted",
+    },
+    endDate: {
+      type: Type.STRING,
+      description:
+        "New end date (YYYY-MM-DD), e.g. to extend the timebox; keeps the current one if omitted",
+    },
+  },
+  required: ["briefId"],
+};
+
+export const updateProductBrief = new FunctionTool({
+  name: "update_product_brief",
+  description:
+    "Edit a Product Brief's title, summary, priority, initiative or dates (e.g. extend the timebox). Use transition_brief_status to change status.",
+  parameters: updateBriefSchema,
+  execute: async (input) => {
+    const { briefId, title, summary, priority, initiative, startDate, endDate } =
+      input as UpdateBriefParams;
+
+    try {
+      const validPriorities = Object.values(ProjectPriority) as string[];
+      if (priority && !validPriorities.includes(priority)) {
+        throw new Error(
+          `Invalid priority "${priority}". Use one of: ${validPriorities.join(", ")}`
+        );
+      }
+
+      const before = await getProject(briefId);
+
+      // Date ranges are written whole, so merge with the existing range
+      let dates: { start: string; end?: string } | undefined;
+      if (startDate || endDate) {
+        const start = startDate || before.startDate;
+        if (!start) {
+          throw new Error("Brief has no start date; provide startDate too.");
+        }
+        dates = { start, end: endDate || before.endDate || undefined };
+      }
+
+      const result = await updateProject({
+        pageId: briefId,
+        title,
+        summary,
+        priority: priority as ProjectPriorityValue | undefined,
+        initiative,
+        dates,
+      });
+
+      const after = await getProject(briefId);
+      const fields = [
+        "title",
+        "summary",
+        "priority",
+        "initiative",
+        "startDate",
+        "endDate",
+      ] as const;
+      const changes = Object.fromEntries(
+        fields
+          .filter(
+            (field) =>
+              JSON.stringify(before[field]) !== JSON.stringify(after[field])
+          )
+          .map((field) => [field, { from: before[field], to: after[field] }])
+      );
+
+      return {
+        status: "success",
+        briefId: result.pageId,
+        notionUrl: result.url,
+        title: after.title,
+        changes,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        briefId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Transition Brief Status
+// ============================================================================
+
+type TransitionBriefParams = {
+  briefId: string;
+  status: string;
+};
+
+const transitionBriefSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    briefId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the Product Brief",
+    },
+    status: {
+      type: Type.STRING,
+      enum: Object.values(ProjectStatus),
+      description: "Target status",
+    },
+  },
+  required: ["briefId", "status"],
+};
+
+export const transitionBriefStatus = new FunctionTool({
+  name: "transition_brief_status",
+  description:
+    "Move a Product Brief to a new status. Allowed: Backlog → Planning; Planning → In Progress/Paused/Backlog; In Progress → Done/Paused; Paused → In Progress/Planning; any open brief → Canceled; Canceled → Backlog. Done is final.",
+  parameters: transitionBriefSchema,
+  execute: async (input) => {
+    const { briefId, status } = input as TransitionBriefParams;
+
+    try {
+      if (!(Object.values(ProjectStatus) as string[]).includes(status)) {
+        throw new Error(
+          `Invalid status "${status}". Use one of: ${Object.values(ProjectStatus).join(", ")}`
+        );
+      }
+
+      const current = await getProject(briefId);
+      const allowed = getAllowedProjectTransitions(current.status);
+      if (
+        current.status !== status &&
+        !allowed.includes(status as ProjectStatusValue)
+      ) {
+        return {
+          status: "error",
+          error: `Cannot move "${current.title}" from ${current.status} to ${status}.`,
+          briefId,
+          currentStatus: current.status,
+          allowedTransitions: allowed,
+        };
+      }
+
+      const result = await transitionProjectStatus(
+        briefId,
+        status as ProjectStatusValue
+      );
+
+      return {
+        status: "success",
+        briefId: result.pageId,
+        notionUrl: result.url,
+        title: current.title,
+        changes: { status: { from: result.from, to: result.to } },
+        allowedNext: getAllowedProjectTransitions(result.to),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        briefId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Brief Health Report
+// ============================================================================
+
+type BriefHealthParams = {
+  briefId: string;
+  stalledAfterDays?: number;
+};
+
+const briefHealthSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    briefId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the Product Brief",
+    },
+    stalledAfterDays: {
+      type: Type.INTEGER,
+      description:
+        "Flag the brief as stalled when no linked task was edited for this many days (default: 7)",
+    },
+  },
+  required: ["briefId"],
+};
+
+export const briefHealthReport = new FunctionTool({
+  name: "brief_health_report",
+  description:
+    "Health check for a Product Brief: linked tasks by status, overdue work, progress vs. timebox, and whether the brief has stalled.",
+  parameters: briefHealthSchema,
+  execute: async (input) => {
+    const { briefId, stalledAfterDays } = input as BriefHealthParams;
+
+    try {
+      const report = await getProjectHealth(briefId, { stalledAfterDays });
+      const { project, ...health } = report;
+
+      return {
+        status: "success",
+        briefId: project.pageId,
+        notionUrl: project.url,
+        title: project.title,
+        briefStatus: project.status,
+        priority: project.priority,
+        ...health,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        briefId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Promote Idea to Brief
+// ============================================================================
+
+type PromoteIdeaParams = {
+  ideaId: string;
+  priority?: string;
+  initiative?: string;
+  timeboxDays?: number;
+  generateTasks?: boolean;
+  maxTasks?: number;
+};
+
+const promoteIdeaSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ideaId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the idea to promote",
+    },
+    priority: {
+      type: Type.STRING,
+      enum: Object.values(ProjectPriority),
+      description: "Brief priority (default: Medium)",
+    },
+    initiative: {
+      type: Type.STRING,
+      description:
+        "Initiative category (BENgineers, Stori, Personal, Creative Studio, Work)",
+    },
+    timeboxDays: {
+      type: Type.INTEGER,
+      description: "Number of days for the timebox, starting today",
+    },
+    generateTasks: {
+      type: Type.BOOLEAN,
+      description:
+        "Also generate the default pathway tasks for the new brief (skipped if it already has tasks)",
+    },
+    maxTasks: {
+      type: Type.INTEGER,
+      description: "Maximum number of tasks to generate (default: 10)",
+    },
+  },
+  required: ["ideaId"],
+};
+
+export const promoteIdeaToBrief = new FunctionTool({
+  name: "promote_idea_to_brief",
+  description:
+    "Turn an idea into a Product Brief: creates the brief from the idea's summaries, marks the idea Promoted, and links both pages. Re-running for the same idea returns the existing brief.",
+  parameters: promoteIdeaSchema,
+  execute: async (input) => {
+    const {
+      ideaId,
+      priority,
+      initiative,
+      timeboxDays,
+      generateTasks = false,
+      maxTasks,
+    } = input as PromoteIdeaParams;
+
+    try {
+      const today = zonedDate(Date.now(), APP_TIME_ZONE);
+      const dates = timeboxDays
+        ? { start: today, end: addDays(today, timeboxDays) }
+        : undefined;
+
+      const result = await promoteIdeaToProject(ideaId, {
+        priority,
+        initiative: initiative ? [initiative] : undefined,
+        dates,
+      });
+      const { project, idea } = result;
+
+      let tasks: Awaited<ReturnType<typeof createTasksForBrief>> = [];
+      let tasksNote: string | undefined;
+      if (generateTasks) {
+        const existing = await queryTasksByProject(project.pageId);
+        if (existing.length > 0) {
+          tasksNote = `Brief already has ${existing.length} task(s); none generated.`;
+        } else {
+          tasks = await createTasksForBrief(project.pageId, { maxTasks });
+        }
+      }
+
+      return {
+        status: "success",
+        briefId: project.pageId,
+        notionUrl: project.url,
+        title: project.title,
+        ideaId: idea.pageId,
+        ideaUrl: idea.url,
+        summary: result.created
+          ? `Promoted idea '${idea.title}' to a new brief`
+          : `Idea '${idea.title}' was already promoted; reused the existing brief`,
+        created: result.created,
+        applied: result.applied,
+        tasksCreated: tasks.length,
+        tasks,
+        ...(tasksNote && { tasksNote }),
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        ideaId,
+      };
+    }
+  },
+});
+
+export const projectsTools = [
+  createProductBrief,
+  queryProductBriefs,
+  updateProductBrief,
+  transitionBriefStatus,
+  briefHealthReport,
+  promoteIdeaToBrief,
+];
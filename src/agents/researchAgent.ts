@@ -1,10 +1,18 @@
 import { FunctionTool } from "@google/adk";
 import { LlmAgent } from "@google/adk";
 import { Schema, Type } from "@google/genai";
-import type { CreatePageParameters } from "@notionhq/client";
 import { searchAgent } from "./searchAgent.js";
-import { createIdea, createGameplan } from "../services/notion/index.js";
+import {
+  createIdea,
+  createGameplan,
+  markdownToBlocks,
+  blockBuilders,
+  findSimilarIdeas,
+  linkIdeas,
+  type BlockObjectRequest,
+} from "../services/notion/index.js";
 import { IdeaTags, IdeaStatus } from "../config/notionConfig.js";
+import { formatDuplicateCandidate } from "./ideaFormatters.js";
 
 // ============================================================================
 // Type Definitions
@@ -23,6 +31,7 @@ interface SaveResearchFindingParams {
   relatedIdeaId?: string;
   tags?: string[];
   contentType?: string; // "paper", "article", "news", "report"
+  onDuplicate?: "ask" | "link" | "create";
 }
 
 interface CreateResearchPathParams {
@@ -94,6 +103,12 @@ const saveResearchFindingSchema: Schema = {
       type: Type.STRING,
       description: "Type of content: 'paper', 'article', 'news', or 'report'",
     },
+    onDuplicate: {
+      type: Type.STRING,
+      enum: ["ask", "link", "create"],
+      description:
+        "When the URL or a similar finding is already saved: 'ask' (default) returns the existing finding; 'link' saves and cross-links; 'create' skips the check",
+    },
   },
   required: ["title", "summary", "url"],
 };
@@ -111,7 +126,10 @@ const createResearchPathSchema: Schema = {
         type: Type.OBJECT,
         properties: {
           title: { type: Type.STRING },
-          summary: { type: Type.STRING },
+          summary: {
+            type: Type.STRING,
+            description: "Finding summary (Markdown supported)",
+          },
           url: { type: Type.STRING },
           findingId: { type: Type.STRING },
         },
@@ -121,7 +139,8 @@ const createResearchPathSchema: Schema = {
     },
     overview: {
       type: Type.STRING,
-      description: "Overview of the research topic and findings",
+      description:
+        "Overview of the research topic and findings (Markdown supported)",
     },
     keyThemes: {
       type: Type.ARRAY,
@@ -316,6 +335,7 @@ export const saveResearchFinding = new FunctionTool({
       relatedIdeaId,
       tags,
       contentType,
+      onDuplicate = "ask",
     } = input as SaveResearchFindingParams;
 
     try {
@@ -347,6 +367,22 @@ export const saveResearchFinding = new FunctionTool({
         }
       }
 
+      // Same source URL (or a near-identical finding) already saved?
+      const candidates =
+        onDuplicate === "create"
+          ? []
+          : await findSimilarIdeas({ title, summary: fullSummary, url });
+
+      if (candidates.length > 0 && onDuplicate === "ask") {
+        return {
+          status: "duplicate_found",
+          message:
+            "This finding looks already saved. Call again with onDuplicate 'link' or 'create'.",
+          url,
+          candidates: candidates.map(formatDuplicateCandidate),
+        };
+      }
+
       // Create idea in Notion
       const idea = await createIdea({
         title,
@@ -355,12 +391,15 @@ export const saveResearchFinding = new FunctionTool({
         status: IdeaStatus.BACKLOG,
       });
 
-      // TODO: Link to related idea if relatedIdeaId provided
-      // This would require adding a relation property to Ideas database
-      // For now, we'll just include it in the summary if provided
+      // Ideas have no relation property, so links are backlink notes
+      const linkedTo: string[] = [];
       if (relatedIdeaId) {
-        // Could update the idea with relation, but that requires schema changes
-        // For now, just note it in the response
+        await linkIdeas(idea.pageId, relatedIdeaId);
+        linkedTo.push(relatedIdeaId);
+      }
+      if (onDuplicate === "link" && candidates[0]) {
+        await linkIdeas(idea.pageId, candidates[0].idea.pageId);
+        linkedTo.push(candidates[0].idea.pageId);
       }
 
       return {
@@ -370,6 +409,7 @@ export const saveResearchFinding = new FunctionTool({
         title,
         tags: allTags,
         relatedIdeaId: relatedIdeaId || null,
+        linkedTo,
       };
     } catch (error) {
       const message =
@@ -395,110 +435,48 @@ export const createResearchPath = new FunctionTool({
       input as CreateResearchPathParams;
 
     try {
-      // Build content blocks for the gameplan
-      const contentBlocks: CreatePageParameters["children"] = [];
+      // Summaries, themes and steps are Markdown; titles and URLs come from
+      // the web, so they go into blocks as plain text
+      const contentBlocks: BlockObjectRequest[] = [];
 
-      // Overview section
       if (overview) {
-        contentBlocks.push({
-          object: "block",
-          type: "heading_2",
-          heading_2: {
-            rich_text: [{ type: "text", text: { content: "Overview" } }],
-          },
-        });
-        contentBlocks.push({
-          object: "block",
-          type: "paragraph",
-          paragraph: {
-            rich_text: [{ type: "text", text: { content: overview } }],
-          },
-        });
+        contentBlocks.push(...markdownToBlocks(`## Overview\n\n${overview}`));
       }
 
-      // Findings section
-      contentBlocks.push({
-        object: "block",
-        type: "heading_2",
-        heading_2: {
-          rich_text: [{ type: "text", text: { content: "Research Findings" } }],
-        },
-      });
-
+      contentBlocks.push(blockBuilders.heading2("Research Findings"));
       for (const finding of findings) {
-        contentBlocks.push({
-          object: "block",
-          type: "heading_3",
-          heading_3: {
-            rich_text: [{ type: "text", text: { content: finding.title } }],
-          },
-        });
-        contentBlocks.push({
-          object: "block",
-          type: "paragraph",
-          paragraph: {
-            rich_text: [{ type: "text", text: { content: finding.summary } }],
-          },
-        });
-        contentBlocks.push({
-          object: "block",
-          type: "paragraph",
-          paragraph: {
-            rich_text: [
-              {
-                type: "text",
-                text: { content: `Source: ` },
+        contentBlocks.push(
+          blockBuilders.heading3(finding.title),
+          ...markdownToBlocks(finding.summary),
+          blockBuilders.paragraph([
+            { type: "text", text: { content: "Source: " } },
+            {
+              type: "text",
+              text: {
+                content: finding.url,
+                link: /^https?:\/\/\S+$/.test(finding.url)
+                  ? { url: finding.url }
+                  : null,
               },
-              {
-                type: "text",
-                text: {
-                  content: finding.url,
-                  link: { url: finding.url },
-                },
-              },
-            ],
-          },
-        });
+            },
+          ])
+        );
       }
 
-      // Key themes section
       if (keyThemes && keyThemes.length > 0) {
-        contentBlocks.push({
-          object: "block",
-          type: "heading_2",
-          heading_2: {
-            rich_text: [{ type: "text", text: { content: "Key Themes" } }],
-          },
-        });
-        for (const theme of keyThemes) {
-          contentBlocks.push({
-            object: "block",
-            type: "bulleted_list_item",
-            bulleted_list_item: {
-              rich_text: [{ type: "text", text: { content: theme } }],
-            },
-          });
-        }
+        contentBlocks.push(
+          ...markdownToBlocks(
+            `## Key Themes\n\n${keyThemes.map((theme) => `- ${theme}`).join("\n")}`
+          )
+        );
       }
 
-      // Next steps section
       if (nextSteps && nextSteps.length > 0) {
-        contentBlocks.push({
-          object: "block",
-          type: "heading_2",
-          heading_2: {
-            rich_text: [{ type: "text", text: { content: "Next Steps" } }],
-          },
-        });
-        for (const step of nextSteps) {
-          contentBlocks.push({
-            object: "block",
-            type: "bulleted_list_item",
-            bulleted_list_item: {
-              rich_text: [{ type: "text", text: { content: step } }],
-            },
-          });
-        }
+        contentBlocks.push(
+          ...markdownToBlocks(
+            `## Next Steps\n\n${nextSteps.map((step) => `- ${step}`).join("\n")}`
+          )
+        );
       }
 
       // Create gameplan
@@ -551,7 +529,7 @@ You are the Research Agent. You help conduct market research for ideas by search
 2. Receive search results (URLs, titles, snippets)
 3. Identify most relevant sources
 4. For each relevant URL → extract_and_summarize_content
-5. Save findings → save_research_finding (creates Notion Ideas with Research tag)
+5. Save findings → save_research_finding (creates Notion Ideas with Research tag; returns duplicate_found when the URL is already saved — reuse that finding unless the user wants a new one)
 6. Optional: create_research_path to structure all findings
 
 ## Search Strategy
@@ -2,10 +2,27 @@ import { FunctionTool } from "@google/adk";
 import { Schema, Type } from "@google/genai";
 import {
   createTask,
+  updateTask,
+  archiveTask,
+  getTask,
   queryTasksByProject,
-  extractPropertyValue,
+  queryOverdueTasks,
+  queryTasks,
+  normalizeTaskResponse,
+  resolveTaskProjects,
+} from "../services/notion/index.js";
+import {
+  TaskStatus,
+  TaskPriority,
+  type TaskStatusValue,
+  type TaskPriorityValue,
+} from "../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../config/userConfig.js";
+import { zonedDate } from "../services/scheduling/index.js";
+import type {
+  TaskResponse,
+  TaskSortField,
 } from "../services/notion/index.js";
-import { notionConfig } from "../config/notionConfig.js";
 
 type GenerateTasksParams = {
   briefId: string;
@@ -68,6 +85,48 @@ const DEFAULT_PATHWAY_TASKS: TaskTemplate[] = [
   { title: "Final review and handoff", phase: "Delivery" },
 ];
 
+/**
+ * Create tasks linked to a brief (default pathway phases unless custom
+ * tasks are given). Shared by generate_tasks_from_brief and idea promotion.
+ */
+export async function createTasksForBrief(
+  briefId: string,
+  options: { maxTasks?: number; customTasks?: TaskTemplate[] } = {}
+) {
+  const { maxTasks = 10, customTasks } = options;
+
+  // Use custom tasks if provided, otherwise use default pathway tasks
+  const tasksToCreate = (customTasks || DEFAULT_PATHWAY_TASKS).slice(
+    0,
+    maxTasks
+  );
+
+  const createdTasks = [];
+
+  for (const task of tasksToCreate) {
+    const taskTitle = task.phase ? `[${task.phase}] ${task.title}` : task.title;
+
+    const created = await createTask({
+      title: taskTitle,
+      status: "To Do",
+      projectId: briefId,
+      priority: task.priority,
+      dueDate: task.dueDate,
+    });
+
+    createdTasks.push({
+      taskId: created.pageId,
+      notionUrl: created.url,
+      title: taskTitle,
+      phase: task.phase || null,
+      priority: task.priority || null,
+      dueDate: task.dueDate || null,
+    });
+  }
+
+  return createdTasks;
+}
+
 export const generateTasksFromBrief = new FunctionTool({
   name: "generate_tasks_from_brief",
   description:
@@ -81,36 +140,10 @@ export const generateTasksFromBrief = new FunctionTool({
     } = input as GenerateTasksParams;
 
     try {
-      // Use custom tasks if provided, otherwise use default pathway tasks
-      const tasksToCreate = (customTasks || DEFAULT_PATHWAY_TASKS).slice(
-        0,
-        maxTasks
-      );
-
-      const createdTasks = [];
-
-      for (const task of tasksToCreate) {
-        const taskTitle = task.phase
-          ? `[${task.phase}] ${task.title}`
-          : task.title;
-
-        const created = await createTask({
-          title: taskTitle,
-          status: "To Do",
-          projectId: briefId,
-          priority: task.priority,
-          dueDate: task.dueDate,
-        });
-
-        createdTasks.push({
-          taskId: created.pageId,
-          notionUrl: created.url,
-          title: taskTitle,
-          phase: task.phase || null,
-          priority: task.priority || null,
-          dueDate: task.dueDate || null,
-        });
-      }
+      const createdTasks = await createTasksForBrief(briefId, {
+        maxTasks,
+        customTasks,
+      });
 
       return {
         status: "success",
@@ -130,6 +163,22 @@ export const generateTasksFromBrief = new FunctionTool({
   },
 });
 
+/**
+ * Shared task shape returned by the read tools
+ */
+function summarizeTask(task: TaskResponse) {
+  return {
+    taskId: task.pageId,
+    notionUrl: task.url,
+    title: task.title,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    assigneeIds: task.assigneeIds,
+    tags: task.tags,
+  };
+}
+
 // Query tasks for a specific brief/project
 type QueryTasksParams = {
   briefId: string;
@@ -155,16 +204,9 @@ export const getTasksForBrief = new FunctionTool({
 
     try {
       const pages = await queryTasksByProject(briefId);
-      const props = notionConfig.tasks.properties;
-
-      const tasks = pages.map((page) => ({
-        taskId: page.id,
-        notionUrl: page.url,
-        title: extractPropertyValue(page.properties[props.title.name]),
-        status: extractPropertyValue(page.properties[props.status.name]),
-        priority: extractPropertyValue(page.properties[props.priority.name]),
-        dueDate: extractPropertyValue(page.properties[props.dueDate.name]),
-      }));
+      const tasks = pages
+        .map((page) => normalizeTaskResponse(page))
+        .map(summarizeTask);
 
       return {
         status: "success",
@@ -184,4 +226,537 @@ export const getTasksForBrief = new FunctionTool({
   },
 });
 
-export const tasksTools = [generateTasksFromBrief, getTasksForBrief];
+// ============================================================================
+// Tool: Query Tasks (cross-project)
+// ============================================================================
+
+type QueryAllTasksParams = {
+  dueBefore?: string;
+  dueAfter?: string;
+  dueOn?: string;
+  overdue?: boolean;
+  statuses?: string[];
+  priorities?: string[];
+  tags?: string[];
+  taskTypes?: string[];
+  assigneeId?: string;
+  briefId?: string;
+  hasProject?: boolean;
+  sortBy?: TaskSortField;
+  direction?: "ascending" | "descending";
+  pageSize?: number;
+  cursor?: string;
+};
+
+const queryAllTasksSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    dueBefore: {
+      type: Type.STRING,
+      description: "Only tasks due before this date (YYYY-MM-DD)",
+    },
+    dueAfter: {
+      type: Type.STRING,
+      description: "Only tasks due after this date (YYYY-MM-DD)",
+    },
+    dueOn: {
+      type: Type.STRING,
+      description: "Only tasks due on this date (YYYY-MM-DD)",
+    },
+    overdue: {
+      type: Type.BOOLEAN,
+      description:
+        "Only tasks due before today that are not Done or Archived",
+    },
+    statuses: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, enum: Object.values(TaskStatus) },
+      description: "Match any of these statuses",
+    },
+    priorities: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, enum: Object.values(TaskPriority) },
+      description: "Match any of these priorities",
+    },
+    tags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Tasks must have all of these tags",
+    },
+    taskTypes: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Tasks must have all of these task types",
+    },
+    assigneeId: {
+      type: Type.STRING,
+      description: "Only tasks assigned to this Notion user ID",
+    },
+    briefId: {
+      type: Type.STRING,
+      description: "Only tasks linked to this Product Brief",
+    },
+    hasProject: {
+      type: Type.BOOLEAN,
+      description:
+        "true: only tasks linked to a brief; false: only tasks with no brief",
+    },
+    sortBy: {
+      type: Type.STRING,
+      enum: ["dueDate", "priority", "status", "title", "created", "lastEdited"],
+      description: "Sort field (default: dueDate)",
+    },
+    direction: {
+      type: Type.STRING,
+      enum: ["ascending", "descending"],
+      description: "Sort direction (default: ascending)",
+    },
+    pageSize: {
+      type: Type.INTEGER,
+      description: "Results per page, max 100 (default: 25)",
+    },
+    cursor: {
+      type: Type.STRING,
+      description: "nextCursor from a previous query_tasks call",
+    },
+  },
+  required: [],
+};
+
+export const queryTasksTool = new FunctionTool({
+  name: "query_tasks",
+  description:
+    "Query tasks across all briefs (including tasks with no brief) by due date, overdue, status, priority, tags, task type, assignee or brief. Paginated: pass nextCursor back to get more.",
+  parameters: queryAllTasksSchema,
+  execute: async (input) => {
+    const {
+      sortBy,
+      direction,
+      pageSize,
+      cursor,
+      briefId,
+      statuses,
+      priorities,
+      ...filter
+    } = input as QueryAllTasksParams;
+
+    try {
+      const result = await queryTasks(
+        {
+          ...filter,
+          projectId: briefId,
+          statuses: statuses?.map((status) => validateTaskStatus(status)),
+          priorities: priorities?.map((priority) =>
+            validateTaskPriority(priority)
+          ),
+        },
+        { sortBy, direction, pageSize, cursor }
+      );
+
+      const tasks = (await resolveTaskProjects(result.pages)).map((task) => ({
+        ...summarizeTask(task),
+        projectId: task.projectId,
+        projectName: task.projectTitle,
+      }));
+
+      return {
+        status: "success",
+        count: tasks.length,
+        hasMore: result.nextCursor !== null,
+        nextCursor: result.nextCursor,
+        tasks,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Task Lifecycle Helpers
+// ============================================================================
+
+// Sentinel accepted by update_task to clear the due date or assignee
+const CLEAR_VALUE = "none";
+
+type TaskSnapshot = {
+  title: string;
+  status: string | null;
+  priority: string | null;
+  dueDate: string | null;
+  assigneeId: string | null;
+};
+
+type TaskChanges = Partial<
+  Record<keyof TaskSnapshot, { from: string | null; to: string | null }>
+>;
+
+/**
+ * Capture the fields lifecycle tools report changes for
+ */
+function snapshotTask(task: TaskResponse): TaskSnapshot {
+  return {
+    title: task.title,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    assigneeId: task.assigneeIds[0] ?? null,
+  };
+}
+
+/**
+ * List the fields whose values differ between two snapshots
+ */
+function diffTask(before: TaskSnapshot, after: TaskSnapshot): TaskChanges {
+  const changes: TaskChanges = {};
+  for (const key of Object.keys(after) as Array<keyof TaskSnapshot>) {
+    if (before[key] !== after[key]) {
+      changes[key] = { from: before[key], to: after[key] };
+    }
+  }
+  return changes;
+}
+
+function validateTaskStatus(
+  status: string | undefined
+): TaskStatusValue | undefined {
+  if (status === undefined) return undefined;
+  const valid = Object.values(TaskStatus) as string[];
+  if (!valid.includes(status)) {
+    throw new Error(
+      `Invalid task status "${status}". Use one of: ${valid.join(", ")}`
+    );
+  }
+  return status as TaskStatusValue;
+}
+
+function validateTaskPriority(
+  priority: string | undefined
+): TaskPriorityValue | undefined {
+  if (priority === undefined) return undefined;
+  const valid = Object.values(TaskPriority) as string[];
+  if (!valid.includes(priority)) {
+    throw new Error(
+      `Invalid task priority "${priority}". Use one of: ${valid.join(", ")}`
+    );
+  }
+  return priority as TaskPriorityValue;
+}
+
+function todayDate(): string {
+  return zonedDate(Date.now(), APP_TIME_ZONE);
+}
+
+// ============================================================================
+// Tool: Update Task
+// ============================================================================
+
+type UpdateTaskParams = {
+  taskId: string;
+  title?: string;
+  status?: string;
+  dueDate?: string;
+  priority?: string;
+  assigneeId?: string;
+};
+
+const updateTaskSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    taskId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the task",
+    },
+    title: {
+      type: Type.STRING,
+      description: "New task title",
+    },
+    status: {
+      type: Type.STRING,
+      enum: Object.values(TaskStatus),
+      description: "New status",
+    },
+    dueDate: {
+      type: Type.STRING,
+      description: `New due date in YYYY-MM-DD format, or "${CLEAR_VALUE}" to clear it`,
+    },
+    priority: {
+      type: Type.STRING,
+      enum: Object.values(TaskPriority),
+      description: "New priority",
+    },
+    assigneeId: {
+      type: Type.STRING,
+      description: `Notion user ID to assign, or "${CLEAR_VALUE}" to unassign`,
+    },
+  },
+  required: ["taskId"],
+};
+
+export const updateTaskTool = new FunctionTool({
+  name: "update_task",
+  description:
+    "Update a task's status, due date, priority, assignee or title. Returns what changed (from → to).",
+  parameters: updateTaskSchema,
+  execute: async (input) => {
+    const { taskId, title, status, dueDate, priority, assigneeId } =
+      input as UpdateTaskParams;
+
+    try {
+      const before = snapshotTask(await getTask(taskId));
+
+      await updateTask({
+        pageId: taskId,
+        title,
+        status: validateTaskStatus(status),
+        priority: validateTaskPriority(priority),
+        dueDate: dueDate === CLEAR_VALUE ? null : dueDate,
+        assigneeId: assigneeId === CLEAR_VALUE ? null : assigneeId,
+      });
+
+      const after = snapshotTask(await getTask(taskId));
+      const changes = diffTask(before, after);
+
+      return {
+        status: "success",
+        taskId,
+        title: after.title,
+        changed: Object.keys(changes).length > 0,
+        changes,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        taskId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Complete Tasks (bulk)
+// ============================================================================
+
+type CompleteTasksParams = {
+  taskIds: string[];
+};
+
+const completeTasksSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    taskIds: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Notion page IDs of the tasks to mark Done",
+    },
+  },
+  required: ["taskIds"],
+};
+
+export const completeTasksTool = new FunctionTool({
+  name: "complete_tasks",
+  description:
+    "Mark one or more tasks as Done. Tasks already Done are skipped; failures are reported per task without stopping the rest.",
+  parameters: completeTasksSchema,
+  execute: async (input) => {
+    const { taskIds } = input as CompleteTasksParams;
+
+    const completed: Array<{ taskId: string; title: string; from: string | null }> = [];
+    const alreadyDone: Array<{ taskId: string; title: string }> = [];
+    const failed: Array<{ taskId: string; error: string }> = [];
+
+    for (const taskId of taskIds || []) {
+      try {
+        const before = snapshotTask(await getTask(taskId));
+        if (before.status === TaskStatus.DONE) {
+          alreadyDone.push({ taskId, title: before.title });
+          continue;
+        }
+
+        await updateTask({ pageId: taskId, status: TaskStatus.DONE });
+        completed.push({ taskId, title: before.title, from: before.status });
+      } catch (error) {
+        failed.push({
+          taskId,
+          error: error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      }
+    }
+
+    return {
+      status: failed.length > 0 && completed.length === 0 ? "error" : "success",
+      summary: `${completed.length} completed, ${alreadyDone.length} already done, ${failed.length} failed`,
+      completed,
+      alreadyDone,
+      failed,
+    };
+  },
+});
+
+// ============================================================================
+// Tool: Archive Task
+// ============================================================================
+
+type ArchiveTaskParams = {
+  taskId: string;
+};
+
+const archiveTaskSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    taskId: {
+      type: Type.STRING,
+      description: "The Notion page ID of the task to archive",
+    },
+  },
+  required: ["taskId"],
+};
+
+export const archiveTaskTool = new FunctionTool({
+  name: "archive_task",
+  description:
+    "Archive a task (sets status to Archived). The task stays in Notion and linked to its brief, but drops out of active views.",
+  parameters: archiveTaskSchema,
+  execute: async (input) => {
+    const { taskId } = input as ArchiveTaskParams;
+
+    try {
+      const before = snapshotTask(await getTask(taskId));
+      const result = await archiveTask(taskId);
+
+      return {
+        status: "success",
+        taskId: result.pageId,
+        notionUrl: result.url,
+        title: before.title,
+        changes: {
+          status: { from: before.status, to: TaskStatus.ARCHIVED },
+        },
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+        taskId,
+      };
+    }
+  },
+});
+
+// ============================================================================
+// Tool: Roll Forward Overdue Tasks
+// ============================================================================
+
+type RollForwardParams = {
+  newDueDate?: string;
+  briefId?: string;
+  dryRun?: boolean;
+};
+
+const rollForwardSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    newDueDate: {
+      type: Type.STRING,
+      description:
+        "Date to move overdue tasks to, in YYYY-MM-DD format (default: today)",
+    },
+    briefId: {
+      type: Type.STRING,
+      description: "Only roll forward tasks linked to this Product Brief",
+    },
+    dryRun: {
+      type: Type.BOOLEAN,
+      description: "List the tasks that would move without updating them",
+    },
+  },
+  required: [],
+};
+
+export const rollForwardOverdueTasksTool = new FunctionTool({
+  name: "roll_forward_overdue_tasks",
+  description:
+    "Move every open task due before today (not Done or Archived) to a new due date. Use dryRun to preview.",
+  parameters: rollForwardSchema,
+  execute: async (input) => {
+    const { newDueDate, briefId, dryRun = false } = input as RollForwardParams;
+    const today = todayDate();
+    const target = newDueDate || today;
+
+    try {
+      const pages = await queryOverdueTasks(today, briefId);
+      const moved: Array<{
+        taskId: string;
+        title: string;
+        status: string | null;
+        from: string | null;
+        to: string;
+      }> = [];
+      const failed: Array<{ taskId: string; error: string }> = [];
+
+      for (const page of pages) {
+        const before = snapshotTask(normalizeTaskResponse(page));
+        try {
+          if (!dryRun) {
+            await updateTask({ pageId: page.id, dueDate: target });
+          }
+          moved.push({
+            taskId: page.id,
+            title: before.title,
+            status: before.status,
+            from: before.dueDate,
+            to: target,
+          });
+        } catch (error) {
+          failed.push({
+            taskId: page.id,
+            error:
+              error instanceof Error ? error.message : "Unknown error occurred",
+          });
+        }
+      }
+
+      return {
+        status: "success",
+        dryRun,
+        newDueDate: target,
+        summary: dryRun
+          ? `${moved.length} overdue task(s) would move to ${target}`
+          : `${moved.length} overdue task(s) moved to ${target}, ${failed.length} failed`,
+        tasks: moved,
+        failed,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        status: "error",
+        error: message,
+      };
+    }
+  },
+});
+
+export const taskLifecycleTools = [
+  updateTaskTool,
+  completeTasksTool,
+  archiveTaskTool,
+  rollForwardOverdueTasksTool,
+];
+
+export const tasksTools = [
+  generateTasksFromBrief,
+  getTasksForBrief,
+  queryTasksTool,
+  ...taskLifecycleTools,
+];
@@ -1,6 +1,9 @@
 import { FunctionTool } from "@google/adk";
 import { Schema, Type } from "@google/genai";
-import { getPageBlocksAsText } from "../services/notion/index.js";
+import {
+  getPageAsMarkdown,
+  type IdeaClusterTheme,
+} from "../services/notion/index.js";
 
 // ============================================================================
 // Constants
@@ -10,7 +13,91 @@ import { getPageBlocksAsText } from "../services/notion/index.js";
  * Notion page ID for the yearly vision document
  * This is a read-only reference artifact that guides decision-making
  */
-const YEARLY_VISION_PAGE_ID = "29e82787-0ecb-801c-a110-c6a50af733f4";
+export const YEARLY_VISION_PAGE_ID = "29e82787-0ecb-801c-a110-c6a50af733f4";
+
+// ============================================================================
+// Reference Document Helpers
+// ============================================================================
+
+/**
+ * Shared parameters for tools that read a reference document as Markdown
+ */
+export const referenceDocumentParameters: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    format: {
+      type: Type.STRING,
+      enum: ["markdown", "sections"],
+      description:
+        'Output format. "markdown" (default) returns the full document plus a section outline; "sections" returns each heading section with its own Markdown.',
+    },
+    maxDepth: {
+      type: Type.NUMBER,
+      description:
+        "How many levels of nested blocks to include (0 = top-level blocks only). Defaults to the full depth.",
+    },
+    blockTypes: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description:
+        'Only include these Notion block types, e.g. ["heading_1", "heading_2", "bulleted_list_item"]. Defaults to all types.',
+    },
+  },
+  required: [],
+};
+
+export interface ReferenceDocumentArgs {
+  format?: "markdown" | "sections";
+  maxDepth?: number;
+  blockTypes?: string[];
+}
+
+/**
+ * Read a reference page as Markdown with citable section IDs.
+ * Returns null when the page has no readable content.
+ */
+export async function readReferenceDocument(
+  pageId: string,
+  args: ReferenceDocumentArgs = {}
+) {
+  const page = await getPageAsMarkdown(pageId, {
+    maxDepth: args.maxDepth,
+    blockTypes: args.blockTypes,
+  });
+
+  if (!page.markdown.trim()) return null;
+
+  if (args.format === "sections") {
+    return { sections: page.sections };
+  }
+
+  return {
+    markdown: page.markdown,
+    sections: page.sections.map(({ id, heading, level }) => ({
+      id,
+      heading,
+      level,
+    })),
+  };
+}
+
+/**
+ * Yearly vision sections as themes that other reports can map onto.
+ * A single level 1 heading is treated as the document title and skipped.
+ */
+export async function getYearlyVisionThemes(): Promise<IdeaClusterTheme[]> {
+  const page = await getPageAsMarkdown(YEARLY_VISION_PAGE_ID);
+  const minLevel =
+    page.sections.filter((section) => section.level === 1).length === 1 ? 2 : 1;
+
+  return page.sections
+    .filter((section) => section.level >= minLevel && section.markdown.trim())
+    .map((section) => ({
+      id: section.id,
+      title: section.heading,
+      text: section.markdown,
+    }));
+}
 
 // ============================================================================
 // Tool: Get Yearly Vision
@@ -19,17 +106,13 @@ const YEARLY_VISION_PAGE_ID = "29e82787-0ecb-801c-a110-c6a50af733f4";
 export const getYearlyVisionTool = new FunctionTool({
   name: "get_yearly_vision",
   description:
-    "Retrieve the yearly vision document from Notion. This is a read-only reference artifact that guides decision-making, enables reflection, and keeps execution aligned with annual goals. Use this when creating gameplans, generating tasks, making strategic decisions, or conducting reviews to ensure alignment with the vision.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {},
-    required: [],
-  },
-  execute: async () => {
+    "Retrieve the yearly vision document from Notion. This is a read-only reference artifact that guides decision-making, enables reflection, and keeps execution aligned with annual goals. Use this when creating gameplans, generating tasks, making strategic decisions, or conducting reviews to ensure alignment with the vision. Returns Markdown with section IDs (e.g. s2.1) that can be cited.",
+  parameters: referenceDocumentParameters,
+  execute: async (args: ReferenceDocumentArgs = {}) => {
     try {
-      const visionContent = await getPageBlocksAsText(YEARLY_VISION_PAGE_ID);
+      const reference = await readReferenceDocument(YEARLY_VISION_PAGE_ID, args);
 
-      if (!visionContent || visionContent.trim().length === 0) {
+      if (!reference) {
         return {
           status: "not_found",
           message:
@@ -39,9 +122,10 @@ export const getYearlyVisionTool = new FunctionTool({
 
       return {
         status: "success",
-        visionContent,
+        visionContent: reference.markdown,
+        sections: reference.sections,
         pageId: YEARLY_VISION_PAGE_ID,
-        note: "This is a read-only reference. Use this vision to guide decisions, ensure task alignment, and enable reflection on progress toward annual goals.",
+        note: "This is a read-only reference. Use this vision to guide decisions, ensure task alignment, and enable reflection on progress toward annual goals. Cite the section ID (e.g. [s2.1]) when referencing a part of the vision.",
       };
     } catch (error) {
       const message =
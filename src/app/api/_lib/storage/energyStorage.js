@@ -181,6 +181,32 @@ export async function getEnergyEventsForDay({ userId, dayDate }) {
   return data || [];
 }
 
+/**
+ * Fetches all energy events for a user between two days (inclusive).
+ *
+ * @param {{ userId: string, startDate: string, endDate: string }} params
+ * @returns {Promise<EnergyEvent[]>}
+ */
+export async function getEnergyEventsForRange({ userId, startDate, endDate }) {
+  const supabase = getSupabaseAdmin();
+  const { start } = buildDayWindow(startDate);
+  const { end } = buildDayWindow(endDate);
+
+  const { data, error } = await supabase
+    .from("energy_events")
+    .select("*")
+    .eq("user_id", userId)
+    .gte("start_at", start)
+    .lt("start_at", end)
+    .order("start_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Supabase query failed: ${error.message}`);
+  }
+
+  return data || [];
+}
+
 /**
  * Finds the current and next energy segment based on current time.
  *
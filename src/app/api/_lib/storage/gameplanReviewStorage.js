@@ -0,0 +1,86 @@
+import { getSupabaseAdmin } from "./supabaseClient.js";
+
+const TABLE = "gameplan_reviews";
+
+/**
+ * @typedef {Object} GameplanReview
+ * @property {string} user_id - User identifier
+ * @property {string} day_date - The date (YYYY-MM-DD)
+ * @property {string} gameplan_id - Notion page ID of the gameplan
+ * @property {number} planned_count - Planned tasks
+ * @property {number} done_count - Planned tasks done
+ * @property {number} slipped_count - Planned tasks still open
+ * @property {number} dropped_count - Planned tasks archived
+ * @property {number} unplanned_count - Tasks done that were not planned
+ * @property {number|null} completion_score - done / planned found (0-1)
+ * @property {string[]} carry_over_task_ids - Open planned task IDs
+ */
+
+/**
+ * Stores the end-of-day review for a gameplan, replacing any earlier
+ * review for the same day.
+ *
+ * @param {{ userId: string, dayDate: string, gameplanId: string, counts: { planned: number, done: number, slipped: number, dropped: number, unplanned: number }, completionScore: number|null, carryOverTaskIds: string[] }} params
+ * @returns {Promise<GameplanReview>}
+ */
+export async function upsertGameplanReview({
+  userId,
+  dayDate,
+  gameplanId,
+  counts,
+  completionScore,
+  carryOverTaskIds,
+}) {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .upsert(
+      {
+        user_id: userId,
+        day_date: dayDate,
+        gameplan_id: gameplanId,
+        planned_count: counts.planned,
+        done_count: counts.done,
+        slipped_count: counts.slipped,
+        dropped_count: counts.dropped,
+        unplanned_count: counts.unplanned,
+        completion_score: completionScore,
+        carry_over_task_ids: carryOverTaskIds,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,day_date" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Supabase upsert failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Fetches reviews between two dates (inclusive), oldest first.
+ *
+ * @param {{ userId: string, startDate: string, endDate: string }} params
+ * @returns {Promise<GameplanReview[]>}
+ */
+export async function getGameplanReviews({ userId, startDate, endDate }) {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", userId)
+    .gte("day_date", startDate)
+    .lte("day_date", endDate)
+    .order("day_date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Supabase query failed: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -0,0 +1,90 @@
+import { getSupabaseAdmin } from "./supabaseClient.js";
+
+const TABLE = "notion_cache";
+
+/**
+ * Supabase-backed store for the Notion read cache.
+ * Implements the CacheStore interface from src/services/notion/cache.ts.
+ * Every method fails open: storage errors are logged and treated as misses.
+ *
+ * @returns {{
+ *   get: (key: string) => Promise<{ value: unknown, expiresAt: number, tags: string[] } | null>,
+ *   set: (key: string, entry: { value: unknown, expiresAt: number, tags: string[] }) => Promise<void>,
+ *   deleteByTags: (tags: string[]) => Promise<void>,
+ *   clear: () => Promise<void>
+ * }}
+ */
+export function createSupabaseCacheStore() {
+  return {
+    async get(key) {
+      try {
+        const supabase = getSupabaseAdmin();
+        const { data, error } = await supabase
+          .from(TABLE)
+          .select("value, tags, expires_at")
+          .eq("key", key)
+          .gt("expires_at", new Date().toISOString())
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return null;
+
+        return {
+          value: data.value,
+          tags: data.tags || [],
+          expiresAt: Date.parse(data.expires_at),
+        };
+      } catch (error) {
+        console.error("[notionCacheStorage] get failed:", error);
+        return null;
+      }
+    },
+
+    async set(key, entry) {
+      try {
+        const supabase = getSupabaseAdmin();
+        const { error } = await supabase.from(TABLE).upsert(
+          {
+            key,
+            value: entry.value,
+            tags: entry.tags,
+            expires_at: new Date(entry.expiresAt).toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "key" }
+        );
+
+        if (error) throw error;
+      } catch (error) {
+        console.error("[notionCacheStorage] set failed:", error);
+      }
+    },
+
+    async deleteByTags(tags) {
+      if (!tags || tags.length === 0) return;
+
+      try {
+        const supabase = getSupabaseAdmin();
+        const { error } = await supabase
+          .from(TABLE)
+          .delete()
+          .overlaps("tags", tags);
+
+        if (error) throw error;
+      } catch (error) {
+        console.error("[notionCacheStorage] deleteByTags failed:", error);
+      }
+    },
+
+    async clear() {
+      try {
+        const supabase = getSupabaseAdmin();
+        const { error } = await supabase.from(TABLE).delete().neq("key", "");
+
+        if (error) throw error;
+      } catch (error) {
+        console.error("[notionCacheStorage] clear failed:", error);
+      }
+    },
+  };
+}
@@ -9,6 +9,7 @@ import {
 } from "../../_lib/storage/agentSessionStorage.js";
 import { creativeAgent, workflowsTools, energyTools } from "@/agents";
 import { APP_USER_ID } from "@/config";
+import { collectCacheStats } from "@/services/notion";
 
 type RequestPayload = {
   prompt?: string;
@@ -211,7 +212,9 @@ export async function POST(request: NextRequest) {
   const events: unknown[] = [];
 
   try {
-    const agentEvents = await executeAgent(prompt, userId, sessionId);
+    const { result: agentEvents, stats: cacheStats } = await collectCacheStats(
+      () => executeAgent(prompt, userId, sessionId)
+    );
     events.push(...agentEvents);
 
     // Persist session data asynchronously (fail-open)
@@ -223,6 +226,9 @@ export async function POST(request: NextRequest) {
       sessionId,
       isNewSession,
       events,
+      metadata: {
+        notionCache: cacheStats,
+      },
     });
   } catch (error) {
     // Try to mark session as errored (fail-open)
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server.js";
+import {
+  exportCalendarIcs,
+  importIcsIntoMeetings,
+  fetchIcsFeed,
+} from "@/services/calendar";
+import { addDays, zonedDate } from "@/services/scheduling";
+import { APP_TIME_ZONE } from "@/config";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendar apps poll subscriptions often; keep each feed request bounded
+const MAX_EXPORT_DAYS = 120;
+
+/**
+ * Check CALENDAR_FEED_TOKEN. Calendar apps can't send headers, so the
+ * token travels as ?token=. Reading the feed is open when no token is
+ * configured; writes (requireToken) are refused.
+ */
+function isAuthorized(
+  request: NextRequest,
+  options: { requireToken?: boolean } = {}
+): boolean {
+  const token = process.env.CALENDAR_FEED_TOKEN;
+  if (!token) return !options.requireToken;
+  return request.nextUrl.searchParams.get("token") === token;
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: "Missing or invalid token" },
+    { status: 401 }
+  );
+}
+
+/**
+ * GET /api/calendar/ics
+ *
+ * Meetings and daily gameplan time blocks as an ICS feed (subscribe with
+ * the URL, or webcal://).
+ *
+ * Query params:
+ *   - start (optional): first date, YYYY-MM-DD (default: 7 days ago)
+ *   - end (optional): last date, YYYY-MM-DD (default: 60 days ahead)
+ *   - gameplans (optional): "false" to leave out gameplan time blocks
+ *   - token: required when CALENDAR_FEED_TOKEN is set
+ *
+ * Response:
+ *   - 200 text/calendar
+ *   - 400 for invalid or too-wide date ranges
+ *   - 401 for a missing or wrong token
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorized();
+
+  const params = request.nextUrl.searchParams;
+  const today = zonedDate(Date.now(), APP_TIME_ZONE);
+  const start = params.get("start") ?? addDays(today, -7);
+  const end = params.get("end") ?? addDays(today, 60);
+
+  if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end) || end < start) {
+    return NextResponse.json(
+      { error: "start and end must be YYYY-MM-DD with start <= end" },
+      { status: 400 }
+    );
+  }
+  if (end > addDays(start, MAX_EXPORT_DAYS)) {
+    return NextResponse.json(
+      { error: `Date range is limited to ${MAX_EXPORT_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const ics = await exportCalendarIcs(start, end, {
+      includeGameplans: params.get("gameplans") !== "false",
+    });
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="creative-os.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("[calendar-ics] Export failed:", error);
+    return NextResponse.json(
+      {
+        error: "Calendar export failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/calendar/ics
+ *
+ * Import events into the Meetings database. Send the .ics file as the
+ * body (text/calendar), or JSON { "url": "https://…/basic.ics" } to pull
+ * a public http(s) or webcal feed.
+ *
+ * Query params:
+ *   - start / end (optional): only import events starting in this range
+ *   - dryRun (optional): "true" to report changes without writing
+ *   - token: always required; imports are refused until
+ *     CALENDAR_FEED_TOKEN is set
+ *
+ * Response:
+ *   - 200 with the import result (created/updated/canceled/unchanged/skipped)
+ *   - 400 when no calendar is provided
+ *   - 401 for a missing or wrong token, or no CALENDAR_FEED_TOKEN
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request, { requireToken: true })) return unauthorized();
+
+  const params = request.nextUrl.searchParams;
+
+  try {
+    let ics: string;
+    if ((request.headers.get("content-type") || "").includes("json")) {
+      const body = (await request.json().catch(() => ({}))) as {
+        url?: string;
+        ics?: string;
+      };
+      ics = body.ics ?? (body.url ? await fetchIcsFeed(body.url) : "");
+    } else {
+      ics = await request.text();
+    }
+
+    if (!ics.trim()) {
+      return NextResponse.json(
+        { error: "Send an .ics body or JSON with url or ics" },
+        { status: 400 }
+      );
+    }
+
+    const result = await importIcsIntoMeetings(ics, {
+      startDate: params.get("start") ?? undefined,
+      endDate: params.get("end") ?? undefined,
+      dryRun: params.get("dryRun") === "true",
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[calendar-ics] Import failed:", error);
+    return NextResponse.json(
+      {
+        error: "Calendar import failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server.js";
+import { validateNotionSchema } from "@/services/notion/schemaValidator";
+import { notionConfig, type NotionConfig } from "@/config";
+
+/**
+ * GET /api/notion/schema
+ *
+ * Compares the live Notion database schemas with notionConfig and the
+ * option enum maps, returning a structured drift report.
+ *
+ * Query params:
+ *   - database (optional, repeatable): limit the check to specific config keys
+ *
+ * Response:
+ *   - 200 with the report when no error-severity drift is found
+ *   - 409 with the report when drift would break writes
+ *   - 400 for unknown database keys
+ */
+export async function GET(request: NextRequest) {
+  const requested = request.nextUrl.searchParams.getAll("database");
+  const unknown = requested.filter((key) => !(key in notionConfig));
+
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      {
+        error: `Unknown database key(s): ${unknown.join(", ")}`,
+        validKeys: Object.keys(notionConfig),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await validateNotionSchema(
+      requested.length > 0
+        ? (requested as Array<keyof NotionConfig>)
+        : undefined
+    );
+
+    return NextResponse.json(report, { status: report.ok ? 200 : 409 });
+  } catch (error) {
+    console.error("[notion-schema] Validation failed:", error);
+    return NextResponse.json(
+      {
+        error: "Schema validation failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,3 +1,3 @@
-export { APP_USER_ID } from "./userConfig.js";
+export { APP_USER_ID, APP_TIME_ZONE } from "./userConfig.js";
 export * from "./notionConfig.js";
 
@@ -96,6 +96,11 @@ export const notionConfig: NotionConfig = {
         type: "people",
         description: "Project owner(s)",
       },
+      sourceIdeaId: {
+        name: "Source Idea ID",
+        type: "rich_text",
+        description: "ID of the idea the brief was promoted from",
+      },
     },
   },
 
@@ -294,6 +299,26 @@ export const notionConfig: NotionConfig = {
         type: "people",
         description: "Meeting attendees",
       },
+      icalUid: {
+        name: "iCal UID",
+        type: "rich_text",
+        description: "UID of the external calendar event (ICS import/export)",
+      },
+      seriesId: {
+        name: "Series ID",
+        type: "rich_text",
+        description: "Shared by every occurrence of a recurring meeting",
+      },
+      recurrence: {
+        name: "Recurrence",
+        type: "rich_text",
+        description: "Series definition: DTSTART, DURATION, RRULE and EXDATE lines",
+      },
+      status: {
+        name: "Status",
+        type: "select",
+        description: "Canceled, or empty while the meeting is on",
+      },
       createdBy: {
         name: "Created by",
         type: "created_by",
@@ -459,6 +484,69 @@ export function getDatabaseId(database: keyof NotionConfig): string {
   return id;
 }
 
+// ============================================================================
+// Projects Domain Types & Constants
+// ============================================================================
+
+/**
+ * Valid status values for Projects / Product Briefs (status property)
+ */
+export const ProjectStatus = {
+  BACKLOG: "Backlog",
+  PLANNING: "Planning",
+  IN_PROGRESS: "In Progress",
+  PAUSED: "Paused",
+  DONE: "Done",
+  CANCELED: "Canceled",
+} as const;
+
+export type ProjectStatusValue =
+  (typeof ProjectStatus)[keyof typeof ProjectStatus];
+
+/**
+ * Valid priority values for Projects (select property)
+ */
+export const ProjectPriority = {
+  LOW: "Low",
+  MEDIUM: "Medium",
+  HIGH: "High",
+} as const;
+
+export type ProjectPriorityValue =
+  (typeof ProjectPriority)[keyof typeof ProjectPriority];
+
+// ============================================================================
+// Tasks Domain Types & Constants
+// ============================================================================
+
+/**
+ * Valid status values for Tasks (status property)
+ */
+export const TaskStatus = {
+  BACKLOG: "Backlog",
+  TODO: "To Do",
+  IN_PROGRESS: "In Progress",
+  ONGOING: "Ongoing",
+  DONE: "Done",
+  ARCHIVED: "Archived",
+} as const;
+
+export type TaskStatusValue = (typeof TaskStatus)[keyof typeof TaskStatus];
+
+/**
+ * Valid priority values for Tasks (select property)
+ */
+export const TaskPriority = {
+  VERY_LOW: "Very Low",
+  LOW: "Low",
+  MEDIUM: "Medium",
+  HIGH: "High",
+  VERY_HIGH: "Very High",
+} as const;
+
+export type TaskPriorityValue =
+  (typeof TaskPriority)[keyof typeof TaskPriority];
+
 // ============================================================================
 // Ideas Domain Types & Constants
 // ============================================================================
@@ -478,6 +566,8 @@ export const IdeaStatus = {
   BACKLOG: "Backlog",
   AI_TASK: "AI Task",
   DUMP: "Dump",
+  // Set when an idea becomes a Product Brief (auto-created select option)
+  PROMOTED: "Promoted",
 } as const;
 
 export type IdeaStatusValue = (typeof IdeaStatus)[keyof typeof IdeaStatus];
@@ -530,6 +620,20 @@ export const IdeaTags = {
 
 export type IdeaTagValue = (typeof IdeaTags)[keyof typeof IdeaTags];
 
+// ============================================================================
+// Meetings Domain Types & Constants
+// ============================================================================
+
+/**
+ * Valid status values for Meetings (select property)
+ */
+export const MeetingStatus = {
+  CANCELED: "Canceled",
+} as const;
+
+export type MeetingStatusValue =
+  (typeof MeetingStatus)[keyof typeof MeetingStatus];
+
 // ============================================================================
 // Gameplans Domain Types & Constants
 // ============================================================================
@@ -559,6 +663,10 @@ export const GameplanCategory = {
   TECHNICAL: "Technical",
   CONTENT: "Content",
   LIFESTYLE: "Lifestyle",
+  // Recurring generated reports (idea themes, reviews)
+  REVIEW: "Review",
+  // Quarterly plans
+  PLANNING: "Planning",
 } as const;
 
 export type GameplanCategoryValue =
@@ -660,3 +768,46 @@ export const ContentEditingWorkflow = {
 
 export type ContentEditingWorkflowValue =
   (typeof ContentEditingWorkflow)[keyof typeof ContentEditingWorkflow];
+
+// ============================================================================
+// Option Enum Mapping
+// ============================================================================
+
+/**
+ * Enum maps that code writes into select/multi_select/status properties,
+ * keyed by database and property key
+ */
+export const propertyOptionEnums: Partial<
+  Record<keyof NotionConfig, Record<string, Record<string, string>>>
+> = {
+  projects: {
+    status: ProjectStatus,
+    priority: ProjectPriority,
+  },
+  tasks: {
+    status: TaskStatus,
+    priority: TaskPriority,
+  },
+  ideas: {
+    status: IdeaStatus,
+    status1: IdeaStatus1,
+    timerStatus: IdeaTimerStatus,
+    tags: IdeaTags,
+  },
+  meetings: {
+    status: MeetingStatus,
+  },
+  gameplans: {
+    status: GameplanStatus,
+    category: GameplanCategory,
+    priority: GameplanPriority,
+  },
+  content: {
+    status: ContentStatus,
+    contentGoal: ContentGoal,
+    platform: ContentPlatform,
+    contentType: ContentType,
+    targetAudience: ContentTargetAudience,
+    editingWorkflow: ContentEditingWorkflow,
+  },
+};
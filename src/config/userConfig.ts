@@ -11,4 +11,8 @@
  */
 export const APP_USER_ID = "self";
 
-
+/**
+ * IANA time zone used to interpret wall-clock times (working hours,
+ * meeting times entered without an offset).
+ */
+export const APP_TIME_ZONE = "America/New_York";
@@ -0,0 +1,16 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ *
+ * Checks the live Notion schemas against notionConfig when enabled with
+ * NOTION_SCHEMA_CHECK: "warn" logs drift, "strict" fails startup, "off"
+ * (default) skips the check.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { runSchemaStartupCheck } = await import(
+    "./services/notion/schemaValidator.js"
+  );
+
+  await runSchemaStartupCheck();
+}
@@ -0,0 +1,264 @@
+import {
+  queryMeetingsByDateRange,
+  normalizeMeetingResponse,
+  getGameplanForDate,
+  getPageBlocksAsText,
+  getUser,
+  compactId,
+  type NotionUser,
+  type MeetingResponse,
+} from "../notion/index.js";
+import {
+  meetingInterval,
+  toZonedIso,
+  zonedTimeToUtc,
+  eachDate,
+  zonedDate,
+  projectSeriesMeetings,
+} from "../scheduling/index.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { serializeIcs } from "./ics.js";
+import type {
+  IcsAttendee,
+  IcsEvent,
+  GameplanTimeBlock,
+  CalendarExportOptions,
+} from "./types.js";
+
+/**
+ * Calendar Export
+ * Meetings and gameplan time blocks as a subscribable ICS feed
+ */
+
+const UID_DOMAIN = "creative-os";
+const GAMEPLAN_CATEGORY = "Gameplan";
+
+// 9:00 AM - 10:30 AM, 9-11am, 14:00–15:30, 1pm to 2pm
+const TIME_RANGE_PATTERN =
+  /\b(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?\s*(?:-|–|—|to)\s*(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?(?![\w:])/i;
+
+// ============================================================================
+// Gameplan Time Blocks
+// ============================================================================
+
+function toMinutes(hours: number, minutes: number, meridiem?: string): number {
+  const hour =
+    meridiem?.toLowerCase() === "p"
+      ? (hours % 12) + 12
+      : meridiem?.toLowerCase() === "a"
+        ? hours % 12
+        : hours;
+  return hour * 60 + minutes;
+}
+
+function formatClock(totalMinutes: number): string {
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, "0");
+  const minutes = String(totalMinutes % 60).padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Parse a clock range ("9:00 AM - 10:30 AM", "9-11am", "14:00–15:30")
+ * into HH:MM start and end; a missing meridiem on the start is taken from
+ * the end unless that would put the start after the end ("11-1pm")
+ */
+export function parseTimeRange(
+  text: string
+): { start: string; end: string } | null {
+  const match = text.match(TIME_RANGE_PATTERN);
+  if (!match) return null;
+
+  const [
+    ,
+    startHours,
+    startMinutes = "0",
+    startMeridiem,
+    endHours,
+    endMinutes = "0",
+    endMeridiem,
+  ] = match;
+  const end = toMinutes(Number(endHours), Number(endMinutes), endMeridiem);
+  let start = toMinutes(
+    Number(startHours),
+    Number(startMinutes),
+    startMeridiem ?? endMeridiem
+  );
+  if (!startMeridiem && endMeridiem && start > end) {
+    start = toMinutes(Number(startHours), Number(startMinutes));
+  }
+
+  if (start >= end || end > 24 * 60) return null;
+  return { start: formatClock(start), end: formatClock(end) };
+}
+
+/**
+ * Scheduled tasks in a gameplan body: "Priority Tasks" lines with a
+ * recommended window ("[High] Draft outline → 9:00 AM - 10:30 AM (Brief)")
+ */
+export function parseGameplanTimeBlocks(
+  markdown: string
+): Array<{ title: string; start: string; end: string }> {
+  const blocks: Array<{ title: string; start: string; end: string }> = [];
+  let inTasks = false;
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      inTasks = /priority tasks/i.test(heading[1]);
+      continue;
+    }
+    if (!inTasks) continue;
+
+    const item = line.match(/^\s*[-*]\s+(.*?)\s*→\s*(.+)$/);
+    const range = item ? parseTimeRange(item[2]) : null;
+    if (!item || !range) continue;
+
+    blocks.push({
+      // Task titles may be links to their Notion page
+      title: item[1]
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+        .replace(/^\[[^\]]+\]\s*/, "")
+        .trim(),
+      ...range,
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Time blocks planned in the daily gameplan for a date
+ */
+export async function getGameplanTimeBlocks(
+  date: string,
+  timeZone: string = APP_TIME_ZONE
+): Promise<GameplanTimeBlock[]> {
+  const gameplan = await getGameplanForDate(date);
+  if (!gameplan) return [];
+
+  const markdown = await getPageBlocksAsText(gameplan.pageId);
+
+  return parseGameplanTimeBlocks(markdown).map((block) => ({
+    gameplanId: gameplan.pageId,
+    gameplanUrl: gameplan.url,
+    date,
+    title: block.title,
+    start: toZonedIso(zonedTimeToUtc(date, block.start, timeZone), timeZone),
+    end: toZonedIso(zonedTimeToUtc(date, block.end, timeZone), timeZone),
+  }));
+}
+
+// ============================================================================
+// Feed
+// ============================================================================
+
+/**
+ * Stable UID for a gameplan block: the same task at the same start keeps
+ * its UID across feed refreshes
+ */
+function timeBlockUid(block: GameplanTimeBlock): string {
+  const slug = block.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40);
+  const time = block.start.slice(11, 16).replace(":", "");
+  return `gameplan-${compactId(block.gameplanId)}-${time}-${slug}@${UID_DOMAIN}`;
+}
+
+/**
+ * Series occurrences are keyed by series and date, so an occurrence keeps
+ * its UID once its page is created
+ */
+function meetingUid(
+  meeting: MeetingResponse,
+  interval: { start: number } | null,
+  timeZone: string
+): string {
+  if (meeting.icalUid) return meeting.icalUid;
+  if (!meeting.seriesId) return `${compactId(meeting.pageId)}@${UID_DOMAIN}`;
+
+  const date = interval
+    ? zonedDate(interval.start, timeZone)
+    : (meeting.eventTime as string).slice(0, 10);
+  const series = meeting.seriesId.replace(/[^A-Za-z0-9-]+/g, "-");
+  return `series-${series}-${date}@${UID_DOMAIN}`;
+}
+
+async function attendeesFor(userIds: string[]): Promise<IcsAttendee[]> {
+  const users = await Promise.all(userIds.map(getUser));
+  return users
+    .filter((user): user is NotionUser => Boolean(user?.email))
+    .map((user) => ({ email: user.email as string, name: user.name }));
+}
+
+/**
+ * Meetings (and gameplan time blocks) between two dates as ICS events
+ * Meetings imported from a calendar keep their original UID. Series
+ * occurrences without a page yet are expanded in memory; nothing is
+ * written.
+ */
+export async function getCalendarEvents(
+  startDate: string,
+  endDate: string,
+  options: CalendarExportOptions = {}
+): Promise<IcsEvent[]> {
+  const { includeGameplans = true, timeZone = APP_TIME_ZONE } = options;
+
+  const [pages, projected] = await Promise.all([
+    queryMeetingsByDateRange(startDate, endDate),
+    projectSeriesMeetings(startDate, endDate),
+  ]);
+  const meetings = [...pages.map(normalizeMeetingResponse), ...projected];
+
+  const events: IcsEvent[] = [];
+  for (const meeting of meetings) {
+    if (!meeting.eventTime) continue;
+
+    const interval = meetingInterval(meeting, timeZone);
+    events.push({
+      uid: meetingUid(meeting, interval, timeZone),
+      summary: meeting.title || "(No title)",
+      start: interval ? toZonedIso(interval.start, timeZone) : meeting.eventTime,
+      end: interval
+        ? toZonedIso(interval.end, timeZone)
+        : meeting.eventTimeEnd?.slice(0, 10) ?? null,
+      allDay: !interval,
+      attendees: await attendeesFor(meeting.attendeeIds),
+      url: meeting.url,
+      description: `Notion: ${meeting.url}`,
+    });
+  }
+
+  if (includeGameplans) {
+    for (const date of eachDate(startDate, endDate)) {
+      for (const block of await getGameplanTimeBlocks(date, timeZone)) {
+        events.push({
+          uid: timeBlockUid(block),
+          summary: block.title,
+          start: block.start,
+          end: block.end,
+          allDay: false,
+          url: block.gameplanUrl,
+          description: `Planned in the daily gameplan: ${block.gameplanUrl}`,
+          categories: [GAMEPLAN_CATEGORY],
+        });
+      }
+    }
+  }
+
+  return events.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * ICS document for a date range of meetings and gameplan time blocks
+ */
+export async function exportCalendarIcs(
+  startDate: string,
+  endDate: string,
+  options: CalendarExportOptions = {}
+): Promise<string> {
+  const { timeZone = APP_TIME_ZONE, calendarName = "Creative OS" } = options;
+  const events = await getCalendarEvents(startDate, endDate, options);
+  return serializeIcs(events, { timeZone, name: calendarName });
+}
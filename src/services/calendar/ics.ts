@@ -0,0 +1,444 @@
+import {
+  parseEventTime,
+  toZonedIso,
+  zonedTimeToUtc,
+  addDays,
+} from "../scheduling/index.js";
+import type { IcsAttendee, IcsEvent, ParsedCalendar } from "./types.js";
+
+/**
+ * ICS (RFC 5545)
+ * Parse and write iCalendar documents. Only VEVENTs are read; VTIMEZONE
+ * blocks are ignored in favour of IANA zone names in TZID.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const PRODUCT_ID = "-//Creative OS//Meetings//EN";
+
+// Content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zone for a TZID; some exporters prefix it with a vendor path
+ * ("/mozilla.org/20050126_1/America/New_York")
+ */
+function resolveTimeZone(tzid: string): string | null {
+  const segments = tzid.split("/").filter(Boolean);
+  for (let i = 0; i < segments.length; i++) {
+    const candidate = segments.slice(i).join("/");
+    if (isValidTimeZone(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Milliseconds in an ICS DURATION (P1D, PT1H30M, P2W)
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) =>
+    part === undefined ? "0" : part
+  );
+  const total =
+    ((Number(weeks) * 7 + Number(days)) * 24 * 60 +
+      Number(hours) * 60 +
+      Number(minutes)) *
+      MINUTE_MS +
+    Number(seconds) * 1000;
+  return sign === "-" ? -total : total;
+}
+
+/**
+ * DTSTART/DTEND/RECURRENCE-ID value as YYYY-MM-DD (all-day) or an ISO
+ * timestamp in the target zone
+ */
+function parseDateValue(
+  line: ContentLine,
+  timeZone: string,
+  warnings: string[]
+): { value: string; allDay: boolean; instant: number | null } | null {
+  const date = line.value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date || line.params.VALUE === "DATE") {
+    if (!date) return null;
+    return {
+      value: `${date[1]}-${date[2]}-${date[3]}`,
+      allDay: true,
+      instant: null,
+    };
+  }
+
+  const dateTime = line.value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/
+  );
+  if (!dateTime) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = dateTime;
+  let instant: number;
+
+  if (utc) {
+    instant = Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds)
+    );
+  } else {
+    let zone = timeZone;
+    if (line.params.TZID) {
+      const resolved = resolveTimeZone(line.params.TZID);
+      if (resolved) {
+        zone = resolved;
+      } else {
+        warnings.push(
+          `Unknown time zone "${line.params.TZID}"; read as ${timeZone}`
+        );
+      }
+    }
+    instant =
+      zonedTimeToUtc(`${year}-${month}-${day}`, `${hours}:${minutes}`, zone) +
+      Number(seconds) * 1000;
+  }
+
+  return { value: toZonedIso(instant, timeZone), allDay: false, instant };
+}
+
+function parseAttendee(line: ContentLine): IcsAttendee | null {
+  const email = line.value.replace(/^mailto:/i, "").trim().toLowerCase();
+  if (!email.includes("@")) return null;
+  return { email, name: line.params.CN ? unescapeText(line.params.CN) : null };
+}
+
+/**
+ * Stable stand-in UID for events that lack one (FNV-1a of start + title)
+ */
+function fallbackUid(start: string, summary: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of `${start}|${summary}`) {
+    hash ^= char.codePointAt(0) as number;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `generated-${hash.toString(16)}`;
+}
+
+function buildEvent(
+  lines: ContentLine[],
+  timeZone: string,
+  warnings: string[]
+): IcsEvent | null {
+  const first = (name: string) => lines.find((line) => line.name === name);
+  const text = (name: string) => {
+    const line = first(name);
+    return line ? unescapeText(line.value).trim() : null;
+  };
+
+  const summary = text("SUMMARY") || "(No title)";
+  const startLine = first("DTSTART");
+  const start = startLine ? parseDateValue(startLine, timeZone, warnings) : null;
+  if (!start) {
+    warnings.push(`Skipped "${summary}": missing or invalid DTSTART`);
+    return null;
+  }
+
+  let end: string | null = null;
+  const endLine = first("DTEND");
+  const durationLine = first("DURATION");
+  const parsedEnd = endLine ? parseDateValue(endLine, timeZone, warnings) : null;
+  const duration = durationLine ? parseDuration(durationLine.value) : null;
+
+  if (start.allDay) {
+    // ICS all-day ends are exclusive; Notion date ranges are inclusive
+    const exclusiveEnd = parsedEnd?.allDay
+      ? parsedEnd.value
+      : duration
+        ? addDays(start.value, Math.round(duration / (24 * 60 * MINUTE_MS)))
+        : null;
+    const lastDay = exclusiveEnd ? addDays(exclusiveEnd, -1) : null;
+    end = lastDay && lastDay > start.value ? lastDay : null;
+  } else if (parsedEnd?.instant != null && parsedEnd.instant > start.instant!) {
+    end = parsedEnd.value;
+  } else if (duration && duration > 0) {
+    end = toZonedIso(start.instant! + duration, timeZone);
+  }
+
+  const recurrenceLine = first("RECURRENCE-ID");
+  const exdates = lines
+    .filter((line) => line.name === "EXDATE")
+    .flatMap((line) =>
+      line.value.split(",").map((value) => ({ ...line, value: value.trim() }))
+    )
+    .map((line) => parseDateValue(line, timeZone, warnings)?.value ?? null)
+    .filter((value): value is string => value !== null)
+    .map((value) => value.slice(0, 10));
+
+  return {
+    uid: text("UID") || fallbackUid(start.value, summary),
+    summary,
+    start: start.value,
+    end,
+    allDay: start.allDay,
+    attendees: lines
+      .filter((line) => line.name === "ATTENDEE")
+      .map(parseAttendee)
+      .filter((attendee): attendee is IcsAttendee => attendee !== null),
+    organizer: first("ORGANIZER") ? parseAttendee(first("ORGANIZER")!) : null,
+    status: text("STATUS")?.toUpperCase() ?? null,
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    url: text("URL"),
+    categories: lines
+      .filter((line) => line.name === "CATEGORIES")
+      .flatMap((line) => splitOutsideQuotes(line.value, ","))
+      .map((category) => unescapeText(category).trim())
+      .filter(Boolean),
+    sequence: Number(text("SEQUENCE")) || 0,
+    rrule: first("RRULE")?.value ?? null,
+    ...(exdates.length > 0 && { exdates }),
+    recurrenceId: recurrenceLine
+      ? parseDateValue(recurrenceLine, timeZone, warnings)?.value ?? null
+      : null,
+  };
+}
+
+/**
+ * Parse an iCalendar document into events
+ * @param timeZone - Zone for floating times and for the returned timestamps
+ */
+export function parseIcs(text: string, timeZone: string): ParsedCalendar {
+  const warnings: string[] = [];
+  const events: IcsEvent[] = [];
+  let name: string | null = null;
+
+  const stack: string[] = [];
+  let eventLines: ContentLine[] = [];
+
+  const rawLines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/);
+
+  for (const raw of rawLines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      stack.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === "VEVENT") eventLines = [];
+      continue;
+    }
+    if (line.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT") {
+        const event = buildEvent(eventLines, timeZone, warnings);
+        if (event) events.push(event);
+      }
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current === "VEVENT") {
+      eventLines.push(line);
+    } else if (current === "VCALENDAR" && line.name === "X-WR-CALNAME") {
+      name = unescapeText(line.value).trim() || null;
+    }
+  }
+
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    warnings.push("No VCALENDAR found; is this an .ics file?");
+  }
+
+  return { name, events, warnings: [...new Set(warnings)] };
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function quoteParam(value: string): string {
+  return /[:;,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+function formatUtc(instant: number): string {
+  return new Date(instant).toISOString().replace(/[-:]/g, "").slice(0, 15) + "Z";
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+function attendeeLine(name: string, attendee: IcsAttendee): string {
+  const cn = attendee.name ? `;CN=${quoteParam(attendee.name)}` : "";
+  return `${name}${cn}:mailto:${attendee.email}`;
+}
+
+function eventLines(
+  event: IcsEvent,
+  timeZone: string,
+  stamp: string
+): string[] {
+  const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.end ?? event.start, 1))}`
+    );
+  } else {
+    const start = parseEventTime(event.start, timeZone);
+    const end = event.end ? parseEventTime(event.end, timeZone) : null;
+    if (start === null) return [];
+    lines.push(`DTSTART:${formatUtc(start)}`);
+    if (end !== null && end > start) lines.push(`DTEND:${formatUtc(end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  }
+  if (event.organizer) lines.push(attendeeLine("ORGANIZER", event.organizer));
+  for (const attendee of event.attendees ?? []) {
+    lines.push(attendeeLine("ATTENDEE", attendee));
+  }
+  if (event.sequence) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Write events as an iCalendar document (CRLF line endings, folded lines)
+ * @param timeZone - Zone for event times that carry no offset
+ */
+export function serializeIcs(
+  events: IcsEvent[],
+  options: { timeZone: string; name?: string; now?: Date }
+): string {
+  const { timeZone, name, now = new Date() } = options;
+  const stamp = formatUtc(now.getTime());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events.flatMap((event) => eventLines(event, timeZone, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,676 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import {
+  createMeeting,
+  updateMeeting,
+  cancelMeeting,
+  getMeetingsByIcalUid,
+  queryMeetingSeries,
+  listUsers,
+  type MeetingResponse,
+} from "../notion/index.js";
+import {
+  parseEventTime,
+  zonedDate,
+  addDays,
+  buildSeriesDefinition,
+  parseSeriesDefinition,
+  formatRRule,
+  expandSeries,
+  createMeetingSeries,
+  updateMeetingSeries,
+  cancelMeetingSeries,
+  type SeriesDefinition,
+} from "../scheduling/index.js";
+import { MeetingStatus } from "../../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { parseIcs } from "./ics.js";
+import type {
+  IcsEvent,
+  CalendarImportItem,
+  CalendarImportOptions,
+  CalendarImportOutcome,
+  CalendarImportResult,
+} from "./types.js";
+
+/**
+ * Calendar Import
+ * Sync events from an .ics file or feed into the Meetings database. The
+ * event UID is stored on the meeting, so re-importing updates meetings in
+ * place instead of duplicating them. Recurring events become meeting
+ * series with the UID as their Series ID.
+ */
+
+const FETCH_TIMEOUT_MS = 15_000;
+
+// Feed URLs are user input; refuse bodies larger than this
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+// RRULE parts the series expander understands
+const SUPPORTED_RRULE_PARTS = [
+  "FREQ",
+  "INTERVAL",
+  "BYDAY",
+  "BYMONTHDAY",
+  "COUNT",
+  "UNTIL",
+  "WKST",
+];
+
+// How far ahead to look for an occurrence before calling a series ended
+const SERIES_LOOKAHEAD_DAYS = 366;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other non-public ranges a feed URL
+// must not reach
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1)
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+  return PRIVATE_ADDRESSES.check(address, family);
+}
+
+/**
+ * Parse a feed URL and make sure it points at a public host over
+ * http(s); webcal:// is read as https://
+ */
+async function resolveFeedUrl(url: string): Promise<URL> {
+  let feedUrl: URL;
+  try {
+    feedUrl = new URL(url.replace(/^webcal:\/\//i, "https://"));
+  } catch {
+    throw new Error(`Invalid calendar URL: ${url}`);
+  }
+  if (feedUrl.protocol !== "https:" && feedUrl.protocol !== "http:") {
+    throw new Error("Calendar URLs must use http, https or webcal");
+  }
+
+  const host = feedUrl.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(
+      `Calendar URL host ${feedUrl.hostname} is not a public address`
+    );
+  }
+  return feedUrl;
+}
+
+/**
+ * Response body as text, stopping once it passes MAX_FEED_BYTES
+ */
+async function readFeedBody(response: Response): Promise<string> {
+  const tooLarge = () =>
+    new Error(
+      `Failed to fetch calendar: feed is larger than ${MAX_FEED_BYTES / (1024 * 1024)} MB`
+    );
+
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > MAX_FEED_BYTES) throw tooLarge();
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Download an ICS feed (webcal:// URLs are fetched over https). Only
+ * public http(s) hosts are fetched, each redirect is checked again, and
+ * the body is capped at MAX_FEED_BYTES.
+ */
+export async function fetchIcsFeed(url: string): Promise<string> {
+  let feedUrl = await resolveFeedUrl(url);
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    response = await fetch(feedUrl, {
+      headers: { Accept: "text/calendar, text/plain;q=0.9, */*;q=0.5" },
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Failed to fetch calendar: too many redirects");
+    }
+    feedUrl = await resolveFeedUrl(new URL(location, feedUrl).toString());
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch calendar: ${response.status} ${response.statusText}`
+    );
+  }
+  return readFeedBody(response);
+}
+
+function sameEventTime(
+  a: string | null,
+  b: string | null,
+  timeZone: string
+): boolean {
+  if (!a || !b) return !a && !b;
+  const instantA = parseEventTime(a, timeZone);
+  const instantB = parseEventTime(b, timeZone);
+  return instantA === null || instantB === null
+    ? a.slice(0, 10) === b.slice(0, 10) && instantA === instantB
+    : instantA === instantB;
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+function hasChanged(
+  meeting: MeetingResponse,
+  event: IcsEvent,
+  attendeeIds: string[],
+  timeZone: string
+): boolean {
+  return (
+    meeting.title !== event.summary ||
+    !sameEventTime(meeting.eventTime, event.start, timeZone) ||
+    !sameEventTime(meeting.eventTimeEnd, event.end, timeZone) ||
+    !sameIds(meeting.attendeeIds, attendeeIds)
+  );
+}
+
+function localDate(value: string, timeZone: string): string {
+  const instant = parseEventTime(value, timeZone);
+  return instant === null ? value.slice(0, 10) : zonedDate(instant, timeZone);
+}
+
+function isInRange(event: IcsEvent, options: CalendarImportOptions): boolean {
+  const date = event.start.slice(0, 10);
+  // A series that began before the range can still have occurrences in it
+  const isSeries = Boolean(event.rrule && !event.recurrenceId);
+  return (
+    (isSeries || !options.startDate || date >= options.startDate) &&
+    (!options.endDate || date <= options.endDate)
+  );
+}
+
+/**
+ * Why a series' RRULE can't be expanded here, or null
+ */
+function unsupportedRule(rrule: string): string | null {
+  const parts = new Map(
+    rrule
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .filter(Boolean)
+      .map((part) => {
+        const [key, ...value] = part.split("=");
+        return [key.toUpperCase(), value.join("=").toUpperCase()];
+      })
+  );
+
+  const unsupported = [...parts.keys()].filter(
+    (key) => !SUPPORTED_RRULE_PARTS.includes(key)
+  );
+  if (unsupported.length > 0) {
+    return `recurrence rule uses ${unsupported.join(", ")}, which is not supported`;
+  }
+  // Weeks are counted from Monday
+  const wkst = parts.get("WKST");
+  if (wkst && wkst !== "MO" && Number(parts.get("INTERVAL") ?? 1) > 1) {
+    return `recurrence rule uses WKST=${wkst} with an INTERVAL, which is not supported`;
+  }
+  return null;
+}
+
+/**
+ * iCal UID stored on a meeting imported from a changed occurrence of a
+ * series: the series UID plus the occurrence's original date
+ */
+function overrideUid(event: IcsEvent, timeZone: string): string {
+  return `${event.uid}/${localDate(event.recurrenceId as string, timeZone)}`;
+}
+
+function seriesChanged(
+  latest: MeetingResponse,
+  current: SeriesDefinition,
+  next: SeriesDefinition,
+  title: string,
+  attendeeIds: string[]
+): boolean {
+  return (
+    latest.title !== title ||
+    !sameIds(latest.attendeeIds, attendeeIds) ||
+    current.start.slice(11) !== next.start.slice(11) ||
+    current.durationMinutes !== next.durationMinutes ||
+    formatRRule(current.rule, current.timeZone) !==
+      formatRRule(next.rule, next.timeZone) ||
+    next.exceptions.some((date) => !current.exceptions.includes(date))
+  );
+}
+
+interface ImportContext {
+  dryRun: boolean;
+  timeZone: string;
+  /** First date to create occurrences of a new series for */
+  fromDate: string;
+  existing: Map<string, MeetingResponse>;
+  attendeeIdsFor: (event: IcsEvent) => string[];
+  /** Open occurrences of a series, loaded once per import */
+  seriesPages: (seriesId: string) => Promise<MeetingResponse[]>;
+  /** Take a page out of the cached occurrences of its series */
+  forgetSeriesPage: (seriesId: string, pageId: string) => void;
+}
+
+/**
+ * The series page for the original date of a changed occurrence
+ */
+async function findOccurrence(
+  event: IcsEvent,
+  context: ImportContext
+): Promise<MeetingResponse | null> {
+  const date = localDate(event.recurrenceId as string, context.timeZone);
+  const pages = await context.seriesPages(event.uid);
+  return (
+    pages.find(
+      (page) =>
+        page.eventTime && localDate(page.eventTime, context.timeZone) === date
+    ) ?? null
+  );
+}
+
+/**
+ * Create, update or cancel the meeting for a single event or a changed
+ * occurrence. A changed occurrence takes over the series page for its
+ * original date: the page leaves the series and keeps the override's UID.
+ */
+async function importEvent(
+  event: IcsEvent,
+  uid: string,
+  item: CalendarImportItem,
+  context: ImportContext
+): Promise<void> {
+  const { dryRun, timeZone } = context;
+  const meeting = context.existing.get(uid) ?? null;
+  item.meetingId = meeting?.pageId ?? null;
+  item.url = meeting?.url ?? null;
+
+  if (meeting?.status === MeetingStatus.CANCELED) {
+    // Canceled here or by an earlier import; don't bring it back
+    if (event.status === "CANCELLED") item.outcome = "unchanged";
+    else item.reason = "meeting was canceled in Notion";
+    return;
+  }
+
+  const occurrence =
+    !meeting && event.recurrenceId ? await findOccurrence(event, context) : null;
+
+  if (event.status === "CANCELLED") {
+    const target = meeting ?? occurrence;
+    if (!target) {
+      item.reason = "canceled event with no matching meeting";
+      return;
+    }
+    if (!dryRun) {
+      await cancelMeeting(target.pageId, { reason: "Canceled in calendar" });
+    }
+    item.meetingId = target.pageId;
+    item.url = target.url;
+    item.outcome = "canceled";
+    return;
+  }
+
+  const attendeeIds = context.attendeeIdsFor(event);
+
+  if (occurrence) {
+    if (!dryRun) {
+      await updateMeeting(
+        {
+          pageId: occurrence.pageId,
+          title: event.summary,
+          eventTime: event.start,
+          eventTimeEnd: event.end,
+          attendeeIds,
+          icalUid: uid,
+          seriesId: null,
+          recurrence: null,
+        },
+        { reason: "Changed in calendar" }
+      );
+      context.forgetSeriesPage(event.uid, occurrence.pageId);
+    }
+    item.meetingId = occurrence.pageId;
+    item.url = occurrence.url;
+    item.outcome = "updated";
+    return;
+  }
+
+  if (!meeting) {
+    if (!dryRun) {
+      const created = await createMeeting({
+        title: event.summary,
+        eventTime: event.start,
+        eventTimeEnd: event.end ?? undefined,
+        attendeeIds,
+        icalUid: uid,
+      });
+      item.meetingId = created.pageId;
+      item.url = created.url;
+    }
+    item.outcome = "created";
+    return;
+  }
+
+  if (!hasChanged(meeting, event, attendeeIds, timeZone)) {
+    item.outcome = "unchanged";
+    return;
+  }
+
+  if (!dryRun) {
+    await updateMeeting(
+      {
+        pageId: meeting.pageId,
+        title: event.summary,
+        eventTime: event.start,
+        eventTimeEnd: event.end,
+        attendeeIds,
+      },
+      { reason: "Updated in calendar" }
+    );
+  }
+  item.outcome = "updated";
+}
+
+/**
+ * Create, update or cancel the meeting series for a recurring event. The
+ * original dates of its changed occurrences become exceptions, since
+ * those occurrences are imported as meetings of their own.
+ */
+async function importSeries(
+  event: IcsEvent,
+  overrides: IcsEvent[],
+  item: CalendarImportItem,
+  context: ImportContext
+): Promise<void> {
+  const { dryRun, timeZone, fromDate } = context;
+  item.seriesId = event.uid;
+
+  const unsupported = unsupportedRule(event.rrule as string);
+  if (unsupported) {
+    item.reason = unsupported;
+    return;
+  }
+
+  const pages = await context.seriesPages(event.uid);
+  const latest = pages[pages.length - 1] ?? null;
+  item.meetingId = latest?.pageId ?? null;
+  item.url = latest?.url ?? null;
+
+  if (event.status === "CANCELLED") {
+    if (!latest) {
+      item.reason = "canceled series with no matching meetings";
+      return;
+    }
+    if (!dryRun) {
+      const result = await cancelMeetingSeries(event.uid, {
+        reason: "Canceled in calendar",
+      });
+      item.occurrences = result.occurrences.length;
+    }
+    item.outcome = "canceled";
+    return;
+  }
+
+  const attendeeIds = context.attendeeIdsFor(event);
+  const input = {
+    seriesId: event.uid,
+    title: event.summary,
+    eventTime: event.start,
+    eventTimeEnd: event.end ?? undefined,
+    attendeeIds,
+    rrule: event.rrule as string,
+    exceptions: [
+      ...new Set([
+        ...(event.exdates ?? []),
+        ...overrides.map((override) =>
+          localDate(override.recurrenceId as string, timeZone)
+        ),
+      ]),
+    ].sort(),
+  };
+
+  let next: SeriesDefinition;
+  try {
+    next = buildSeriesDefinition(input, timeZone);
+  } catch (error) {
+    item.reason = `recurring event can't be imported: ${error instanceof Error ? error.message : "invalid recurrence"}`;
+    return;
+  }
+
+  if (!latest) {
+    const from = fromDate > input.eventTime.slice(0, 10) ? fromDate : null;
+    const ahead = expandSeries(
+      next,
+      from ?? next.start.slice(0, 10),
+      addDays(from ?? next.start.slice(0, 10), SERIES_LOOKAHEAD_DAYS)
+    );
+    if (ahead.length === 0) {
+      item.reason = `series has no occurrences from ${from ?? next.start.slice(0, 10)}`;
+      return;
+    }
+
+    const result = await createMeetingSeries(input, {
+      timeZone,
+      fromDate,
+      dryRun,
+    });
+    item.meetingId = result.occurrences[0]?.meetingId ?? null;
+    item.url = result.occurrences[0]?.url ?? null;
+    item.occurrences = result.occurrences.length;
+    item.outcome = "created";
+    return;
+  }
+
+  let current: SeriesDefinition;
+  try {
+    current = parseSeriesDefinition(latest.recurrence ?? "");
+  } catch {
+    item.reason = `series ${event.uid} in Notion has no readable Recurrence`;
+    return;
+  }
+
+  if (!seriesChanged(latest, current, next, event.summary, attendeeIds)) {
+    item.outcome = "unchanged";
+    return;
+  }
+  if (dryRun) {
+    item.outcome = "updated";
+    return;
+  }
+
+  const result = await updateMeetingSeries(
+    event.uid,
+    {
+      title: event.summary,
+      attendeeIds,
+      startTime: next.start.slice(11, 16),
+      durationMinutes: next.durationMinutes ?? undefined,
+      rrule: event.rrule as string,
+      exceptions: next.exceptions,
+    },
+    { reason: "Updated in calendar" }
+  );
+  const changed = result.occurrences.filter(
+    (occurrence) => occurrence.outcome !== "unchanged"
+  ).length;
+  item.occurrences = changed;
+  item.outcome = changed > 0 ? "updated" : "unchanged";
+}
+
+/**
+ * Import the events of an iCalendar document into Meetings
+ *
+ * New UIDs become meetings; known UIDs are updated when the title, time or
+ * attendees changed (time changes are logged on the page by updateMeeting)
+ * and canceled when the event is CANCELLED. Meetings already canceled in
+ * Notion are left canceled.
+ *
+ * Recurring events (RRULE) become meeting series with the UID as the
+ * Series ID, materialized from the later of startDate (default today) and
+ * the series start. Changed occurrences (RECURRENCE-ID) take over the
+ * series page of their original date, or are created as meetings of their
+ * own; canceled occurrences cancel that page.
+ */
+export async function importIcsIntoMeetings(
+  ics: string,
+  options: CalendarImportOptions = {}
+): Promise<CalendarImportResult> {
+  const { dryRun = false, timeZone = APP_TIME_ZONE } = options;
+
+  const calendar = parseIcs(ics, timeZone);
+  const [users, existing] = await Promise.all([
+    listUsers(),
+    getMeetingsByIcalUid(),
+  ]);
+  const userIdsByEmail = new Map(
+    users
+      .filter((user) => user.email)
+      .map((user) => [(user.email as string).toLowerCase(), user.id])
+  );
+
+  const unmatched = new Set<string>();
+  const seriesCache = new Map<string, MeetingResponse[]>();
+  const context: ImportContext = {
+    dryRun,
+    timeZone,
+    fromDate: options.startDate ?? zonedDate(Date.now(), timeZone),
+    existing,
+    attendeeIdsFor: (event) => {
+      const attendeeIds: string[] = [];
+      for (const attendee of event.attendees ?? []) {
+        const userId = userIdsByEmail.get(attendee.email);
+        if (userId) attendeeIds.push(userId);
+        else unmatched.add(attendee.email);
+      }
+      return attendeeIds;
+    },
+    seriesPages: async (seriesId) => {
+      if (!seriesCache.has(seriesId)) {
+        seriesCache.set(seriesId, await queryMeetingSeries(seriesId));
+      }
+      return seriesCache.get(seriesId) as MeetingResponse[];
+    },
+    forgetSeriesPage: (seriesId, pageId) => {
+      const pages = seriesCache.get(seriesId);
+      if (pages) {
+        seriesCache.set(
+          seriesId,
+          pages.filter((page) => page.pageId !== pageId)
+        );
+      }
+    },
+  };
+
+  // Every changed occurrence counts as an exception of its series, even
+  // outside the import range
+  const overridesByUid = new Map<string, IcsEvent[]>();
+  for (const event of calendar.events) {
+    if (!event.recurrenceId) continue;
+    overridesByUid.set(event.uid, [
+      ...(overridesByUid.get(event.uid) ?? []),
+      event,
+    ]);
+  }
+
+  const events = calendar.events.filter((event) => isInRange(event, options));
+  const seen = new Set<string>();
+  const entries = events.map((event) => {
+    const uid = event.recurrenceId ? overrideUid(event, timeZone) : event.uid;
+    const item: CalendarImportItem = {
+      uid,
+      title: event.summary,
+      eventTime: event.start,
+      eventTimeEnd: event.end,
+      outcome: "skipped",
+      meetingId: null,
+      url: null,
+    };
+    const duplicate = seen.has(uid);
+    seen.add(uid);
+    if (duplicate) item.reason = "duplicate UID in this calendar";
+    return { event, uid, item, duplicate };
+  });
+
+  // Changed occurrences first, so they take over their series pages
+  // before a series update could move or cancel them
+  const ordered = [
+    ...entries.filter(({ event }) => event.recurrenceId),
+    ...entries.filter(({ event }) => !event.recurrenceId),
+  ];
+  for (const { event, uid, item, duplicate } of ordered) {
+    if (duplicate) continue;
+    if (event.rrule && !event.recurrenceId) {
+      await importSeries(
+        event,
+        overridesByUid.get(event.uid) ?? [],
+        item,
+        context
+      );
+    } else {
+      await importEvent(event, uid, item, context);
+    }
+  }
+
+  const items = entries.map(({ item }) => item);
+  const counts = Object.fromEntries(
+    (
+      ["created", "updated", "canceled", "unchanged", "skipped"] as const
+    ).map((outcome) => [
+      outcome,
+      items.filter((item) => item.outcome === outcome).length,
+    ])
+  ) as Record<CalendarImportOutcome, number>;
+
+  return {
+    calendarName: calendar.name,
+    items,
+    counts,
+    outOfRange: calendar.events.length - events.length,
+    unmatchedAttendees: [...unmatched].sort(),
+    warnings: calendar.warnings,
+  };
+}
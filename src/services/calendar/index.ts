@@ -0,0 +1,28 @@
+/**
+ * Calendar Service
+ * ICS (RFC 5545) import into and export from the Meetings database
+ */
+
+export { parseIcs, serializeIcs } from "./ics.js";
+
+export { fetchIcsFeed, importIcsIntoMeetings } from "./importer.js";
+
+export {
+  parseTimeRange,
+  parseGameplanTimeBlocks,
+  getGameplanTimeBlocks,
+  getCalendarEvents,
+  exportCalendarIcs,
+} from "./exporter.js";
+
+export type {
+  IcsAttendee,
+  IcsEvent,
+  ParsedCalendar,
+  CalendarImportOutcome,
+  CalendarImportItem,
+  CalendarImportResult,
+  CalendarImportOptions,
+  GameplanTimeBlock,
+  CalendarExportOptions,
+} from "./types.js";
@@ -0,0 +1,107 @@
+/**
+ * Calendar Types
+ */
+
+export interface IcsAttendee {
+  email: string;
+  name: string | null;
+}
+
+/**
+ * A VEVENT, with times in the same shape as the Meetings "Event time"
+ * property: YYYY-MM-DD for all-day events, otherwise an ISO timestamp
+ * with offset
+ */
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: string;
+  /** Inclusive for all-day events (ICS DTEND is exclusive) */
+  end: string | null;
+  allDay: boolean;
+  attendees?: IcsAttendee[];
+  organizer?: IcsAttendee | null;
+  /** CONFIRMED, TENTATIVE or CANCELLED */
+  status?: string | null;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  categories?: string[];
+  sequence?: number;
+  /** Raw RRULE value for recurring series */
+  rrule?: string | null;
+  /** Local dates (YYYY-MM-DD) the series skips (EXDATE) */
+  exdates?: string[];
+  /** Start of the occurrence this event overrides in a series */
+  recurrenceId?: string | null;
+}
+
+export interface ParsedCalendar {
+  name: string | null;
+  events: IcsEvent[];
+  warnings: string[];
+}
+
+export type CalendarImportOutcome =
+  | "created"
+  | "updated"
+  | "canceled"
+  | "unchanged"
+  | "skipped";
+
+export interface CalendarImportItem {
+  uid: string;
+  title: string;
+  eventTime: string;
+  eventTimeEnd: string | null;
+  outcome: CalendarImportOutcome;
+  /** Why an event was skipped */
+  reason?: string;
+  /** Set for recurring events: the series ID (the event UID) */
+  seriesId?: string;
+  /** Occurrences created, updated or canceled for a recurring event */
+  occurrences?: number;
+  meetingId: string | null;
+  url: string | null;
+}
+
+export interface CalendarImportResult {
+  calendarName: string | null;
+  items: CalendarImportItem[];
+  counts: Record<CalendarImportOutcome, number>;
+  /** Events outside startDate/endDate, left out of items */
+  outOfRange: number;
+  /** Attendee emails with no matching workspace member */
+  unmatchedAttendees: string[];
+  warnings: string[];
+}
+
+export interface CalendarImportOptions {
+  /** Only import events starting on or after this date (YYYY-MM-DD) */
+  startDate?: string;
+  /** Only import events starting on or before this date (YYYY-MM-DD) */
+  endDate?: string;
+  /** Report what would change without writing to Notion */
+  dryRun?: boolean;
+  /** Zone for floating times and for the stored timestamps */
+  timeZone?: string;
+}
+
+/**
+ * A planned block from a daily gameplan ("Task → 9:00 AM - 10:30 AM")
+ */
+export interface GameplanTimeBlock {
+  gameplanId: string;
+  gameplanUrl: string;
+  date: string;
+  title: string;
+  start: string;
+  end: string;
+}
+
+export interface CalendarExportOptions {
+  /** Include task time blocks from daily gameplans (default: true) */
+  includeGameplans?: boolean;
+  timeZone?: string;
+  calendarName?: string;
+}
@@ -0,0 +1,265 @@
+import type { CreatePageParameters } from "@notionhq/client/build/src/api-endpoints.js";
+import { chunkText, MAX_RICH_TEXT_ITEMS } from "./propertyBuilders.js";
+
+/**
+ * Block Builders
+ * Helpers to construct Notion block content for page bodies
+ */
+
+export type BlockObjectRequest = NonNullable<
+  CreatePageParameters["children"]
+>[number];
+
+/**
+ * Text rich text item as sent to the Notion API
+ */
+export interface RichTextItem {
+  type: "text";
+  text: { content: string; link?: { url: string } | null };
+  annotations?: {
+    bold?: boolean;
+    italic?: boolean;
+    strikethrough?: boolean;
+    underline?: boolean;
+    code?: boolean;
+  };
+}
+
+/**
+ * Builders accept either plain text or pre-built rich text items
+ */
+export type RichTextInput = string | RichTextItem[];
+
+function chunkRichText(input: RichTextInput): RichTextItem[] {
+  const items: RichTextItem[] =
+    typeof input === "string"
+      ? [{ type: "text", text: { content: input } }]
+      : input;
+
+  return items.flatMap((item) =>
+    chunkText(item.text.content).map((content) => ({
+      ...item,
+      text: { ...item.text, content },
+    }))
+  );
+}
+
+/**
+ * Normalize plain text or rich text into a rich text array, splitting any
+ * item over the 2000-character limit into runs with the same formatting
+ * Items past the 100-item limit are dropped; use splitRichText to spread
+ * long text over several blocks instead.
+ */
+export function toRichText(input: RichTextInput): RichTextItem[] {
+  return chunkRichText(input).slice(0, MAX_RICH_TEXT_ITEMS);
+}
+
+/**
+ * Split plain text or rich text into rich text arrays that each fit in one
+ * block
+ */
+export function splitRichText(input: RichTextInput): RichTextItem[][] {
+  const items = chunkRichText(input);
+  const groups: RichTextItem[][] = [];
+  for (let index = 0; index < items.length; index += MAX_RICH_TEXT_ITEMS) {
+    groups.push(items.slice(index, index + MAX_RICH_TEXT_ITEMS));
+  }
+  return groups.length > 0 ? groups : [[]];
+}
+
+// Languages accepted by Notion code blocks that we map fences onto
+const CODE_LANGUAGES = new Set([
+  "bash",
+  "c",
+  "c#",
+  "c++",
+  "css",
+  "diff",
+  "docker",
+  "go",
+  "graphql",
+  "html",
+  "java",
+  "javascript",
+  "json",
+  "kotlin",
+  "markdown",
+  "mermaid",
+  "plain text",
+  "python",
+  "ruby",
+  "rust",
+  "scss",
+  "shell",
+  "sql",
+  "swift",
+  "toml",
+  "typescript",
+  "xml",
+  "yaml",
+]);
+
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  sh: "shell",
+  zsh: "shell",
+  yml: "yaml",
+  md: "markdown",
+  cs: "c#",
+  cpp: "c++",
+  dockerfile: "docker",
+  text: "plain text",
+  txt: "plain text",
+};
+
+/**
+ * Map a Markdown fence info string onto a Notion code language
+ */
+export function normalizeCodeLanguage(language?: string): string {
+  const lang = (language || "").trim().toLowerCase();
+  const mapped = CODE_LANGUAGE_ALIASES[lang] || lang;
+  return CODE_LANGUAGES.has(mapped) ? mapped : "plain text";
+}
+
+export const blockBuilders = {
+  heading1: (text: RichTextInput): BlockObjectRequest => ({
+    object: "block",
+    type: "heading_1",
+    heading_1: {
+      rich_text: toRichText(text),
+    },
+  }),
+
+  heading2: (text: RichTextInput): BlockObjectRequest => ({
+    object: "block",
+    type: "heading_2",
+    heading_2: {
+      rich_text: toRichText(text),
+    },
+  }),
+
+  heading3: (text: RichTextInput): BlockObjectRequest => ({
+    object: "block",
+    type: "heading_3",
+    heading_3: {
+      rich_text: toRichText(text),
+    },
+  }),
+
+  paragraph: (text: RichTextInput): BlockObjectRequest => ({
+    object: "block",
+    type: "paragraph",
+    paragraph: {
+      rich_text: toRichText(text),
+    },
+  }),
+
+  bulletedListItem: (
+    text: RichTextInput,
+    children?: BlockObjectRequest[]
+  ): BlockObjectRequest =>
+    ({
+      object: "block",
+      type: "bulleted_list_item",
+      bulleted_list_item: {
+        rich_text: toRichText(text),
+        ...(children && children.length > 0 && { children }),
+      },
+    }) as BlockObjectRequest,
+
+  numberedListItem: (
+    text: RichTextInput,
+    children?: BlockObjectRequest[]
+  ): BlockObjectRequest =>
+    ({
+      object: "block",
+      type: "numbered_list_item",
+      numbered_list_item: {
+        rich_text: toRichText(text),
+        ...(children && children.length > 0 && { children }),
+      },
+    }) as BlockObjectRequest,
+
+  toDo: (
+    text: RichTextInput,
+    checked: boolean = false,
+    children?: BlockObjectRequest[]
+  ): BlockObjectRequest =>
+    ({
+      object: "block",
+      type: "to_do",
+      to_do: {
+        rich_text: toRichText(text),
+        checked,
+        ...(children && children.length > 0 && { children }),
+      },
+    }) as BlockObjectRequest,
+
+  divider: (): BlockObjectRequest => ({
+    object: "block",
+    type: "divider",
+    divider: {},
+  }),
+
+  callout: (text: RichTextInput, emoji: string = "💡"): BlockObjectRequest => ({
+    object: "block",
+    type: "callout",
+    callout: {
+      rich_text: toRichText(text),
+      icon: { type: "emoji", emoji: emoji as "💡" },
+    },
+  }),
+
+  quote: (text: RichTextInput): BlockObjectRequest => ({
+    object: "block",
+    type: "quote",
+    quote: {
+      rich_text: toRichText(text),
+    },
+  }),
+
+  /**
+   * Table with one row per array; the first row is the header when
+   * hasColumnHeader is set
+   */
+  table: (
+    rows: RichTextInput[][],
+    options: { hasColumnHeader?: boolean } = {}
+  ): BlockObjectRequest => {
+    const width = Math.max(1, ...rows.map((row) => row.length));
+    return {
+      object: "block",
+      type: "table",
+      table: {
+        table_width: width,
+        has_column_header: options.hasColumnHeader ?? true,
+        has_row_header: false,
+        children: rows.map((row) => ({
+          object: "block",
+          type: "table_row",
+          table_row: {
+            cells: Array.from({ length: width }, (_, index) =>
+              toRichText(row[index] ?? "")
+            ),
+          },
+        })),
+      },
+    } as BlockObjectRequest;
+  },
+
+  code: (text: RichTextInput, language?: string): BlockObjectRequest =>
+    ({
+      object: "block",
+      type: "code",
+      code: {
+        rich_text: toRichText(text),
+        language: normalizeCodeLanguage(language),
+      },
+    }) as BlockObjectRequest,
+};
@@ -0,0 +1,475 @@
+import { callNotion } from "./governor.js";
+import { cached, cacheTags, stableKey, PAGE_CONTENT_TTL_MS } from "./cache.js";
+import { CALLOUT_EMOJIS } from "./markdown.js";
+
+/**
+ * Blocks-to-Markdown Export
+ * Renders Notion page content as Markdown, keeping heading levels, list
+ * nesting, to-do state, links, annotations and table structure
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BlocksToMarkdownOptions {
+  /** How many levels of nested children to descend (0 = top-level only) */
+  maxDepth?: number;
+  /** Only render these block types (e.g. ["heading_2", "paragraph"]) */
+  blockTypes?: string[];
+}
+
+export interface PageContentOptions extends BlocksToMarkdownOptions {
+  /**
+   * Read past the page-content cache, for callers that parse a body that
+   * may have just been edited in Notion
+   */
+  fresh?: boolean;
+}
+
+export interface MarkdownSection {
+  /** Stable, citable section ID based on heading position (e.g. "s2.1") */
+  id: string;
+  heading: string;
+  level: number;
+  markdown: string;
+}
+
+export interface PageMarkdown {
+  pageId: string;
+  markdown: string;
+  sections: MarkdownSection[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyBlock = any;
+
+const DEFAULT_MAX_DEPTH = 8;
+
+// Blocks whose children render inline without any prefix of their own
+const TRANSPARENT_CONTAINERS = new Set(["column_list", "column", "synced_block"]);
+
+// Callout emoji → GitHub alert type, the inverse of the import mapping
+const CALLOUT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(CALLOUT_EMOJIS).map(([type, emoji]) => [emoji, type])
+);
+
+// Notion's icon for callouts nobody picked an icon for
+const DEFAULT_CALLOUT_EMOJI = "💡";
+
+// ============================================================================
+// Rich Text
+// ============================================================================
+
+/**
+ * Wrap text in a Markdown marker, keeping surrounding whitespace outside
+ * the marker so "** bold**" style output never occurs
+ */
+function wrapMarker(text: string, marker: string, closing: string = marker) {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${closing}${match[3]}`;
+}
+
+/**
+ * Render a Notion rich text array as inline Markdown
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function richTextToMarkdown(richText: any[] | undefined): string {
+  if (!richText || richText.length === 0) return "";
+
+  return richText
+    .map((item) => {
+      if (item.type === "equation") {
+        return `$${item.equation?.expression ?? item.plain_text}$`;
+      }
+
+      let text: string = item.plain_text ?? item.text?.content ?? "";
+      if (!text) return "";
+
+      const annotations = item.annotations || {};
+      if (annotations.code) text = wrapMarker(text, "`");
+      if (annotations.bold) text = wrapMarker(text, "**");
+      if (annotations.italic) text = wrapMarker(text, "*");
+      if (annotations.strikethrough) text = wrapMarker(text, "~~");
+      if (annotations.underline) text = wrapMarker(text, "<u>", "</u>");
+
+      const href = item.href || item.text?.link?.url;
+      if (href) text = `[${text}](${href})`;
+
+      return text;
+    })
+    .join("");
+}
+
+// ============================================================================
+// Block Fetching
+// ============================================================================
+
+/**
+ * List every child of a block, following pagination cursors
+ */
+export async function listAllBlockChildren(
+  blockId: string
+): Promise<AnyBlock[]> {
+  const blocks: AnyBlock[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    const response = await callNotion("blocks.children.list", "read", (client) =>
+      client.blocks.children.list({
+        block_id: blockId,
+        start_cursor: cursor,
+        page_size: 100,
+      })
+    );
+
+    blocks.push(...response.results);
+    cursor = response.next_cursor || undefined;
+  } while (cursor);
+
+  return blocks;
+}
+
+function headingText(block: AnyBlock): string {
+  const content = block[block.type] as
+    | { rich_text?: Array<{ plain_text: string }> }
+    | undefined;
+  return (content?.rich_text ?? []).map((item) => item.plain_text).join("");
+}
+
+/**
+ * IDs of the top-level blocks in every section whose level-2 heading
+ * starts with the given text: the heading and the blocks under it, up to
+ * the next heading of the same or a higher level. Read straight from
+ * Notion, so edits made in the UI are seen.
+ */
+export async function findSectionBlocks(
+  pageId: string,
+  heading: string
+): Promise<string[]> {
+  const blocks = await listAllBlockChildren(pageId);
+  const ids: string[] = [];
+  let inSection = false;
+
+  for (const block of blocks) {
+    if (block.type === "heading_1" || block.type === "heading_2") {
+      inSection =
+        block.type === "heading_2" && headingText(block).startsWith(heading);
+    }
+    if (inSection) ids.push(block.id);
+  }
+  return ids;
+}
+
+function notionPageUrl(pageId: string): string {
+  return `https://www.notion.so/${pageId.replace(/-/g, "")}`;
+}
+
+function indentLines(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line.length > 0 ? `${prefix}${line}` : line))
+    .join("\n");
+}
+
+function quoteLines(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line.length > 0 ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+interface RenderContext {
+  maxDepth: number;
+  allowed: Set<string> | null;
+}
+
+async function renderChildren(
+  block: AnyBlock,
+  depth: number,
+  ctx: RenderContext
+): Promise<string> {
+  if (!block.has_children || depth >= ctx.maxDepth) return "";
+  const children = await listAllBlockChildren(block.id);
+  return renderBlockList(children, depth + 1, ctx);
+}
+
+function renderTable(rows: AnyBlock[], hasColumnHeader: boolean): string {
+  const cells: string[][] = rows
+    .filter((row) => row.type === "table_row")
+    .map((row) =>
+      (row.table_row.cells as unknown[][]).map((cell) =>
+        richTextToMarkdown(cell as []).replace(/\|/g, "\\|").replace(/\n/g, "<br>")
+      )
+    );
+
+  if (cells.length === 0) return "";
+
+  const width = Math.max(...cells.map((row) => row.length));
+  const pad = (row: string[]) =>
+    `| ${[...row, ...Array(width - row.length).fill("")].join(" | ")} |`;
+  const separator = `| ${Array(width).fill("---").join(" | ")} |`;
+
+  // GFM tables always need a header row; use a blank one when Notion has none
+  const header = hasColumnHeader ? cells[0] : Array(width).fill("");
+  const body = hasColumnHeader ? cells.slice(1) : cells;
+
+  return [pad(header), separator, ...body.map(pad)].join("\n");
+}
+
+async function renderBlock(
+  block: AnyBlock,
+  depth: number,
+  ctx: RenderContext,
+  listNumber: number
+): Promise<string | null> {
+  const type: string = block.type;
+  const content = block[type] || {};
+  const text = richTextToMarkdown(content.rich_text);
+
+  switch (type) {
+    case "paragraph": {
+      const children = await renderChildren(block, depth, ctx);
+      return [text, children && indentLines(children, "  ")]
+        .filter(Boolean)
+        .join("\n");
+    }
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      const level = Number(type.slice(-1));
+      // Toggleable headings carry their section content as children
+      const children = await renderChildren(block, depth, ctx);
+      return [`${"#".repeat(level)} ${text}`, children]
+        .filter(Boolean)
+        .join("\n\n");
+    }
+    case "bulleted_list_item":
+    case "numbered_list_item":
+    case "to_do": {
+      const marker =
+        type === "numbered_list_item"
+          ? `${listNumber}.`
+          : type === "to_do"
+            ? `- [${content.checked ? "x" : " "}]`
+            : "-";
+      // Continuation lines and children align with the item's text
+      const indent = " ".repeat(marker.length + 1);
+      const children = await renderChildren(block, depth, ctx);
+      const line = `${marker} ${text.replace(/\n/g, `\n${indent}`)}`;
+      return children ? `${line}\n${indentLines(children, indent)}` : line;
+    }
+    case "toggle": {
+      const children = await renderChildren(block, depth, ctx);
+      return `<details>\n<summary>${text}</summary>\n\n${children}\n\n</details>`;
+    }
+    case "quote": {
+      const children = await renderChildren(block, depth, ctx);
+      return quoteLines([text, children].filter(Boolean).join("\n\n"));
+    }
+    case "callout": {
+      // Unmapped, default and missing icons render as a note; a custom
+      // emoji stays in front of the text
+      const emoji: string | undefined = content.icon?.emoji;
+      const alert = (emoji && CALLOUT_TYPES[emoji]) || "NOTE";
+      const custom =
+        emoji && !CALLOUT_TYPES[emoji] && emoji !== DEFAULT_CALLOUT_EMOJI;
+      const lead = `[!${alert}] ${custom ? `${emoji} ` : ""}`;
+      const children = await renderChildren(block, depth, ctx);
+      return quoteLines([`${lead}${text}`, children].filter(Boolean).join("\n\n"));
+    }
+    case "code": {
+      const language = content.language === "plain text" ? "" : content.language || "";
+      const code = (content.rich_text || [])
+        .map((item: AnyBlock) => item.plain_text)
+        .join("");
+      return `\`\`\`${language}\n${code}\n\`\`\``;
+    }
+    case "divider":
+      return "---";
+    case "equation":
+      return `$$\n${content.expression}\n$$`;
+    case "table": {
+      const rows = await listAllBlockChildren(block.id);
+      return renderTable(rows, Boolean(content.has_column_header));
+    }
+    case "image": {
+      const url = content.external?.url || content.file?.url;
+      return url ? `![${richTextToMarkdown(content.caption)}](${url})` : null;
+    }
+    case "video":
+    case "pdf":
+    case "file":
+    case "audio": {
+      const url = content.external?.url || content.file?.url;
+      const label = richTextToMarkdown(content.caption) || content.name || type;
+      return url ? `[${label}](${url})` : null;
+    }
+    case "bookmark":
+    case "embed":
+    case "link_preview": {
+      const caption = richTextToMarkdown(content.caption);
+      return content.url ? `[${caption || content.url}](${content.url})` : null;
+    }
+    case "child_page":
+      return `[${content.title}](${notionPageUrl(block.id)})`;
+    case "child_database":
+      return `**${content.title}** (database)`;
+    case "link_to_page": {
+      const targetId = content.page_id || content.database_id;
+      return targetId ? `[Linked page](${notionPageUrl(targetId)})` : null;
+    }
+    case "table_of_contents":
+    case "breadcrumb":
+    case "unsupported":
+      return null;
+    default: {
+      if (TRANSPARENT_CONTAINERS.has(type)) {
+        return (await renderChildren(block, depth, ctx)) || null;
+      }
+      return text || null;
+    }
+  }
+}
+
+async function renderBlockList(
+  blocks: AnyBlock[],
+  depth: number,
+  ctx: RenderContext
+): Promise<string> {
+  const parts: string[] = [];
+  let listNumber = 0;
+  let previousType: string | null = null;
+
+  for (const block of blocks) {
+    if (!block?.type) continue;
+    if (
+      ctx.allowed &&
+      !ctx.allowed.has(block.type) &&
+      !TRANSPARENT_CONTAINERS.has(block.type)
+    ) {
+      continue;
+    }
+
+    listNumber = block.type === "numbered_list_item" ? listNumber + 1 : 0;
+
+    const rendered = await renderBlock(block, depth, ctx, listNumber);
+    if (rendered === null || rendered === "") continue;
+
+    // Keep consecutive list items tight; separate everything else
+    const isListItem = /list_item|to_do/.test(block.type);
+    const tight = isListItem && previousType !== null && /list_item|to_do/.test(previousType);
+    parts.push(tight ? `\n${rendered}` : `${parts.length > 0 ? "\n\n" : ""}${rendered}`);
+    previousType = block.type;
+  }
+
+  return parts.join("");
+}
+
+/**
+ * Render a list of already-fetched blocks as Markdown
+ */
+export async function blocksToMarkdown(
+  blocks: AnyBlock[],
+  options: BlocksToMarkdownOptions = {}
+): Promise<string> {
+  return renderBlockList(blocks, 0, {
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    allowed: options.blockTypes ? new Set(options.blockTypes) : null,
+  });
+}
+
+/**
+ * Retrieve a page's blocks and render them as Markdown
+ * Cached per page and options; appends to the page invalidate the entry
+ */
+export async function getPageBlocksAsMarkdown(
+  pageId: string,
+  options: PageContentOptions = {}
+): Promise<string> {
+  const { fresh = false, ...renderOptions } = options;
+  const load = async () =>
+    blocksToMarkdown(await listAllBlockChildren(pageId), renderOptions);
+  if (fresh) return load();
+
+  return cached(
+    `blocks:${pageId}:${stableKey(renderOptions)}`,
+    {
+      ttlMs: PAGE_CONTENT_TTL_MS,
+      tags: [cacheTags.page(pageId), cacheTags.blocks(pageId)],
+    },
+    load
+  );
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+/**
+ * Split Markdown into heading-delimited sections with citable IDs.
+ * IDs follow heading position ("s1", "s1.2", ...); content before the
+ * first heading becomes section "s0".
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const counters = [0, 0, 0];
+  let current: MarkdownSection | null = null;
+  let buffer: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = buffer.join("\n").trim();
+    if (current) {
+      current.markdown = body;
+      sections.push(current);
+    } else if (body) {
+      sections.push({ id: "s0", heading: "", level: 0, markdown: body });
+    }
+    buffer = [];
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^```/.test(line)) inFence = !inFence;
+
+    const heading = !inFence && /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      counters[level - 1]++;
+      for (let i = level; i < counters.length; i++) counters[i] = 0;
+
+      current = {
+        id: `s${counters.slice(0, level).map((n) => n || 1).join(".")}`,
+        heading: heading[2].trim(),
+        level,
+        markdown: "",
+      };
+    }
+
+    buffer.push(line);
+  }
+
+  flush();
+  return sections;
+}
+
+/**
+ * Retrieve a page as Markdown together with its citable sections
+ */
+export async function getPageAsMarkdown(
+  pageId: string,
+  options: PageContentOptions = {}
+): Promise<PageMarkdown> {
+  const markdown = await getPageBlocksAsMarkdown(pageId, options);
+  return {
+    pageId,
+    markdown,
+    sections: splitMarkdownSections(markdown),
+  };
+}
@@ -0,0 +1,274 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { notionConfig, type NotionConfig } from "../../config/notionConfig.js";
+import { createSupabaseCacheStore } from "../../app/api/_lib/storage/notionCacheStorage.js";
+
+/**
+ * Notion Read Cache
+ * Read-through cache for queries, pages and page content. Entries carry
+ * tags ("db:tasks", "page:<id>", "blocks:<id>") so writes can invalidate
+ * exactly the reads they affect.
+ *
+ * Backend is chosen by NOTION_CACHE_STORE: "memory" (default), "supabase"
+ * (shared notion_cache table) or "off".
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * Pluggable storage backend
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  deleteByTags(tags: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  invalidations: number;
+}
+
+// ============================================================================
+// TTLs
+// ============================================================================
+
+type DatabaseKey = keyof NotionConfig;
+
+/**
+ * How long query results stay fresh per database. Fast-moving databases
+ * (tasks, gameplans) get short TTLs; writes made through this service
+ * invalidate immediately regardless.
+ */
+const DATABASE_TTL_MS: Partial<Record<DatabaseKey, number>> = {
+  tasks: 30_000,
+  gameplans: 30_000,
+  ideas: 60_000,
+  meetings: 2 * 60_000,
+  content: 2 * 60_000,
+  projects: 5 * 60_000,
+};
+
+const DEFAULT_TTL_MS = 60_000;
+
+// Single page lookups (getPage)
+export const PAGE_TTL_MS = 60_000;
+
+// Page bodies (vision, strategy docs) rarely change mid-session
+export const PAGE_CONTENT_TTL_MS = 10 * 60_000;
+
+// Workspace members change even less often
+export const USER_TTL_MS = 60 * 60_000;
+
+export function getDatabaseTtl(databaseKey: DatabaseKey): number {
+  return DATABASE_TTL_MS[databaseKey] ?? DEFAULT_TTL_MS;
+}
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+export const cacheTags = {
+  database: (databaseKey: DatabaseKey) => `db:${databaseKey}`,
+  page: (pageId: string) => `page:${normalizeId(pageId)}`,
+  blocks: (blockId: string) => `blocks:${normalizeId(blockId)}`,
+};
+
+function normalizeId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Map a Notion database or data source ID back to its config key
+ */
+export function findDatabaseKey(id: string | undefined): DatabaseKey | null {
+  if (!id) return null;
+  const target = normalizeId(id);
+  const match = (Object.keys(notionConfig) as DatabaseKey[]).find(
+    (key) => normalizeId(notionConfig[key].databaseId) === target
+  );
+  return match ?? null;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Process-local store; values are cloned so callers can't mutate the cache
+ */
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return { ...entry, value: structuredClone(entry.value) };
+    },
+    async set(key, entry) {
+      entries.set(key, { ...entry, value: structuredClone(entry.value) });
+    },
+    async deleteByTags(tags) {
+      for (const [key, entry] of entries) {
+        if (entry.tags.some((tag) => tags.includes(tag))) entries.delete(key);
+      }
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+let store: CacheStore | null | undefined;
+
+function resolveStore(): CacheStore | null {
+  if (store !== undefined) return store;
+
+  const backend = (process.env.NOTION_CACHE_STORE || "memory").toLowerCase();
+  if (backend === "off") {
+    store = null;
+  } else if (backend === "supabase") {
+    store = createSupabaseCacheStore() as CacheStore;
+  } else {
+    store = createMemoryCacheStore();
+  }
+  return store;
+}
+
+/**
+ * Swap the cache backend (null disables caching)
+ */
+export function setCacheStore(next: CacheStore | null) {
+  store = next;
+}
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+function emptyStats(): CacheStats {
+  return { hits: 0, misses: 0, writes: 0, invalidations: 0 };
+}
+
+function withHitRate(counts: CacheStats): CacheStats & { hitRate: number } {
+  const lookups = counts.hits + counts.misses;
+  return {
+    ...counts,
+    hitRate: lookups > 0 ? Math.round((counts.hits / lookups) * 100) / 100 : 0,
+  };
+}
+
+let stats: CacheStats = emptyStats();
+
+// Counters of every collectCacheStats() call the current async context runs in
+const scopedStats = new AsyncLocalStorage<CacheStats[]>();
+
+function countStat(field: keyof CacheStats) {
+  stats[field]++;
+  for (const scope of scopedStats.getStore() ?? []) scope[field]++;
+}
+
+/**
+ * Process-wide stats since start (or the last resetCacheStats())
+ */
+export function getCacheStats(): CacheStats & { hitRate: number } {
+  return withHitRate(stats);
+}
+
+/**
+ * Run fn and return its result with the cache stats of the calls it made
+ * Only work awaited within fn is counted, so concurrent requests each get
+ * their own numbers.
+ */
+export async function collectCacheStats<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; stats: CacheStats & { hitRate: number } }> {
+  const own = emptyStats();
+  const result = await scopedStats.run(
+    [...(scopedStats.getStore() ?? []), own],
+    fn
+  );
+  return { result, stats: withHitRate(own) };
+}
+
+export function resetCacheStats() {
+  stats = emptyStats();
+}
+
+// ============================================================================
+// Read-through / Invalidation
+// ============================================================================
+
+/**
+ * Serialize arguments with sorted object keys so equivalent queries share a key
+ */
+export function stableKey(value: unknown): string {
+  if (value === undefined) return "";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableKey).join(",")}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableKey(v)}`).join(",")}}`;
+}
+
+/**
+ * Return the cached value for key, or load, cache and return it
+ */
+export async function cached<T>(
+  key: string,
+  options: { ttlMs: number; tags: string[] },
+  load: () => Promise<T>
+): Promise<T> {
+  const backend = resolveStore();
+  if (!backend) return load();
+
+  const entry = await backend.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    countStat("hits");
+    return entry.value as T;
+  }
+
+  countStat("misses");
+  const value = await load();
+
+  await backend.set(key, {
+    value,
+    expiresAt: Date.now() + options.ttlMs,
+    tags: options.tags,
+  });
+  countStat("writes");
+
+  return value;
+}
+
+/**
+ * Drop every entry carrying any of the given tags
+ */
+export async function invalidateCache(tags: string[]): Promise<void> {
+  const backend = resolveStore();
+  if (!backend || tags.length === 0) return;
+
+  await backend.deleteByTags(tags);
+  countStat("invalidations");
+}
+
+export async function clearCache(): Promise<void> {
+  await resolveStore()?.clear();
+}
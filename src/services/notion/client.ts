@@ -1,10 +1,28 @@
+import { readFileSync } from "node:fs";
 import { Client } from "@notionhq/client";
+import { createFakeNotionClient } from "./fakeClient.js";
+import { createDefaultFixtures, type FakeNotionFixtures } from "./fakeFixtures.js";
 
 /**
- * Notion API Client
- * Initialized with API key from environment variables
+ * Whether the in-process fake stands in for the Notion API (NOTION_FAKE=true)
  */
-export const notion = new Client({
-  auth: process.env.NOTION_API_KEY,
-});
+export const isFakeNotion = ["1", "true"].includes(
+  (process.env.NOTION_FAKE || "").toLowerCase()
+);
+
+function loadFakeFixtures(): FakeNotionFixtures {
+  const path = process.env.NOTION_FAKE_FIXTURES;
+  if (!path) return createDefaultFixtures();
+  return JSON.parse(readFileSync(path, "utf8")) as FakeNotionFixtures;
+}
 
+/**
+ * Notion API Client
+ * Initialized with API key from environment variables, or the seeded fake
+ * client when NOTION_FAKE is set
+ */
+export const notion: Client = isFakeNotion
+  ? (createFakeNotionClient(loadFakeFixtures()) as unknown as Client)
+  : new Client({
+      auth: process.env.NOTION_API_KEY,
+    });
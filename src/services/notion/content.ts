@@ -8,8 +8,11 @@ import {
   type ContentGoalValue,
 } from "../../config/notionConfig.js";
 import { propertyBuilders } from "./propertyBuilders.js";
-import { extractPropertyValue } from "./propertyExtractors.js";
-import { createPage, updatePage, queryDatabase } from "./crud.js";
+import {
+  extractPropertyValue,
+  extractDateValue,
+} from "./propertyExtractors.js";
+import { createPage, updatePage, queryAllFromDatabase } from "./crud.js";
 import type {
   CreateContentInput,
   UpdateContentInput,
@@ -230,7 +233,7 @@ export async function queryContent(filter?: {
       ? filters[0]
       : undefined;
 
-  return queryDatabase("content", {
+  return queryAllFromDatabase("content", {
     filter: queryFilter,
     sorts: [{ timestamp: "created_time", direction: "descending" }],
   });
@@ -265,9 +268,7 @@ export function normalizeContentResponse(
       (extractPropertyValue(
         pageProps[props.targetAudiences.name]
       ) as string[]) || [],
-    postDate: extractPropertyValue(pageProps[props.postDate.name]) as
-      | string
-      | null,
+    postDate: extractDateValue(pageProps[props.postDate.name])?.start ?? null,
     strategicIntent: extractPropertyValue(
       pageProps[props.strategicIntent.name]
     ) as string | null,
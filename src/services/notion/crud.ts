@@ -1,17 +1,30 @@
 import type {
+  AppendBlockChildrenParameters,
   CreatePageParameters,
   UpdatePageParameters,
   QueryDataSourceParameters,
   PageObjectResponse,
   PartialPageObjectResponse,
   DatabaseObjectResponse,
+  DataSourceObjectResponse,
 } from "@notionhq/client/build/src/api-endpoints.js";
-import { notion } from "./client.js";
+import { callNotion } from "./governor.js";
+import {
+  cached,
+  cacheTags,
+  findDatabaseKey,
+  getDatabaseTtl,
+  invalidateCache,
+  stableKey,
+  PAGE_TTL_MS,
+} from "./cache.js";
 import { getDatabaseId, type NotionConfig } from "../../config/notionConfig.js";
 
 /**
  * Generic CRUD Operations
  * Core functions for interacting with Notion databases
+ * All requests go through callNotion for rate limiting and retries;
+ * reads are served from the Notion cache and writes invalidate it
  */
 
 // Type guard for full page responses
@@ -24,9 +37,21 @@ function isFullPage(
 // Query options type for dataSources.query
 type QueryOptions = Omit<QueryDataSourceParameters, "data_source_id">;
 
+// Query options for the paginated helpers (cursor handling is internal)
+export type PaginatedQueryOptions = Omit<QueryOptions, "start_cursor"> & {
+  /** Stop after this many pages have been yielded (default: no cap) */
+  maxResults?: number;
+};
+
+// Notion caps page_size at 100 for dataSources.query
+const MAX_PAGE_SIZE = 100;
+
 /**
  * Query a Notion database with filters and sorts
  * Uses the dataSources.query API (database_id is treated as data_source_id)
+ *
+ * Returns a single page of results only - use iterateDatabase or
+ * queryAllFromDatabase when the full result set is needed.
  */
 export async function queryDatabase(
   databaseKey: keyof NotionConfig,
@@ -34,16 +59,127 @@ export async function queryDatabase(
 ): Promise<PageObjectResponse[]> {
   const databaseId = getDatabaseId(databaseKey);
 
-  const response = await notion.dataSources.query({
-    data_source_id: databaseId,
-    ...options,
-  });
+  return cached(
+    `query:${databaseKey}:${stableKey(options)}`,
+    { ttlMs: getDatabaseTtl(databaseKey), tags: [cacheTags.database(databaseKey)] },
+    async () => {
+      const response = await callNotion("dataSources.query", "read", (client) =>
+        client.dataSources.query({
+          data_source_id: databaseId,
+          ...options,
+        })
+      );
+
+      return response.results.filter(isFullPage);
+    }
+  );
+}
+
+/**
+ * One page of query results plus the cursor for the next page
+ */
+export interface DatabaseQueryPage {
+  pages: PageObjectResponse[];
+  nextCursor: string | null;
+}
+
+/**
+ * Query a single page of results and keep the cursor, for callers that
+ * paginate on behalf of a user (e.g. tools returning "more results")
+ */
+export async function queryDatabasePage(
+  databaseKey: keyof NotionConfig,
+  options: QueryOptions = {}
+): Promise<DatabaseQueryPage> {
+  const databaseId = getDatabaseId(databaseKey);
+
+  return cached(
+    `queryPage:${databaseKey}:${stableKey(options)}`,
+    { ttlMs: getDatabaseTtl(databaseKey), tags: [cacheTags.database(databaseKey)] },
+    async () => {
+      const response = await callNotion("dataSources.query", "read", (client) =>
+        client.dataSources.query({
+          data_source_id: databaseId,
+          ...options,
+          page_size: Math.min(options.page_size ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+        })
+      );
+
+      return {
+        pages: response.results.filter(isFullPage),
+        nextCursor: response.has_more ? response.next_cursor : null,
+      };
+    }
+  );
+}
+
+/**
+ * Iterate over every page matching a query, following next_cursor
+ * until the result set (or the maxResults cap) is exhausted
+ */
+export async function* iterateDatabase(
+  databaseKey: keyof NotionConfig,
+  options: PaginatedQueryOptions = {}
+): AsyncGenerator<PageObjectResponse> {
+  const databaseId = getDatabaseId(databaseKey);
+  const { maxResults, page_size, ...queryOptions } = options;
+  const limit = maxResults ?? Infinity;
+
+  if (limit <= 0) return;
+
+  let yielded = 0;
+  let cursor: string | undefined = undefined;
 
-  return response.results.filter(isFullPage);
+  do {
+    const remaining = limit - yielded;
+    const response = await callNotion("dataSources.query", "read", (client) =>
+      client.dataSources.query({
+        data_source_id: databaseId,
+        ...queryOptions,
+        start_cursor: cursor,
+        page_size: Math.min(page_size ?? MAX_PAGE_SIZE, remaining, MAX_PAGE_SIZE),
+      })
+    );
+
+    for (const page of response.results.filter(isFullPage)) {
+      yield page;
+      yielded++;
+      if (yielded >= limit) return;
+    }
+
+    cursor = response.has_more ? response.next_cursor || undefined : undefined;
+  } while (cursor);
 }
 
+/**
+ * Collect every page matching a query into an array
+ * Walks all cursors via iterateDatabase, honoring maxResults
+ */
+export async function queryAllFromDatabase(
+  databaseKey: keyof NotionConfig,
+  options: PaginatedQueryOptions = {}
+): Promise<PageObjectResponse[]> {
+  return cached(
+    `queryAll:${databaseKey}:${stableKey(options)}`,
+    { ttlMs: getDatabaseTtl(databaseKey), tags: [cacheTags.database(databaseKey)] },
+    async () => {
+      const pages: PageObjectResponse[] = [];
+
+      for await (const page of iterateDatabase(databaseKey, options)) {
+        pages.push(page);
+      }
+
+      return pages;
+    }
+  );
+}
+
+// Notion accepts at most 100 children per create/append request
+const MAX_CHILDREN_PER_REQUEST = 100;
+
 /**
  * Create a page in a Notion database
+ * Bodies longer than the per-request block limit are appended in batches
  */
 export async function createPage(
   databaseKey: keyof NotionConfig,
@@ -51,20 +187,93 @@ export async function createPage(
   children?: CreatePageParameters["children"]
 ): Promise<PageObjectResponse> {
   const databaseId = getDatabaseId(databaseKey);
+  const initialChildren = children?.slice(0, MAX_CHILDREN_PER_REQUEST);
 
-  const response = await notion.pages.create({
-    parent: { database_id: databaseId },
-    properties,
-    ...(children && { children }),
-  });
+  const response = await callNotion("pages.create", "create", (client) =>
+    client.pages.create({
+      parent: { database_id: databaseId },
+      properties,
+      ...(initialChildren && initialChildren.length > 0 && {
+        children: initialChildren,
+      }),
+    })
+  );
 
   if (!isFullPage(response)) {
     throw new Error("Failed to create page - partial response received");
   }
 
+  await invalidateCache([cacheTags.database(databaseKey)]);
+
+  if (children && children.length > MAX_CHILDREN_PER_REQUEST) {
+    await appendBlockChildren(
+      response.id,
+      children.slice(MAX_CHILDREN_PER_REQUEST)
+    );
+  }
+
   return response;
 }
 
+/**
+ * Append content blocks to a page or block
+ * Splits large bodies into batches the API will accept
+ */
+export async function appendBlockChildren(
+  blockId: string,
+  children: CreatePageParameters["children"]
+): Promise<void> {
+  if (!children || children.length === 0) return;
+
+  for (let i = 0; i < children.length; i += MAX_CHILDREN_PER_REQUEST) {
+    const batch = children.slice(i, i + MAX_CHILDREN_PER_REQUEST);
+    await callNotion("blocks.children.append", "append", (client) =>
+      client.blocks.children.append({
+        block_id: blockId,
+        children: batch as AppendBlockChildrenParameters["children"],
+      })
+    );
+  }
+
+  await invalidateCache([cacheTags.blocks(blockId)]);
+}
+
+/**
+ * Delete blocks from a page's content (Notion moves them to the trash)
+ */
+export async function deleteBlocks(
+  pageId: string,
+  blockIds: string[]
+): Promise<void> {
+  if (blockIds.length === 0) return;
+
+  for (const blockId of blockIds) {
+    await callNotion("blocks.delete", "update", (client) =>
+      client.blocks.delete({ block_id: blockId })
+    );
+  }
+
+  await invalidateCache([cacheTags.blocks(pageId)]);
+}
+
+/**
+ * Cache tags touched by a page update: the page itself plus every query on
+ * its database (the change may move it in or out of a filter)
+ */
+function updateTags(page: PageObjectResponse): string[] {
+  const tags = [cacheTags.page(page.id)];
+  const parent = page.parent as {
+    data_source_id?: string;
+    database_id?: string;
+  };
+  const databaseKey =
+    findDatabaseKey(parent.data_source_id) ||
+    findDatabaseKey(parent.database_id);
+
+  if (databaseKey) tags.push(cacheTags.database(databaseKey));
+  return tags;
+}
+
 /**
  * Update an existing Notion page
  */
@@ -72,31 +281,67 @@ export async function updatePage(
   pageId: string,
   properties: UpdatePageParameters["properties"]
 ): Promise<PageObjectResponse> {
-  const response = await notion.pages.update({
-    page_id: pageId,
-    properties,
-  });
+  const response = await callNotion("pages.update", "update", (client) =>
+    client.pages.update({
+      page_id: pageId,
+      properties,
+    })
+  );
 
   if (!isFullPage(response)) {
     throw new Error("Failed to update page - partial response received");
   }
 
+  await invalidateCache(updateTags(response));
+
   return response;
 }
 
 /**
- * Get a single page by ID
+ * Move a page to the trash
+ * Trashed pages drop out of database queries but can be restored from
+ * Notion for 30 days.
  */
-export async function getPage(pageId: string): Promise<PageObjectResponse> {
-  const response = await notion.pages.retrieve({ page_id: pageId });
+export async function archivePage(
+  pageId: string
+): Promise<PageObjectResponse> {
+  const response = await callNotion("pages.update", "update", (client) =>
+    client.pages.update({
+      page_id: pageId,
+      in_trash: true,
+    })
+  );
 
   if (!isFullPage(response)) {
-    throw new Error("Failed to retrieve page - partial response received");
+    throw new Error("Failed to archive page - partial response received");
   }
 
+  await invalidateCache(updateTags(response));
+
   return response;
 }
 
+/**
+ * Get a single page by ID
+ */
+export async function getPage(pageId: string): Promise<PageObjectResponse> {
+  return cached(
+    `page:${pageId}`,
+    { ttlMs: PAGE_TTL_MS, tags: [cacheTags.page(pageId)] },
+    async () => {
+      const response = await callNotion("pages.retrieve", "read", (client) =>
+        client.pages.retrieve({ page_id: pageId })
+      );
+
+      if (!isFullPage(response)) {
+        throw new Error("Failed to retrieve page - partial response received");
+      }
+
+      return response;
+    }
+  );
+}
+
 /**
  * Retrieve database schema/metadata
  */
@@ -104,8 +349,22 @@ export async function getDatabase(
   databaseKey: keyof NotionConfig
 ): Promise<DatabaseObjectResponse> {
   const databaseId = getDatabaseId(databaseKey);
-  return (await notion.databases.retrieve({
-    database_id: databaseId,
-  })) as DatabaseObjectResponse;
+  return (await callNotion("databases.retrieve", "read", (client) =>
+    client.databases.retrieve({ database_id: databaseId })
+  )) as DatabaseObjectResponse;
 }
 
+/**
+ * Retrieve data source schema/metadata
+ * Property definitions live on the data source rather than the database;
+ * defaults to the configured ID (the same one queryDatabase uses)
+ */
+export async function getDataSource(
+  databaseKey: keyof NotionConfig,
+  dataSourceId?: string
+): Promise<DataSourceObjectResponse> {
+  const id = dataSourceId || getDatabaseId(databaseKey);
+  return (await callNotion("dataSources.retrieve", "read", (client) =>
+    client.dataSources.retrieve({ data_source_id: id })
+  )) as DataSourceObjectResponse;
+}
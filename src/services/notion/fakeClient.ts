@@ -0,0 +1,971 @@
+import { randomUUID } from "node:crypto";
+import { APIResponseError, APIErrorCode } from "@notionhq/client";
+import {
+  notionConfig,
+  propertyOptionEnums,
+  type NotionConfig,
+  type PropertyConfig,
+} from "../../config/notionConfig.js";
+import { markdownToBlocks } from "./markdown.js";
+import type { FakeNotionFixtures } from "./fakeFixtures.js";
+
+/**
+ * Fake Notion Client
+ * In-process stand-in for the parts of the Notion API this app uses:
+ * dataSources.query/retrieve, databases.retrieve, pages.create/update/retrieve
+ * and blocks.children.list/append/delete. Schemas are built from notionConfig, and
+ * filters/sorts follow Notion's semantics for the property types we use.
+ *
+ * Enabled with NOTION_FAKE=true (see client.ts).
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyObject = Record<string, any>;
+
+type DatabaseKey = keyof NotionConfig;
+
+interface FakeProperty {
+  id: string;
+  name: string;
+  type: PropertyConfig["type"];
+  options: string[];
+}
+
+interface FakeDatabase {
+  key: DatabaseKey;
+  id: string;
+  properties: Record<string, FakeProperty>;
+}
+
+interface FakeBlock {
+  block: AnyObject;
+  children: string[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+function apiError(
+  code: APIErrorCode,
+  status: number,
+  message: string
+): APIResponseError {
+  return new APIResponseError({
+    code,
+    status,
+    message,
+    headers: {},
+    rawBodyText: JSON.stringify({ object: "error", status, code, message }),
+    additional_data: undefined,
+    request_id: undefined,
+  });
+}
+
+const notFound = (id: string) =>
+  apiError(
+    APIErrorCode.ObjectNotFound,
+    404,
+    `Could not find object with ID: ${id}.`
+  );
+
+const validationError = (message: string) =>
+  apiError(APIErrorCode.ValidationError, 400, message);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalizeId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Option names for a property: the enum map when one exists, otherwise
+ * the comma-separated list in the config description
+ */
+function resolveOptions(
+  databaseKey: DatabaseKey,
+  propertyKey: string,
+  config: PropertyConfig
+): string[] {
+  const enumMap = propertyOptionEnums[databaseKey]?.[propertyKey];
+  if (enumMap) return Object.values(enumMap);
+
+  if (!["select", "multi_select", "status"].includes(config.type)) return [];
+  return (config.description || "")
+    .split(",")
+    .map((option) => option.trim())
+    .filter((option) => option.length > 0 && !option.includes("("));
+}
+
+const DEFAULT_ANNOTATIONS = {
+  bold: false,
+  italic: false,
+  strikethrough: false,
+  underline: false,
+  code: false,
+  color: "default",
+};
+
+/**
+ * Convert request rich text items into response items
+ */
+function toRichTextResponse(items: AnyObject[] | undefined): AnyObject[] {
+  return (items || []).map((item) => {
+    if (item.type === "equation" || item.equation) {
+      return {
+        type: "equation",
+        equation: { expression: item.equation.expression },
+        annotations: { ...DEFAULT_ANNOTATIONS, ...item.annotations },
+        plain_text: item.equation.expression,
+        href: null,
+      };
+    }
+
+    const content: string = item.text?.content ?? "";
+    const link = item.text?.link?.url ? { url: item.text.link.url } : null;
+    return {
+      type: "text",
+      text: { content, link },
+      annotations: { ...DEFAULT_ANNOTATIONS, ...item.annotations },
+      plain_text: content,
+      href: link?.url ?? null,
+    };
+  });
+}
+
+function plainText(items: AnyObject[] | undefined): string {
+  return (items || []).map((item) => item.plain_text ?? "").join("");
+}
+
+// ============================================================================
+// Property Values
+// ============================================================================
+
+function emptyPropertyValue(type: PropertyConfig["type"]): unknown {
+  switch (type) {
+    case "title":
+    case "rich_text":
+    case "multi_select":
+    case "relation":
+    case "people":
+      return [];
+    case "checkbox":
+      return false;
+    case "formula":
+      return { type: "string", string: null };
+    case "rollup":
+      return { type: "array", array: [], function: "show_original" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turn a request property value into the stored response value
+ */
+function toPropertyValue(
+  database: FakeDatabase,
+  property: FakeProperty,
+  input: AnyObject
+): unknown {
+  const raw = input[property.type];
+
+  switch (property.type) {
+    case "title":
+    case "rich_text":
+      return toRichTextResponse(raw);
+    case "select":
+    case "status": {
+      if (!raw?.name) return null;
+      if (!property.options.includes(raw.name)) {
+        if (property.type === "status") {
+          throw validationError(
+            `Invalid status option "${raw.name}" for property "${property.name}" in ${database.key}.`
+          );
+        }
+        // Notion creates select options on first write
+        property.options.push(raw.name);
+      }
+      return { id: normalizeId(raw.name), name: raw.name, color: "default" };
+    }
+    case "multi_select":
+      return (raw || []).map((option: { name: string }) => {
+        if (!property.options.includes(option.name)) {
+          property.options.push(option.name);
+        }
+        return {
+          id: normalizeId(option.name),
+          name: option.name,
+          color: "default",
+        };
+      });
+    case "date":
+      return raw?.start
+        ? {
+            start: raw.start,
+            end: raw.end ?? null,
+            time_zone: raw.time_zone ?? null,
+          }
+        : null;
+    case "relation":
+      return (raw || []).map((relation: { id: string }) => ({
+        id: relation.id,
+      }));
+    case "people":
+      return (raw || []).map((person: { id: string }) => ({
+        object: "user",
+        id: person.id,
+      }));
+    case "number":
+    case "checkbox":
+    case "url":
+    case "email":
+    case "phone_number":
+      return raw ?? emptyPropertyValue(property.type);
+    default:
+      throw validationError(
+        `Property "${property.name}" (${property.type}) cannot be written.`
+      );
+  }
+}
+
+/**
+ * Value used for filtering and sorting a page property
+ */
+function comparableValue(page: AnyObject, property: FakeProperty): unknown {
+  const value = page.properties[property.name]?.[property.type];
+
+  switch (property.type) {
+    case "title":
+    case "rich_text":
+      return plainText(value);
+    case "select":
+    case "status":
+      return value?.name ?? null;
+    case "multi_select":
+      return (value || []).map((option: { name: string }) => option.name);
+    case "date":
+      return value?.start ?? null;
+    case "relation":
+    case "people":
+      return (value || []).map((item: { id: string }) => normalizeId(item.id));
+    case "created_time":
+      return page.created_time;
+    case "last_edited_time":
+      return page.last_edited_time;
+    default:
+      return value ?? null;
+  }
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+const PROPERTY_FILTER_TYPES = [
+  "title",
+  "rich_text",
+  "number",
+  "checkbox",
+  "select",
+  "multi_select",
+  "status",
+  "date",
+  "people",
+  "relation",
+  "url",
+  "email",
+  "phone_number",
+  "created_time",
+  "last_edited_time",
+];
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Compare a stored date against a filter date. Date-only filter values
+ * match on the calendar day, like Notion does.
+ */
+function compareDates(value: string, target: string): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(target)) {
+    return value.slice(0, 10).localeCompare(target);
+  }
+  return Date.parse(value) - Date.parse(target);
+}
+
+function relativeWindow(condition: string): [number, number] | null {
+  const now = Date.now();
+  const week = 7 * 24 * 60 * 60 * 1000;
+  if (condition === "past_week") return [now - week, now];
+  if (condition === "next_week") return [now, now + week];
+  if (condition === "past_month") return [now - 4 * week, now];
+  if (condition === "next_month") return [now, now + 4 * week];
+  if (condition === "past_year") return [now - 52 * week, now];
+  if (condition === "next_year") return [now, now + 52 * week];
+  return null;
+}
+
+function matchesCondition(
+  value: unknown,
+  filterType: string,
+  condition: AnyObject
+): boolean {
+  const [operator, target] = Object.entries(condition)[0] || [];
+  if (!operator) return true;
+
+  if (operator === "is_empty") return isEmptyValue(value);
+  if (operator === "is_not_empty") return !isEmptyValue(value);
+
+  switch (filterType) {
+    case "title":
+    case "rich_text":
+    case "url":
+    case "email":
+    case "phone_number": {
+      const text = String(value ?? "").toLowerCase();
+      const needle = String(target ?? "").toLowerCase();
+      if (operator === "equals") return text === needle;
+      if (operator === "does_not_equal") return text !== needle;
+      if (operator === "contains") return text.includes(needle);
+      if (operator === "does_not_contain") return !text.includes(needle);
+      if (operator === "starts_with") return text.startsWith(needle);
+      if (operator === "ends_with") return text.endsWith(needle);
+      break;
+    }
+    case "number": {
+      const n = value as number | null;
+      if (operator === "equals") return n === target;
+      if (operator === "does_not_equal") return n !== target;
+      if (n === null) return false;
+      if (operator === "greater_than") return n > target;
+      if (operator === "less_than") return n < target;
+      if (operator === "greater_than_or_equal_to") return n >= target;
+      if (operator === "less_than_or_equal_to") return n <= target;
+      break;
+    }
+    case "checkbox":
+      if (operator === "equals") return value === target;
+      if (operator === "does_not_equal") return value !== target;
+      break;
+    case "select":
+    case "status":
+      if (operator === "equals") return value === target;
+      if (operator === "does_not_equal") return value !== target;
+      break;
+    case "multi_select": {
+      const names = (value as string[]) || [];
+      if (operator === "contains") return names.includes(target);
+      if (operator === "does_not_contain") return !names.includes(target);
+      break;
+    }
+    case "people":
+    case "relation": {
+      const ids = (value as string[]) || [];
+      const id = normalizeId(String(target ?? ""));
+      if (operator === "contains") return ids.includes(id);
+      if (operator === "does_not_contain") return !ids.includes(id);
+      break;
+    }
+    case "date":
+    case "created_time":
+    case "last_edited_time": {
+      if (!value) return false;
+      const date = value as string;
+      const window = relativeWindow(operator);
+      if (window) {
+        const time = Date.parse(date);
+        return time >= window[0] && time <= window[1];
+      }
+      const diff = compareDates(date, String(target));
+      if (operator === "equals") return diff === 0;
+      if (operator === "before") return diff < 0;
+      if (operator === "after") return diff > 0;
+      if (operator === "on_or_before") return diff <= 0;
+      if (operator === "on_or_after") return diff >= 0;
+      break;
+    }
+  }
+
+  throw validationError(
+    `Unsupported filter operator "${operator}" for ${filterType} in fake Notion client.`
+  );
+}
+
+function matchesFilter(
+  page: AnyObject,
+  database: FakeDatabase,
+  filter: AnyObject | undefined
+): boolean {
+  if (!filter) return true;
+
+  if (Array.isArray(filter.and)) {
+    return filter.and.every((sub: AnyObject) =>
+      matchesFilter(page, database, sub)
+    );
+  }
+  if (Array.isArray(filter.or)) {
+    return filter.or.some((sub: AnyObject) =>
+      matchesFilter(page, database, sub)
+    );
+  }
+
+  if (filter.timestamp) {
+    const timestamp = filter.timestamp as "created_time" | "last_edited_time";
+    return matchesCondition(page[timestamp], timestamp, filter[timestamp]);
+  }
+
+  const property = database.properties[filter.property];
+  if (!property) {
+    throw validationError(
+      `Could not find property with name or id: ${filter.property}`
+    );
+  }
+
+  const filterType = PROPERTY_FILTER_TYPES.find((type) => type in filter);
+  if (!filterType) {
+    throw validationError(`Filter for "${filter.property}" has no condition.`);
+  }
+
+  return matchesCondition(
+    comparableValue(page, property),
+    filterType,
+    filter[filterType]
+  );
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  // Notion sorts empty values last regardless of direction
+  if (isEmptyValue(a) && isEmptyValue(b)) return 0;
+  if (isEmptyValue(a)) return Infinity;
+  if (isEmptyValue(b)) return -Infinity;
+
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return String(Array.isArray(a) ? a[0] : a).localeCompare(
+    String(Array.isArray(b) ? b[0] : b)
+  );
+}
+
+function sortPages(
+  pages: AnyObject[],
+  database: FakeDatabase,
+  sorts: AnyObject[] | undefined
+): AnyObject[] {
+  const rules = sorts?.length
+    ? sorts
+    : [{ timestamp: "created_time", direction: "descending" }];
+
+  return [...pages].sort((a, b) => {
+    for (const rule of rules) {
+      let left: unknown;
+      let right: unknown;
+
+      if (rule.timestamp) {
+        left = a[rule.timestamp];
+        right = b[rule.timestamp];
+      } else {
+        const property = database.properties[rule.property];
+        if (!property) {
+          throw validationError(
+            `Could not find sort property with name or id: ${rule.property}`
+          );
+        }
+        left = comparableValue(a, property);
+        right = comparableValue(b, property);
+      }
+
+      const result = compareValues(left, right);
+      if (result === 0) continue;
+      if (!Number.isFinite(result)) return result > 0 ? 1 : -1;
+      return rule.direction === "descending" ? -result : result;
+    }
+    return 0;
+  });
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+function paginate<T>(
+  items: T[],
+  startCursor: string | undefined,
+  pageSize: number | undefined
+) {
+  const start = startCursor ? Number(startCursor) : 0;
+  const size = Math.min(pageSize ?? 100, 100);
+  const results = items.slice(start, start + size);
+  const next = start + size;
+
+  return {
+    object: "list" as const,
+    results,
+    has_more: next < items.length,
+    next_cursor: next < items.length ? String(next) : null,
+  };
+}
+
+export interface FakeNotionClient {
+  dataSources: {
+    query(args: AnyObject): Promise<AnyObject>;
+    retrieve(args: AnyObject): Promise<AnyObject>;
+  };
+  databases: {
+    retrieve(args: AnyObject): Promise<AnyObject>;
+  };
+  pages: {
+    create(args: AnyObject): Promise<AnyObject>;
+    update(args: AnyObject): Promise<AnyObject>;
+    retrieve(args: AnyObject): Promise<AnyObject>;
+  };
+  blocks: {
+    children: {
+      list(args: AnyObject): Promise<AnyObject>;
+      append(args: AnyObject): Promise<AnyObject>;
+    };
+    delete(args: AnyObject): Promise<AnyObject>;
+  };
+  users: {
+    list(args: AnyObject): Promise<AnyObject>;
+    retrieve(args: AnyObject): Promise<AnyObject>;
+  };
+  /** Load fixtures on top of the current state (synchronously) */
+  seed(fixtures: FakeNotionFixtures): void;
+  /** Drop all pages and blocks (schemas and users are kept) */
+  reset(): void;
+}
+
+/**
+ * Create a fake client with empty databases built from notionConfig
+ */
+export function createFakeNotionClient(
+  fixtures?: FakeNotionFixtures
+): FakeNotionClient {
+  const databases = new Map<string, FakeDatabase>();
+  let pages = new Map<string, AnyObject>();
+  let blocks = new Map<string, FakeBlock>();
+  const users = new Map<string, AnyObject>();
+
+  for (const key of Object.keys(notionConfig) as DatabaseKey[]) {
+    const config = notionConfig[key];
+    const properties: Record<string, FakeProperty> = {};
+
+    for (const [propertyKey, property] of Object.entries(config.properties)) {
+      properties[property.name] = {
+        id: propertyKey,
+        name: property.name,
+        type: property.type,
+        options: resolveOptions(key, propertyKey, property),
+      };
+    }
+
+    databases.set(normalizeId(config.databaseId), {
+      key,
+      id: config.databaseId,
+      properties,
+    });
+  }
+
+  const findDatabase = (id: string | undefined): FakeDatabase => {
+    const database = id ? databases.get(normalizeId(id)) : undefined;
+    if (!database) throw notFound(id ?? "undefined");
+    return database;
+  };
+
+  const findPage = (id: string): AnyObject => {
+    const page = pages.get(normalizeId(id));
+    if (!page) throw notFound(id);
+    return page;
+  };
+
+  const databaseSchema = (database: FakeDatabase): AnyObject =>
+    Object.fromEntries(
+      Object.values(database.properties).map((property) => [
+        property.name,
+        {
+          id: property.id,
+          name: property.name,
+          type: property.type,
+          [property.type]: ["select", "multi_select", "status"].includes(
+            property.type
+          )
+            ? {
+                options: property.options.map((name) => ({
+                  id: normalizeId(name),
+                  name,
+                  color: "default",
+                })),
+              }
+            : {},
+        },
+      ])
+    );
+
+  // --- Blocks ---
+
+  const storeBlocks = (parentId: string, requests: AnyObject[]): AnyObject[] => {
+    const parent = blocks.get(normalizeId(parentId));
+    if (!parent) throw notFound(parentId);
+
+    const created: AnyObject[] = [];
+    const now = new Date().toISOString();
+
+    for (const request of requests) {
+      const type: string = request.type;
+      const { children, ...payload } = { ...(request[type] || {}) };
+      if (payload.rich_text) payload.rich_text = toRichTextResponse(payload.rich_text);
+      if (payload.caption) payload.caption = toRichTextResponse(payload.caption);
+      if (type === "table_row" && Array.isArray(payload.cells)) {
+        payload.cells = payload.cells.map(toRichTextResponse);
+      }
+
+      const id = randomUUID();
+      const block = {
+        object: "block",
+        id,
+        parent: { type: "block_id", block_id: parentId },
+        type,
+        created_time: now,
+        last_edited_time: now,
+        has_children: false,
+        archived: false,
+        in_trash: false,
+        [type]: payload,
+      };
+
+      blocks.set(normalizeId(id), { block, children: [] });
+      parent.children.push(normalizeId(id));
+      parent.block.has_children = true;
+
+      if (Array.isArray(children) && children.length > 0) {
+        storeBlocks(id, children);
+      }
+      created.push(clone(block));
+    }
+
+    return created;
+  };
+
+  const registerBlockParent = (page: AnyObject) => {
+    blocks.set(normalizeId(page.id), { block: page, children: [] });
+  };
+
+  // --- Pages ---
+
+  const writeProperties = (
+    page: AnyObject,
+    database: FakeDatabase,
+    input: AnyObject = {}
+  ) => {
+    for (const [name, value] of Object.entries(input)) {
+      const property = database.properties[name];
+      if (!property) {
+        throw validationError(
+          `${name} is not a property that exists in ${database.key}.`
+        );
+      }
+      page.properties[name] = {
+        id: property.id,
+        type: property.type,
+        [property.type]: toPropertyValue(database, property, value as AnyObject),
+      };
+    }
+  };
+
+  const refreshComputed = (page: AnyObject, database: FakeDatabase) => {
+    for (const property of Object.values(database.properties)) {
+      if (property.type === "created_time") {
+        page.properties[property.name] = {
+          id: property.id,
+          type: "created_time",
+          created_time: page.created_time,
+        };
+      } else if (property.type === "last_edited_time") {
+        page.properties[property.name] = {
+          id: property.id,
+          type: "last_edited_time",
+          last_edited_time: page.last_edited_time,
+        };
+      } else if (
+        property.type === "created_by" ||
+        property.type === "last_edited_by"
+      ) {
+        page.properties[property.name] = {
+          id: property.id,
+          type: property.type,
+          [property.type]: { object: "user", id: "fake-integration" },
+        };
+      }
+    }
+  };
+
+  const createDatabasePage = (args: AnyObject): AnyObject => {
+    const database = findDatabase(
+      args.parent?.data_source_id || args.parent?.database_id
+    );
+    const id: string = args.id || randomUUID();
+    const now = new Date().toISOString();
+
+    const page: AnyObject = {
+      object: "page",
+      id,
+      created_time: now,
+      last_edited_time: now,
+      created_by: { object: "user", id: "fake-integration" },
+      last_edited_by: { object: "user", id: "fake-integration" },
+      parent: {
+        type: "data_source_id",
+        data_source_id: database.id,
+        database_id: database.id,
+      },
+      archived: false,
+      in_trash: false,
+      icon: null,
+      cover: null,
+      url: `https://www.notion.so/${normalizeId(id)}`,
+      public_url: null,
+      properties: {},
+    };
+
+    for (const property of Object.values(database.properties)) {
+      page.properties[property.name] = {
+        id: property.id,
+        type: property.type,
+        [property.type]: emptyPropertyValue(property.type),
+      };
+    }
+
+    writeProperties(page, database, args.properties);
+    refreshComputed(page, database);
+
+    pages.set(normalizeId(id), page);
+    registerBlockParent(page);
+    if (Array.isArray(args.children)) storeBlocks(id, args.children);
+
+    return page;
+  };
+
+  const client: FakeNotionClient = {
+    dataSources: {
+      async query(args) {
+        const database = findDatabase(args.data_source_id);
+        const matching = [...pages.values()].filter(
+          (page) =>
+            page.parent?.data_source_id === database.id &&
+            !page.in_trash &&
+            matchesFilter(page, database, args.filter)
+        );
+
+        const sorted = sortPages(matching, database, args.sorts);
+        const result = paginate(sorted, args.start_cursor, args.page_size);
+        return {
+          ...result,
+          type: "page_or_data_source",
+          page_or_data_source: {},
+          results: clone(result.results),
+        };
+      },
+
+      async retrieve(args) {
+        const database = findDatabase(args.data_source_id);
+        return {
+          object: "data_source",
+          id: database.id,
+          title: [],
+          properties: databaseSchema(database),
+          parent: { type: "database_id", database_id: database.id },
+        };
+      },
+    },
+
+    databases: {
+      async retrieve(args) {
+        const database = findDatabase(args.database_id);
+        return {
+          object: "database",
+          id: database.id,
+          title: toRichTextResponse([
+            { text: { content: notionConfig[database.key].description } },
+          ]),
+          data_sources: [
+            { id: database.id, name: notionConfig[database.key].description },
+          ],
+        };
+      },
+    },
+
+    pages: {
+      async create(args) {
+        return clone(createDatabasePage(args));
+      },
+
+      async update(args) {
+        const page = findPage(args.page_id);
+        if (page.in_trash && args.in_trash !== false && args.archived !== false) {
+          throw validationError(
+            "Can't edit block that is archived. You must unarchive the block before editing."
+          );
+        }
+
+        const database = page.parent?.data_source_id
+          ? findDatabase(page.parent.data_source_id)
+          : null;
+        if (database) writeProperties(page, database, args.properties);
+
+        const trashed = args.in_trash ?? args.archived;
+        if (trashed !== undefined) {
+          page.in_trash = Boolean(trashed);
+          page.archived = Boolean(trashed);
+        }
+
+        page.last_edited_time = new Date().toISOString();
+        if (database) refreshComputed(page, database);
+        return clone(page);
+      },
+
+      async retrieve(args) {
+        return clone(findPage(args.page_id));
+      },
+    },
+
+    blocks: {
+      children: {
+        async list(args) {
+          const parent = blocks.get(normalizeId(args.block_id));
+          if (!parent) throw notFound(args.block_id);
+
+          const children = parent.children
+            .map((id) => blocks.get(id)?.block)
+            .filter((block) => block && !block.in_trash);
+          const result = paginate(children, args.start_cursor, args.page_size);
+          return {
+            ...result,
+            type: "block",
+            block: {},
+            results: clone(result.results),
+          };
+        },
+
+        async append(args) {
+          const results = storeBlocks(args.block_id, args.children || []);
+          return {
+            object: "list",
+            results,
+            has_more: false,
+            next_cursor: null,
+            type: "block",
+            block: {},
+          };
+        },
+      },
+
+      async delete(args) {
+        const entry = blocks.get(normalizeId(args.block_id));
+        if (!entry || entry.block.in_trash) throw notFound(args.block_id);
+
+        entry.block.in_trash = true;
+        entry.block.archived = true;
+        entry.block.last_edited_time = new Date().toISOString();
+        return clone(entry.block);
+      },
+    },
+
+    users: {
+      async list(args) {
+        const result = paginate(
+          [...users.values()],
+          args?.start_cursor,
+          args?.page_size
+        );
+        return {
+          ...result,
+          type: "user",
+          user: {},
+          results: clone(result.results),
+        };
+      },
+
+      async retrieve(args) {
+        const user = users.get(normalizeId(args.user_id));
+        if (!user) throw notFound(args.user_id);
+        return clone(user);
+      },
+    },
+
+    seed(data) {
+      for (const user of data.users || []) {
+        users.set(normalizeId(user.id), {
+          object: "user",
+          id: user.id,
+          type: "person",
+          name: user.name,
+          avatar_url: null,
+          person: { email: user.email ?? null },
+        });
+      }
+
+      for (const record of data.pages || []) {
+        const database = notionConfig[record.database];
+        const page = createDatabasePage({
+          id: record.id,
+          parent: { data_source_id: database.databaseId },
+          properties: record.properties,
+          children: record.markdown ? markdownToBlocks(record.markdown) : [],
+        });
+        if (record.createdTime) {
+          page.created_time = record.createdTime;
+          page.last_edited_time = record.createdTime;
+          refreshComputed(page, findDatabase(database.databaseId));
+        }
+      }
+
+      // Standalone documents (vision, strategy) live outside any database
+      for (const document of data.documents || []) {
+        const now = new Date().toISOString();
+        const page: AnyObject = {
+          object: "page",
+          id: document.pageId,
+          created_time: now,
+          last_edited_time: now,
+          parent: { type: "workspace", workspace: true },
+          archived: false,
+          in_trash: false,
+          url: `https://www.notion.so/${normalizeId(document.pageId)}`,
+          properties: {
+            title: {
+              id: "title",
+              type: "title",
+              title: toRichTextResponse([{ text: { content: document.title } }]),
+            },
+          },
+        };
+        pages.set(normalizeId(document.pageId), page);
+        registerBlockParent(page);
+        storeBlocks(document.pageId, markdownToBlocks(document.markdown));
+      }
+    },
+
+    reset() {
+      pages = new Map();
+      blocks = new Map();
+    },
+  };
+
+  // Seeded before the client is handed out, so no request sees a partial store
+  if (fixtures) client.seed(fixtures);
+
+  return client;
+}
@@ -0,0 +1,248 @@
+import type { CreatePageParameters } from "@notionhq/client/build/src/api-endpoints.js";
+import {
+  notionConfig,
+  type NotionConfig,
+  IdeaStatus,
+  IdeaTags,
+  GameplanStatus,
+  GameplanCategory,
+  ContentStatus,
+  ContentPlatform,
+} from "../../config/notionConfig.js";
+import { propertyBuilders } from "./propertyBuilders.js";
+
+/**
+ * Fake Notion Fixtures
+ * Seed data for the fake client. Dates are relative to "now" so the
+ * today/this-week queries used by the daily brief always return data.
+ *
+ * Set NOTION_FAKE_FIXTURES to a JSON file with the same shape to replace
+ * the defaults.
+ */
+
+export interface FakePageFixture {
+  /** Fixed page ID so other fixtures can relate to it */
+  id?: string;
+  database: keyof NotionConfig;
+  /** Request-format properties keyed by Notion property name */
+  properties: CreatePageParameters["properties"];
+  /** Optional page body */
+  markdown?: string;
+  /** Override created_time (ISO) for date-scoped queries */
+  createdTime?: string;
+}
+
+export interface FakeDocumentFixture {
+  pageId: string;
+  title: string;
+  markdown: string;
+}
+
+export interface FakeUserFixture {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+export interface FakeNotionFixtures {
+  pages?: FakePageFixture[];
+  documents?: FakeDocumentFixture[];
+  /** Workspace members returned by users.list/retrieve */
+  users?: FakeUserFixture[];
+}
+
+// Same page the vision and 2026 strategy tools read
+const VISION_PAGE_ID = "29e82787-0ecb-801c-a110-c6a50af733f4";
+
+// Fixed IDs so fixtures can relate to each other
+export const FAKE_PROJECT_ID = "00000000-0000-4000-8000-000000000001";
+export const FAKE_USER_ID = "00000000-0000-4000-8000-0000000000aa";
+
+function isoAt(base: Date, dayOffset: number, hour: number, minute = 0) {
+  const date = new Date(base);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hour, minute, 0, 0);
+  return date.toISOString();
+}
+
+function dateOnly(base: Date, dayOffset: number) {
+  return isoAt(base, dayOffset, 12).split("T")[0];
+}
+
+/**
+ * Default fixtures: one brief with tasks, a few ideas, today's meetings,
+ * a gameplan, a content entry and the vision document
+ */
+export function createDefaultFixtures(now: Date = new Date()): FakeNotionFixtures {
+  const projects = notionConfig.projects.properties;
+  const tasks = notionConfig.tasks.properties;
+  const ideas = notionConfig.ideas.properties;
+  const meetings = notionConfig.meetings.properties;
+  const gameplans = notionConfig.gameplans.properties;
+  const content = notionConfig.content.properties;
+
+  return {
+    pages: [
+      {
+        id: FAKE_PROJECT_ID,
+        database: "projects",
+        properties: {
+          [projects.title.name]: propertyBuilders.title("Creative OS launch"),
+          [projects.summary.name]: propertyBuilders.richText(
+            "Ship the agent-driven daily brief and planning workflows."
+          ),
+          [projects.status.name]: propertyBuilders.status("In Progress"),
+          [projects.priority.name]: propertyBuilders.select("High"),
+          [projects.initiative.name]: propertyBuilders.multiSelect([
+            "Creative Studio",
+          ]),
+          [projects.dates.name]: propertyBuilders.date(
+            dateOnly(now, -14),
+            dateOnly(now, 30)
+          ),
+        },
+        markdown:
+          "## Goals\n\n- Daily brief in under a minute\n- Weekly review from real data\n\n## Scope\n\nNotion-backed tasks, meetings and gameplans.",
+      },
+      {
+        database: "tasks",
+        properties: {
+          [tasks.title.name]: propertyBuilders.title("Draft brief template"),
+          [tasks.status.name]: propertyBuilders.status("In Progress"),
+          [tasks.priority.name]: propertyBuilders.select("High"),
+          [tasks.dueDate.name]: propertyBuilders.date(dateOnly(now, 0)),
+          [tasks.project.name]: propertyBuilders.relation([FAKE_PROJECT_ID]),
+        },
+      },
+      {
+        database: "tasks",
+        properties: {
+          [tasks.title.name]: propertyBuilders.title("Review energy map copy"),
+          [tasks.status.name]: propertyBuilders.status("To Do"),
+          [tasks.priority.name]: propertyBuilders.select("Medium"),
+          [tasks.dueDate.name]: propertyBuilders.date(dateOnly(now, 2)),
+          [tasks.project.name]: propertyBuilders.relation([FAKE_PROJECT_ID]),
+        },
+      },
+      {
+        database: "tasks",
+        properties: {
+          [tasks.title.name]: propertyBuilders.title("Set up Notion sandbox"),
+          [tasks.status.name]: propertyBuilders.status("Done"),
+          [tasks.priority.name]: propertyBuilders.select("Low"),
+          [tasks.dueDate.name]: propertyBuilders.date(dateOnly(now, -3)),
+          [tasks.project.name]: propertyBuilders.relation([FAKE_PROJECT_ID]),
+        },
+      },
+      {
+        database: "ideas",
+        properties: {
+          [ideas.title.name]: propertyBuilders.title("Energy-aware scheduling"),
+          [ideas.summary.name]: propertyBuilders.richText(
+            "Place deep work in peak windows from the WHOOP energy map."
+          ),
+          [ideas.status.name]: propertyBuilders.select(IdeaStatus.BACKLOG),
+          [ideas.tags.name]: propertyBuilders.multiSelect([IdeaTags.WORKFLOWS]),
+        },
+      },
+      {
+        database: "ideas",
+        properties: {
+          [ideas.title.name]: propertyBuilders.title("Weekly content recap"),
+          [ideas.summary.name]: propertyBuilders.richText(
+            "Turn the week's published posts into a Friday recap thread."
+          ),
+          [ideas.status.name]: propertyBuilders.select(IdeaStatus.BACKLOG),
+          [ideas.tags.name]: propertyBuilders.multiSelect([IdeaTags.CONTENT]),
+        },
+      },
+      {
+        database: "meetings",
+        properties: {
+          [meetings.title.name]: propertyBuilders.title("Team standup"),
+          [meetings.eventTime.name]: propertyBuilders.date(
+            isoAt(now, 0, 9, 30),
+            isoAt(now, 0, 9, 45)
+          ),
+          [meetings.attendees.name]: propertyBuilders.people([FAKE_USER_ID]),
+        },
+      },
+      {
+        database: "meetings",
+        properties: {
+          [meetings.title.name]: propertyBuilders.title("Design review"),
+          [meetings.eventTime.name]: propertyBuilders.date(
+            isoAt(now, 0, 14),
+            isoAt(now, 0, 15)
+          ),
+          [meetings.attendees.name]: propertyBuilders.people([FAKE_USER_ID]),
+        },
+      },
+      {
+        database: "meetings",
+        properties: {
+          [meetings.title.name]: propertyBuilders.title("Partner sync"),
+          [meetings.eventTime.name]: propertyBuilders.date(
+            isoAt(now, 1, 11),
+            isoAt(now, 1, 12)
+          ),
+        },
+      },
+      {
+        database: "gameplans",
+        properties: {
+          [gameplans.title.name]: propertyBuilders.title("Yesterday's gameplan"),
+          [gameplans.summary.name]: propertyBuilders.richText(
+            "Focus on the brief template; protect the afternoon dip."
+          ),
+          [gameplans.status.name]: propertyBuilders.status(
+            GameplanStatus.ACCEPTED
+          ),
+          [gameplans.category.name]: propertyBuilders.multiSelect([
+            GameplanCategory.GAMEPLAN,
+          ]),
+        },
+        markdown: "## Focus\n\n- [x] Draft brief outline\n- [ ] Review tasks",
+        createdTime: isoAt(now, -1, 8),
+      },
+      {
+        database: "content",
+        properties: {
+          [content.title.name]: propertyBuilders.title(
+            "Building a creative operating system"
+          ),
+          [content.status.name]: propertyBuilders.status(ContentStatus.DRAFT),
+          [content.platform.name]: propertyBuilders.multiSelect([
+            ContentPlatform.LINKEDIN,
+          ]),
+          [content.postDate.name]: propertyBuilders.date(dateOnly(now, 3)),
+        },
+      },
+    ],
+    documents: [
+      {
+        pageId: VISION_PAGE_ID,
+        title: "2026 Vision",
+        markdown: [
+          "# 2026 Vision",
+          "",
+          "## Creative Studio",
+          "",
+          "- Ship one product experiment per quarter",
+          "- Publish weekly on LinkedIn",
+          "",
+          "## Health",
+          "",
+          "- Schedule deep work around energy peaks",
+          "",
+          "## Principles",
+          "",
+          "> [!NOTE] Fewer, better projects.",
+        ].join("\n"),
+      },
+    ],
+    users: [
+      { id: FAKE_USER_ID, name: "Sam Rivera", email: "sam@example.com" },
+    ],
+  };
+}
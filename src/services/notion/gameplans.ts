@@ -1,16 +1,40 @@
-import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import type {
+  PageObjectResponse,
+  UpdatePageParameters,
+} from "@notionhq/client/build/src/api-endpoints.js";
 import {
   notionConfig,
   GameplanStatus,
+  GameplanCategory,
+  TaskStatus,
   type GameplanStatusValue,
+  type GameplanCategoryValue,
 } from "../../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { zonedDate, zonedDayBounds } from "../scheduling/time.js";
 import { propertyBuilders } from "./propertyBuilders.js";
 import { extractPropertyValue } from "./propertyExtractors.js";
-import { createPage, queryDatabase } from "./crud.js";
-import { notion } from "./client.js";
+import {
+  createPage,
+  updatePage,
+  queryAllFromDatabase,
+  appendBlockChildren,
+  deleteBlocks,
+} from "./crud.js";
+import { markdownToBlocks } from "./markdown.js";
+import {
+  getPageBlocksAsMarkdown,
+  findSectionBlocks,
+} from "./blocksToMarkdown.js";
+import { getTask, normalizeTaskResponse } from "./tasks.js";
 import type {
   CreateGameplanInput,
+  UpdateGameplanInput,
   GameplanResponse,
+  GameplanTaskLine,
+  GameplanTaskReview,
+  GameplanReconciliation,
+  TaskResponse,
 } from "./types.js";
 
 /**
@@ -85,31 +109,80 @@ export function normalizeGameplanResponse(
 /**
  * Query gameplans by creation date
  * @param date - Date in YYYY-MM-DD format
+ * @param category - Only pages with this category (e.g. daily gameplans
+ *   vs. research paths and reports stored in the same database)
  */
 export async function queryGameplansByDate(
-  date: string
+  date: string,
+  category?: GameplanCategoryValue
 ): Promise<PageObjectResponse[]> {
-  const props = notionConfig.gameplans.properties;
+  return queryGameplansByDateRange(date, date, category);
+}
 
-  // Query by created_time within the day
-  const startOfDay = `${date}T00:00:00.000Z`;
-  const endOfDay = `${date}T23:59:59.999Z`;
+/**
+ * Query gameplans created between two dates (inclusive, in the given
+ * zone), newest first
+ */
+export async function queryGameplansByDateRange(
+  startDate: string,
+  endDate: string,
+  category?: GameplanCategoryValue,
+  timeZone: string = APP_TIME_ZONE
+): Promise<PageObjectResponse[]> {
+  const props = notionConfig.gameplans.properties;
+  const bounds = zonedDayBounds(startDate, endDate, timeZone);
 
-  return queryDatabase("gameplans", {
+  return queryAllFromDatabase("gameplans", {
     filter: {
       and: [
         {
           timestamp: "created_time",
-          created_time: { on_or_after: startOfDay },
+          created_time: { on_or_after: bounds.start },
         },
         {
           timestamp: "created_time",
-          created_time: { on_or_before: endOfDay },
+          created_time: { before: bounds.end },
         },
+        ...(category
+          ? [
+              {
+                property: props.category.name,
+                multi_select: { contains: category },
+              },
+            ]
+          : []),
+      ],
+    },
+    sorts: [{ timestamp: "created_time", direction: "descending" }],
+  });
+}
+
+/**
+ * Find a gameplan by its exact title, e.g. to avoid writing the same
+ * weekly review twice
+ */
+export async function getGameplanByTitle(
+  title: string,
+  category?: GameplanCategoryValue
+): Promise<GameplanResponse | null> {
+  const props = notionConfig.gameplans.properties;
+  const pages = await queryAllFromDatabase("gameplans", {
+    filter: {
+      and: [
+        { property: props.title.name, title: { equals: title } },
+        ...(category
+          ? [
+              {
+                property: props.category.name,
+                multi_select: { contains: category },
+              },
+            ]
+          : []),
       ],
     },
     sorts: [{ timestamp: "created_time", direction: "descending" }],
   });
+  return pages[0] ? normalizeGameplanResponse(pages[0]) : null;
 }
 
 /**
@@ -119,7 +192,7 @@ export async function queryGameplansByDate(
 export async function getGameplanForDate(
   date: string
 ): Promise<GameplanResponse | null> {
-  const pages = await queryGameplansByDate(date);
+  const pages = await queryGameplansByDate(date, GameplanCategory.GAMEPLAN);
   if (pages.length === 0) {
     return null;
   }
@@ -130,8 +203,7 @@ export async function getGameplanForDate(
  * Get today's gameplan if it exists
  */
 export async function getTodaysGameplan(): Promise<GameplanResponse | null> {
-  const today = new Date().toISOString().split("T")[0];
-  return getGameplanForDate(today);
+  return getGameplanForDate(zonedDate(Date.now(), APP_TIME_ZONE));
 }
 
 /**
@@ -141,13 +213,337 @@ export async function appendGameplanContent(
   pageId: string,
   blocks: import("@notionhq/client/build/src/api-endpoints.js").CreatePageParameters["children"]
 ): Promise<void> {
-  if (!blocks || blocks.length === 0) return;
+  await appendBlockChildren(pageId, blocks);
+}
+
+/**
+ * Update a gameplan's summary or status
+ */
+export async function updateGameplan(
+  input: UpdateGameplanInput
+): Promise<GameplanResponse> {
+  const props = notionConfig.gameplans.properties;
+  const properties: UpdatePageParameters["properties"] = {};
+
+  if (input.summary !== undefined) {
+    properties[props.summary.name] = propertyBuilders.richText(input.summary);
+  }
+  if (input.status !== undefined) {
+    properties[props.status.name] = propertyBuilders.status(input.status);
+  }
+
+  return normalizeGameplanResponse(await updatePage(input.pageId, properties));
+}
+
+// ============================================================================
+// End-of-day Reconciliation
+// ============================================================================
+
+const PRIORITY_TASKS_HEADING = /priority tasks/i;
+const WRAP_UP_HEADING = "Wrap-up";
+const CARRY_OVER_HEADING = /carry-over/i;
+
+const LINK_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/;
+const PAGE_ID_PATTERN = /([0-9a-f]{32})(?:[?#].*)?$/i;
+
+function toPageId(compact: string): string {
+  const id = compact.toLowerCase();
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+}
+
+/**
+ * Task lines listed under a heading of a gameplan body
+ * Lines look like "[High] [Title](url) → 9:00 AM - 10:00 AM (Brief)"; the
+ * task ID comes from the link, and plain-text lines keep a null ID.
+ */
+export function parseGameplanTaskLines(
+  markdown: string,
+  heading: RegExp = PRIORITY_TASKS_HEADING
+): GameplanTaskLine[] {
+  const lines: GameplanTaskLine[] = [];
+  let inSection = false;
+
+  for (const line of markdown.split("\n")) {
+    const headingMatch = line.match(/^#{1,6}\s+(.*)$/);
+    if (headingMatch) {
+      inSection = heading.test(headingMatch[1]);
+      continue;
+    }
+    if (!inSection) continue;
+
+    const item = line.match(/^\s*[-*]\s+(.*)$/);
+    if (!item) continue;
+
+    const [text, window] = item[1].split(/\s*→\s*/);
+    const link = text.match(LINK_PATTERN);
+    const pageId = link?.[2].match(PAGE_ID_PATTERN)?.[1];
+    const title = link
+      ? link[1]
+      : text
+          .replace(/^\[[^\]]+\]\s*/, "")
+          .replace(/\s*\([^)]*\)$/, "")
+          .trim();
+    if (!title) continue;
+
+    lines.push({
+      title,
+      taskId: pageId ? toPageId(pageId) : null,
+      window: window?.replace(/\s*\([^)]*\)$/, "").trim() || null,
+    });
+  }
+
+  return lines;
+}
 
-  await notion.blocks.children.append({
-    block_id: pageId,
-    children: blocks as Parameters<
-      typeof notion.blocks.children.append
-    >[0]["children"],
+/**
+ * The most recent daily gameplan reconciled before a date (in the given
+ * zone), so a Friday wrap-up still carries over to Monday
+ */
+export async function getLastReconciledGameplan(
+  beforeDate: string,
+  timeZone: string = APP_TIME_ZONE
+): Promise<GameplanResponse | null> {
+  const props = notionConfig.gameplans.properties;
+  const { start } = zonedDayBounds(beforeDate, beforeDate, timeZone);
+  const [page] = await queryAllFromDatabase("gameplans", {
+    filter: {
+      and: [
+        { timestamp: "created_time", created_time: { before: start } },
+        {
+          property: props.category.name,
+          multi_select: { contains: GameplanCategory.GAMEPLAN },
+        },
+        {
+          property: props.status.name,
+          status: { equals: GameplanStatus.ARCHIVED },
+        },
+      ],
+    },
+    sorts: [{ timestamp: "created_time", direction: "descending" }],
+    maxResults: 1,
+  });
+  return page ? normalizeGameplanResponse(page) : null;
+}
+
+/**
+ * Open tasks carried over in the Wrap-up of the last gameplan reconciled
+ * before a date
+ */
+export async function getCarryOverTasks(
+  date: string
+): Promise<{ gameplan: GameplanResponse | null; lines: GameplanTaskLine[] }> {
+  const gameplan = await getLastReconciledGameplan(date);
+  if (!gameplan) return { gameplan: null, lines: [] };
+
+  const markdown = await getPageBlocksAsMarkdown(gameplan.pageId, {
+    fresh: true,
+  });
+  return {
+    gameplan,
+    lines: parseGameplanTaskLines(markdown, CARRY_OVER_HEADING),
+  };
+}
+
+async function findTaskByTitle(title: string): Promise<TaskResponse | null> {
+  const props = notionConfig.tasks.properties;
+  const pages = await queryAllFromDatabase("tasks", {
+    filter: { property: props.title.name, title: { equals: title } },
+  });
+  return pages[0] ? normalizeTaskResponse(pages[0]) : null;
+}
+
+/**
+ * Tasks marked Done and last edited between two dates (inclusive, in the
+ * given zone). Notion keeps no completion date, so a Done task edited in
+ * the range for any reason is included.
+ */
+export async function getTasksCompletedBetween(
+  startDate: string,
+  endDate: string,
+  timeZone: string = APP_TIME_ZONE
+): Promise<TaskResponse[]> {
+  const props = notionConfig.tasks.properties;
+  const bounds = zonedDayBounds(startDate, endDate, timeZone);
+  const pages = await queryAllFromDatabase("tasks", {
+    filter: {
+      and: [
+        { property: props.status.name, status: { equals: TaskStatus.DONE } },
+        {
+          timestamp: "last_edited_time",
+          last_edited_time: { on_or_after: bounds.start },
+        },
+        {
+          timestamp: "last_edited_time",
+          last_edited_time: { before: bounds.end },
+        },
+      ],
+    },
   });
+  return pages.map((page) => normalizeTaskResponse(page));
 }
 
+/**
+ * Look up each planned task and classify it as done, slipped, dropped or
+ * missing
+ */
+export async function reviewPlannedTasks(
+  lines: GameplanTaskLine[]
+): Promise<GameplanTaskReview[]> {
+  const seen = new Set<string>();
+  const reviews: GameplanTaskReview[] = [];
+
+  for (const line of lines) {
+    const key = line.taskId ?? line.title.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    let task: TaskResponse | null = null;
+    try {
+      task = line.taskId
+        ? await getTask(line.taskId)
+        : await findTaskByTitle(line.title);
+    } catch {
+      task = null;
+    }
+
+    reviews.push({
+      title: task?.title ?? line.title,
+      taskId: task?.pageId ?? line.taskId,
+      url: task?.url ?? null,
+      status: task?.status ?? null,
+      window: line.window,
+      outcome: !task
+        ? "missing"
+        : task.status === TaskStatus.DONE
+          ? "done"
+          : task.status === TaskStatus.ARCHIVED
+            ? "dropped"
+            : "slipped",
+    });
+  }
+
+  return reviews;
+}
+
+/**
+ * Render the Wrap-up section appended to a reconciled gameplan
+ */
+export function gameplanWrapUpToMarkdown(
+  result: Omit<GameplanReconciliation, "written">
+): string {
+  const link = (item: { title: string; url: string | null }) =>
+    item.url ? `[${item.title}](${item.url})` : item.title;
+  const section = (heading: string, items: string[]) =>
+    items.length > 0
+      ? ["", `### ${heading}`, ...items.map((item) => `- ${item}`)]
+      : [];
+  const byOutcome = (outcome: GameplanTaskReview["outcome"]) =>
+    result.planned.filter((item) => item.outcome === outcome);
+
+  const { counts } = result;
+  const score =
+    result.completionScore === null
+      ? "No planned tasks to score."
+      : `Completion: ${counts.done} of ${counts.planned - counts.missing} planned tasks done (${Math.round(result.completionScore * 100)}%).`;
+
+  return [
+    `## ${WRAP_UP_HEADING}`,
+    "",
+    score,
+    ...section(
+      "Done",
+      byOutcome("done").map((item) => link(item))
+    ),
+    ...section(
+      "Slipped (carry-over)",
+      result.carryOver.map(
+        (item) => `${link(item)} (${item.status ?? "no status"})`
+      )
+    ),
+    ...section(
+      "Unplanned (edited while Done)",
+      result.unplanned.map((task) => link(task))
+    ),
+    ...section(
+      "Dropped",
+      byOutcome("dropped").map((item) => link(item))
+    ),
+    ...section(
+      "Not Found",
+      byOutcome("missing").map((item) => item.title)
+    ),
+  ].join("\n");
+}
+
+/**
+ * Compare a day's gameplan with what actually happened
+ *
+ * Each Priority Tasks line is looked up in Notion: Done tasks count as
+ * done, archived ones as dropped and the rest slip and carry over to the
+ * next day's plan. Done tasks edited that day (in APP_TIME_ZONE) but not
+ * in the plan are reported as unplanned. Unless dryRun is set, the Wrap-up
+ * section is written, replacing the one from an earlier run, and the
+ * gameplan is archived.
+ */
+export async function reconcileGameplan(
+  date: string,
+  options: { dryRun?: boolean } = {}
+): Promise<GameplanReconciliation> {
+  const { dryRun = false } = options;
+
+  let gameplan = await getGameplanForDate(date);
+  if (!gameplan) {
+    throw new Error(`No gameplan found for ${date}`);
+  }
+
+  const markdown = await getPageBlocksAsMarkdown(gameplan.pageId, {
+    fresh: true,
+  });
+  const planned = await reviewPlannedTasks(parseGameplanTaskLines(markdown));
+  const plannedIds = new Set(planned.map((item) => item.taskId));
+  const unplanned = (await getTasksCompletedBetween(date, date)).filter(
+    (task) => !plannedIds.has(task.pageId)
+  );
+
+  const count = (outcome: GameplanTaskReview["outcome"]) =>
+    planned.filter((item) => item.outcome === outcome).length;
+  const counts = {
+    planned: planned.length,
+    done: count("done"),
+    slipped: count("slipped"),
+    dropped: count("dropped"),
+    missing: count("missing"),
+    unplanned: unplanned.length,
+  };
+  const scored = counts.planned - counts.missing;
+
+  const result = {
+    date,
+    gameplan,
+    planned,
+    unplanned,
+    carryOver: planned.filter((item) => item.outcome === "slipped"),
+    counts,
+    completionScore: scored > 0 ? counts.done / scored : null,
+  };
+
+  if (dryRun) return { ...result, written: false };
+
+  // Re-runs recompute the counts, so the old Wrap-up is replaced
+  await deleteBlocks(
+    gameplan.pageId,
+    await findSectionBlocks(gameplan.pageId, WRAP_UP_HEADING)
+  );
+  await appendGameplanContent(
+    gameplan.pageId,
+    markdownToBlocks(gameplanWrapUpToMarkdown(result))
+  );
+  if (gameplan.status !== GameplanStatus.ARCHIVED) {
+    gameplan = await updateGameplan({
+      pageId: gameplan.pageId,
+      status: GameplanStatus.ARCHIVED,
+    });
+  }
+
+  return { ...result, gameplan, written: true };
+}
@@ -0,0 +1,383 @@
+import {
+  APIErrorCode,
+  ClientErrorCode,
+  isNotionClientError,
+  type Client,
+} from "@notionhq/client";
+import { notion, isFakeNotion } from "./client.js";
+
+/**
+ * Notion Request Governor
+ * Every Notion call goes through callNotion, which:
+ * - waits on a token bucket so bulk flows stay under the API rate limit
+ * - retries transient failures with exponential backoff + jitter,
+ *   honoring Retry-After when Notion sends one
+ * - only retries non-idempotent writes when the request provably did not apply
+ * - records per-call metrics
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How safe an operation is to replay after an ambiguous failure
+ * - read: no side effects
+ * - update: sets properties to fixed values, replaying is harmless
+ * - create / append: replaying after a 5xx or timeout may duplicate content
+ */
+export type NotionOperationKind = "read" | "update" | "create" | "append";
+
+export interface NotionCallMetric {
+  operation: string;
+  kind: NotionOperationKind;
+  attempts: number;
+  durationMs: number;
+  /** Time spent waiting on the rate limiter and backoff */
+  waitMs: number;
+  ok: boolean;
+  errorCode?: string;
+  status?: number;
+  finishedAt: string;
+}
+
+export interface NotionOperationStats {
+  calls: number;
+  failures: number;
+  retries: number;
+  rateLimited: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+}
+
+export interface NotionMetricsSnapshot {
+  totals: NotionOperationStats;
+  operations: Record<string, NotionOperationStats>;
+  recent: NotionCallMetric[];
+}
+
+export interface GovernorConfig {
+  /** Sustained requests per second (Notion allows an average of 3) */
+  requestsPerSecond: number;
+  /** Bucket size, i.e. how many requests may go out back-to-back */
+  burst: number;
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// The fake client has no rate limit, so offline runs aren't throttled
+const defaultRate = isFakeNotion ? 1000 : 3;
+
+const config: GovernorConfig = {
+  requestsPerSecond: readNumberEnv("NOTION_REQUESTS_PER_SECOND", defaultRate),
+  burst: readNumberEnv("NOTION_REQUEST_BURST", defaultRate),
+  maxRetries: readNumberEnv("NOTION_MAX_RETRIES", 4),
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Override governor settings (e.g. a lower rate for scripts)
+ */
+export function configureNotionGovernor(overrides: Partial<GovernorConfig>) {
+  Object.assign(config, overrides);
+  bucket.tokens = Math.min(bucket.tokens, config.burst);
+}
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+const bucket = {
+  tokens: config.burst,
+  lastRefill: Date.now(),
+};
+
+// Calls queue on this chain so tokens are handed out in arrival order
+let bucketQueue: Promise<void> = Promise.resolve();
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function refill() {
+  const now = Date.now();
+  const elapsed = (now - bucket.lastRefill) / 1000;
+  bucket.tokens = Math.min(
+    config.burst,
+    bucket.tokens + elapsed * config.requestsPerSecond
+  );
+  bucket.lastRefill = now;
+}
+
+/**
+ * Wait until a request token is available
+ */
+function acquireToken(): Promise<void> {
+  const next = bucketQueue.then(async () => {
+    refill();
+    if (bucket.tokens < 1) {
+      const waitMs = ((1 - bucket.tokens) / config.requestsPerSecond) * 1000;
+      await sleep(waitMs);
+      refill();
+    }
+    bucket.tokens -= 1;
+  });
+  bucketQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Drain the bucket after a 429 so queued calls back off too
+ */
+function drainBucket() {
+  bucket.tokens = Math.min(bucket.tokens, 0);
+  bucket.lastRefill = Date.now();
+}
+
+// ============================================================================
+// Retry Classification
+// ============================================================================
+
+interface RetryDecision {
+  retry: boolean;
+  retryAfterMs?: number;
+}
+
+function readRetryAfter(headers: unknown): number | undefined {
+  if (!headers) return undefined;
+
+  let value: string | null | undefined;
+  if (typeof (headers as Headers).get === "function") {
+    value = (headers as Headers).get("retry-after");
+  } else {
+    const record = headers as Record<string, string>;
+    value = record["retry-after"] ?? record["Retry-After"];
+  }
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decide whether a failed call may be retried
+ * 429 and 409 are rejected before any write happens, so every kind retries.
+ * 5xx and timeouts are ambiguous and only retried for idempotent kinds.
+ */
+function classifyError(
+  error: unknown,
+  kind: NotionOperationKind
+): RetryDecision {
+  const idempotent = kind === "read" || kind === "update";
+
+  if (!isNotionClientError(error)) {
+    // Network failures (ECONNRESET, fetch failed) look like timeouts
+    return { retry: idempotent && error instanceof TypeError };
+  }
+
+  if (error.code === ClientErrorCode.RequestTimeout) {
+    return { retry: idempotent };
+  }
+
+  const status = "status" in error ? error.status : undefined;
+  const retryAfterMs =
+    "headers" in error ? readRetryAfter(error.headers) : undefined;
+
+  if (error.code === APIErrorCode.RateLimited || status === 429) {
+    return { retry: true, retryAfterMs };
+  }
+  if (error.code === APIErrorCode.ConflictError || status === 409) {
+    return { retry: true, retryAfterMs };
+  }
+  if (
+    status === 500 ||
+    status === 502 ||
+    status === 503 ||
+    status === 504 ||
+    error.code === APIErrorCode.ServiceUnavailable ||
+    error.code === APIErrorCode.InternalServerError
+  ) {
+    return { retry: idempotent, retryAfterMs };
+  }
+
+  return { retry: false };
+}
+
+function backoffDelay(attempt: number): number {
+  // Full jitter: random point between 0 and the capped exponential delay
+  const ceiling = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+const RECENT_CALL_LIMIT = 50;
+
+function emptyStats(): NotionOperationStats {
+  return {
+    calls: 0,
+    failures: 0,
+    retries: 0,
+    rateLimited: 0,
+    totalDurationMs: 0,
+    maxDurationMs: 0,
+  };
+}
+
+let totals = emptyStats();
+let operationStats: Record<string, NotionOperationStats> = {};
+let recentCalls: NotionCallMetric[] = [];
+const listeners = new Set<(metric: NotionCallMetric) => void>();
+
+function recordStats(
+  stats: NotionOperationStats,
+  metric: NotionCallMetric,
+  rateLimited: number
+) {
+  stats.calls++;
+  stats.retries += metric.attempts - 1;
+  stats.rateLimited += rateLimited;
+  stats.totalDurationMs += metric.durationMs;
+  stats.maxDurationMs = Math.max(stats.maxDurationMs, metric.durationMs);
+  if (!metric.ok) stats.failures++;
+}
+
+function recordMetric(metric: NotionCallMetric, rateLimited: number) {
+  operationStats[metric.operation] ??= emptyStats();
+  recordStats(operationStats[metric.operation], metric, rateLimited);
+  recordStats(totals, metric, rateLimited);
+
+  recentCalls.push(metric);
+  if (recentCalls.length > RECENT_CALL_LIMIT) recentCalls.shift();
+
+  for (const listener of listeners) {
+    try {
+      listener(metric);
+    } catch {
+      // Metrics listeners must never break a Notion call
+    }
+  }
+}
+
+/**
+ * Snapshot of call counts, retries and latency per operation
+ */
+export function getNotionMetrics(): NotionMetricsSnapshot {
+  return {
+    totals: { ...totals },
+    operations: Object.fromEntries(
+      Object.entries(operationStats).map(([name, stats]) => [
+        name,
+        { ...stats },
+      ])
+    ),
+    recent: [...recentCalls],
+  };
+}
+
+export function resetNotionMetrics() {
+  totals = emptyStats();
+  operationStats = {};
+  recentCalls = [];
+}
+
+/**
+ * Subscribe to per-call metrics; returns an unsubscribe function
+ */
+export function onNotionCall(
+  listener: (metric: NotionCallMetric) => void
+): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// ============================================================================
+// Governed Call
+// ============================================================================
+
+/**
+ * Run a Notion API call through the rate limiter and retry policy
+ *
+ * @param operation - Metric name, e.g. "pages.create"
+ * @param kind - Idempotency class used to decide what may be retried
+ * @param call - Receives the shared client and performs one request
+ */
+export async function callNotion<T>(
+  operation: string,
+  kind: NotionOperationKind,
+  call: (client: Client) => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  let waitMs = 0;
+  let attempts = 0;
+  let rateLimited = 0;
+
+  const finish = (ok: boolean, error?: unknown) => {
+    const metric: NotionCallMetric = {
+      operation,
+      kind,
+      attempts,
+      durationMs: Date.now() - startedAt,
+      waitMs,
+      ok,
+      finishedAt: new Date().toISOString(),
+    };
+    if (error && isNotionClientError(error)) {
+      metric.errorCode = error.code;
+      if ("status" in error) metric.status = error.status;
+    }
+    recordMetric(metric, rateLimited);
+  };
+
+  while (true) {
+    const waitStart = Date.now();
+    await acquireToken();
+    waitMs += Date.now() - waitStart;
+    attempts++;
+
+    try {
+      const result = await call(notion);
+      finish(true);
+      return result;
+    } catch (error) {
+      const decision = classifyError(error, kind);
+      const isRateLimit =
+        isNotionClientError(error) && error.code === APIErrorCode.RateLimited;
+      if (isRateLimit) {
+        rateLimited++;
+        drainBucket();
+      }
+
+      if (!decision.retry || attempts > config.maxRetries) {
+        finish(false, error);
+        throw error;
+      }
+
+      const delay = Math.min(
+        config.maxDelayMs,
+        decision.retryAfterMs ?? backoffDelay(attempts)
+      );
+      waitMs += delay;
+      await sleep(delay);
+    }
+  }
+}
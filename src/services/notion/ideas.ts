@@ -2,17 +2,50 @@ import type { QueryDataSourceParameters, PageObjectResponse } from "@notionhq/cl
 import {
   notionConfig,
   IdeaStatus,
+  IdeaTimerStatus,
   type IdeaStatusValue,
   type IdeaStatus1Value,
   type IdeaTagValue,
 } from "../../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { zonedDayBounds } from "../scheduling/time.js";
 import { propertyBuilders } from "./propertyBuilders.js";
-import { extractPropertyValue } from "./propertyExtractors.js";
-import { createPage, updatePage, getPage, queryDatabase } from "./crud.js";
+import {
+  extractPropertyValue,
+  extractDateValue,
+} from "./propertyExtractors.js";
+import {
+  createPage,
+  updatePage,
+  getPage,
+  queryAllFromDatabase,
+  appendBlockChildren,
+} from "./crud.js";
+import { markdownToBlocks } from "./markdown.js";
+import { getPageBlocksAsMarkdown } from "./blocksToMarkdown.js";
+import {
+  compareFeatures,
+  similarityFeatures,
+  tokenize,
+  inverseDocumentFrequency,
+  termVector,
+  addVectors,
+  cosineSimilarity,
+  jaccard,
+  topTerms,
+  type TermVector,
+} from "./similarity.js";
+import { compactId, ensurePageLink } from "./links.js";
 import type {
   CreateIdeaInput,
   UpdateIdeaInput,
   IdeaResponse,
+  IdeaDuplicateCandidate,
+  IdeaDuplicateGroup,
+  IdeaCluster,
+  IdeaClusterTheme,
+  IdeaTimerSession,
+  IdeaTimeReport,
 } from "./types.js";
 
 /**
@@ -98,11 +131,19 @@ export async function updateIdea(
   if (input.status1 !== undefined) {
     properties[props.status1.name] = propertyBuilders.status(input.status1);
   }
+  if (input.timerStatus !== undefined) {
+    properties[props.timerStatus.name] = propertyBuilders.status(
+      input.timerStatus
+    );
+  }
   if (input.startTime !== undefined) {
     properties[props.startTime.name] = propertyBuilders.date(input.startTime);
   }
   if (input.endTime !== undefined) {
-    properties[props.endTime.name] = propertyBuilders.date(input.endTime);
+    properties[props.endTime.name] =
+      input.endTime === null
+        ? { date: null }
+        : propertyBuilders.date(input.endTime);
   }
   if (input.hidden !== undefined) {
     properties[props.hidden.name] = input.hidden
@@ -120,13 +161,22 @@ export async function updateIdea(
 
 /**
  * Query Ideas from Notion with optional filters
+ * Walks every result cursor; pass maxResults to stop early
  */
-export async function queryIdeas(filter?: {
-  status?: IdeaStatusValue;
-  status1?: IdeaStatus1Value;
-  tags?: IdeaTagValue[];
-  hidden?: boolean;
-}): Promise<PageObjectResponse[]> {
+export async function queryIdeas(
+  filter?: {
+    status?: IdeaStatusValue;
+    status1?: IdeaStatus1Value;
+    tags?: IdeaTagValue[];
+    hidden?: boolean;
+    /** ISO timestamps; created on or after / strictly before */
+    createdOnOrAfter?: string;
+    createdBefore?: string;
+    /** Title or summary contains any of these words (case-insensitive) */
+    textContainsAny?: string[];
+  },
+  options?: { maxResults?: number }
+): Promise<PageObjectResponse[]> {
   const props = notionConfig.ideas.properties;
   const filters: Array<QueryDataSourceParameters["filter"]> = [];
 
@@ -161,6 +211,29 @@ export async function queryIdeas(filter?: {
     });
   }
 
+  if (filter?.createdOnOrAfter) {
+    filters.push({
+      timestamp: "created_time",
+      created_time: { on_or_after: filter.createdOnOrAfter },
+    });
+  }
+
+  if (filter?.createdBefore) {
+    filters.push({
+      timestamp: "created_time",
+      created_time: { before: filter.createdBefore },
+    });
+  }
+
+  if (filter?.textContainsAny?.length) {
+    filters.push({
+      or: filter.textContainsAny.flatMap((word) => [
+        { property: props.title.name, title: { contains: word } },
+        { property: props.summary.name, rich_text: { contains: word } },
+      ]),
+    } as QueryDataSourceParameters["filter"]);
+  }
+
   const queryFilter: QueryDataSourceParameters["filter"] | undefined =
     filters.length > 1
       ? ({ and: filters } as QueryDataSourceParameters["filter"])
@@ -168,9 +241,10 @@ export async function queryIdeas(filter?: {
       ? filters[0]
       : undefined;
 
-  return queryDatabase("ideas", {
+  return queryAllFromDatabase("ideas", {
     filter: queryFilter,
     sorts: [{ timestamp: "created_time", direction: "descending" }],
+    maxResults: options?.maxResults,
   });
 }
 
@@ -207,12 +281,8 @@ export function normalizeIdeaResponse(page: PageObjectResponse): IdeaResponse {
     timerStatus: extractPropertyValue(pageProps[props.timerStatus.name]) as
       | string
       | null,
-    startTime: extractPropertyValue(pageProps[props.startTime.name]) as
-      | string
-      | null,
-    endTime: extractPropertyValue(pageProps[props.endTime.name]) as
-      | string
-      | null,
+    startTime: extractDateValue(pageProps[props.startTime.name])?.start ?? null,
+    endTime: extractDateValue(pageProps[props.endTime.name])?.start ?? null,
     createdTime: page.created_time,
     lastEditedTime: page.last_edited_time,
   };
@@ -224,8 +294,8 @@ export function normalizeIdeaResponse(page: PageObjectResponse): IdeaResponse {
 export async function getRecentIdeas(
   limit: number = 10
 ): Promise<IdeaResponse[]> {
-  const pages = await queryIdeas({ hidden: false });
-  return pages.slice(0, limit).map(normalizeIdeaResponse);
+  const pages = await queryIdeas({ hidden: false }, { maxResults: limit });
+  return pages.map(normalizeIdeaResponse);
 }
 
 /**
@@ -238,3 +308,590 @@ export async function getIdeasByStatus(
   return pages.map(normalizeIdeaResponse);
 }
 
+
+// ============================================================================
+// Duplicate Detection
+// ============================================================================
+
+// Default score at which two ideas are reported as likely duplicates
+const DUPLICATE_THRESHOLD = 0.6;
+
+// How many recent ideas a capture-time check compares against
+const DUPLICATE_SCAN_LIMIT = 500;
+
+// How many recent ideas a full duplicate scan compares pairwise
+const DUPLICATE_GROUP_SCAN_LIMIT = 1000;
+
+function ideaText(idea: Pick<IdeaResponse, "summary" | "aiSummary">) {
+  return [idea.summary, idea.aiSummary].filter(Boolean).join("\n");
+}
+
+function ideaFeatures(idea: IdeaResponse) {
+  return similarityFeatures({ title: idea.title, body: ideaText(idea) });
+}
+
+/**
+ * Visible ideas whose summary or AI summary contains a URL, however old
+ */
+async function queryIdeasMentioningUrl(
+  url: string
+): Promise<PageObjectResponse[]> {
+  const props = notionConfig.ideas.properties;
+  return queryAllFromDatabase("ideas", {
+    filter: {
+      and: [
+        { property: props.hidden.name, multi_select: { is_empty: true } },
+        {
+          or: [
+            { property: props.summary.name, rich_text: { contains: url } },
+            { property: props.aiSummary.name, rich_text: { contains: url } },
+          ],
+        },
+      ],
+    },
+  });
+}
+
+/**
+ * Find existing ideas similar to a new title/summary (e.g. before capture)
+ * Hidden ideas are ignored. The scan covers the most recent ideas; ideas
+ * that mention input.url are always compared. Results are sorted by
+ * score, best first.
+ */
+export async function findSimilarIdeas(
+  input: { title: string; summary?: string; url?: string },
+  options: { threshold?: number; limit?: number; scanLimit?: number } = {}
+): Promise<IdeaDuplicateCandidate[]> {
+  const {
+    threshold = DUPLICATE_THRESHOLD,
+    limit = 5,
+    scanLimit = DUPLICATE_SCAN_LIMIT,
+  } = options;
+
+  const [recent, mentioning] = await Promise.all([
+    queryIdeas({ hidden: false }, { maxResults: scanLimit }),
+    input.url ? queryIdeasMentioningUrl(input.url) : Promise.resolve([]),
+  ]);
+  const pages = new Map(
+    [...mentioning, ...recent].map((page) => [page.id, page])
+  );
+  const features = similarityFeatures({
+    title: input.title,
+    body: [input.summary, input.url].filter(Boolean).join("\n"),
+  });
+
+  return [...pages.values()]
+    .map(normalizeIdeaResponse)
+    .map((idea) => ({
+      idea,
+      ...compareFeatures(features, ideaFeatures(idea)),
+    }))
+    .filter((candidate) => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Scan the most recent ideas and group likely duplicates
+ * Pairs above the threshold are joined transitively; each group keeps its
+ * oldest idea as the proposed merge target.
+ * @param options.scanLimit - Ideas to compare, newest first (default 1000)
+ */
+export async function findDuplicateIdeaGroups(
+  options: { threshold?: number; scanLimit?: number } = {}
+): Promise<IdeaDuplicateGroup[]> {
+  const {
+    threshold = DUPLICATE_THRESHOLD,
+    scanLimit = DUPLICATE_GROUP_SCAN_LIMIT,
+  } = options;
+
+  const pages = await queryIdeas({ hidden: false }, { maxResults: scanLimit });
+  const ideas = pages
+    .map(normalizeIdeaResponse)
+    .sort((a, b) => a.createdTime.localeCompare(b.createdTime));
+  const features = ideas.map(ideaFeatures);
+
+  // Union-find over idea indexes
+  const parent = ideas.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const matches = new Map<number, Omit<IdeaDuplicateCandidate, "idea">>();
+  for (let i = 0; i < ideas.length; i++) {
+    for (let j = i + 1; j < ideas.length; j++) {
+      const result = compareFeatures(features[i], features[j]);
+      if (result.score < threshold) continue;
+
+      const [rootI, rootJ] = [find(i), find(j)];
+      if (rootI !== rootJ) {
+        parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+      }
+
+      // Keep the strongest match seen for each idea
+      for (const index of [i, j]) {
+        const previous = matches.get(index);
+        if (!previous || previous.score < result.score) {
+          matches.set(index, result);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, IdeaDuplicateGroup>();
+  ideas.forEach((idea, index) => {
+    const root = find(index);
+    if (root === index) return;
+
+    const group = groups.get(root) ?? { primary: ideas[root], duplicates: [] };
+    group.duplicates.push({ idea, ...matches.get(index)! });
+    groups.set(root, group);
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Fold duplicate ideas into a primary idea
+ * Each duplicate's summary is appended to the primary's page with a link
+ * back, and the duplicate is hidden and marked Dump so it drops out of
+ * views without losing history. Re-running skips already-linked pages.
+ */
+export async function mergeIdeas(
+  primaryId: string,
+  duplicateIds: string[]
+): Promise<{ primary: IdeaResponse; merged: IdeaResponse[] }> {
+  if (duplicateIds.some((id) => compactId(id) === compactId(primaryId))) {
+    throw new Error("duplicateIds must not include the primary idea");
+  }
+
+  const primary = await getIdea(primaryId);
+  const merged: IdeaResponse[] = [];
+
+  for (const duplicateId of duplicateIds) {
+    const duplicate = await getIdea(duplicateId);
+    const text = ideaText(duplicate);
+
+    await ensurePageLink(
+      primary.pageId,
+      duplicate.pageId,
+      [
+        `> [!NOTE] Merged from [${duplicate.title}](${duplicate.url})`,
+        ...(text ? [">", ...text.split("\n").map((line) => `> ${line}`)] : []),
+      ].join("\n")
+    );
+    await ensurePageLink(
+      duplicate.pageId,
+      primary.pageId,
+      `> [!NOTE] Merged into [${primary.title}](${primary.url})`
+    );
+    await updateIdea({
+      pageId: duplicate.pageId,
+      status: IdeaStatus.DUMP,
+      hidden: true,
+    });
+
+    merged.push({ ...duplicate, status: IdeaStatus.DUMP });
+  }
+
+  return { primary, merged };
+}
+
+/**
+ * Add a note to an idea's page (used when a capture is merged into an
+ * existing idea instead of creating a new one)
+ */
+export async function appendToIdea(
+  pageId: string,
+  markdown: string
+): Promise<void> {
+  await appendBlockChildren(pageId, markdownToBlocks(markdown));
+}
+
+/**
+ * Cross-link two related ideas with backlink notes on both pages
+ */
+export async function linkIdeas(
+  ideaId: string,
+  relatedId: string
+): Promise<void> {
+  const [idea, related] = await Promise.all([
+    getIdea(ideaId),
+    getIdea(relatedId),
+  ]);
+
+  await ensurePageLink(
+    idea.pageId,
+    related.pageId,
+    `> [!NOTE] Related idea: [${related.title}](${related.url})`
+  );
+  await ensurePageLink(
+    related.pageId,
+    idea.pageId,
+    `> [!NOTE] Related idea: [${idea.title}](${idea.url})`
+  );
+}
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+// Minimum similarity for an idea to join an existing cluster
+const CLUSTER_THRESHOLD = 0.2;
+
+// Minimum similarity for a cluster to be mapped to a theme
+const THEME_THRESHOLD = 0.05;
+
+const ACTIVITY_HALF_LIFE_DAYS = 14;
+
+interface ClusterDraft {
+  ideas: IdeaResponse[];
+  centroid: TermVector;
+  tagCounts: Map<string, number>;
+}
+
+function ideaTokens(idea: IdeaResponse): string[] {
+  // Titles are short and deliberate, so they count twice
+  const titleTokens = tokenize(idea.title);
+  return [...titleTokens, ...titleTokens, ...tokenize(ideaText(idea))];
+}
+
+function sharedTags(draft: ClusterDraft): string[] {
+  return [...draft.tagCounts.entries()]
+    .filter(([, count]) => count * 2 >= draft.ideas.length)
+    .sort((a, b) => b[1] - a[1])
+    .map(([tag]) => tag);
+}
+
+/**
+ * Group ideas by tags and text similarity, name and rank the groups
+ *
+ * Ideas are assigned greedily (newest first) to the most similar cluster
+ * centroid, scored as 70% TF-IDF cosine and 30% tag overlap. Clusters are
+ * ranked by recency-weighted volume and, when themes are given, mapped to
+ * the closest one.
+ *
+ * @returns clusters with at least minSize ideas, plus the ideas left over
+ */
+export function clusterIdeas(
+  ideas: IdeaResponse[],
+  options: {
+    threshold?: number;
+    minSize?: number;
+    themes?: IdeaClusterTheme[];
+    now?: Date;
+  } = {}
+): { clusters: IdeaCluster[]; unclustered: IdeaResponse[] } {
+  const {
+    threshold = CLUSTER_THRESHOLD,
+    minSize = 2,
+    themes = [],
+    now = new Date(),
+  } = options;
+
+  const ordered = [...ideas].sort((a, b) =>
+    b.createdTime.localeCompare(a.createdTime)
+  );
+  const tokens = ordered.map(ideaTokens);
+  const idf = inverseDocumentFrequency(tokens);
+  const drafts: ClusterDraft[] = [];
+
+  ordered.forEach((idea, index) => {
+    const vector = termVector(tokens[index], idf);
+    const tags = new Set(idea.tags);
+
+    let best: ClusterDraft | null = null;
+    let bestScore = 0;
+    for (const draft of drafts) {
+      const score =
+        0.7 * cosineSimilarity(vector, draft.centroid) +
+        0.3 * jaccard(tags, new Set(sharedTags(draft)));
+      if (score > bestScore) {
+        best = draft;
+        bestScore = score;
+      }
+    }
+
+    const target: ClusterDraft =
+      best && bestScore >= threshold
+        ? best
+        : { ideas: [], centroid: new Map(), tagCounts: new Map() };
+    if (target !== best) drafts.push(target);
+
+    target.ideas.push(idea);
+    addVectors(target.centroid, vector);
+    for (const tag of idea.tags) {
+      target.tagCounts.set(tag, (target.tagCounts.get(tag) ?? 0) + 1);
+    }
+  });
+
+  const themeVectors = themes.map((theme) => ({
+    theme,
+    vector: termVector(tokenize(`${theme.title} ${theme.text}`), idf),
+  }));
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const unclustered: IdeaResponse[] = [];
+  const clusters: Omit<IdeaCluster, "rank">[] = [];
+
+  for (const draft of drafts) {
+    if (draft.ideas.length < minSize) {
+      unclustered.push(...draft.ideas);
+      continue;
+    }
+
+    const keywords = topTerms(draft.centroid, 3);
+    const tags = sharedTags(draft);
+    const activityScore = draft.ideas.reduce((total, idea) => {
+      const ageDays = (now.getTime() - Date.parse(idea.createdTime)) / dayMs;
+      return total + 0.5 ** (Math.max(0, ageDays) / ACTIVITY_HALF_LIFE_DAYS);
+    }, 0);
+
+    let theme: IdeaCluster["theme"] = null;
+    for (const candidate of themeVectors) {
+      const score = cosineSimilarity(draft.centroid, candidate.vector);
+      if (score >= THEME_THRESHOLD && (!theme || score > theme.score)) {
+        theme = {
+          id: candidate.theme.id,
+          title: candidate.theme.title,
+          score: Math.round(score * 100) / 100,
+        };
+      }
+    }
+
+    clusters.push({
+      name: [tags[0], keywords.join(", ")].filter(Boolean).join(": "),
+      keywords,
+      tags,
+      ideas: draft.ideas,
+      lastActivity: draft.ideas[0].createdTime,
+      activityScore: Math.round(activityScore * 100) / 100,
+      theme,
+    });
+  }
+
+  return {
+    clusters: clusters
+      .sort((a, b) => b.activityScore - a.activityScore)
+      .map((cluster, index) => ({ rank: index + 1, ...cluster })),
+    unclustered,
+  };
+}
+
+// ============================================================================
+// Timers
+// ============================================================================
+
+// Start/End Time only hold the latest session, so every stopped session is
+// also logged as a line in the page body
+const TIMER_LOG_PATTERN =
+  /⏱ Timer: (\d{4}-\d{2}-\d{2}T[\d:.]+Z) → (\d{4}-\d{2}-\d{2}T[\d:.]+Z)/g;
+
+function sessionMinutes(start: string, end: string): number {
+  return Math.max(0, Math.round((Date.parse(end) - Date.parse(start)) / 60000));
+}
+
+/**
+ * Ideas whose timer is currently running
+ */
+export async function getRunningIdeaTimers(): Promise<IdeaResponse[]> {
+  const pages = await queryAllFromDatabase("ideas", {
+    filter: {
+      property: notionConfig.ideas.properties.timerStatus.name,
+      status: { equals: IdeaTimerStatus.RUNNING },
+    },
+  });
+  return pages.map(normalizeIdeaResponse);
+}
+
+/**
+ * Start the timer on an idea
+ * Only one timer runs at a time: throws when another idea's timer is
+ * running, unless stopRunning is set, in which case those are stopped first.
+ * Starting an idea that is already running leaves it untouched.
+ */
+export async function startIdeaTimer(
+  pageId: string,
+  options: { stopRunning?: boolean; now?: Date } = {}
+): Promise<{
+  idea: IdeaResponse;
+  alreadyRunning: boolean;
+  stopped: Array<{ idea: IdeaResponse; session: IdeaTimerSession }>;
+}> {
+  const { stopRunning = false, now = new Date() } = options;
+  const idea = await getIdea(pageId);
+
+  if (idea.timerStatus === IdeaTimerStatus.RUNNING) {
+    return { idea, alreadyRunning: true, stopped: [] };
+  }
+
+  const running = (await getRunningIdeaTimers()).filter(
+    (other) => other.pageId !== idea.pageId
+  );
+  if (running.length > 0 && !stopRunning) {
+    throw new Error(
+      `A timer is already running for ${running
+        .map((other) => `"${other.title}" (${other.pageId})`)
+        .join(", ")}. Stop it first.`
+    );
+  }
+
+  const stopped: Array<{ idea: IdeaResponse; session: IdeaTimerSession }> = [];
+  for (const other of running) {
+    stopped.push(await stopIdeaTimer(other.pageId, { now }));
+  }
+
+  await updateIdea({
+    pageId: idea.pageId,
+    timerStatus: IdeaTimerStatus.RUNNING,
+    startTime: now.toISOString(),
+    endTime: null,
+  });
+
+  return {
+    idea: await getIdea(idea.pageId),
+    alreadyRunning: false,
+    stopped,
+  };
+}
+
+/**
+ * Stop the running timer on an idea and log the session on its page
+ */
+export async function stopIdeaTimer(
+  pageId: string,
+  options: { now?: Date } = {}
+): Promise<{ idea: IdeaResponse; session: IdeaTimerSession }> {
+  const { now = new Date() } = options;
+  const idea = await getIdea(pageId);
+
+  if (idea.timerStatus !== IdeaTimerStatus.RUNNING || !idea.startTime) {
+    throw new Error(`No timer is running for "${idea.title}"`);
+  }
+
+  const end = now.toISOString();
+  const start = new Date(idea.startTime).toISOString();
+  const session = { start, end, minutes: sessionMinutes(start, end) };
+
+  await updateIdea({
+    pageId: idea.pageId,
+    timerStatus: IdeaTimerStatus.STOPPED,
+    endTime: end,
+  });
+  await appendBlockChildren(
+    idea.pageId,
+    markdownToBlocks(
+      `- ⏱ Timer: ${start} → ${end} (${session.minutes} min)`
+    )
+  );
+
+  return { idea: await getIdea(idea.pageId), session };
+}
+
+/**
+ * Sessions logged on an idea's page, plus the running session if any
+ */
+export async function getIdeaTimerSessions(
+  idea: IdeaResponse,
+  options: { now?: Date } = {}
+): Promise<IdeaTimerSession[]> {
+  const { now = new Date() } = options;
+  const body = await getPageBlocksAsMarkdown(idea.pageId, { fresh: true });
+
+  const sessions: IdeaTimerSession[] = [...body.matchAll(TIMER_LOG_PATTERN)].map(
+    ([, start, end]) => ({ start, end, minutes: sessionMinutes(start, end) })
+  );
+
+  if (idea.timerStatus === IdeaTimerStatus.RUNNING && idea.startTime) {
+    const start = new Date(idea.startTime).toISOString();
+    const end = now.toISOString();
+    sessions.push({ start, end, minutes: sessionMinutes(start, end) });
+  }
+
+  return sessions;
+}
+
+/**
+ * Total time spent per idea and per tag between two dates (inclusive, in
+ * timeZone)
+ */
+export async function getIdeaTimeReport(
+  startDate: string,
+  endDate: string,
+  options: { now?: Date; timeZone?: string } = {}
+): Promise<IdeaTimeReport> {
+  const { now = new Date(), timeZone = APP_TIME_ZONE } = options;
+  const props = notionConfig.ideas.properties;
+  const bounds = zonedDayBounds(startDate, endDate, timeZone);
+  const rangeStart = Date.parse(bounds.start);
+  const rangeEnd = Date.parse(bounds.end);
+
+  // Start/End Time hold the latest session, which ends after every earlier
+  // one: ideas whose timer stopped before the range (or that were created
+  // after it) have no session in it
+  const pages = await queryAllFromDatabase("ideas", {
+    filter: {
+      and: [
+        { property: props.startTime.name, date: { is_not_empty: true } },
+        {
+          or: [
+            { property: props.endTime.name, date: { is_empty: true } },
+            {
+              property: props.endTime.name,
+              date: { on_or_after: bounds.start },
+            },
+          ],
+        },
+        { timestamp: "created_time", created_time: { before: bounds.end } },
+      ],
+    },
+  });
+
+  const ideas = pages.map(normalizeIdeaResponse);
+  const ideaSessions = await Promise.all(
+    ideas.map((idea) => getIdeaTimerSessions(idea, { now }))
+  );
+
+  const byIdea: IdeaTimeReport["byIdea"] = [];
+  const tagMinutes = new Map<string, number>();
+
+  ideas.forEach((idea, index) => {
+    const sessions = ideaSessions[index]
+      .map((session) => {
+        const start = Math.max(Date.parse(session.start), rangeStart);
+        const end = Math.min(Date.parse(session.end), rangeEnd);
+        return end > start ? Math.round((end - start) / 60000) : null;
+      })
+      .filter((minutes): minutes is number => minutes !== null);
+
+    if (sessions.length === 0) return;
+
+    const minutes = sessions.reduce((total, value) => total + value, 0);
+    byIdea.push({
+      pageId: idea.pageId,
+      title: idea.title,
+      url: idea.url,
+      tags: idea.tags,
+      minutes,
+      sessions: sessions.length,
+      running: idea.timerStatus === IdeaTimerStatus.RUNNING,
+    });
+    for (const tag of idea.tags.length > 0 ? idea.tags : ["Untagged"]) {
+      tagMinutes.set(tag, (tagMinutes.get(tag) ?? 0) + minutes);
+    }
+  });
+
+  return {
+    startDate,
+    endDate,
+    totalMinutes: byIdea.reduce((total, idea) => total + idea.minutes, 0),
+    byIdea: byIdea.sort((a, b) => b.minutes - a.minutes),
+    byTag: [...tagMinutes.entries()]
+      .map(([tag, minutes]) => ({ tag, minutes }))
+      .sort((a, b) => b.minutes - a.minutes),
+  };
+}
@@ -7,41 +7,177 @@
  */
 
 // Core utilities
-export { notion } from "./client.js";
-export { propertyBuilders } from "./propertyBuilders.js";
+export { notion, isFakeNotion } from "./client.js";
+export { createFakeNotionClient } from "./fakeClient.js";
+export type { FakeNotionClient } from "./fakeClient.js";
+export { createDefaultFixtures } from "./fakeFixtures.js";
+export type {
+  FakeNotionFixtures,
+  FakePageFixture,
+  FakeDocumentFixture,
+  FakeUserFixture,
+} from "./fakeFixtures.js";
+export {
+  callNotion,
+  configureNotionGovernor,
+  getNotionMetrics,
+  resetNotionMetrics,
+  onNotionCall,
+} from "./governor.js";
+export type {
+  NotionOperationKind,
+  NotionCallMetric,
+  NotionOperationStats,
+  NotionMetricsSnapshot,
+  GovernorConfig,
+} from "./governor.js";
+export {
+  cached,
+  invalidateCache,
+  clearCache,
+  cacheTags,
+  setCacheStore,
+  createMemoryCacheStore,
+  getCacheStats,
+  collectCacheStats,
+  resetCacheStats,
+} from "./cache.js";
+export type { CacheStore, CacheEntry, CacheStats } from "./cache.js";
+export {
+  propertyBuilders,
+  chunkText,
+  MAX_RICH_TEXT_LENGTH,
+  MAX_RICH_TEXT_ITEMS,
+} from "./propertyBuilders.js";
+export { blockBuilders, toRichText, splitRichText } from "./blockBuilders.js";
+export type {
+  BlockObjectRequest,
+  RichTextItem,
+  RichTextInput,
+} from "./blockBuilders.js";
+export {
+  markdownToBlocks,
+  parseInlineMarkdown,
+  escapeMarkdown,
+} from "./markdown.js";
+export {
+  blocksToMarkdown,
+  richTextToMarkdown,
+  getPageBlocksAsMarkdown,
+  getPageAsMarkdown,
+  splitMarkdownSections,
+  listAllBlockChildren,
+} from "./blocksToMarkdown.js";
+export type {
+  BlocksToMarkdownOptions,
+  PageContentOptions,
+  MarkdownSection,
+  PageMarkdown,
+} from "./blocksToMarkdown.js";
 export {
   extractPropertyValue,
+  extractRichText,
+  extractDateValue,
   getPageBlocksAsText,
 } from "./propertyExtractors.js";
+export type { ExtractOptions } from "./propertyExtractors.js";
 export {
   queryDatabase,
+  queryDatabasePage,
+  iterateDatabase,
+  queryAllFromDatabase,
   createPage,
+  appendBlockChildren,
+  deleteBlocks,
   updatePage,
+  archivePage,
   getPage,
   getDatabase,
+  getDataSource,
 } from "./crud.js";
+export type { PaginatedQueryOptions, DatabaseQueryPage } from "./crud.js";
+
+// Schema drift detection
+export {
+  validateNotionSchema,
+  validateDatabaseSchema,
+  compareDatabaseSchema,
+  runSchemaStartupCheck,
+} from "./schemaValidator.js";
+export type {
+  SchemaDriftIssue,
+  SchemaDriftReport,
+  DatabaseDriftReport,
+} from "./schemaValidator.js";
 
 // Types
 export type {
+  DateValue,
   CreateProjectInput,
+  UpdateProjectInput,
+  ProjectResponse,
+  ProjectHealthReport,
+  IdeaPromotionResult,
   CreateTaskInput,
+  UpdateTaskInput,
+  TaskResponse,
+  TaskQueryFilter,
+  TaskQueryOptions,
+  TaskSortField,
   CreateIdeaInput,
   UpdateIdeaInput,
   IdeaResponse,
+  IdeaDuplicateCandidate,
+  IdeaDuplicateGroup,
+  IdeaCluster,
+  IdeaClusterTheme,
+  IdeaTimerSession,
+  IdeaTimeReport,
   CreateMeetingInput,
+  UpdateMeetingInput,
   MeetingResponse,
+  MeetingPrepPacket,
+  MeetingActionItemResult,
+  MeetingNotesResult,
   CreateGameplanInput,
+  UpdateGameplanInput,
   GameplanResponse,
+  GameplanTaskLine,
+  GameplanTaskOutcome,
+  GameplanTaskReview,
+  GameplanReconciliation,
   CreateContentInput,
   UpdateContentInput,
   ContentResponse,
 } from "./types.js";
 
 // Projects domain
-export { createProject, queryProjects } from "./projects.js";
+export {
+  createProject,
+  updateProject,
+  queryProjects,
+  getProject,
+  getAllowedProjectTransitions,
+  transitionProjectStatus,
+  getProjectHealth,
+  findProjectForIdea,
+  promoteIdeaToProject,
+  normalizeProjectResponse,
+  getProjectTitles,
+  resolveTaskProjects,
+} from "./projects.js";
 
 // Tasks domain
-export { createTask, queryTasksByProject } from "./tasks.js";
+export {
+  createTask,
+  updateTask,
+  archiveTask,
+  queryTasksByProject,
+  queryOverdueTasks,
+  queryTasks,
+  getTask,
+  normalizeTaskResponse,
+} from "./tasks.js";
 
 // Ideas domain
 export {
@@ -52,26 +188,92 @@ export {
   normalizeIdeaResponse,
   getRecentIdeas,
   getIdeasByStatus,
+  findSimilarIdeas,
+  findDuplicateIdeaGroups,
+  mergeIdeas,
+  appendToIdea,
+  linkIdeas,
+  clusterIdeas,
+  getRunningIdeaTimers,
+  startIdeaTimer,
+  stopIdeaTimer,
+  getIdeaTimerSessions,
+  getIdeaTimeReport,
 } from "./ideas.js";
 
+// Duplicate detection helpers
+export {
+  compareRecords,
+  compareFeatures,
+  similarityFeatures,
+  normalizeTitle,
+  normalizeUrl,
+  extractUrls,
+} from "./similarity.js";
+export type {
+  SimilarityInput,
+  SimilarityScore,
+  SimilarityFeatures,
+} from "./similarity.js";
+
 // Meetings domain
 export {
   createMeeting,
   queryMeetingsByDate,
   queryMeetingsByDateRange,
+  getMeetingsByIcalUid,
+  queryMeetingSeries,
   normalizeMeetingResponse,
   getTodaysMeetings,
   getUpcomingMeetings,
+  getMeeting,
+  updateMeeting,
+  cancelMeeting,
+  buildMeetingPrep,
+  meetingPrepToMarkdown,
+  writeMeetingPrep,
+  processMeetingNotes,
 } from "./meetings.js";
 
+// Page links
+export { compactId, ensurePageLink } from "./links.js";
+
+// Meeting notes parsing
+export {
+  parseMeetingNotes,
+  parseActionItem,
+  resolveDuePhrase,
+  matchesKnownName,
+  parseRecordedFollowUps,
+} from "./meetingNotes.js";
+export type {
+  ParsedActionItem,
+  ParsedMeetingNotes,
+  RecordedFollowUp,
+} from "./meetingNotes.js";
+
+// Users
+export { getUser, listUsers, resolveUserNames } from "./users.js";
+export type { NotionUser } from "./users.js";
+
 // Gameplans domain
 export {
   createGameplan,
   normalizeGameplanResponse,
   queryGameplansByDate,
+  queryGameplansByDateRange,
+  getGameplanByTitle,
   getGameplanForDate,
   getTodaysGameplan,
   appendGameplanContent,
+  updateGameplan,
+  parseGameplanTaskLines,
+  getCarryOverTasks,
+  getLastReconciledGameplan,
+  getTasksCompletedBetween,
+  reviewPlannedTasks,
+  gameplanWrapUpToMarkdown,
+  reconcileGameplan,
 } from "./gameplans.js";
 
 // Content domain
@@ -0,0 +1,32 @@
+import { appendBlockChildren } from "./crud.js";
+import { markdownToBlocks } from "./markdown.js";
+import { getPageBlocksAsMarkdown } from "./blocksToMarkdown.js";
+
+/**
+ * Page Links
+ * Backlink notes between pages in databases that have no relation
+ * property for the connection (idea → brief, idea → idea)
+ */
+
+/**
+ * Page ID without dashes, as it appears in notion.so URLs
+ */
+export function compactId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Append a Markdown note to a page unless its body already mentions the
+ * target page. Returns true when the note was added.
+ */
+export async function ensurePageLink(
+  pageId: string,
+  targetId: string,
+  markdown: string
+): Promise<boolean> {
+  const body = await getPageBlocksAsMarkdown(pageId, { fresh: true });
+  if (compactId(body).includes(compactId(targetId))) return false;
+
+  await appendBlockChildren(pageId, markdownToBlocks(markdown));
+  return true;
+}
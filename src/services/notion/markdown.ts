@@ -0,0 +1,460 @@
+import {
+  blockBuilders,
+  splitRichText,
+  type BlockObjectRequest,
+  type RichTextItem,
+} from "./blockBuilders.js";
+
+/**
+ * Markdown Converter
+ * Turns Markdown into Notion block objects for page creation/appends
+ *
+ * Supported syntax:
+ * - Headings (#, ##, ### - deeper levels collapse to heading_3)
+ * - Bulleted (-, *, +) and numbered (1. / 1)) lists, nested by indentation
+ * - To-dos (- [ ] / - [x])
+ * - Fenced code blocks (``` or ~~~ with optional language)
+ * - Quotes (>) and GitHub-style callouts (> [!NOTE], [!TIP], [!WARNING], ...)
+ * - Dividers (---, ***, ___)
+ * - Inline: **bold**, *italic*, ~~strike~~, `code`, [links](url), <autolinks>
+ */
+
+// Notion accepts two levels of nested children in a single request
+const MAX_NESTING_DEPTH = 2;
+
+// TIP avoids 💡, Notion's default callout icon, so plain callouts don't
+// read back as tips
+export const CALLOUT_EMOJIS: Record<string, string> = {
+  NOTE: "ℹ️",
+  TIP: "✨",
+  IMPORTANT: "❗",
+  WARNING: "⚠️",
+  CAUTION: "🛑",
+};
+
+// ============================================================================
+// Inline Parsing
+// ============================================================================
+
+type Annotations = NonNullable<RichTextItem["annotations"]>;
+
+interface InlineState {
+  annotations: Annotations;
+  link?: string;
+}
+
+function pushText(items: RichTextItem[], content: string, state: InlineState) {
+  if (!content) return;
+
+  const annotations = Object.fromEntries(
+    Object.entries(state.annotations).filter(([, on]) => on)
+  ) as Annotations;
+  const hasAnnotations = Object.keys(annotations).length > 0;
+
+  // Merge with previous run when formatting is identical
+  const prev = items[items.length - 1];
+  if (
+    prev &&
+    (prev.text.link?.url || undefined) === state.link &&
+    JSON.stringify(prev.annotations || {}) === JSON.stringify(annotations)
+  ) {
+    prev.text.content += content;
+    return;
+  }
+
+  items.push({
+    type: "text",
+    text: {
+      content,
+      ...(state.link && { link: { url: state.link } }),
+    },
+    ...(hasAnnotations && { annotations }),
+  });
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9]/.test(char);
+}
+
+function parseInlineInto(
+  text: string,
+  state: InlineState,
+  items: RichTextItem[]
+): void {
+  let buffer = "";
+  let i = 0;
+
+  const flush = () => {
+    pushText(items, buffer, state);
+    buffer = "";
+  };
+
+  const wrap = (
+    inner: string,
+    next: Partial<InlineState> & { annotations?: Annotations }
+  ) => {
+    flush();
+    parseInlineInto(
+      inner,
+      {
+        annotations: { ...state.annotations, ...next.annotations },
+        link: next.link ?? state.link,
+      },
+      items
+    );
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // Backslash escapes
+    if (char === "\\" && i + 1 < text.length && /[\\`*_~[\]()<>#!-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code (no nested formatting)
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        pushText(items, text.slice(i + 1, end), {
+          ...state,
+          annotations: { ...state.annotations, code: true },
+        });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Links: [label](url)
+    if (char === "[") {
+      const match = /^\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.exec(rest);
+      if (match) {
+        wrap(match[1], { link: match[2] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // Autolinks: <https://...>
+    if (char === "<") {
+      const match = /^<(https?:\/\/[^>\s]+)>/.exec(rest);
+      if (match) {
+        wrap(match[1], { link: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // Bold: **text** or __text__
+    if (rest.startsWith("**") || rest.startsWith("__")) {
+      const delimiter = rest.slice(0, 2);
+      const end = text.indexOf(delimiter, i + 2);
+      if (end > i + 2 && (delimiter === "**" || !isWordChar(text[i - 1]))) {
+        wrap(text.slice(i + 2, end), { annotations: { bold: true } });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Strikethrough: ~~text~~
+    if (rest.startsWith("~~")) {
+      const end = text.indexOf("~~", i + 2);
+      if (end > i + 2) {
+        wrap(text.slice(i + 2, end), { annotations: { strikethrough: true } });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Italic: *text* or _text_ (underscores must not be intra-word)
+    if (char === "*" || char === "_") {
+      const end = text.indexOf(char, i + 1);
+      const opensWord = char === "*" || !isWordChar(text[i - 1]);
+      const closesWord = char === "*" || !isWordChar(text[end + 1]);
+      if (
+        end > i + 1 &&
+        text[i + 1] !== " " &&
+        opensWord &&
+        closesWord
+      ) {
+        wrap(text.slice(i + 1, end), { annotations: { italic: true } });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+}
+
+/**
+ * Escape text so parseInlineMarkdown reads it literally (e.g. titles
+ * placed inside a link or list item)
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_~[\]()<>#!-]/g, "\\$&");
+}
+
+/**
+ * Parse inline Markdown into Notion rich text items
+ */
+export function parseInlineMarkdown(text: string): RichTextItem[] {
+  const items: RichTextItem[] = [];
+  parseInlineInto(text, { annotations: {} }, items);
+  return items.length > 0 ? items : [{ type: "text", text: { content: "" } }];
+}
+
+// ============================================================================
+// Lists
+// ============================================================================
+
+interface ListNode {
+  indent: number;
+  ordered: boolean;
+  text: string;
+  checked: boolean | null;
+  children: ListNode[];
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TODO_PATTERN = /^\[( |x|X)\]\s+(.*)$/;
+
+function measureIndent(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+function parseListItem(line: string): ListNode | null {
+  const match = LIST_ITEM_PATTERN.exec(line);
+  if (!match) return null;
+
+  const ordered = /\d/.test(match[2]);
+  let text = match[3];
+  let checked: boolean | null = null;
+
+  const todo = !ordered ? TODO_PATTERN.exec(text) : null;
+  if (todo) {
+    checked = todo[1].toLowerCase() === "x";
+    text = todo[2];
+  }
+
+  return {
+    indent: measureIndent(match[1]),
+    ordered,
+    text,
+    checked,
+    children: [],
+  };
+}
+
+function listNodeToBlock(
+  node: ListNode,
+  children?: BlockObjectRequest[]
+): BlockObjectRequest {
+  const richText = parseInlineMarkdown(node.text);
+  if (node.checked !== null) {
+    return blockBuilders.toDo(richText, node.checked, children);
+  }
+  return node.ordered
+    ? blockBuilders.numberedListItem(richText, children)
+    : blockBuilders.bulletedListItem(richText, children);
+}
+
+/**
+ * Convert list nodes to blocks, flattening anything nested deeper than
+ * the API allows into siblings at the deepest permitted level
+ */
+function listNodesToBlocks(
+  nodes: ListNode[],
+  depth: number
+): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+
+  for (const node of nodes) {
+    if (depth >= MAX_NESTING_DEPTH) {
+      blocks.push(listNodeToBlock(node));
+      blocks.push(...listNodesToBlocks(node.children, depth));
+      continue;
+    }
+
+    const children = listNodesToBlocks(node.children, depth + 1);
+    blocks.push(listNodeToBlock(node, children));
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// Block Parsing
+// ============================================================================
+
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([^\s`]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const DIVIDER_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const CALLOUT_PATTERN = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*(.*)$/i;
+
+function headingBlock(level: number, text: string): BlockObjectRequest {
+  const richText = parseInlineMarkdown(text);
+  if (level === 1) return blockBuilders.heading1(richText);
+  if (level === 2) return blockBuilders.heading2(richText);
+  return blockBuilders.heading3(richText);
+}
+
+/**
+ * Convert a Markdown document into Notion block objects
+ */
+export function markdownToBlocks(markdown: string): BlockObjectRequest[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockObjectRequest[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      for (const richText of splitRichText(
+        parseInlineMarkdown(paragraph.join("\n"))
+      )) {
+        blocks.push(blockBuilders.paragraph(richText));
+      }
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // skip closing fence
+      for (const richText of splitRichText(codeLines.join("\n"))) {
+        blocks.push(blockBuilders.code(richText, fence[2]));
+      }
+      continue;
+    }
+
+    // Heading
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push(headingBlock(heading[1].length, heading[2]));
+      i++;
+      continue;
+    }
+
+    // Divider (checked before lists so "- - -" and "***" are not items)
+    if (DIVIDER_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push(blockBuilders.divider());
+      i++;
+      continue;
+    }
+
+    // Quote or callout
+    if (QUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(QUOTE_PATTERN.exec(lines[i])![1]);
+        i++;
+      }
+
+      const callout = CALLOUT_PATTERN.exec(quoteLines[0]);
+      if (callout) {
+        const body = [callout[2], ...quoteLines.slice(1)]
+          .filter((text, index) => index > 0 || text.length > 0)
+          .join("\n");
+        blocks.push(
+          blockBuilders.callout(
+            parseInlineMarkdown(body),
+            CALLOUT_EMOJIS[callout[1].toUpperCase()]
+          )
+        );
+      } else {
+        for (const richText of splitRichText(
+          parseInlineMarkdown(quoteLines.join("\n"))
+        )) {
+          blocks.push(blockBuilders.quote(richText));
+        }
+      }
+      continue;
+    }
+
+    // List (bulleted, numbered, to-do) with nesting
+    const firstItem = parseListItem(line);
+    if (firstItem) {
+      flushParagraph();
+      const roots: ListNode[] = [];
+      const stack: ListNode[] = [];
+      let last: ListNode | null = null;
+
+      while (i < lines.length) {
+        const current = lines[i];
+
+        if (current.trim() === "") {
+          // A blank line only continues the list if more list content follows
+          const next = lines[i + 1];
+          if (next !== undefined && (parseListItem(next) || /^\s+\S/.test(next))) {
+            i++;
+            continue;
+          }
+          break;
+        }
+
+        const item = parseListItem(current);
+        if (item) {
+          while (stack.length > 0 && stack[stack.length - 1].indent >= item.indent) {
+            stack.pop();
+          }
+          if (stack.length === 0) {
+            roots.push(item);
+          } else {
+            stack[stack.length - 1].children.push(item);
+          }
+          stack.push(item);
+          last = item;
+          i++;
+          continue;
+        }
+
+        // Indented continuation line belongs to the previous item
+        if (last && /^\s+\S/.test(current)) {
+          last.text += `\n${current.trim()}`;
+          i++;
+          continue;
+        }
+
+        break;
+      }
+
+      blocks.push(...listNodesToBlocks(roots, 0));
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
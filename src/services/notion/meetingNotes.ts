@@ -0,0 +1,324 @@
+/**
+ * Meeting Notes
+ * Pulls decisions and action items (with owner and due date) out of the
+ * Markdown body of a meeting page. Pure text handling; see
+ * processMeetingNotes in meetings.ts for the Notion side.
+ */
+
+export interface ParsedActionItem {
+  /** The line as written, without list markers */
+  text: string;
+  /** Task title: the text without owner and due-date phrases */
+  title: string;
+  ownerName: string | null;
+  /** YYYY-MM-DD */
+  dueDate: string | null;
+}
+
+export interface ParsedMeetingNotes {
+  decisions: string[];
+  actionItems: ParsedActionItem[];
+}
+
+/**
+ * Task listed in a Follow-ups section, with the notes line it came from
+ */
+export interface RecordedFollowUp {
+  /** The action line as written (ParsedActionItem.text) */
+  text: string;
+  taskId: string;
+  url: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const LIST_MARKER_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TODO_PATTERN = /^\[( |x)\]\s*/i;
+
+const ACTION_HEADING = /\b(action items?|actions|to-?dos?|next steps|tasks)\b/i;
+const DECISION_HEADING = /\b(decisions?|decided|agreements?)\b/i;
+
+// Sections this service writes itself (prep packets, follow-up lists)
+const GENERATED_HEADING = /^(Meeting Prep|Follow-ups)\b/;
+
+// Follow-ups task lines end with the notes line the task came from:
+// "- [Send deck](url) (Sam, due 2026-10-23) — from notes: Sam to send deck"
+export const FOLLOW_UP_SOURCE_LABEL = "from notes:";
+const FOLLOW_UP_TASK_PATTERN = new RegExp(
+  String.raw`^\s*[-*+]\s+\[.*\]\((\S+)\).*? — ${FOLLOW_UP_SOURCE_LABEL} (.+)$`
+);
+const PAGE_ID_PATTERN = /([0-9a-f]{32})(?:[?#].*)?$/i;
+
+function toPageId(compact: string): string {
+  const id = compact.toLowerCase();
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+}
+
+const ACTION_PREFIX = /^(?:action(?: item)?|ai|todo|to-do|follow[- ]?up)\s*[:–-]\s*/i;
+const DECISION_PREFIX = /^(?:decision|decided|agreed)\s*[:–-]\s*/i;
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const DUE_PATTERN = new RegExp(
+  String.raw`\s*[(,]?\s*\b(?:by|due(?: on| by)?|before)\s+` +
+    String.raw`(today|tonight|eod|tomorrow|eow|end of (?:the )?week|next week|` +
+    String.raw`(?:next )?(?:${WEEKDAYS.join("|")}|mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)|` +
+    String.raw`\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)\b\)?`,
+  "i"
+);
+const ISO_DATE_PATTERN = /\s*\(?\b(\d{4}-\d{2}-\d{2})\b\)?/;
+
+const OWNER_PATTERNS = [
+  // (owner: Sam) / [owner: Sam]
+  /\s*[([]\s*owner:\s*([^)\]]+?)\s*[)\]]/i,
+  // @Sam Rivera (Notion mentions render as "@Name")
+  /\s*@([A-Z][\w'-]*(?: [A-Z][\w'-]*)?)/,
+];
+
+// Sam to send the deck / Sam will send the deck; only trusted for known
+// names, since "Update to ..." reads the same way
+const LEADING_OWNER_PATTERN =
+  /^([A-Z][\w'-]*(?: [A-Z][\w'-]*)?)\s+(?:to|will)\s+/;
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * 86_400_000)
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Next given weekday strictly after a date
+ */
+function nextWeekday(date: string, weekday: number): string {
+  const current = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return shiftDate(date, ((weekday - current + 6) % 7) + 1);
+}
+
+/**
+ * Resolve a due phrase ("friday", "10/25", "next week") against the
+ * meeting date
+ */
+export function resolveDuePhrase(
+  phrase: string,
+  meetingDate: string
+): string | null {
+  const value = phrase.toLowerCase().trim();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  if (["today", "tonight", "eod"].includes(value)) return meetingDate;
+  if (value === "tomorrow") return shiftDate(meetingDate, 1);
+  if (value === "next week") return shiftDate(meetingDate, 7);
+  if (["eow", "end of week", "end of the week"].includes(value)) {
+    return nextWeekday(meetingDate, 5);
+  }
+
+  const slash = value.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/);
+  if (slash) {
+    const [, month, day, year] = slash;
+    const meetingYear = Number(meetingDate.slice(0, 4));
+    let fullYear = year
+      ? Number(year.length === 2 ? `20${year}` : year)
+      : meetingYear;
+    const pad = (n: string) => n.padStart(2, "0");
+    let date = `${fullYear}-${pad(month)}-${pad(day)}`;
+    // "1/10" written in December means next January
+    if (!year && date < shiftDate(meetingDate, -180)) {
+      fullYear += 1;
+      date = `${fullYear}-${pad(month)}-${pad(day)}`;
+    }
+    return Number.isFinite(Date.parse(date)) ? date : null;
+  }
+
+  const named = value.replace(/^next\s+/, "");
+  const weekday = WEEKDAYS.findIndex((day) => day.startsWith(named));
+  if (weekday >= 0 && named.length >= 3) {
+    const date = nextWeekday(meetingDate, weekday);
+    return value.startsWith("next ") ? shiftDate(date, 7) : date;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Whether a name is someone's full or first name
+ */
+export function matchesKnownName(name: string, knownNames: string[]): boolean {
+  const target = name.toLowerCase();
+  return knownNames.some((known) => {
+    const lower = known.toLowerCase();
+    return lower === target || lower.split(" ")[0] === target;
+  });
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/(\*\*|__|~~|`)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Split an action line into title, owner and due date
+ */
+export function parseActionItem(
+  text: string,
+  meetingDate: string,
+  knownNames: string[] = []
+): ParsedActionItem {
+  let title = cleanText(text);
+  let ownerName: string | null = null;
+  let dueDate: string | null = null;
+
+  const due = title.match(DUE_PATTERN) ?? title.match(ISO_DATE_PATTERN);
+  if (due) {
+    dueDate = resolveDuePhrase(due[1], meetingDate);
+    if (dueDate) title = title.replace(due[0], "");
+  }
+
+  for (const pattern of OWNER_PATTERNS) {
+    const owner = title.match(pattern);
+    if (owner) {
+      ownerName = owner[1].trim();
+      title = title.replace(owner[0], owner.index === 0 ? "" : " ");
+      break;
+    }
+  }
+
+  const leading = ownerName ? null : title.match(LEADING_OWNER_PATTERN);
+  if (leading && matchesKnownName(leading[1], knownNames)) {
+    ownerName = leading[1];
+    title = title.replace(leading[0], "");
+  }
+
+  title = title.replace(/\s+/g, " ").replace(/^[\s:–-]+|[\s.;,:–-]+$/g, "");
+  title = capitalize(title);
+
+  return {
+    text: cleanText(text),
+    title: title.slice(0, 200) || cleanText(text),
+    ownerName,
+    dueDate,
+  };
+}
+
+/**
+ * Decisions and action items from a meeting page body
+ *
+ * Action items are list lines under an "Action items" / "Next steps" /
+ * "To-dos" heading, unchecked to-dos anywhere, and lines starting with
+ * "Action:" or "TODO:". Decisions are lines under a "Decisions" heading or
+ * starting with "Decision:" / "Agreed:". Sections written by this service
+ * ("Meeting Prep", "Follow-ups") are ignored.
+ *
+ * @param knownNames - Workspace member names, used to spot "Sam to ..." owners
+ */
+export function parseMeetingNotes(
+  markdown: string,
+  meetingDate: string,
+  knownNames: string[] = []
+): ParsedMeetingNotes {
+  const decisions: string[] = [];
+  const actionItems: ParsedActionItem[] = [];
+  let section: "action" | "decision" | "generated" | "other" = "other";
+  // Level of the generated section being skipped, including its subheadings
+  let generatedLevel = 0;
+
+  for (const rawLine of markdown.split("\n")) {
+    const heading = rawLine.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      const title = cleanText(heading[2]);
+      if (generatedLevel && level > generatedLevel) continue;
+
+      generatedLevel = GENERATED_HEADING.test(title) ? level : 0;
+      section = generatedLevel
+        ? "generated"
+        : ACTION_HEADING.test(title)
+          ? "action"
+          : DECISION_HEADING.test(title)
+            ? "decision"
+            : "other";
+      continue;
+    }
+    if (section === "generated") continue;
+
+    const isListItem = LIST_MARKER_PATTERN.test(rawLine);
+    let line = rawLine.replace(LIST_MARKER_PATTERN, "").trim();
+    if (!line) continue;
+
+    const todo = line.match(TODO_PATTERN);
+    if (todo) {
+      // Checked items were handled during the meeting
+      if (todo[1].toLowerCase() === "x") continue;
+      line = line.replace(TODO_PATTERN, "");
+    }
+
+    if (DECISION_PREFIX.test(line)) {
+      decisions.push(capitalize(cleanText(line.replace(DECISION_PREFIX, ""))));
+    } else if (ACTION_PREFIX.test(line)) {
+      actionItems.push(
+        parseActionItem(line.replace(ACTION_PREFIX, ""), meetingDate, knownNames)
+      );
+    } else if (todo || (section === "action" && isListItem)) {
+      actionItems.push(parseActionItem(line, meetingDate, knownNames));
+    } else if (section === "decision") {
+      decisions.push(capitalize(cleanText(line)));
+    }
+  }
+
+  return {
+    decisions: [...new Set(decisions.filter(Boolean))],
+    actionItems: actionItems.filter((item) => item.title),
+  };
+}
+
+/**
+ * Tasks recorded in the Follow-ups sections this service wrote, in order
+ */
+export function parseRecordedFollowUps(markdown: string): RecordedFollowUp[] {
+  const recorded: RecordedFollowUp[] = [];
+  let followUpsLevel = 0;
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      if (followUpsLevel && level > followUpsLevel) continue;
+      followUpsLevel = /^Follow-ups\b/.test(cleanText(heading[2])) ? level : 0;
+      continue;
+    }
+    if (!followUpsLevel) continue;
+
+    const match = line.match(FOLLOW_UP_TASK_PATTERN);
+    const pageId = match?.[1].match(PAGE_ID_PATTERN)?.[1];
+    if (match && pageId) {
+      recorded.push({
+        text: match[2].trim(),
+        taskId: toPageId(pageId),
+        url: match[1],
+      });
+    }
+  }
+
+  return recorded;
+}
@@ -1,9 +1,54 @@
-import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
-import { notionConfig } from "../../config/notionConfig.js";
+import type {
+  PageObjectResponse,
+  UpdatePageParameters,
+} from "@notionhq/client/build/src/api-endpoints.js";
+import {
+  notionConfig,
+  MeetingStatus,
+  ProjectStatus,
+  TaskStatus,
+  TaskPriority,
+} from "../../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { zonedDate, parseEventTime, toZonedIso } from "../scheduling/time.js";
 import { propertyBuilders } from "./propertyBuilders.js";
-import { extractPropertyValue } from "./propertyExtractors.js";
-import { createPage, queryDatabase } from "./crud.js";
-import type { CreateMeetingInput, MeetingResponse } from "./types.js";
+import {
+  extractPropertyValue,
+  extractDateValue,
+  getPageBlocksAsText,
+} from "./propertyExtractors.js";
+import {
+  createPage,
+  getPage,
+  updatePage,
+  queryAllFromDatabase,
+  appendBlockChildren,
+  deleteBlocks,
+} from "./crud.js";
+import { markdownToBlocks, escapeMarkdown } from "./markdown.js";
+import { findSectionBlocks } from "./blocksToMarkdown.js";
+import { tokenize, normalizeTitle } from "./similarity.js";
+import { resolveUserNames, listUsers } from "./users.js";
+import {
+  parseMeetingNotes,
+  parseRecordedFollowUps,
+  matchesKnownName,
+  FOLLOW_UP_SOURCE_LABEL,
+} from "./meetingNotes.js";
+import { queryProjects, normalizeProjectResponse } from "./projects.js";
+import { createTask, queryTasks, normalizeTaskResponse } from "./tasks.js";
+import { queryIdeas, normalizeIdeaResponse } from "./ideas.js";
+import type {
+  CreateMeetingInput,
+  UpdateMeetingInput,
+  MeetingResponse,
+  MeetingPrepPacket,
+  MeetingActionItemResult,
+  MeetingNotesResult,
+  ProjectResponse,
+  TaskResponse,
+  IdeaResponse,
+} from "./types.js";
 
 /**
  * Meetings Domain
@@ -28,6 +73,17 @@ export async function createMeeting(
       input.attendeeIds
     );
   }
+  if (input.icalUid) {
+    properties[props.icalUid.name] = propertyBuilders.richText(input.icalUid);
+  }
+  if (input.seriesId) {
+    properties[props.seriesId.name] = propertyBuilders.richText(input.seriesId);
+  }
+  if (input.recurrence) {
+    properties[props.recurrence.name] = propertyBuilders.richText(
+      input.recurrence
+    );
+  }
 
   const page = await createPage("meetings", properties);
 
@@ -37,6 +93,16 @@ export async function createMeeting(
   };
 }
 
+/**
+ * Filter that leaves out canceled meetings
+ */
+function notCanceled() {
+  return {
+    property: notionConfig.meetings.properties.status.name,
+    select: { does_not_equal: MeetingStatus.CANCELED },
+  };
+}
+
 /**
  * Query meetings for a specific date
  * @param date - Date in YYYY-MM-DD format
@@ -46,10 +112,12 @@ export async function queryMeetingsByDate(
 ): Promise<PageObjectResponse[]> {
   const props = notionConfig.meetings.properties;
 
-  return queryDatabase("meetings", {
+  return queryAllFromDatabase("meetings", {
     filter: {
-      property: props.eventTime.name,
-      date: { equals: date },
+      and: [
+        { property: props.eventTime.name, date: { equals: date } },
+        notCanceled(),
+      ],
     },
     sorts: [{ property: props.eventTime.name, direction: "ascending" }],
   });
@@ -66,7 +134,7 @@ export async function queryMeetingsByDateRange(
 ): Promise<PageObjectResponse[]> {
   const props = notionConfig.meetings.properties;
 
-  return queryDatabase("meetings", {
+  return queryAllFromDatabase("meetings", {
     filter: {
       and: [
         {
@@ -77,12 +145,59 @@ export async function queryMeetingsByDateRange(
           property: props.eventTime.name,
           date: { on_or_before: endDate },
         },
+        notCanceled(),
       ],
     },
     sorts: [{ property: props.eventTime.name, direction: "ascending" }],
   });
 }
 
+/**
+ * Meetings linked to an external calendar event, keyed by iCal UID.
+ * Canceled meetings are included so a re-import doesn't recreate them.
+ */
+export async function getMeetingsByIcalUid(): Promise<
+  Map<string, MeetingResponse>
+> {
+  const props = notionConfig.meetings.properties;
+  const pages = await queryAllFromDatabase("meetings", {
+    filter: {
+      property: props.icalUid.name,
+      rich_text: { is_not_empty: true },
+    },
+  });
+
+  return new Map(
+    pages
+      .map(normalizeMeetingResponse)
+      .map((meeting) => [meeting.icalUid as string, meeting])
+  );
+}
+
+/**
+ * Occurrences of recurring meetings, oldest first
+ * @param seriesId - One series; omit for every series
+ */
+export async function queryMeetingSeries(
+  seriesId?: string
+): Promise<MeetingResponse[]> {
+  const props = notionConfig.meetings.properties;
+  const pages = await queryAllFromDatabase("meetings", {
+    filter: {
+      and: [
+        {
+          property: props.seriesId.name,
+          rich_text: seriesId ? { equals: seriesId } : { is_not_empty: true },
+        },
+        notCanceled(),
+      ],
+    },
+    sorts: [{ property: props.eventTime.name, direction: "ascending" }],
+  });
+
+  return pages.map(normalizeMeetingResponse);
+}
+
 /**
  * Normalize a Notion page response to MeetingResponse
  */
@@ -92,24 +207,26 @@ export function normalizeMeetingResponse(
   const props = notionConfig.meetings.properties;
   const pageProps = page.properties;
 
-  // Extract date range if available
-  const dateProperty = pageProps[props.eventTime.name];
-  let eventTime: string | null = null;
-  let eventTimeEnd: string | null = null;
-
-  if (dateProperty && dateProperty.type === "date" && dateProperty.date) {
-    eventTime = dateProperty.date.start;
-    eventTimeEnd = dateProperty.date.end || null;
-  }
+  const eventDate = extractDateValue(pageProps[props.eventTime.name]);
 
   return {
     pageId: page.id,
     url: page.url,
     title: extractPropertyValue(pageProps[props.title.name]) as string,
-    eventTime,
-    eventTimeEnd,
+    eventTime: eventDate?.start ?? null,
+    eventTimeEnd: eventDate?.end ?? null,
     attendeeIds:
       (extractPropertyValue(pageProps[props.attendees.name]) as string[]) || [],
+    icalUid:
+      (extractPropertyValue(pageProps[props.icalUid.name]) as string) || null,
+    seriesId:
+      (extractPropertyValue(pageProps[props.seriesId.name]) as string) || null,
+    recurrence:
+      (extractPropertyValue(pageProps[props.recurrence.name]) as string) ||
+      null,
+    status: extractPropertyValue(pageProps[props.status.name]) as
+      | string
+      | null,
     createdTime: page.created_time,
     lastEditedTime: page.last_edited_time,
   };
@@ -119,7 +236,7 @@ export function normalizeMeetingResponse(
  * Get meetings for today
  */
 export async function getTodaysMeetings(): Promise<MeetingResponse[]> {
-  const today = new Date().toISOString().split("T")[0];
+  const today = zonedDate(Date.now(), APP_TIME_ZONE);
   const pages = await queryMeetingsByDate(today);
   return pages.map(normalizeMeetingResponse);
 }
@@ -141,3 +258,650 @@ export async function getUpcomingMeetings(
   return pages.map(normalizeMeetingResponse);
 }
 
+/**
+ * Get a single meeting by ID and normalize the response
+ */
+export async function getMeeting(pageId: string): Promise<MeetingResponse> {
+  return normalizeMeetingResponse(await getPage(pageId));
+}
+
+function formatEventTime(start: string | null, end: string | null): string {
+  if (!start) return "no time set";
+  return end ? `${start} – ${end}` : start;
+}
+
+/**
+ * Update a meeting's title, time or attendees
+ * A time change is logged in the page body with the old and new times, so
+ * the page keeps its scheduling history.
+ */
+export async function updateMeeting(
+  input: UpdateMeetingInput,
+  options: { reason?: string } = {}
+): Promise<MeetingResponse> {
+  const props = notionConfig.meetings.properties;
+  const properties: UpdatePageParameters["properties"] = {};
+  const before = await getMeeting(input.pageId);
+
+  if (input.title !== undefined) {
+    properties[props.title.name] = propertyBuilders.title(input.title);
+  }
+  if (input.eventTime !== undefined || input.eventTimeEnd !== undefined) {
+    const start = input.eventTime ?? before.eventTime;
+    const end =
+      input.eventTimeEnd === undefined
+        ? before.eventTimeEnd
+        : input.eventTimeEnd;
+    if (!start) {
+      throw new Error("Meeting has no start time; pass eventTime");
+    }
+    properties[props.eventTime.name] = propertyBuilders.date(
+      start,
+      end ?? undefined
+    );
+  }
+  if (input.attendeeIds !== undefined) {
+    properties[props.attendees.name] = propertyBuilders.people(
+      input.attendeeIds
+    );
+  }
+  if (input.icalUid !== undefined) {
+    properties[props.icalUid.name] = propertyBuilders.richText(input.icalUid);
+  }
+  if (input.seriesId !== undefined) {
+    properties[props.seriesId.name] = input.seriesId
+      ? propertyBuilders.richText(input.seriesId)
+      : { rich_text: [] };
+  }
+  if (input.recurrence !== undefined) {
+    properties[props.recurrence.name] = input.recurrence
+      ? propertyBuilders.richText(input.recurrence)
+      : { rich_text: [] };
+  }
+
+  const meeting = normalizeMeetingResponse(
+    await updatePage(input.pageId, properties)
+  );
+
+  if (
+    meeting.eventTime !== before.eventTime ||
+    meeting.eventTimeEnd !== before.eventTimeEnd
+  ) {
+    const today = zonedDate(Date.now(), APP_TIME_ZONE);
+    const from = formatEventTime(before.eventTime, before.eventTimeEnd);
+    const to = formatEventTime(meeting.eventTime, meeting.eventTimeEnd);
+    const reason = options.reason ? ` (${options.reason})` : "";
+    await appendBlockChildren(
+      meeting.pageId,
+      markdownToBlocks(`- 📅 Rescheduled on ${today}: ${from} → ${to}${reason}`)
+    );
+  }
+
+  return meeting;
+}
+
+/**
+ * Cancel a meeting: note the cancellation in its body and set its status
+ * to Canceled, which drops it out of calendars and conflict checks. The
+ * page stays in the database so a calendar import can still match its UID.
+ */
+export async function cancelMeeting(
+  pageId: string,
+  options: { reason?: string } = {}
+): Promise<MeetingResponse> {
+  const props = notionConfig.meetings.properties;
+  const meeting = await getMeeting(pageId);
+  const today = zonedDate(Date.now(), APP_TIME_ZONE);
+  const time = formatEventTime(meeting.eventTime, meeting.eventTimeEnd);
+  const reason = options.reason ? ` (${options.reason})` : "";
+
+  await appendBlockChildren(
+    pageId,
+    markdownToBlocks(`- ❌ Canceled on ${today}: ${time}${reason}`)
+  );
+  await updatePage(pageId, {
+    [props.status.name]: propertyBuilders.select(MeetingStatus.CANCELED),
+  });
+
+  return meeting;
+}
+
+// ============================================================================
+// Prep Packets
+// ============================================================================
+
+// Words in meeting titles that say nothing about the subject
+const MEETING_STOP_WORDS = new Set([
+  "meeting",
+  "sync",
+  "standup",
+  "stand",
+  "up",
+  "call",
+  "chat",
+  "check",
+  "catch",
+  "weekly",
+  "daily",
+  "monthly",
+  "review",
+  "team",
+  "1on1",
+  "one",
+]);
+
+const PREP_HEADING = "Meeting Prep";
+
+const OPEN_TASK_STATUSES = [
+  TaskStatus.BACKLOG,
+  TaskStatus.TODO,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.ONGOING,
+];
+
+function keywordHits(keywords: string[], text: string): number {
+  const words = new Set(tokenize(text));
+  return keywords.filter((keyword) => words.has(keyword)).length;
+}
+
+function meetingKeywords(title: string): string[] {
+  return [
+    ...new Set(tokenize(title).filter((word) => !MEETING_STOP_WORDS.has(word))),
+  ];
+}
+
+/**
+ * Briefs that are not Done or Canceled
+ */
+async function getActiveBriefs(): Promise<ProjectResponse[]> {
+  return (await queryProjects())
+    .map(normalizeProjectResponse)
+    .filter(
+      (brief) =>
+        brief.status !== ProjectStatus.DONE &&
+        brief.status !== ProjectStatus.CANCELED
+    );
+}
+
+/**
+ * Briefs related to a meeting, best first: one point per title keyword
+ * found in the brief, one more when an attendee owns it
+ */
+function rankMeetingBriefs(
+  briefs: ProjectResponse[],
+  meeting: MeetingResponse
+): ProjectResponse[] {
+  const keywords = meetingKeywords(meeting.title);
+
+  return briefs
+    .map((brief) => ({
+      brief,
+      score:
+        keywordHits(keywords, `${brief.title} ${brief.summary ?? ""}`) +
+        (brief.ownerIds.some((id) => meeting.attendeeIds.includes(id)) ? 1 : 0),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ brief }) => brief);
+}
+
+/**
+ * Agenda, open questions and decisions derived from the gathered context
+ */
+function draftPrepSections(
+  meeting: MeetingResponse,
+  briefs: ProjectResponse[],
+  tasks: TaskResponse[],
+  ideas: IdeaResponse[],
+  today: string
+): Pick<MeetingPrepPacket, "agenda" | "openQuestions" | "decisionsNeeded"> {
+  const isOverdue = (task: TaskResponse) =>
+    !!task.dueDate && task.dueDate.slice(0, 10) < today;
+
+  const agenda = [`Goal and desired outcome for ${meeting.title}`];
+  const openQuestions: string[] = [];
+  const decisionsNeeded: string[] = [];
+
+  for (const brief of briefs) {
+    const briefTasks = tasks.filter((task) => task.projectId === brief.pageId);
+    const overdue = briefTasks.filter(isOverdue).length;
+    const overdueNote = overdue ? `, ${overdue} overdue` : "";
+    agenda.push(
+      `${brief.title}: status ${brief.status ?? "unset"}, ${briefTasks.length} open task(s)${overdueNote}`
+    );
+
+    if (briefTasks.length === 0) {
+      openQuestions.push(`What are the next steps for ${brief.title}?`);
+    }
+    if (brief.status === ProjectStatus.PLANNING) {
+      decisionsNeeded.push(`Approve scope and start ${brief.title}?`);
+    }
+    if (brief.endDate && brief.endDate.slice(0, 10) < today) {
+      decisionsNeeded.push(
+        `${brief.title} passed its end date (${brief.endDate.slice(0, 10)}): extend, cut scope or close?`
+      );
+    }
+  }
+
+  const overdueTasks = tasks.filter(isOverdue);
+  if (overdueTasks.length > 0) {
+    agenda.push(`Overdue work (${overdueTasks.length})`);
+  }
+  for (const task of overdueTasks.slice(0, 5)) {
+    openQuestions.push(
+      `What is blocking ${task.title} (due ${task.dueDate!.slice(0, 10)})?`
+    );
+    decisionsNeeded.push(`Reschedule or drop ${task.title}?`);
+  }
+
+  for (const task of tasks.filter((task) => task.assigneeIds.length === 0)) {
+    if (
+      task.priority === TaskPriority.HIGH ||
+      task.priority === TaskPriority.VERY_HIGH
+    ) {
+      decisionsNeeded.push(`Who owns ${task.title}?`);
+    }
+  }
+
+  if (ideas.length > 0) {
+    agenda.push(`New ideas (${ideas.length})`);
+    for (const idea of ideas.slice(0, 3)) {
+      openQuestions.push(
+        briefs[0]
+          ? `Should ${idea.title} become part of ${briefs[0].title}?`
+          : `Is ${idea.title} worth a brief?`
+      );
+    }
+  }
+
+  agenda.push("Next steps and owners");
+  return { agenda, openQuestions, decisionsNeeded };
+}
+
+/**
+ * Gather context for a meeting: attendee names, related briefs (title
+ * keywords or an attendee owns them), related open tasks (in those briefs,
+ * matching keywords, or assigned to attendees) and recent related ideas
+ */
+export async function buildMeetingPrep(
+  meetingId: string,
+  options: {
+    maxBriefs?: number;
+    maxTasks?: number;
+    maxIdeas?: number;
+    ideaDays?: number;
+  } = {}
+): Promise<MeetingPrepPacket> {
+  const { maxBriefs = 3, maxTasks = 10, maxIdeas = 5, ideaDays = 30 } = options;
+  const today = zonedDate(Date.now(), APP_TIME_ZONE);
+
+  const meeting = await getMeeting(meetingId);
+  const names = await resolveUserNames(meeting.attendeeIds);
+  const attendees = meeting.attendeeIds.map((id) => ({
+    id,
+    name: names[id] ?? null,
+  }));
+  const keywords = meetingKeywords(meeting.title);
+  const briefs = rankMeetingBriefs(await getActiveBriefs(), meeting).slice(
+    0,
+    maxBriefs
+  );
+
+  const briefTitles = Object.fromEntries(
+    briefs.map((brief) => [brief.pageId, brief.title])
+  );
+  const taskQueries = [
+    ...briefs.map((brief) => ({ projectId: brief.pageId })),
+    ...meeting.attendeeIds.map((assigneeId) => ({ assigneeId })),
+  ];
+  const taskPages = (
+    await Promise.all(
+      taskQueries.map((filter) =>
+        queryTasks(
+          { ...filter, statuses: OPEN_TASK_STATUSES },
+          { pageSize: 50 }
+        )
+      )
+    )
+  ).flatMap((page) => page.pages);
+
+  if (keywords.length > 0) {
+    // Sorted by due date like the final list, so one page is enough
+    const matching = await queryTasks(
+      { statuses: OPEN_TASK_STATUSES, titleContainsAny: keywords },
+      { pageSize: 100 }
+    );
+    taskPages.push(
+      ...matching.pages.filter((page) =>
+        keywordHits(keywords, normalizeTaskResponse(page).title)
+      )
+    );
+  }
+
+  const tasks = [
+    ...new Map(
+      taskPages.map((page) => [
+        page.id,
+        normalizeTaskResponse(page, briefTitles),
+      ])
+    ).values(),
+  ]
+    .sort((a, b) => (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999"))
+    .slice(0, maxTasks);
+
+  const ideaKeywords = [
+    ...new Set([
+      ...keywords,
+      ...briefs.flatMap((brief) => tokenize(brief.title)),
+    ]),
+  ];
+  const since = new Date(
+    Date.now() - ideaDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+  const ideas =
+    ideaKeywords.length === 0
+      ? []
+      : (
+          await queryIdeas({
+            hidden: false,
+            createdOnOrAfter: since,
+            textContainsAny: ideaKeywords,
+          })
+        )
+          .map(normalizeIdeaResponse)
+          .filter(
+            (idea) =>
+              keywordHits(ideaKeywords, `${idea.title} ${idea.summary ?? ""}`) > 0
+          )
+          .slice(0, maxIdeas);
+
+  return {
+    meeting,
+    attendees,
+    keywords,
+    briefs,
+    tasks,
+    ideas,
+    ...draftPrepSections(meeting, briefs, tasks, ideas, today),
+  };
+}
+
+/**
+ * Render a prep packet as the Markdown section written to the meeting page
+ * Titles and names are escaped, so only the section's own formatting is
+ * read as Markdown.
+ */
+export function meetingPrepToMarkdown(
+  packet: MeetingPrepPacket,
+  heading: string = PREP_HEADING
+): string {
+  const link = (title: string, url: string) =>
+    `[${escapeMarkdown(title)}](${url})`;
+  const list = (items: string[], empty: string) =>
+    items.length > 0 ? items.map((item) => `- ${item}`) : [`- ${empty}`];
+  const plainList = (items: string[], empty: string) =>
+    list(items.map(escapeMarkdown), empty);
+
+  return [
+    `## ${escapeMarkdown(heading)}`,
+    "",
+    `Attendees: ${
+      packet.attendees
+        .map((person) => escapeMarkdown(person.name ?? person.id))
+        .join(", ") || "none listed"
+    }`,
+    "",
+    "### Agenda",
+    ...packet.agenda.map((item, index) => `${index + 1}. ${escapeMarkdown(item)}`),
+    "",
+    "### Open Questions",
+    ...plainList(packet.openQuestions, "None yet"),
+    "",
+    "### Decisions Needed",
+    ...plainList(packet.decisionsNeeded, "None yet"),
+    "",
+    "### Context",
+    ...list(
+      [
+        ...packet.briefs.map(
+          (brief) =>
+            `Brief: ${link(brief.title, brief.url)} (${escapeMarkdown(brief.status ?? "no status")})`
+        ),
+        ...packet.tasks.map(
+          (task) =>
+            `Task: ${link(task.title, task.url)} (${escapeMarkdown(task.status ?? "no status")}${task.dueDate ? `, due ${task.dueDate.slice(0, 10)}` : ""})`
+        ),
+        ...packet.ideas.map((idea) => `Idea: ${link(idea.title, idea.url)}`),
+      ],
+      "No related briefs, tasks or ideas found"
+    ),
+  ].join("\n");
+}
+
+/**
+ * Build a prep packet and append it to the meeting page body
+ * Skips the write when the page already has a prep section, unless refresh
+ * is set, in which case the old section is deleted and a new one appended.
+ */
+export async function writeMeetingPrep(
+  meetingId: string,
+  options: { refresh?: boolean } = {}
+): Promise<{ packet: MeetingPrepPacket; written: boolean }> {
+  const packet = await buildMeetingPrep(meetingId);
+  // Read the blocks directly: the page may have been edited in Notion
+  const previous = await findSectionBlocks(meetingId, PREP_HEADING);
+
+  if (previous.length > 0 && !options.refresh) {
+    return { packet, written: false };
+  }
+
+  await deleteBlocks(meetingId, previous);
+  await appendBlockChildren(
+    meetingId,
+    markdownToBlocks(meetingPrepToMarkdown(packet))
+  );
+
+  return { packet, written: true };
+}
+
+// ============================================================================
+// Notes Processing
+// ============================================================================
+
+const FOLLOW_UPS_HEADING = "Follow-ups";
+
+/**
+ * Brief an action item belongs to: the one whose title shares the most
+ * words with it, else the brief the meeting itself is about
+ */
+function inferItemBrief(
+  title: string,
+  briefs: ProjectResponse[],
+  fallback: ProjectResponse | null
+): ProjectResponse | null {
+  let best: ProjectResponse | null = null;
+  let bestHits = 0;
+
+  for (const brief of briefs) {
+    const hits = keywordHits(meetingKeywords(brief.title), title);
+    if (hits > bestHits) {
+      best = brief;
+      bestHits = hits;
+    }
+  }
+
+  return best ?? fallback;
+}
+
+function followUpsToMarkdown(
+  heading: string,
+  decisions: string[],
+  items: MeetingActionItemResult[]
+): string {
+  const lines = [`## ${heading}`, ""];
+
+  if (decisions.length > 0) {
+    lines.push(
+      "### Decisions",
+      ...decisions.map((decision) => `- ${escapeMarkdown(decision)}`),
+      ""
+    );
+  }
+
+  lines.push("### Tasks");
+  for (const item of items) {
+    const details = [
+      item.ownerName,
+      item.dueDate ? `due ${item.dueDate}` : null,
+      item.projectTitle,
+    ].filter(Boolean);
+    lines.push(
+      `- [${escapeMarkdown(item.title)}](${item.task!.url})` +
+        (details.length > 0
+          ? ` (${escapeMarkdown(details.join(", "))})`
+          : "") +
+        ` — ${FOLLOW_UP_SOURCE_LABEL} ${escapeMarkdown(item.text)}`
+    );
+  }
+  if (items.length === 0) lines.push("- No action items found");
+
+  return lines.join("\n");
+}
+
+/**
+ * Turn a meeting page's notes into tasks
+ *
+ * Action items become To Do tasks with the owner as assignee (when they
+ * match a workspace member), the due date, and the brief inferred from the
+ * item or the meeting title. A Follow-ups section linking the tasks, each
+ * with the notes line it came from, is appended to the meeting page. Safe
+ * to re-run: lines already listed under Follow-ups keep their task even if
+ * it was renamed, and later runs only append the tasks that are new. The
+ * notes are read past the page-content cache so recent edits are seen.
+ */
+export async function processMeetingNotes(
+  meetingId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<MeetingNotesResult> {
+  const { dryRun = false } = options;
+
+  const meeting = await getMeeting(meetingId);
+  const start = meeting.eventTime
+    ? parseEventTime(meeting.eventTime, APP_TIME_ZONE)
+    : Date.parse(meeting.createdTime);
+  // Due phrases like "by Friday" count from the meeting's local day
+  const meetingDate =
+    start === null
+      ? (meeting.eventTime as string).slice(0, 10)
+      : zonedDate(start, APP_TIME_ZONE);
+
+  const [body, users, briefs] = await Promise.all([
+    getPageBlocksAsText(meetingId, { fresh: true }),
+    listUsers(),
+    getActiveBriefs(),
+  ]);
+
+  const recordedTasks = new Map(
+    parseRecordedFollowUps(body).map((entry) => [
+      normalizeTitle(entry.text),
+      entry,
+    ])
+  );
+  const hasFollowUps = body.includes(`## ${FOLLOW_UPS_HEADING}`);
+
+  const people = users.filter((user) => user.type === "person" && user.name);
+  const notes = parseMeetingNotes(
+    body,
+    meetingDate,
+    people.map((user) => user.name as string)
+  );
+  const meetingBrief = rankMeetingBriefs(briefs, meeting)[0] ?? null;
+
+  const actionItems: MeetingActionItemResult[] = [];
+  const created: MeetingActionItemResult[] = [];
+  const seen = new Set<string>();
+
+  for (const item of notes.actionItems) {
+    const key = normalizeTitle(item.title);
+    const lineKey = normalizeTitle(item.text);
+    if (!key || seen.has(key) || seen.has(lineKey)) continue;
+    seen.add(key);
+    seen.add(lineKey);
+
+    const brief = inferItemBrief(item.title, briefs, meetingBrief);
+    const assignee = item.ownerName
+      ? people.find((user) =>
+          matchesKnownName(item.ownerName as string, [user.name as string])
+        )
+      : undefined;
+
+    const result: MeetingActionItemResult = {
+      title: item.title,
+      text: item.text,
+      ownerName: assignee?.name ?? item.ownerName,
+      assigneeId: assignee?.id ?? null,
+      dueDate: item.dueDate,
+      projectId: brief?.pageId ?? null,
+      projectTitle: brief?.title ?? null,
+      outcome: "planned",
+      task: null,
+    };
+
+    const recorded = recordedTasks.get(lineKey);
+    if (recorded) {
+      result.outcome = "existing";
+      result.task = { pageId: recorded.taskId, url: recorded.url };
+    } else if (!dryRun) {
+      result.task = await createTask({
+        title: item.title,
+        status: TaskStatus.TODO,
+        projectId: result.projectId ?? undefined,
+        dueDate: result.dueDate ?? undefined,
+        assigneeId: result.assigneeId ?? undefined,
+        summary: `From meeting "${meeting.title}" (${meeting.url}): ${item.text}`,
+      });
+      result.outcome = "created";
+      created.push(result);
+    }
+
+    actionItems.push(result);
+  }
+
+  if (dryRun) {
+    return {
+      meeting,
+      decisions: notes.decisions,
+      actionItems,
+      followUpsWritten: false,
+    };
+  }
+
+  let followUpsWritten = false;
+
+  if (!hasFollowUps && (actionItems.length > 0 || notes.decisions.length > 0)) {
+    await appendBlockChildren(
+      meetingId,
+      markdownToBlocks(
+        followUpsToMarkdown(FOLLOW_UPS_HEADING, notes.decisions, actionItems)
+      )
+    );
+    followUpsWritten = true;
+  } else if (hasFollowUps && created.length > 0) {
+    const updatedAt = toZonedIso(Date.now(), APP_TIME_ZONE)
+      .slice(0, 16)
+      .replace("T", " ");
+    await appendBlockChildren(
+      meetingId,
+      markdownToBlocks(
+        followUpsToMarkdown(
+          `${FOLLOW_UPS_HEADING} (updated ${updatedAt} ${APP_TIME_ZONE})`,
+          [],
+          created
+        )
+      )
+    );
+    followUpsWritten = true;
+  }
+
+  return { meeting, decisions: notes.decisions, actionItems, followUpsWritten };
+}
@@ -1,12 +1,41 @@
 import type { QueryDataSourceParameters, PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
-import { notionConfig } from "../../config/notionConfig.js";
+import {
+  notionConfig,
+  ProjectStatus,
+  ProjectPriority,
+  IdeaStatus,
+  TaskStatus,
+  type ProjectStatusValue,
+} from "../../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { zonedDate } from "../scheduling/time.js";
 import { propertyBuilders } from "./propertyBuilders.js";
-import { createPage, queryDatabase } from "./crud.js";
-import type { CreateProjectInput } from "./types.js";
+import {
+  createPage,
+  updatePage,
+  getPage,
+  queryAllFromDatabase,
+} from "./crud.js";
+import { compactId, ensurePageLink } from "./links.js";
+import { getIdea, updateIdea } from "./ideas.js";
+import {
+  extractPropertyValue,
+  extractDateValue,
+} from "./propertyExtractors.js";
+import { normalizeTaskResponse, queryTasksByProject } from "./tasks.js";
+import type {
+  CreateProjectInput,
+  IdeaPromotionResult,
+  UpdateProjectInput,
+  ProjectResponse,
+  ProjectHealthReport,
+  TaskResponse,
+} from "./types.js";
 
 /**
  * Projects Domain
- * Operations for Projects/Initiatives database
+ * Operations for Projects/Initiatives database, plus the project <-> task
+ * relation lookups (this module depends on tasks.ts, not the reverse)
  */
 
 export async function createProject(
@@ -38,6 +67,11 @@ export async function createProject(
       input.dates.end
     );
   }
+  if (input.sourceIdeaId) {
+    properties[props.sourceIdeaId.name] = propertyBuilders.richText(
+      compactId(input.sourceIdeaId)
+    );
+  }
 
   const page = await createPage("projects", properties);
 
@@ -75,6 +109,447 @@ export async function queryProjects(filter?: {
       ? filters[0]
       : undefined;
 
-  return queryDatabase("projects", { filter: queryFilter });
+  return queryAllFromDatabase("projects", { filter: queryFilter });
+}
+
+/**
+ * Look up project titles by page ID
+ * Pages that can't be read (deleted, no access) are left out.
+ */
+export async function getProjectTitles(
+  projectIds: string[]
+): Promise<Record<string, string>> {
+  const props = notionConfig.projects.properties;
+  const titles: Record<string, string> = {};
+
+  for (const projectId of new Set(projectIds)) {
+    try {
+      const page = await getPage(projectId);
+      titles[projectId] = extractPropertyValue(
+        page.properties[props.title.name]
+      ) as string;
+    } catch {
+      // Missing projects shouldn't fail the caller's query
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Normalize tasks and fill projectTitle from their linked projects
+ */
+export async function resolveTaskProjects(
+  pages: PageObjectResponse[]
+): Promise<TaskResponse[]> {
+  const tasks = pages.map((page) => normalizeTaskResponse(page));
+  const titles = await getProjectTitles(
+    tasks.map((task) => task.projectId).filter((id): id is string => !!id)
+  );
+
+  return tasks.map((task) => ({
+    ...task,
+    projectTitle: task.projectId ? titles[task.projectId] ?? null : null,
+  }));
+}
+
+/**
+ * Normalize a Notion page response to ProjectResponse
+ */
+export function normalizeProjectResponse(
+  page: PageObjectResponse
+): ProjectResponse {
+  const props = notionConfig.projects.properties;
+  const pageProps = page.properties;
+  const dates = extractDateValue(pageProps[props.dates.name]);
+
+  return {
+    pageId: page.id,
+    url: page.url,
+    title: extractPropertyValue(pageProps[props.title.name]) as string,
+    summary: extractPropertyValue(pageProps[props.summary.name]) as
+      | string
+      | null,
+    status: extractPropertyValue(pageProps[props.status.name]) as string | null,
+    priority: extractPropertyValue(pageProps[props.priority.name]) as
+      | string
+      | null,
+    initiative:
+      (extractPropertyValue(pageProps[props.initiative.name]) as string[]) ||
+      [],
+    startDate: dates?.start ?? null,
+    endDate: dates?.end ?? null,
+    ownerIds:
+      (extractPropertyValue(pageProps[props.owner.name]) as string[]) || [],
+    taskIds:
+      (extractPropertyValue(pageProps[props.tasks.name]) as string[]) || [],
+    sourceIdeaId:
+      (extractPropertyValue(pageProps[props.sourceIdeaId.name]) as string) ||
+      null,
+    createdTime: page.created_time,
+    lastEditedTime: page.last_edited_time,
+  };
+}
+
+/**
+ * Get a single Project by ID
+ * @param options.includeTasks - Also load and normalize the linked tasks
+ */
+export async function getProject(
+  pageId: string,
+  options: { includeTasks?: boolean } = {}
+): Promise<ProjectResponse> {
+  const project = normalizeProjectResponse(await getPage(pageId));
+  if (!options.includeTasks) return project;
+
+  const taskPages = await queryTasksByProject(pageId);
+  return {
+    ...project,
+    tasks: taskPages.map((page) =>
+      normalizeTaskResponse(page, { [project.pageId]: project.title })
+    ),
+  };
+}
+
+/**
+ * Update an existing Project in Notion
+ */
+export async function updateProject(
+  input: UpdateProjectInput
+): Promise<{ pageId: string; url: string }> {
+  const props = notionConfig.projects.properties;
+  const properties: import("@notionhq/client/build/src/api-endpoints.js").UpdatePageParameters["properties"] = {};
+
+  if (input.title !== undefined) {
+    properties[props.title.name] = propertyBuilders.title(input.title);
+  }
+  if (input.summary !== undefined) {
+    properties[props.summary.name] = propertyBuilders.richText(input.summary);
+  }
+  if (input.priority !== undefined) {
+    properties[props.priority.name] = propertyBuilders.select(input.priority);
+  }
+  if (input.initiative !== undefined) {
+    properties[props.initiative.name] = propertyBuilders.multiSelect(
+      input.initiative
+    );
+  }
+  if (input.dates !== undefined) {
+    properties[props.dates.name] = propertyBuilders.date(
+      input.dates.start,
+      input.dates.end
+    );
+  }
+
+  const page = await updatePage(input.pageId, properties);
+
+  return {
+    pageId: page.id,
+    url: page.url,
+  };
 }
 
+// ============================================================================
+// Status Transitions
+// ============================================================================
+
+/**
+ * Allowed project status moves. Done is terminal; Canceled briefs can
+ * only be revived into the Backlog.
+ */
+const PROJECT_STATUS_TRANSITIONS: Record<
+  ProjectStatusValue,
+  ProjectStatusValue[]
+> = {
+  [ProjectStatus.BACKLOG]: [ProjectStatus.PLANNING, ProjectStatus.CANCELED],
+  [ProjectStatus.PLANNING]: [
+    ProjectStatus.IN_PROGRESS,
+    ProjectStatus.BACKLOG,
+    ProjectStatus.PAUSED,
+    ProjectStatus.CANCELED,
+  ],
+  [ProjectStatus.IN_PROGRESS]: [
+    ProjectStatus.DONE,
+    ProjectStatus.PAUSED,
+    ProjectStatus.CANCELED,
+  ],
+  [ProjectStatus.PAUSED]: [
+    ProjectStatus.IN_PROGRESS,
+    ProjectStatus.PLANNING,
+    ProjectStatus.CANCELED,
+  ],
+  [ProjectStatus.DONE]: [],
+  [ProjectStatus.CANCELED]: [ProjectStatus.BACKLOG],
+};
+
+/**
+ * Statuses a project may move to from its current status
+ * Projects with no status yet may take any status.
+ */
+export function getAllowedProjectTransitions(
+  from: string | null
+): ProjectStatusValue[] {
+  if (!from) return Object.values(ProjectStatus);
+  return PROJECT_STATUS_TRANSITIONS[from as ProjectStatusValue] ?? [];
+}
+
+/**
+ * Move a project to a new status, enforcing the transition graph
+ * @throws Error when the move isn't allowed from the current status
+ */
+export async function transitionProjectStatus(
+  pageId: string,
+  to: ProjectStatusValue
+): Promise<{
+  pageId: string;
+  url: string;
+  from: string | null;
+  to: ProjectStatusValue;
+}> {
+  const props = notionConfig.projects.properties;
+  const project = normalizeProjectResponse(await getPage(pageId));
+  const allowed = getAllowedProjectTransitions(project.status);
+
+  if (project.status !== to && !allowed.includes(to)) {
+    throw new Error(
+      `Cannot move "${project.title}" from ${project.status} to ${to}. ` +
+        `Allowed: ${allowed.length > 0 ? allowed.join(", ") : "none"}`
+    );
+  }
+
+  const page = await updatePage(pageId, {
+    [props.status.name]: propertyBuilders.status(to),
+  });
+
+  return { pageId: page.id, url: page.url, from: project.status, to };
+}
+
+// ============================================================================
+// Health Report
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Completion may trail elapsed time by this much before a brief is "behind"
+const BEHIND_SCHEDULE_MARGIN = 0.25;
+
+const ACTIVE_PROJECT_STATUSES: string[] = [
+  ProjectStatus.PLANNING,
+  ProjectStatus.IN_PROGRESS,
+];
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS
+  );
+}
+
+/**
+ * Roll up a project's tasks, timebox and recent activity
+ * @param options.stalledAfterDays - Active briefs with no task edits for
+ *   this many days are flagged as stalled (default 7)
+ */
+export async function getProjectHealth(
+  pageId: string,
+  options: { stalledAfterDays?: number } = {}
+): Promise<ProjectHealthReport> {
+  const { stalledAfterDays = 7 } = options;
+  const today = zonedDate(Date.now(), APP_TIME_ZONE);
+
+  const project = await getProject(pageId, { includeTasks: true });
+  const tasks = project.tasks ?? [];
+
+  const isClosed = (task: TaskResponse) =>
+    task.status === TaskStatus.DONE || task.status === TaskStatus.ARCHIVED;
+
+  const byStatus: Record<string, number> = {};
+  for (const task of tasks) {
+    const status = task.status ?? "No status";
+    byStatus[status] = (byStatus[status] ?? 0) + 1;
+  }
+  const done = byStatus[TaskStatus.DONE] ?? 0;
+  const countable = tasks.length - (byStatus[TaskStatus.ARCHIVED] ?? 0);
+  const completionRate = countable > 0 ? done / countable : 0;
+
+  const overdue = tasks
+    .filter(
+      (task) =>
+        !isClosed(task) && task.dueDate && task.dueDate.slice(0, 10) < today
+    )
+    .map((task) => ({
+      taskId: task.pageId,
+      title: task.title,
+      dueDate: task.dueDate!,
+    }));
+
+  const { startDate, endDate } = project;
+  const daysTotal = startDate && endDate ? daysBetween(startDate, endDate) : null;
+  const daysElapsed = startDate ? Math.max(0, daysBetween(startDate, today)) : null;
+  const daysRemaining = endDate ? daysBetween(today, endDate) : null;
+  const elapsedRate =
+    daysTotal && daysElapsed !== null
+      ? Math.min(1, daysElapsed / daysTotal)
+      : null;
+  const tasksDueAfterEnd = endDate
+    ? tasks.filter(
+        (task) =>
+          !isClosed(task) &&
+          task.dueDate &&
+          task.dueDate.slice(0, 10) > endDate.slice(0, 10)
+      ).length
+    : 0;
+
+  // Task edits are the activity signal; fall back to the brief itself
+  const activityTimes =
+    tasks.length > 0
+      ? tasks.map((task) => task.lastEditedTime)
+      : [project.lastEditedTime];
+  const lastActivity = activityTimes.sort().pop()!;
+  const daysSinceActivity = Math.max(
+    0,
+    daysBetween(zonedDate(Date.parse(lastActivity), APP_TIME_ZONE), today)
+  );
+
+  const active = ACTIVE_PROJECT_STATUSES.includes(project.status ?? "");
+  const stalled = active && daysSinceActivity >= stalledAfterDays;
+
+  const flags: string[] = [];
+  if (tasks.length === 0) flags.push("no_tasks");
+  if (overdue.length > 0) flags.push("overdue_tasks");
+  if (active && daysRemaining !== null && daysRemaining < 0) {
+    flags.push("past_end_date");
+  }
+  if (
+    active &&
+    elapsedRate !== null &&
+    countable > 0 &&
+    elapsedRate - completionRate > BEHIND_SCHEDULE_MARGIN
+  ) {
+    flags.push("behind_schedule");
+  }
+  if (tasksDueAfterEnd > 0) flags.push("tasks_due_after_end");
+  if (stalled) flags.push("stalled");
+
+  return {
+    project,
+    tasks: {
+      total: tasks.length,
+      open: tasks.filter((task) => !isClosed(task)).length,
+      done,
+      byStatus,
+      completionRate: Math.round(completionRate * 100) / 100,
+    },
+    overdue,
+    timebox: {
+      startDate,
+      endDate,
+      daysTotal,
+      daysElapsed,
+      daysRemaining,
+      elapsedRate:
+        elapsedRate === null ? null : Math.round(elapsedRate * 100) / 100,
+      tasksDueAfterEnd,
+    },
+    lastActivity,
+    daysSinceActivity,
+    stalled,
+    flags,
+  };
+}
+
+// ============================================================================
+// Idea Promotion
+// ============================================================================
+
+/**
+ * Find the project an idea was promoted to
+ * Promoted briefs store the idea ID in Source Idea ID, which edits to the
+ * brief don't touch; that is what makes promotion idempotent.
+ */
+export async function findProjectForIdea(
+  ideaId: string
+): Promise<ProjectResponse | null> {
+  const props = notionConfig.projects.properties;
+  const [linked] = await queryAllFromDatabase("projects", {
+    filter: {
+      property: props.sourceIdeaId.name,
+      rich_text: { equals: compactId(ideaId) },
+    },
+    maxResults: 1,
+  });
+  return linked ? normalizeProjectResponse(linked) : null;
+}
+
+/**
+ * Promote an Idea to a Project (Product Brief)
+ * Creates the project from the idea's summaries, marks the idea Promoted
+ * and cross-links both pages. Safe to re-run: existing projects are reused
+ * and only missing steps are applied.
+ */
+export async function promoteIdeaToProject(
+  ideaId: string,
+  options: {
+    priority?: string;
+    initiative?: string[];
+    dates?: { start: string; end?: string };
+  } = {}
+): Promise<IdeaPromotionResult> {
+  const idea = await getIdea(ideaId);
+  const applied: IdeaPromotionResult["applied"] = [];
+
+  let project = await findProjectForIdea(idea.pageId);
+  const created = !project;
+
+  if (!project) {
+    const summary = [
+      idea.summary,
+      idea.aiSummary && `AI summary: ${idea.aiSummary}`,
+      `Source idea: ${idea.url}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const result = await createProject({
+      title: idea.title,
+      summary,
+      status: ProjectStatus.PLANNING,
+      priority: options.priority || ProjectPriority.MEDIUM,
+      initiative: options.initiative,
+      dates: options.dates,
+      sourceIdeaId: idea.pageId,
+    });
+    project = await getProject(result.pageId);
+    applied.push("project");
+  }
+
+  if (idea.status !== IdeaStatus.PROMOTED) {
+    await updateIdea({ pageId: idea.pageId, status: IdeaStatus.PROMOTED });
+    applied.push("idea_status");
+  }
+
+  if (
+    await ensurePageLink(
+      idea.pageId,
+      project.pageId,
+      `> [!NOTE] Promoted to Product Brief [${project.title}](${project.url})`
+    )
+  ) {
+    applied.push("idea_backlink");
+  }
+  if (
+    await ensurePageLink(
+      project.pageId,
+      idea.pageId,
+      `> [!NOTE] Promoted from idea [${idea.title}](${idea.url})`
+    )
+  ) {
+    applied.push("project_backlink");
+  }
+
+  return {
+    project,
+    idea: { ...idea, status: IdeaStatus.PROMOTED },
+    created,
+    applied,
+  };
+}
@@ -3,13 +3,47 @@
  * Helpers to construct Notion property values for page creation/updates
  */
 
+// Notion rejects rich text items whose content exceeds this length
+export const MAX_RICH_TEXT_LENGTH = 2000;
+
+// Notion rejects rich text arrays with more items than this
+export const MAX_RICH_TEXT_ITEMS = 100;
+
+/**
+ * Split text into chunks that fit in a single rich text item.
+ * Never splits a surrogate pair, so emoji survive the cut.
+ */
+export function chunkText(
+  text: string,
+  size: number = MAX_RICH_TEXT_LENGTH
+): string[] {
+  if (text.length <= size) return [text];
+
+  const chunks: string[] = [];
+  let offset = 0;
+  while (offset < text.length) {
+    let end = Math.min(offset + size, text.length);
+    const lastCode = text.charCodeAt(end - 1);
+    if (end < text.length && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+      end--;
+    }
+    chunks.push(text.slice(offset, end));
+    offset = end;
+  }
+  return chunks;
+}
+
 export const propertyBuilders = {
   title: (text: string) => ({
-    title: [{ text: { content: text } }],
+    title: chunkText(text)
+      .slice(0, MAX_RICH_TEXT_ITEMS)
+      .map((content) => ({ text: { content } })),
   }),
 
   richText: (text: string) => ({
-    rich_text: [{ text: { content: text } }],
+    rich_text: chunkText(text)
+      .slice(0, MAX_RICH_TEXT_ITEMS)
+      .map((content) => ({ text: { content } })),
   }),
 
   select: (name: string) => ({
@@ -1,25 +1,64 @@
-import { notion } from "./client.js";
-import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import {
+  getPageBlocksAsMarkdown,
+  richTextToMarkdown,
+} from "./blocksToMarkdown.js";
+import type { DateValue } from "./types.js";
 
 /**
  * Property Extractors
  * Helpers to extract values from Notion properties and blocks
  */
 
+export interface ExtractOptions {
+  /** Render title/rich text as inline Markdown, keeping annotations and links */
+  preserveFormatting?: boolean;
+}
+
+/**
+ * Join every run of a rich text array into one string
+ */
+export function extractRichText(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  richText: any[] | undefined,
+  options: ExtractOptions = {}
+): string {
+  if (!richText || richText.length === 0) return "";
+  if (options.preserveFormatting) return richTextToMarkdown(richText);
+  return richText.map((item) => item.plain_text ?? "").join("");
+}
+
+/**
+ * Extract a date property as its full range and time zone
+ */
+export function extractDateValue(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  property: any
+): DateValue | null {
+  const date = property?.type === "date" ? property.date : null;
+  if (!date?.start) return null;
+
+  return {
+    start: date.start,
+    end: date.end || null,
+    time_zone: date.time_zone || null,
+  };
+}
+
 /**
  * Extract a value from a Notion property based on its type
  */
 export function extractPropertyValue(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  property: any
-): string | number | boolean | string[] | null {
+  property: any,
+  options: ExtractOptions = {}
+): string | number | boolean | string[] | DateValue | null {
   if (!property) return null;
 
   switch (property.type) {
     case "title":
-      return property.title?.[0]?.plain_text || "";
+      return extractRichText(property.title, options);
     case "rich_text":
-      return property.rich_text?.[0]?.plain_text || "";
+      return extractRichText(property.rich_text, options);
     case "number":
       return property.number;
     case "select":
@@ -29,7 +68,7 @@ export function extractPropertyValue(
     case "status":
       return property.status?.name || null;
     case "date":
-      return property.date?.start || null;
+      return extractDateValue(property);
     case "checkbox":
       return property.checkbox;
     case "url":
@@ -52,135 +91,14 @@ export function extractPropertyValue(
 }
 
 /**
- * Retrieve all blocks from a Notion page and convert to plain text
- * Recursively handles nested blocks (toggle lists, callouts, etc.)
+ * Retrieve all blocks from a Notion page as text
+ * Renders through the Markdown exporter so headings, list nesting, links
+ * and to-do state survive; use getPageAsMarkdown for depth/type controls
+ * and citable sections.
  */
-export async function getPageBlocksAsText(pageId: string): Promise<string> {
-  const blocks: string[] = [];
-  let cursor: string | undefined = undefined;
-
-  // Recursively retrieve all blocks (handles pagination)
-  do {
-    const response = await notion.blocks.children.list({
-      block_id: pageId,
-      start_cursor: cursor,
-      page_size: 100,
-    });
-
-    for (const block of response.results) {
-      const text = extractBlockText(block);
-      if (text) {
-        blocks.push(text);
-      }
-
-      // Recursively handle nested blocks (e.g., toggle lists, callouts)
-      if ("has_children" in block && block.has_children) {
-        const nestedText = await getNestedBlocksAsText(block.id);
-        if (nestedText) {
-          blocks.push(nestedText);
-        }
-      }
-    }
-
-    cursor = response.next_cursor || undefined;
-  } while (cursor);
-
-  return blocks.join("\n\n");
+export async function getPageBlocksAsText(
+  pageId: string,
+  options: { fresh?: boolean } = {}
+): Promise<string> {
+  return getPageBlocksAsMarkdown(pageId, options);
 }
-
-/**
- * Recursively retrieve nested blocks as text
- */
-async function getNestedBlocksAsText(blockId: string): Promise<string> {
-  const blocks: string[] = [];
-  let cursor: string | undefined = undefined;
-
-  do {
-    const response = await notion.blocks.children.list({
-      block_id: blockId,
-      start_cursor: cursor,
-      page_size: 100,
-    });
-
-    for (const block of response.results) {
-      const text = extractBlockText(block);
-      if (text) {
-        blocks.push(text);
-      }
-
-      // Recursively handle deeper nesting
-      if ("has_children" in block && block.has_children) {
-        const nestedText = await getNestedBlocksAsText(block.id);
-        if (nestedText) {
-          blocks.push(nestedText);
-        }
-      }
-    }
-
-    cursor = response.next_cursor || undefined;
-  } while (cursor);
-
-  return blocks.join("\n");
-}
-
-/**
- * Extract plain text from a Notion block
- */
-function extractBlockText(block: any): string | null {
-  if (!block) return null;
-
-  const blockType = block.type;
-  const blockContent = block[blockType];
-
-  if (!blockContent) return null;
-
-  // Extract rich text from various block types
-  let richText: any[] = [];
-
-  if (blockContent.rich_text) {
-    richText = blockContent.rich_text;
-  } else if (blockContent.caption) {
-    richText = blockContent.caption;
-  } else if (blockContent.title) {
-    richText = blockContent.title;
-  }
-
-  // Convert rich text array to plain text
-  const text = richText
-    .map((rt: any) => rt.plain_text || "")
-    .join("")
-    .trim();
-
-  if (!text) return null;
-
-  // Add formatting based on block type
-  switch (blockType) {
-    case "heading_1":
-      return `# ${text}`;
-    case "heading_2":
-      return `## ${text}`;
-    case "heading_3":
-      return `### ${text}`;
-    case "bulleted_list_item":
-      return `• ${text}`;
-    case "numbered_list_item":
-      return `1. ${text}`;
-    case "to_do":
-      const checked = blockContent.checked ? "✓" : "☐";
-      return `${checked} ${text}`;
-    case "toggle":
-      return `▶ ${text}`;
-    case "quote":
-      return `> ${text}`;
-    case "callout":
-      const emoji = blockContent.icon?.emoji || "💡";
-      return `${emoji} ${text}`;
-    case "code":
-      return `\`\`\`\n${text}\n\`\`\``;
-    case "divider":
-      return "---";
-    default:
-      return text;
-  }
-}
-
@@ -0,0 +1,299 @@
+import { APIResponseError, APIErrorCode } from "@notionhq/client";
+import type { DataSourceObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import {
+  notionConfig,
+  propertyOptionEnums,
+  type NotionConfig,
+} from "../../config/notionConfig.js";
+import { getDatabase, getDataSource } from "./crud.js";
+
+/**
+ * Schema Drift Detection
+ * Compares the live Notion schemas against notionConfig and the enum maps
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SchemaDriftIssueKind =
+  | "database_unreachable"
+  | "missing_property"
+  | "type_mismatch"
+  | "missing_option"
+  | "unexpected_option";
+
+export type SchemaDriftSeverity = "error" | "warning";
+
+export interface SchemaDriftIssue {
+  database: keyof NotionConfig;
+  kind: SchemaDriftIssueKind;
+  severity: SchemaDriftSeverity;
+  propertyKey?: string;
+  propertyName?: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface DatabaseDriftReport {
+  database: keyof NotionConfig;
+  databaseId: string;
+  ok: boolean;
+  checkedProperties: number;
+  issues: SchemaDriftIssue[];
+}
+
+export interface SchemaDriftReport {
+  ok: boolean;
+  checkedAt: string;
+  errorCount: number;
+  warningCount: number;
+  databases: DatabaseDriftReport[];
+}
+
+export type SchemaCheckMode = "off" | "warn" | "strict";
+
+const OPTION_PROPERTY_TYPES = ["select", "multi_select", "status"] as const;
+
+// ============================================================================
+// Live Schema Loading
+// ============================================================================
+
+type LiveProperties = DataSourceObjectResponse["properties"];
+
+/**
+ * Load live property definitions for a configured database.
+ * Starts from getDatabase; property definitions live on the data source,
+ * so follow the database's first data source (or fall back to treating the
+ * configured ID as a data source ID, matching queryDatabase).
+ */
+async function loadLiveProperties(
+  databaseKey: keyof NotionConfig
+): Promise<LiveProperties> {
+  try {
+    const database = await getDatabase(databaseKey);
+
+    // Older API versions still return properties on the database itself
+    if ("properties" in database && database.properties) {
+      return database.properties as LiveProperties;
+    }
+
+    const dataSourceId = database.data_sources?.[0]?.id;
+    const dataSource = await getDataSource(databaseKey, dataSourceId);
+    return dataSource.properties;
+  } catch (error) {
+    if (
+      APIResponseError.isAPIResponseError(error) &&
+      error.code === APIErrorCode.ObjectNotFound
+    ) {
+      const dataSource = await getDataSource(databaseKey);
+      return dataSource.properties;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extract option names from a select/multi_select/status property config
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getOptionNames(property: any): string[] | null {
+  const config = property?.[property?.type];
+  if (!config || !Array.isArray(config.options)) return null;
+  return config.options.map((option: { name: string }) => option.name);
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Compare one database's live properties against its config and enum maps
+ */
+export function compareDatabaseSchema(
+  databaseKey: keyof NotionConfig,
+  liveProperties: LiveProperties
+): SchemaDriftIssue[] {
+  const issues: SchemaDriftIssue[] = [];
+  const configProps = notionConfig[databaseKey].properties;
+  const enumMaps = propertyOptionEnums[databaseKey] || {};
+
+  for (const [propertyKey, expected] of Object.entries(configProps)) {
+    const live = liveProperties[expected.name];
+
+    if (!live) {
+      issues.push({
+        database: databaseKey,
+        kind: "missing_property",
+        severity: "error",
+        propertyKey,
+        propertyName: expected.name,
+        expected: expected.type,
+        message: `Property "${expected.name}" (${propertyKey}) not found in ${databaseKey}`,
+      });
+      continue;
+    }
+
+    if (live.type !== expected.type) {
+      issues.push({
+        database: databaseKey,
+        kind: "type_mismatch",
+        severity: "error",
+        propertyKey,
+        propertyName: expected.name,
+        expected: expected.type,
+        actual: live.type,
+        message: `Property "${expected.name}" in ${databaseKey} is ${live.type}, expected ${expected.type}`,
+      });
+      continue;
+    }
+
+    const enumMap = enumMaps[propertyKey];
+    if (
+      !enumMap ||
+      !(OPTION_PROPERTY_TYPES as readonly string[]).includes(live.type)
+    ) {
+      continue;
+    }
+
+    const liveOptions = getOptionNames(live) || [];
+    const expectedOptions = Object.values(enumMap);
+
+    for (const option of expectedOptions) {
+      if (!liveOptions.includes(option)) {
+        issues.push({
+          database: databaseKey,
+          kind: "missing_option",
+          // Select options are auto-created on write; status options are not
+          severity: live.type === "status" ? "error" : "warning",
+          propertyKey,
+          propertyName: expected.name,
+          expected: option,
+          message: `Option "${option}" is missing from "${expected.name}" in ${databaseKey}`,
+        });
+      }
+    }
+
+    for (const option of liveOptions) {
+      if (!expectedOptions.includes(option)) {
+        issues.push({
+          database: databaseKey,
+          kind: "unexpected_option",
+          severity: "warning",
+          propertyKey,
+          propertyName: expected.name,
+          actual: option,
+          message: `Option "${option}" on "${expected.name}" in ${databaseKey} has no enum mapping`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a single configured database against its live schema
+ */
+export async function validateDatabaseSchema(
+  databaseKey: keyof NotionConfig
+): Promise<DatabaseDriftReport> {
+  const config = notionConfig[databaseKey];
+  let issues: SchemaDriftIssue[];
+
+  try {
+    const liveProperties = await loadLiveProperties(databaseKey);
+    issues = compareDatabaseSchema(databaseKey, liveProperties);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    issues = [
+      {
+        database: databaseKey,
+        kind: "database_unreachable",
+        severity: "error",
+        message: `Could not load schema for ${databaseKey}: ${message}`,
+      },
+    ];
+  }
+
+  return {
+    database: databaseKey,
+    databaseId: config.databaseId,
+    ok: !issues.some((issue) => issue.severity === "error"),
+    checkedProperties: Object.keys(config.properties).length,
+    issues,
+  };
+}
+
+/**
+ * Validate every configured database (or a subset) and build a drift report
+ */
+export async function validateNotionSchema(
+  databases: Array<keyof NotionConfig> = Object.keys(
+    notionConfig
+  ) as Array<keyof NotionConfig>
+): Promise<SchemaDriftReport> {
+  const reports: DatabaseDriftReport[] = [];
+
+  for (const databaseKey of databases) {
+    reports.push(await validateDatabaseSchema(databaseKey));
+  }
+
+  const allIssues = reports.flatMap((report) => report.issues);
+
+  return {
+    ok: reports.every((report) => report.ok),
+    checkedAt: new Date().toISOString(),
+    errorCount: allIssues.filter((issue) => issue.severity === "error").length,
+    warningCount: allIssues.filter((issue) => issue.severity === "warning")
+      .length,
+    databases: reports,
+  };
+}
+
+// ============================================================================
+// Startup Check
+// ============================================================================
+
+/**
+ * Resolve the startup check mode from NOTION_SCHEMA_CHECK (default: off)
+ * The check queries every database, so it only runs when asked for.
+ */
+export function getSchemaCheckMode(): SchemaCheckMode {
+  const mode = (process.env.NOTION_SCHEMA_CHECK || "off").toLowerCase();
+  if (mode === "warn" || mode === "strict") return mode;
+  return "off";
+}
+
+/**
+ * Run the schema check at startup.
+ * - off: skip it
+ * - warn: log drift and continue
+ * - strict: throw on any error-severity drift so the server fails to boot
+ */
+export async function runSchemaStartupCheck(
+  mode: SchemaCheckMode = getSchemaCheckMode()
+): Promise<SchemaDriftReport | null> {
+  if (mode === "off") return null;
+
+  const report = await validateNotionSchema();
+
+  if (report.errorCount === 0 && report.warningCount === 0) {
+    return report;
+  }
+
+  const lines = report.databases
+    .flatMap((db) => db.issues)
+    .map((issue) => `  [${issue.severity}] ${issue.message}`);
+
+  const summary = `[notion-schema] ${report.errorCount} error(s), ${report.warningCount} warning(s)\n${lines.join("\n")}`;
+
+  if (mode === "strict" && !report.ok) {
+    throw new Error(summary);
+  }
+
+  console.warn(summary);
+  return report;
+}
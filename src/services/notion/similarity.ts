@@ -0,0 +1,279 @@
+/**
+ * Text Similarity
+ * Lightweight, dependency-free helpers for spotting duplicate records:
+ * title normalization, token and word-shingle overlap, and URL matching.
+ */
+
+// Words that carry no meaning for duplicate detection
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "into",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "this",
+  "to",
+  "with",
+]);
+
+// Tracking parameters stripped before comparing URLs
+const TRACKING_PARAMS = /^(utm_\w+|ref|ref_src|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+const URL_PATTERN = /https?:\/\/[^\s<>()"']+/g;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Lowercase, strip accents, punctuation and "[Draft]"-style prefixes
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/^\s*\[[^\]]*\]\s*/, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Meaningful words of a text, in order
+ */
+export function tokenize(text: string): string[] {
+  return normalizeTitle(text)
+    .split(" ")
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Overlapping word n-grams; short texts fall back to single words
+ */
+export function shingles(text: string, size: number = 3): Set<string> {
+  const words = tokenize(text);
+  if (words.length < size) return new Set(words);
+
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - size; i++) {
+    result.add(words.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+/**
+ * Canonical form of a URL: no protocol, www, hash, tracking params or
+ * trailing slash
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    parsed.searchParams.sort();
+    const query = parsed.searchParams.toString();
+    const host = parsed.hostname.replace(/^www\./, "").toLowerCase();
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${host}${path}${query ? `?${query}` : ""}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Every URL mentioned in a text, normalized
+ */
+export function extractUrls(text: string): string[] {
+  const matches = text.match(URL_PATTERN) || [];
+  const urls = matches.map((url) => normalizeUrl(url.replace(/[.,;:]+$/, "")));
+  return [...new Set(urls)];
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * |A ∩ B| / |A ∪ B|, 0 when both sets are empty
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+export interface SimilarityInput {
+  title: string;
+  body?: string | null;
+}
+
+export interface SimilarityScore {
+  /** 0-1 combined score */
+  score: number;
+  reasons: Array<
+    "same_title" | "similar_title" | "similar_summary" | "same_url"
+  >;
+}
+
+// Scores at or above these count as a "similar" reason
+const SIMILAR_TITLE_THRESHOLD = 0.6;
+const SIMILAR_BODY_THRESHOLD = 0.35;
+
+/**
+ * Pre-computed parts of a record that compareFeatures scores; build them
+ * once per record when comparing many pairs
+ */
+export interface SimilarityFeatures {
+  title: string;
+  titleTokens: Set<string>;
+  bodyShingles: Set<string> | null;
+  urls: Set<string>;
+}
+
+export function similarityFeatures(input: SimilarityInput): SimilarityFeatures {
+  return {
+    title: normalizeTitle(input.title),
+    titleTokens: new Set(tokenize(input.title)),
+    bodyShingles: input.body ? shingles(input.body) : null,
+    urls: new Set(extractUrls(input.body || "")),
+  };
+}
+
+/**
+ * Compare two records by title, body text and the URLs they mention
+ * Identical normalized titles or a shared URL score 1.
+ */
+export function compareFeatures(
+  a: SimilarityFeatures,
+  b: SimilarityFeatures
+): SimilarityScore {
+  const reasons: SimilarityScore["reasons"] = [];
+
+  if ([...a.urls].some((url) => b.urls.has(url))) reasons.push("same_url");
+  if (a.title && a.title === b.title) reasons.push("same_title");
+
+  const titleScore = jaccard(a.titleTokens, b.titleTokens);
+  const bodyScore =
+    a.bodyShingles && b.bodyShingles
+      ? jaccard(a.bodyShingles, b.bodyShingles)
+      : 0;
+
+  if (
+    titleScore >= SIMILAR_TITLE_THRESHOLD &&
+    !reasons.includes("same_title")
+  ) {
+    reasons.push("similar_title");
+  }
+  if (bodyScore >= SIMILAR_BODY_THRESHOLD) reasons.push("similar_summary");
+
+  const score =
+    reasons.includes("same_url") || reasons.includes("same_title")
+      ? 1
+      : a.bodyShingles && b.bodyShingles
+      ? 0.6 * titleScore + 0.4 * bodyScore
+      : titleScore;
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * compareFeatures for two one-off records
+ */
+export function compareRecords(
+  a: SimilarityInput,
+  b: SimilarityInput
+): SimilarityScore {
+  return compareFeatures(similarityFeatures(a), similarityFeatures(b));
+}
+
+// ============================================================================
+// Term Vectors
+// ============================================================================
+
+export type TermVector = Map<string, number>;
+
+/**
+ * Inverse document frequency for every token in a corpus
+ */
+export function inverseDocumentFrequency(
+  documents: string[][]
+): (token: string) => number {
+  const counts = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const token of new Set(tokens)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  }
+
+  const total = documents.length;
+  // Unseen tokens weigh as much as the rarest seen ones
+  return (token) => Math.log((total + 1) / ((counts.get(token) ?? 0) + 1)) + 1;
+}
+
+/**
+ * TF-IDF weighted vector for a token list
+ */
+export function termVector(
+  tokens: string[],
+  idf: (token: string) => number
+): TermVector {
+  const vector: TermVector = new Map();
+  for (const token of tokens) {
+    vector.set(token, (vector.get(token) ?? 0) + idf(token));
+  }
+  return vector;
+}
+
+/**
+ * Add b into a in place (used for cluster centroids)
+ */
+export function addVectors(a: TermVector, b: TermVector): TermVector {
+  for (const [token, weight] of b) {
+    a.set(token, (a.get(token) ?? 0) + weight);
+  }
+  return a;
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [token, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(token);
+    if (other) dot += weight * other;
+  }
+  for (const weight of b.values()) normB += weight * weight;
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Highest-weighted tokens of a vector
+ */
+export function topTerms(vector: TermVector, count: number): string[] {
+  return [...vector.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([token]) => token);
+}
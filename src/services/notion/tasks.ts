@@ -1,8 +1,32 @@
-import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
-import { notionConfig } from "../../config/notionConfig.js";
+import type {
+  PageObjectResponse,
+  QueryDataSourceParameters,
+  UpdatePageParameters,
+} from "@notionhq/client/build/src/api-endpoints.js";
+import { notionConfig, TaskStatus } from "../../config/notionConfig.js";
+import { APP_TIME_ZONE } from "../../config/userConfig.js";
+import { zonedDate } from "../scheduling/time.js";
 import { propertyBuilders } from "./propertyBuilders.js";
-import { createPage, queryDatabase } from "./crud.js";
-import type { CreateTaskInput } from "./types.js";
+import {
+  extractPropertyValue,
+  extractDateValue,
+} from "./propertyExtractors.js";
+import {
+  createPage,
+  updatePage,
+  getPage,
+  queryAllFromDatabase,
+  queryDatabasePage,
+  type DatabaseQueryPage,
+} from "./crud.js";
+import type {
+  CreateTaskInput,
+  UpdateTaskInput,
+  TaskQueryFilter,
+  TaskQueryOptions,
+  TaskSortField,
+  TaskResponse,
+} from "./types.js";
 
 /**
  * Tasks Domain
@@ -62,7 +86,7 @@ export async function queryTasksByProject(
 ): Promise<PageObjectResponse[]> {
   const props = notionConfig.tasks.properties;
 
-  return queryDatabase("tasks", {
+  return queryAllFromDatabase("tasks", {
     filter: {
       property: props.project.name,
       relation: { contains: projectId },
@@ -70,3 +94,299 @@ export async function queryTasksByProject(
   });
 }
 
+
+/**
+ * Update an existing Task in Notion
+ */
+export async function updateTask(
+  input: UpdateTaskInput
+): Promise<{ pageId: string; url: string }> {
+  const props = notionConfig.tasks.properties;
+  const properties: UpdatePageParameters["properties"] = {};
+
+  if (input.title !== undefined) {
+    properties[props.title.name] = propertyBuilders.title(input.title);
+  }
+  if (input.status !== undefined) {
+    properties[props.status.name] = propertyBuilders.status(input.status);
+  }
+  if (input.dueDate !== undefined) {
+    properties[props.dueDate.name] =
+      input.dueDate === null
+        ? { date: null }
+        : propertyBuilders.date(input.dueDate);
+  }
+  if (input.priority !== undefined) {
+    properties[props.priority.name] = propertyBuilders.select(input.priority);
+  }
+  if (input.assigneeId !== undefined) {
+    properties[props.assignee.name] = propertyBuilders.people(
+      input.assigneeId === null ? [] : [input.assigneeId]
+    );
+  }
+  if (input.projectId !== undefined) {
+    properties[props.project.name] = propertyBuilders.relation([
+      input.projectId,
+    ]);
+  }
+  if (input.tags !== undefined) {
+    properties[props.tags.name] = propertyBuilders.multiSelect(input.tags);
+  }
+  if (input.summary !== undefined) {
+    properties[props.summary.name] = propertyBuilders.richText(input.summary);
+  }
+
+  const page = await updatePage(input.pageId, properties);
+
+  return {
+    pageId: page.id,
+    url: page.url,
+  };
+}
+
+/**
+ * Archive a Task by moving it to the Archived status
+ * The page stays in Notion (and in its project's relation) for history.
+ */
+export async function archiveTask(
+  pageId: string
+): Promise<{ pageId: string; url: string }> {
+  return updateTask({ pageId, status: TaskStatus.ARCHIVED });
+}
+
+/**
+ * Query open tasks due before a date (YYYY-MM-DD)
+ * Done and Archived tasks are excluded.
+ */
+export async function queryOverdueTasks(
+  beforeDate: string,
+  projectId?: string
+): Promise<PageObjectResponse[]> {
+  const props = notionConfig.tasks.properties;
+
+  return queryAllFromDatabase("tasks", {
+    filter: {
+      and: [
+        { property: props.dueDate.name, date: { before: beforeDate } },
+        { property: props.status.name, status: { does_not_equal: TaskStatus.DONE } },
+        {
+          property: props.status.name,
+          status: { does_not_equal: TaskStatus.ARCHIVED },
+        },
+        ...(projectId
+          ? [{ property: props.project.name, relation: { contains: projectId } }]
+          : []),
+      ],
+    },
+    sorts: [{ property: props.dueDate.name, direction: "ascending" }],
+  });
+}
+
+const DEFAULT_TASK_PAGE_SIZE = 25;
+
+/**
+ * Build the Notion filter for a TaskQueryFilter
+ */
+function buildTaskFilter(
+  filter: TaskQueryFilter,
+  today: string
+): QueryDataSourceParameters["filter"] | undefined {
+  const props = notionConfig.tasks.properties;
+  const filters: Array<QueryDataSourceParameters["filter"]> = [];
+
+  const anyOf = (conditions: Array<QueryDataSourceParameters["filter"]>) =>
+    conditions.length === 1
+      ? conditions[0]
+      : ({ or: conditions } as QueryDataSourceParameters["filter"]);
+
+  if (filter.dueBefore) {
+    filters.push({ property: props.dueDate.name, date: { before: filter.dueBefore } });
+  }
+  if (filter.dueAfter) {
+    filters.push({ property: props.dueDate.name, date: { after: filter.dueAfter } });
+  }
+  if (filter.dueOn) {
+    filters.push({ property: props.dueDate.name, date: { equals: filter.dueOn } });
+  }
+
+  if (filter.overdue) {
+    filters.push({ property: props.dueDate.name, date: { before: today } });
+    if (!filter.statuses?.length) {
+      filters.push(
+        { property: props.status.name, status: { does_not_equal: TaskStatus.DONE } },
+        { property: props.status.name, status: { does_not_equal: TaskStatus.ARCHIVED } }
+      );
+    }
+  }
+
+  if (filter.statuses?.length) {
+    filters.push(
+      anyOf(
+        filter.statuses.map((status) => ({
+          property: props.status.name,
+          status: { equals: status },
+        }))
+      )
+    );
+  }
+
+  if (filter.priorities?.length) {
+    filters.push(
+      anyOf(
+        filter.priorities.map((priority) => ({
+          property: props.priority.name,
+          select: { equals: priority },
+        }))
+      )
+    );
+  }
+
+  for (const tag of filter.tags || []) {
+    filters.push({ property: props.tags.name, multi_select: { contains: tag } });
+  }
+  for (const taskType of filter.taskTypes || []) {
+    filters.push({
+      property: props.taskType.name,
+      multi_select: { contains: taskType },
+    });
+  }
+
+  if (filter.assigneeId) {
+    filters.push({
+      property: props.assignee.name,
+      people: { contains: filter.assigneeId },
+    });
+  }
+
+  if (filter.projectId) {
+    filters.push({
+      property: props.project.name,
+      relation: { contains: filter.projectId },
+    });
+  } else if (filter.hasProject !== undefined) {
+    filters.push({
+      property: props.project.name,
+      relation: filter.hasProject ? { is_not_empty: true } : { is_empty: true },
+    });
+  }
+
+  if (filter.titleContainsAny?.length) {
+    filters.push(
+      anyOf(
+        filter.titleContainsAny.map((word) => ({
+          property: props.title.name,
+          title: { contains: word },
+        }))
+      )
+    );
+  }
+
+  return filters.length > 1
+    ? ({ and: filters } as QueryDataSourceParameters["filter"])
+    : filters.length === 1
+    ? filters[0]
+    : undefined;
+}
+
+function buildTaskSorts(
+  sortBy: TaskSortField,
+  direction: "ascending" | "descending"
+): QueryDataSourceParameters["sorts"] {
+  const props = notionConfig.tasks.properties;
+
+  if (sortBy === "created") {
+    return [{ timestamp: "created_time", direction }];
+  }
+  if (sortBy === "lastEdited") {
+    return [{ timestamp: "last_edited_time", direction }];
+  }
+
+  const property = {
+    dueDate: props.dueDate.name,
+    priority: props.priority.name,
+    status: props.status.name,
+    title: props.title.name,
+  }[sortBy];
+
+  return [{ property, direction }];
+}
+
+/**
+ * Query tasks across all projects with compound filters
+ * Returns one page of results; pass nextCursor back as options.cursor
+ * to continue.
+ */
+export async function queryTasks(
+  filter: TaskQueryFilter = {},
+  options: TaskQueryOptions = {}
+): Promise<DatabaseQueryPage> {
+  const today = zonedDate(Date.now(), APP_TIME_ZONE);
+  const {
+    sortBy = "dueDate",
+    direction = "ascending",
+    pageSize = DEFAULT_TASK_PAGE_SIZE,
+    cursor,
+  } = options;
+
+  return queryDatabasePage("tasks", {
+    filter: buildTaskFilter(filter, today),
+    sorts: buildTaskSorts(sortBy, direction),
+    page_size: pageSize,
+    start_cursor: cursor,
+  });
+}
+
+/**
+ * Normalize a Notion page response to TaskResponse
+ * @param projectTitles - Known project titles by page ID, used to fill
+ *   projectTitle (see resolveTaskProjects)
+ */
+export function normalizeTaskResponse(
+  page: PageObjectResponse,
+  projectTitles: Record<string, string> = {}
+): TaskResponse {
+  const props = notionConfig.tasks.properties;
+  const pageProps = page.properties;
+
+  const ids = (property: keyof typeof props) =>
+    (extractPropertyValue(pageProps[props[property].name]) as string[]) || [];
+  const text = (property: keyof typeof props) =>
+    extractPropertyValue(pageProps[props[property].name]) as string | null;
+
+  const due = extractDateValue(pageProps[props.dueDate.name]);
+  const projectId = ids("project")[0] ?? null;
+
+  return {
+    pageId: page.id,
+    url: page.url,
+    title: extractPropertyValue(pageProps[props.title.name]) as string,
+    status: text("status"),
+    priority: text("priority"),
+    dueDate: due?.start ?? null,
+    dueDateEnd: due?.end ?? null,
+    assigneeIds: ids("assignee"),
+    projectId,
+    projectTitle: projectId ? projectTitles[projectId] ?? null : null,
+    tags: ids("tags"),
+    taskType: ids("taskType"),
+    summary: text("summary"),
+    timeEstimate: text("timeEstimates"),
+    timerStatus: text("timerStatus"),
+    startTime: extractDateValue(pageProps[props.startTime.name])?.start ?? null,
+    endTime: extractDateValue(pageProps[props.endTime.name])?.start ?? null,
+    parentTaskId: ids("parentTask")[0] ?? null,
+    subTaskIds: ids("subTasks"),
+    blockedByIds: ids("blockedBy"),
+    blockingIds: ids("blocking"),
+    createdTime: page.created_time,
+    lastEditedTime: page.last_edited_time,
+  };
+}
+
+/**
+ * Get a single Task by ID (projectTitle is not resolved)
+ */
+export async function getTask(pageId: string): Promise<TaskResponse> {
+  const page = await getPage(pageId);
+  return normalizeTaskResponse(page);
+}
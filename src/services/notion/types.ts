@@ -1,6 +1,10 @@
 import type {
+  ProjectPriorityValue,
+  TaskStatusValue,
+  TaskPriorityValue,
   IdeaStatusValue,
   IdeaStatus1Value,
+  IdeaTimerStatusValue,
   IdeaTagValue,
   GameplanStatusValue,
   GameplanCategoryValue,
@@ -18,6 +22,17 @@ import type {
  * All input/output interfaces for Notion service operations
  */
 
+// --- Shared Values ---
+
+/**
+ * Date property value as stored by Notion
+ */
+export interface DateValue {
+  start: string;
+  end: string | null;
+  time_zone: string | null;
+}
+
 // --- Projects / Initiatives ---
 
 export interface CreateProjectInput {
@@ -27,6 +42,89 @@ export interface CreateProjectInput {
   priority?: string;
   initiative?: string[];
   dates?: { start: string; end?: string };
+  /** Idea the brief is promoted from (see promoteIdeaToProject) */
+  sourceIdeaId?: string;
+}
+
+/**
+ * Input for updating a Project; only provided fields are written.
+ * Status is changed through transitionProjectStatus so the allowed
+ * transitions are enforced.
+ */
+export interface UpdateProjectInput {
+  pageId: string;
+  title?: string;
+  summary?: string;
+  priority?: ProjectPriorityValue;
+  initiative?: string[];
+  dates?: { start: string; end?: string };
+}
+
+/**
+ * Result of promoting an Idea to a Project
+ */
+export interface IdeaPromotionResult {
+  project: ProjectResponse;
+  idea: IdeaResponse;
+  /** false when the idea had already been promoted */
+  created: boolean;
+  /** Steps that were applied on this call (empty on a no-op re-run) */
+  applied: Array<
+    "project" | "idea_status" | "idea_backlink" | "project_backlink"
+  >;
+}
+
+/**
+ * Rollup of a project's tasks, timebox and activity
+ */
+export interface ProjectHealthReport {
+  project: ProjectResponse;
+  tasks: {
+    total: number;
+    open: number;
+    done: number;
+    byStatus: Record<string, number>;
+    /** Done / (total - Archived), 0-1 */
+    completionRate: number;
+  };
+  overdue: Array<{ taskId: string; title: string; dueDate: string }>;
+  timebox: {
+    startDate: string | null;
+    endDate: string | null;
+    daysTotal: number | null;
+    daysElapsed: number | null;
+    daysRemaining: number | null;
+    /** Share of the timebox already used, 0-1 */
+    elapsedRate: number | null;
+    /** Open tasks due after the project end date */
+    tasksDueAfterEnd: number;
+  };
+  lastActivity: string;
+  daysSinceActivity: number;
+  stalled: boolean;
+  flags: string[];
+}
+
+/**
+ * Normalized Project (Product Brief) response object
+ */
+export interface ProjectResponse {
+  pageId: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  status: string | null;
+  priority: string | null;
+  initiative: string[];
+  startDate: string | null;
+  endDate: string | null;
+  ownerIds: string[];
+  taskIds: string[];
+  sourceIdeaId: string | null;
+  /** Linked tasks, only present when requested (see getProject) */
+  tasks?: TaskResponse[];
+  createdTime: string;
+  lastEditedTime: string;
 }
 
 // --- Tasks ---
@@ -43,6 +141,96 @@ export interface CreateTaskInput {
   summary?: string;
 }
 
+/**
+ * Input for updating a Task; only provided fields are written.
+ * Pass null for dueDate/assigneeId to clear them.
+ */
+export interface UpdateTaskInput {
+  pageId: string;
+  title?: string;
+  status?: TaskStatusValue;
+  dueDate?: string | null;
+  priority?: TaskPriorityValue;
+  assigneeId?: string | null;
+  projectId?: string;
+  tags?: string[];
+  summary?: string;
+}
+
+/**
+ * Normalized Task response object
+ */
+export interface TaskResponse {
+  pageId: string;
+  url: string;
+  title: string;
+  status: string | null;
+  priority: string | null;
+  dueDate: string | null;
+  dueDateEnd: string | null;
+  assigneeIds: string[];
+  /** First linked project; tasks belong to one brief in practice */
+  projectId: string | null;
+  /** Title of projectId, when resolved */
+  projectTitle: string | null;
+  tags: string[];
+  taskType: string[];
+  summary: string | null;
+  timeEstimate: string | null;
+  timerStatus: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  parentTaskId: string | null;
+  subTaskIds: string[];
+  blockedByIds: string[];
+  blockingIds: string[];
+  createdTime: string;
+  lastEditedTime: string;
+}
+
+export type TaskSortField =
+  | "dueDate"
+  | "priority"
+  | "status"
+  | "title"
+  | "created"
+  | "lastEdited";
+
+/**
+ * Compound filter for queryTasks; all provided conditions must match.
+ * List fields match any of the values, except tags/taskTypes which must
+ * all be present.
+ */
+export interface TaskQueryFilter {
+  /** Due strictly before this date (YYYY-MM-DD) */
+  dueBefore?: string;
+  /** Due strictly after this date (YYYY-MM-DD) */
+  dueAfter?: string;
+  /** Due on this date (YYYY-MM-DD) */
+  dueOn?: string;
+  /** Due before today (in APP_TIME_ZONE) and not Done/Archived (unless statuses is set) */
+  overdue?: boolean;
+  statuses?: TaskStatusValue[];
+  priorities?: TaskPriorityValue[];
+  tags?: string[];
+  taskTypes?: string[];
+  assigneeId?: string;
+  projectId?: string;
+  /** true: only tasks linked to a project; false: only unlinked tasks */
+  hasProject?: boolean;
+  /** Title contains any of these words (case-insensitive substring) */
+  titleContainsAny?: string[];
+}
+
+export interface TaskQueryOptions {
+  sortBy?: TaskSortField;
+  direction?: "ascending" | "descending";
+  /** Results per page (max 100, default 25) */
+  pageSize?: number;
+  /** nextCursor from a previous call */
+  cursor?: string;
+}
+
 // --- Ideas ---
 
 /**
@@ -71,6 +259,7 @@ export interface CreateIdeaInput {
 
 /**
  * Input for updating an existing Idea
+ * Pass null for endTime to clear it.
  */
 export interface UpdateIdeaInput {
   pageId: string;
@@ -80,8 +269,9 @@ export interface UpdateIdeaInput {
   tags?: IdeaTagValue[];
   status?: IdeaStatusValue;
   status1?: IdeaStatus1Value;
+  timerStatus?: IdeaTimerStatusValue;
   startTime?: string;
-  endTime?: string;
+  endTime?: string | null;
   hidden?: boolean;
 }
 
@@ -104,6 +294,87 @@ export interface IdeaResponse {
   lastEditedTime: string;
 }
 
+/**
+ * An existing idea that looks like a duplicate of another idea or input
+ */
+export interface IdeaDuplicateCandidate {
+  idea: IdeaResponse;
+  /** 0-1; 1 means same normalized title or a shared URL */
+  score: number;
+  reasons: Array<
+    "same_title" | "similar_title" | "similar_summary" | "same_url"
+  >;
+}
+
+/**
+ * Ideas proposed for merging: the oldest idea is kept as primary
+ */
+export interface IdeaDuplicateGroup {
+  primary: IdeaResponse;
+  duplicates: IdeaDuplicateCandidate[];
+}
+
+/**
+ * A group of related ideas found by clusterIdeas
+ */
+export interface IdeaCluster {
+  /** Position after ranking, 1 = most active */
+  rank: number;
+  /** Generated label: dominant tag plus top keywords */
+  name: string;
+  keywords: string[];
+  /** Tags shared by at least half of the cluster */
+  tags: string[];
+  ideas: IdeaResponse[];
+  /** Most recent createdTime in the cluster */
+  lastActivity: string;
+  /** Volume weighted by recency (each idea decays with a two-week half-life) */
+  activityScore: number;
+  /** Closest vision theme, when one matches */
+  theme: { id: string; title: string; score: number } | null;
+}
+
+/**
+ * A vision (or other reference) theme clusters are mapped onto
+ */
+export interface IdeaClusterTheme {
+  id: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * One timed work session on an idea
+ */
+export interface IdeaTimerSession {
+  /** ISO timestamps */
+  start: string;
+  end: string;
+  minutes: number;
+}
+
+/**
+ * Time spent on ideas over a date range
+ * Sessions are clipped to the range; a running timer counts up to now.
+ */
+export interface IdeaTimeReport {
+  /** YYYY-MM-DD, inclusive */
+  startDate: string;
+  endDate: string;
+  totalMinutes: number;
+  byIdea: Array<{
+    pageId: string;
+    title: string;
+    url: string;
+    tags: string[];
+    minutes: number;
+    sessions: number;
+    running: boolean;
+  }>;
+  /** Ideas with several tags count toward each of them */
+  byTag: Array<{ tag: string; minutes: number }>;
+}
+
 // --- Meetings ---
 
 export interface CreateMeetingInput {
@@ -111,6 +382,28 @@ export interface CreateMeetingInput {
   eventTime: string;
   eventTimeEnd?: string;
   attendeeIds?: string[];
+  /** UID of the calendar event the meeting was imported from */
+  icalUid?: string;
+  /** Set on every occurrence of a recurring meeting */
+  seriesId?: string;
+  /** Series definition text (see scheduling/recurrence.ts) */
+  recurrence?: string;
+}
+
+/**
+ * Input for updating a Meeting; only provided fields are written.
+ * Pass null for eventTimeEnd to clear it.
+ */
+export interface UpdateMeetingInput {
+  pageId: string;
+  title?: string;
+  eventTime?: string;
+  eventTimeEnd?: string | null;
+  attendeeIds?: string[];
+  icalUid?: string;
+  /** null takes the meeting out of its series */
+  seriesId?: string | null;
+  recurrence?: string | null;
 }
 
 /**
@@ -123,10 +416,59 @@ export interface MeetingResponse {
   eventTime: string | null;
   eventTimeEnd: string | null;
   attendeeIds: string[];
+  icalUid: string | null;
+  seriesId: string | null;
+  recurrence: string | null;
+  /** "Canceled" for canceled meetings, otherwise null */
+  status: string | null;
   createdTime: string;
   lastEditedTime: string;
 }
 
+/**
+ * Context gathered ahead of a meeting, plus the generated prep sections
+ */
+export interface MeetingPrepPacket {
+  meeting: MeetingResponse;
+  attendees: Array<{ id: string; name: string | null }>;
+  /** Title words used to match briefs, tasks and ideas */
+  keywords: string[];
+  briefs: ProjectResponse[];
+  tasks: TaskResponse[];
+  ideas: IdeaResponse[];
+  agenda: string[];
+  openQuestions: string[];
+  decisionsNeeded: string[];
+}
+
+/**
+ * Action item found in meeting notes and the task it maps to
+ */
+export interface MeetingActionItemResult {
+  title: string;
+  /** The line as written in the notes */
+  text: string;
+  ownerName: string | null;
+  assigneeId: string | null;
+  dueDate: string | null;
+  projectId: string | null;
+  projectTitle: string | null;
+  /** created: new task; existing: created by an earlier run; planned: dry run */
+  outcome: "created" | "existing" | "planned";
+  task: { pageId: string; url: string } | null;
+}
+
+/**
+ * Result of processing a meeting page's notes into tasks
+ */
+export interface MeetingNotesResult {
+  meeting: MeetingResponse;
+  decisions: string[];
+  actionItems: MeetingActionItemResult[];
+  /** Whether the Follow-ups section was written or extended */
+  followUpsWritten: boolean;
+}
+
 // --- Gameplans ---
 
 /**
@@ -147,6 +489,15 @@ export interface CreateGameplanInput {
   contentBlocks?: import("@notionhq/client/build/src/api-endpoints.js").CreatePageParameters["children"];
 }
 
+/**
+ * Input for updating an existing Gameplan
+ */
+export interface UpdateGameplanInput {
+  pageId: string;
+  summary?: string;
+  status?: GameplanStatusValue;
+}
+
 /**
  * Normalized Gameplan response object
  */
@@ -162,6 +513,57 @@ export interface GameplanResponse {
   lastEditedTime: string;
 }
 
+/**
+ * A task line in a gameplan body ("[High] [Title](url) → 9:00 AM - 10:00 AM")
+ */
+export interface GameplanTaskLine {
+  title: string;
+  /** From the task link; null for plain-text lines */
+  taskId: string | null;
+  /** Scheduled time or recommended window */
+  window: string | null;
+}
+
+/**
+ * done: Done; slipped: still open (carried over); dropped: archived;
+ * missing: no matching task in Notion
+ */
+export type GameplanTaskOutcome = "done" | "slipped" | "dropped" | "missing";
+
+export interface GameplanTaskReview {
+  title: string;
+  taskId: string | null;
+  url: string | null;
+  status: string | null;
+  window: string | null;
+  outcome: GameplanTaskOutcome;
+}
+
+/**
+ * End-of-day comparison of a gameplan with what actually got done
+ */
+export interface GameplanReconciliation {
+  date: string;
+  gameplan: GameplanResponse;
+  planned: GameplanTaskReview[];
+  /** Done tasks edited that day (no completion date exists) that were not in the plan */
+  unplanned: TaskResponse[];
+  /** Open planned tasks to seed the next day's plan */
+  carryOver: GameplanTaskReview[];
+  counts: {
+    planned: number;
+    done: number;
+    slipped: number;
+    dropped: number;
+    missing: number;
+    unplanned: number;
+  };
+  /** Planned tasks done ÷ planned tasks found, 0-1; null with no plan */
+  completionScore: number | null;
+  /** Whether the Wrap-up section was written (false on a dry run) */
+  written: boolean;
+}
+
 // --- Content ---
 
 export interface CreateContentInput {
@@ -0,0 +1,93 @@
+import { APIErrorCode, isNotionClientError } from "@notionhq/client";
+import type { UserObjectResponse } from "@notionhq/client/build/src/api-endpoints.js";
+import { callNotion } from "./governor.js";
+import { cached, USER_TTL_MS } from "./cache.js";
+
+/**
+ * Users
+ * Workspace members referenced by people properties (assignees, attendees)
+ */
+
+export interface NotionUser {
+  id: string;
+  name: string | null;
+  email: string | null;
+  type: "person" | "bot";
+}
+
+function normalizeUser(user: UserObjectResponse): NotionUser {
+  return {
+    id: user.id,
+    name: user.name ?? null,
+    email: user.type === "person" ? user.person?.email ?? null : null,
+    type: user.type,
+  };
+}
+
+/**
+ * Get a workspace user; null when the integration can't see them
+ * (guests, removed members)
+ */
+export async function getUser(userId: string): Promise<NotionUser | null> {
+  return cached(
+    `user:${userId}`,
+    { ttlMs: USER_TTL_MS, tags: ["users"] },
+    async () => {
+      try {
+        const user = await callNotion("users.retrieve", "read", (client) =>
+          client.users.retrieve({ user_id: userId })
+        );
+        return normalizeUser(user);
+      } catch (error) {
+        if (
+          isNotionClientError(error) &&
+          (error.code === APIErrorCode.ObjectNotFound ||
+            error.code === APIErrorCode.RestrictedResource)
+        ) {
+          return null;
+        }
+        throw error;
+      }
+    }
+  );
+}
+
+/**
+ * Every member of the workspace, following all cursors
+ */
+export async function listUsers(): Promise<NotionUser[]> {
+  return cached(
+    "users:all",
+    { ttlMs: USER_TTL_MS, tags: ["users"] },
+    async () => {
+      const users: NotionUser[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const response = await callNotion("users.list", "read", (client) =>
+          client.users.list({ start_cursor: cursor, page_size: 100 })
+        );
+        users.push(...response.results.map(normalizeUser));
+        cursor = response.next_cursor ?? undefined;
+      } while (cursor);
+
+      return users;
+    }
+  );
+}
+
+/**
+ * Display names for a list of user IDs, keyed by ID
+ * Users that can't be resolved are left out.
+ */
+export async function resolveUserNames(
+  userIds: string[]
+): Promise<Record<string, string>> {
+  const users = await Promise.all([...new Set(userIds)].map(getUser));
+
+  return Object.fromEntries(
+    users
+      .filter((user): user is NotionUser => Boolean(user?.name))
+      .map((user) => [user.id, user.name as string])
+  );
+}
@@ -0,0 +1,49 @@
+import type { RichTextItem } from "../notion/index.js";
+
+/**
+ * Review Formatting
+ * Text helpers shared by the weekly review and quarterly plan layouts
+ */
+
+/**
+ * "October 12, 2026"
+ */
+export function formatLongDate(date: string): string {
+  return new Date(`${date}T12:00:00.000Z`).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function formatPercent(score: number | null): string {
+  return score === null ? "n/a" : `${Math.round(score * 100)}%`;
+}
+
+/**
+ * "45 min", "2h", "3h 30m"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * 9:40 AM from HH:MM
+ */
+export function formatClock(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const meridiem = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${meridiem}`;
+}
+
+export function link(title: string, url: string | null): RichTextItem {
+  return { type: "text", text: { content: title, link: url ? { url } : null } };
+}
+
+export function text(content: string): RichTextItem {
+  return { type: "text", text: { content } };
+}
@@ -0,0 +1,47 @@
+/**
+ * Reviews Service
+ * Weekly reviews and quarterly plans built from gameplans, tasks,
+ * meetings, ideas and energy data
+ */
+
+export {
+  formatLongDate,
+  formatPercent,
+  formatMinutes,
+  formatClock,
+} from "./format.js";
+
+export {
+  weekRange,
+  weeklyReviewTitle,
+  loadSourceGameplans,
+  averageEnergy,
+  buildWeeklyReview,
+  summarizeWeeklyReview,
+  weeklyReviewToBlocks,
+} from "./weekly.js";
+
+export {
+  parseQuarter,
+  quarterOf,
+  quarterlyPlanTitle,
+  buildQuarterlyPlan,
+  describeCapacity,
+  quarterlyPlanToBlocks,
+} from "./quarterly.js";
+
+export type {
+  DailyScore,
+  SourceGameplan,
+  SlippedTask,
+  EnergyAverage,
+  WeeklyReviewOptions,
+  WeeklyReview,
+  QuarterlyObjective,
+  PlannedObjective,
+  QuarterlyPlanOptions,
+  QuarterMilestone,
+  BriefPlan,
+  QuarterCapacity,
+  QuarterlyPlan,
+} from "./types.js";
@@ -0,0 +1,595 @@
+import {
+  queryProjects,
+  normalizeProjectResponse,
+  queryTasksByProject,
+  normalizeTaskResponse,
+  compactId,
+  blockBuilders,
+  type BlockObjectRequest,
+  type ProjectResponse,
+  type TaskResponse,
+} from "../notion/index.js";
+import {
+  addDays,
+  eachDate,
+  getBusyIntervals,
+  parseTimeEstimate,
+  zonedDate,
+} from "../scheduling/index.js";
+import {
+  ProjectStatus,
+  ProjectPriority,
+  TaskStatus,
+} from "../../config/notionConfig.js";
+import { loadSourceGameplans } from "./weekly.js";
+import {
+  formatLongDate,
+  formatPercent,
+  formatMinutes,
+  link,
+  text,
+} from "./format.js";
+import type {
+  DailyScore,
+  PlannedObjective,
+  QuarterMilestone,
+  BriefPlan,
+  QuarterCapacity,
+  QuarterlyPlanOptions,
+  QuarterlyPlan,
+} from "./types.js";
+
+/**
+ * Quarterly Plan
+ * Objectives, per-brief milestones and a capacity estimate for a quarter,
+ * based on the briefs in Notion and recent daily gameplans
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+// Open tasks without a Time Estimates value count as this long
+const DEFAULT_TASK_MINUTES = 60;
+
+const DEFAULT_LOOKBACK_DAYS = 28;
+
+const QUARTER_PATTERN = /^(\d{4})-?Q([1-4])$/i;
+
+const PRIORITY_ORDER: string[] = [
+  ProjectPriority.HIGH,
+  ProjectPriority.MEDIUM,
+  ProjectPriority.LOW,
+];
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/**
+ * First and last date of a quarter ("2026-Q4" or "2026Q4")
+ */
+export function parseQuarter(quarter: string): {
+  quarter: string;
+  startDate: string;
+  endDate: string;
+} {
+  const match = quarter.trim().match(QUARTER_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid quarter "${quarter}" (expected YYYY-Qn)`);
+  }
+
+  const year = Number(match[1]);
+  const index = Number(match[2]);
+  const startMonth = String((index - 1) * 3 + 1).padStart(2, "0");
+  const startDate = `${year}-${startMonth}-01`;
+  const nextStart =
+    index === 4
+      ? `${year + 1}-01-01`
+      : `${year}-${String(index * 3 + 1).padStart(2, "0")}-01`;
+
+  return {
+    quarter: `${year}-Q${index}`,
+    startDate,
+    endDate: addDays(nextStart, -1),
+  };
+}
+
+/**
+ * The quarter a date falls in, e.g. "2026-Q4"
+ */
+export function quarterOf(date: string): string {
+  const month = Number(date.slice(5, 7));
+  return `${date.slice(0, 4)}-Q${Math.ceil(month / 3)}`;
+}
+
+/**
+ * "Quarterly Plan - Q4 2026"
+ */
+export function quarterlyPlanTitle(quarter: string): string {
+  const [year, index] = quarter.split("-");
+  return `Quarterly Plan - ${index} ${year}`;
+}
+
+function isWeekday(date: string): boolean {
+  const day = new Date(`${date}T12:00:00.000Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function monthName(date: string): string {
+  return new Date(`${date.slice(0, 7)}-15T12:00:00.000Z`).toLocaleDateString(
+    "en-US",
+    { month: "long", timeZone: "UTC" }
+  );
+}
+
+// ============================================================================
+// Briefs
+// ============================================================================
+
+/**
+ * Briefs in Planning or In Progress, highest priority first
+ */
+async function getPlannableBriefs(): Promise<ProjectResponse[]> {
+  const rank = (brief: ProjectResponse) => {
+    const index = PRIORITY_ORDER.indexOf(brief.priority ?? "");
+    return index === -1 ? PRIORITY_ORDER.length : index;
+  };
+
+  return (await queryProjects())
+    .map(normalizeProjectResponse)
+    .filter(
+      (brief) =>
+        brief.status === ProjectStatus.PLANNING ||
+        brief.status === ProjectStatus.IN_PROGRESS
+    )
+    .sort((a, b) => rank(a) - rank(b) || a.title.localeCompare(b.title));
+}
+
+function isOpen(task: TaskResponse): boolean {
+  return task.status !== TaskStatus.DONE && task.status !== TaskStatus.ARCHIVED;
+}
+
+/**
+ * Milestones and workload of one brief: open tasks due in the quarter
+ * grouped by month, plus the brief's end date when it falls in the quarter
+ */
+async function planBrief(
+  brief: ProjectResponse,
+  range: { planStart: string; startDate: string; endDate: string }
+): Promise<BriefPlan> {
+  const tasks = (await queryTasksByProject(brief.pageId))
+    .map((page) =>
+      normalizeTaskResponse(page, { [brief.pageId]: brief.title })
+    )
+    .filter(isOpen);
+
+  const due = (task: TaskResponse) => task.dueDate?.slice(0, 10) ?? null;
+  const inQuarter = tasks
+    .filter((task) => {
+      const date = due(task);
+      return date !== null && date >= range.planStart && date <= range.endDate;
+    })
+    .sort((a, b) => due(a)!.localeCompare(due(b)!));
+
+  const byMonth = new Map<string, TaskResponse[]>();
+  for (const task of inQuarter) {
+    const month = due(task)!.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), task]);
+  }
+
+  const milestones: QuarterMilestone[] = [...byMonth.values()].map(
+    (monthTasks) => {
+      const last = due(monthTasks[monthTasks.length - 1])!;
+      return {
+        date: last,
+        title: `${monthName(last)}: ${monthTasks.length} task(s) due`,
+        kind: "tasks",
+        tasks: monthTasks.map((task) => ({
+          taskId: task.pageId,
+          title: task.title,
+          url: task.url,
+        })),
+      };
+    }
+  );
+
+  const briefEnd = brief.endDate?.slice(0, 10);
+  if (briefEnd && briefEnd >= range.startDate && briefEnd <= range.endDate) {
+    milestones.push({
+      date: briefEnd,
+      title: "Brief end date",
+      kind: "brief_end",
+      tasks: [],
+    });
+  }
+  milestones.sort((a, b) => a.date.localeCompare(b.date));
+
+  // Work due after the quarter isn't part of its load
+  const load = tasks.filter((task) => {
+    const date = due(task);
+    return date === null || date <= range.endDate;
+  });
+  const estimates = load.map((task) => parseTimeEstimate(task.timeEstimate));
+
+  return {
+    brief,
+    milestones,
+    openTasks: load.length,
+    overdueTasks: tasks.filter((task) => {
+      const date = due(task);
+      return date !== null && date < range.planStart;
+    }).length,
+    undatedTasks: tasks.filter((task) => due(task) === null).length,
+    estimatedMinutes: estimates.reduce<number>(
+      (total, minutes) => total + (minutes ?? DEFAULT_TASK_MINUTES),
+      0
+    ),
+    unestimatedTasks: estimates.filter((minutes) => minutes === null).length,
+  };
+}
+
+// ============================================================================
+// Capacity
+// ============================================================================
+
+/**
+ * Focus time left in the quarter against the open brief work
+ *
+ * Focus time is weekdays left × working hours, less the average weekday
+ * meeting load of the lookback window. Throughput is planned tasks done
+ * per reconciled day over the same window.
+ */
+async function estimateCapacity(options: {
+  planStart: string;
+  endDate: string;
+  lookbackStart: string;
+  lookbackEnd: string;
+  workStart: string;
+  workEnd: string;
+  timeZone: string;
+  briefs: BriefPlan[];
+  scores: DailyScore[];
+}): Promise<QuarterCapacity> {
+  const { planStart, endDate, lookbackStart, lookbackEnd, timeZone } = options;
+
+  const workdays =
+    planStart <= endDate
+      ? eachDate(planStart, endDate).filter(isWeekday).length
+      : 0;
+  const workMinutesPerDay = Math.max(
+    0,
+    toMinutes(options.workEnd) - toMinutes(options.workStart)
+  );
+
+  const lookbackWeekdays = eachDate(lookbackStart, lookbackEnd).filter(
+    isWeekday
+  );
+  const meetingMinutes = (
+    await getBusyIntervals(lookbackStart, lookbackEnd, timeZone)
+  )
+    .filter((interval) => {
+      const date = zonedDate(interval.start, timeZone);
+      return date >= lookbackStart && date <= lookbackEnd && isWeekday(date);
+    })
+    .reduce(
+      (total, interval) => total + (interval.end - interval.start) / MINUTE_MS,
+      0
+    );
+  const meetingMinutesPerDay = Math.round(
+    meetingMinutes / Math.max(1, lookbackWeekdays.length)
+  );
+
+  const focusMinutes =
+    workdays * Math.max(0, workMinutesPerDay - meetingMinutesPerDay);
+  const demandMinutes = options.briefs.reduce(
+    (total, plan) => total + plan.estimatedMinutes,
+    0
+  );
+
+  const scored = options.scores.filter(
+    (score) =>
+      score.date >= lookbackStart &&
+      score.date <= lookbackEnd &&
+      score.planned > 0
+  );
+  const averageTasksPerDay =
+    scored.length > 0
+      ? scored.reduce((total, score) => total + score.done, 0) / scored.length
+      : null;
+
+  return {
+    workdays,
+    workMinutesPerDay,
+    meetingMinutesPerDay,
+    focusMinutes,
+    demandMinutes,
+    utilization: focusMinutes > 0 ? demandMinutes / focusMinutes : null,
+    openTasks: options.briefs.reduce((total, plan) => total + plan.openTasks, 0),
+    averageTasksPerDay:
+      averageTasksPerDay === null
+        ? null
+        : Math.round(averageTasksPerDay * 10) / 10,
+    projectedTasks:
+      averageTasksPerDay === null
+        ? null
+        : Math.round(averageTasksPerDay * workdays),
+  };
+}
+
+// ============================================================================
+// Plan
+// ============================================================================
+
+/**
+ * Objectives with their briefs; without objectives, each brief becomes one
+ */
+function resolveObjectives(
+  options: QuarterlyPlanOptions,
+  briefs: ProjectResponse[]
+): PlannedObjective[] {
+  const summary = (brief: ProjectResponse) => ({
+    pageId: brief.pageId,
+    title: brief.title,
+    url: brief.url,
+  });
+
+  if (!options.objectives || options.objectives.length === 0) {
+    return briefs.map((brief) => ({
+      title: brief.title,
+      description: brief.summary ?? undefined,
+      briefIds: [brief.pageId],
+      briefs: [summary(brief)],
+    }));
+  }
+
+  const byId = new Map(briefs.map((brief) => [compactId(brief.pageId), brief]));
+  return options.objectives.map((objective) => ({
+    ...objective,
+    briefs: (objective.briefIds ?? [])
+      .map((id) => byId.get(compactId(id)))
+      .filter((brief): brief is ProjectResponse => brief !== undefined)
+      .map(summary),
+  }));
+}
+
+/**
+ * Lay out a quarter: objectives, milestones for each brief in Planning or
+ * In Progress, and capacity against their open work. The capacity
+ * estimate, and the gameplans linked as its source, come from the
+ * lookback window before today.
+ */
+export async function buildQuarterlyPlan(
+  options: QuarterlyPlanOptions
+): Promise<QuarterlyPlan> {
+  const {
+    timeZone,
+    lookbackDays = DEFAULT_LOOKBACK_DAYS,
+    workStart = "09:00",
+    workEnd = "18:00",
+    scores = [],
+  } = options;
+
+  const today = zonedDate(Date.now(), timeZone);
+  const { quarter, startDate, endDate } = parseQuarter(
+    options.quarter ?? quarterOf(today)
+  );
+  const planStart = today > startDate ? today : startDate;
+  const lookbackEnd = addDays(today, -1);
+  const lookbackStart = addDays(lookbackEnd, -(Math.max(1, lookbackDays) - 1));
+
+  const briefs = await getPlannableBriefs();
+  const briefPlans: BriefPlan[] = [];
+  for (const brief of briefs) {
+    briefPlans.push(await planBrief(brief, { planStart, startDate, endDate }));
+  }
+
+  const capacity = await estimateCapacity({
+    planStart,
+    endDate,
+    lookbackStart,
+    lookbackEnd,
+    workStart,
+    workEnd,
+    timeZone,
+    briefs: briefPlans,
+    scores,
+  });
+
+  return {
+    title: quarterlyPlanTitle(quarter),
+    quarter,
+    startDate,
+    endDate,
+    objectives: resolveObjectives(options, briefs),
+    briefs: briefPlans,
+    capacity,
+    sourceGameplans: await loadSourceGameplans(
+      lookbackStart,
+      lookbackEnd,
+      timeZone,
+      scores
+    ),
+    lookbackStart,
+    lookbackEnd,
+  };
+}
+
+/**
+ * One-line verdict on the capacity estimate
+ */
+export function describeCapacity(capacity: QuarterCapacity): string {
+  if (capacity.utilization === null) {
+    return "No focus time left this quarter.";
+  }
+
+  const load = formatPercent(capacity.utilization);
+  const gap = Math.abs(capacity.focusMinutes - capacity.demandMinutes);
+  if (capacity.utilization > 1) {
+    return `Overcommitted: open work is ${load} of focus time. Cut or defer about ${formatMinutes(gap)}.`;
+  }
+  if (capacity.utilization > 0.8) {
+    return `Tight: open work is ${load} of focus time.`;
+  }
+  return `Room to spare: open work is ${load} of focus time, leaving about ${formatMinutes(gap)}.`;
+}
+
+/**
+ * Page layout for a quarterly plan: summary callout, objectives,
+ * milestones per brief, capacity and the source daily gameplans
+ */
+export function quarterlyPlanToBlocks(
+  plan: QuarterlyPlan,
+  options: { summary?: string } = {}
+): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+  const { capacity } = plan;
+
+  blocks.push(
+    blockBuilders.callout(
+      options.summary ??
+        `${plan.objectives.length} objective(s) across ${plan.briefs.length} brief(s). ${describeCapacity(capacity)}`,
+      "🧭"
+    )
+  );
+  blocks.push(
+    blockBuilders.paragraph(
+      `${formatLongDate(plan.startDate)} – ${formatLongDate(plan.endDate)}`
+    )
+  );
+  blocks.push(blockBuilders.divider());
+
+  // Objectives
+  blocks.push(blockBuilders.heading2("Objectives"));
+  if (plan.objectives.length === 0) {
+    blocks.push(
+      blockBuilders.paragraph("No objectives and no briefs in progress.")
+    );
+  }
+  plan.objectives.forEach((objective, index) => {
+    blocks.push(blockBuilders.heading3(`${index + 1}. ${objective.title}`));
+    if (objective.description) {
+      blocks.push(blockBuilders.paragraph(objective.description));
+    }
+    for (const result of objective.keyResults ?? []) {
+      blocks.push(blockBuilders.bulletedListItem(`Key result: ${result}`));
+    }
+    if (objective.briefs.length > 0) {
+      blocks.push(
+        blockBuilders.bulletedListItem([
+          text("Briefs: "),
+          ...objective.briefs.flatMap((brief, briefIndex) => [
+            ...(briefIndex > 0 ? [text(", ")] : []),
+            link(brief.title, brief.url),
+          ]),
+        ])
+      );
+    }
+  });
+  blocks.push(blockBuilders.divider());
+
+  // Milestones
+  blocks.push(blockBuilders.heading2("Milestones"));
+  if (plan.briefs.length === 0) {
+    blocks.push(
+      blockBuilders.paragraph("No briefs in Planning or In Progress.")
+    );
+  }
+  for (const briefPlan of plan.briefs) {
+    const { brief } = briefPlan;
+    blocks.push(blockBuilders.heading3([link(brief.title, brief.url)]));
+
+    const notes = [
+      brief.status ?? "no status",
+      brief.priority && `${brief.priority} priority`,
+      `${briefPlan.openTasks} open task(s), ~${formatMinutes(briefPlan.estimatedMinutes)}`,
+      briefPlan.overdueTasks > 0 && `${briefPlan.overdueTasks} overdue`,
+      briefPlan.undatedTasks > 0 &&
+        `${briefPlan.undatedTasks} without a due date`,
+    ].filter(Boolean);
+    blocks.push(blockBuilders.paragraph(notes.join(" · ")));
+
+    if (briefPlan.milestones.length === 0) {
+      blocks.push(
+        blockBuilders.bulletedListItem("No dated milestones this quarter")
+      );
+      continue;
+    }
+    blocks.push(
+      blockBuilders.table([
+        ["Date", "Milestone", "Tasks"],
+        ...briefPlan.milestones.map((milestone) => [
+          milestone.date,
+          milestone.title,
+          milestone.tasks.flatMap((task, taskIndex) => [
+            ...(taskIndex > 0 ? [text(", ")] : []),
+            link(task.title, task.url),
+          ]),
+        ]),
+      ])
+    );
+  }
+  blocks.push(blockBuilders.divider());
+
+  // Capacity
+  blocks.push(blockBuilders.heading2("Capacity"));
+  blocks.push(blockBuilders.paragraph(describeCapacity(capacity)));
+  blocks.push(
+    blockBuilders.table([
+      ["Measure", "Estimate"],
+      ["Workdays left", String(capacity.workdays)],
+      ["Working hours per day", formatMinutes(capacity.workMinutesPerDay)],
+      [
+        "Meetings per day (recent average)",
+        formatMinutes(capacity.meetingMinutesPerDay),
+      ],
+      ["Focus time available", formatMinutes(capacity.focusMinutes)],
+      [
+        "Open brief work",
+        `${formatMinutes(capacity.demandMinutes)} across ${capacity.openTasks} task(s)`,
+      ],
+      ["Load", formatPercent(capacity.utilization)],
+      [
+        "Tasks done per day (recent)",
+        capacity.averageTasksPerDay === null
+          ? "No reconciled days"
+          : String(capacity.averageTasksPerDay),
+      ],
+      [
+        "Projected tasks this quarter",
+        capacity.projectedTasks === null
+          ? "n/a"
+          : `${capacity.projectedTasks} of ${capacity.openTasks} open`,
+      ],
+    ])
+  );
+  blocks.push(blockBuilders.divider());
+
+  // Source gameplans
+  blocks.push(blockBuilders.heading2("Source Gameplans"));
+  blocks.push(
+    blockBuilders.paragraph(
+      `Meeting load and throughput come from ${formatLongDate(plan.lookbackStart)} – ${formatLongDate(plan.lookbackEnd)}.`
+    )
+  );
+  if (plan.sourceGameplans.length === 0) {
+    blocks.push(
+      blockBuilders.bulletedListItem("No daily gameplans in that window")
+    );
+  }
+  for (const gameplan of plan.sourceGameplans) {
+    blocks.push(
+      blockBuilders.bulletedListItem([
+        link(gameplan.title, gameplan.url),
+        ...(gameplan.completionScore !== null
+          ? [text(` (${formatPercent(gameplan.completionScore)} done)`)]
+          : []),
+      ])
+    );
+  }
+
+  return blocks;
+}
@@ -0,0 +1,180 @@
+/**
+ * Review Types
+ */
+
+import type {
+  TaskResponse,
+  MeetingResponse,
+  IdeaResponse,
+  ProjectResponse,
+} from "../notion/index.js";
+import type { EnergyWindow } from "../scheduling/index.js";
+
+/**
+ * A day's planned-vs-actual result from the gameplan_reviews table
+ */
+export interface DailyScore {
+  date: string;
+  /** 0-1; null when nothing was planned */
+  completionScore: number | null;
+  planned: number;
+  done: number;
+}
+
+/**
+ * A daily gameplan a review or plan draws on
+ */
+export interface SourceGameplan {
+  pageId: string;
+  url: string;
+  title: string;
+  /** Creation date in the review time zone, YYYY-MM-DD */
+  date: string;
+  status: string | null;
+  completionScore: number | null;
+}
+
+/**
+ * A planned task still open at the end of the period
+ */
+export interface SlippedTask {
+  taskId: string | null;
+  title: string;
+  url: string | null;
+  status: string | null;
+  /** Daily gameplans it appeared in */
+  plannedDays: number;
+}
+
+/**
+ * Average of one energy category over the days with energy data
+ */
+export interface EnergyAverage {
+  category: string;
+  /** Most common label, e.g. "Morning Peak" */
+  label: string;
+  days: number;
+  averageMinutes: number;
+  /** Average wall-clock start, HH:MM in the review time zone */
+  averageStart: string;
+}
+
+export interface WeeklyReviewOptions {
+  /** Any date in the week (Monday-Sunday), YYYY-MM-DD; default today */
+  weekOf?: string;
+  timeZone: string;
+  /** Energy segments for the week */
+  energy?: EnergyWindow[];
+  /** Completion scores of the week's reconciled gameplans */
+  scores?: DailyScore[];
+}
+
+export interface WeeklyReview {
+  title: string;
+  weekStart: string;
+  weekEnd: string;
+  gameplans: SourceGameplan[];
+  /** Tasks marked Done during the week */
+  completed: TaskResponse[];
+  slipped: SlippedTask[];
+  /** Meetings that started during the week, up to now */
+  meetings: MeetingResponse[];
+  ideas: IdeaResponse[];
+  energy: { daysWithData: number; averages: EnergyAverage[] };
+  completion: {
+    daysScored: number;
+    planned: number;
+    done: number;
+    /** Mean of the daily scores; null with no scored days */
+    averageScore: number | null;
+  };
+}
+
+/**
+ * A quarterly objective, usually drafted from the yearly vision
+ */
+export interface QuarterlyObjective {
+  title: string;
+  description?: string;
+  /** Briefs that deliver it */
+  briefIds?: string[];
+  keyResults?: string[];
+}
+
+/**
+ * An objective with its briefs resolved
+ */
+export interface PlannedObjective extends QuarterlyObjective {
+  briefs: Array<{ pageId: string; title: string; url: string }>;
+}
+
+export interface QuarterlyPlanOptions {
+  /** YYYY-Qn, e.g. 2026-Q4; default the current quarter */
+  quarter?: string;
+  timeZone: string;
+  /** Default: one objective per active brief */
+  objectives?: QuarterlyObjective[];
+  /** Days of history the capacity estimate is based on (default 28) */
+  lookbackDays?: number;
+  /** HH:MM working hours (default 09:00-18:00) */
+  workStart?: string;
+  workEnd?: string;
+  /** Completion scores over the lookback window */
+  scores?: DailyScore[];
+}
+
+/**
+ * Work on a brief falling due in one month of the quarter, or the brief's
+ * own end date
+ */
+export interface QuarterMilestone {
+  /** YYYY-MM-DD: last due date in the month, or the brief's end date */
+  date: string;
+  title: string;
+  kind: "tasks" | "brief_end";
+  tasks: Array<{ taskId: string; title: string; url: string }>;
+}
+
+export interface BriefPlan {
+  brief: ProjectResponse;
+  milestones: QuarterMilestone[];
+  openTasks: number;
+  /** Open tasks already past due when the plan starts */
+  overdueTasks: number;
+  /** Open tasks without a due date */
+  undatedTasks: number;
+  /** Sum of open task estimates (60 min each when not estimated) */
+  estimatedMinutes: number;
+  unestimatedTasks: number;
+}
+
+export interface QuarterCapacity {
+  /** Weekdays left in the quarter */
+  workdays: number;
+  workMinutesPerDay: number;
+  /** Average meeting minutes per weekday over the lookback window */
+  meetingMinutesPerDay: number;
+  focusMinutes: number;
+  /** Estimated minutes of open brief work */
+  demandMinutes: number;
+  /** demand ÷ focus; over 1 means more work than time */
+  utilization: number | null;
+  openTasks: number;
+  /** Planned tasks done per reconciled day over the lookback window */
+  averageTasksPerDay: number | null;
+  projectedTasks: number | null;
+}
+
+export interface QuarterlyPlan {
+  title: string;
+  quarter: string;
+  startDate: string;
+  endDate: string;
+  objectives: PlannedObjective[];
+  briefs: BriefPlan[];
+  capacity: QuarterCapacity;
+  /** Daily gameplans from the lookback window */
+  sourceGameplans: SourceGameplan[];
+  lookbackStart: string;
+  lookbackEnd: string;
+}
@@ -0,0 +1,464 @@
+import {
+  queryGameplansByDateRange,
+  normalizeGameplanResponse,
+  getPageBlocksAsMarkdown,
+  parseGameplanTaskLines,
+  reviewPlannedTasks,
+  getTasksCompletedBetween,
+  queryMeetingsByDateRange,
+  normalizeMeetingResponse,
+  queryIdeas,
+  normalizeIdeaResponse,
+  blockBuilders,
+  type BlockObjectRequest,
+  type GameplanTaskLine,
+} from "../notion/index.js";
+import {
+  addDays,
+  parseEventTime,
+  toZonedIso,
+  zonedDate,
+  zonedDayBounds,
+  type EnergyWindow,
+} from "../scheduling/index.js";
+import { GameplanCategory } from "../../config/notionConfig.js";
+import {
+  formatLongDate,
+  formatPercent,
+  formatMinutes,
+  formatClock,
+  link,
+  text,
+} from "./format.js";
+import type {
+  DailyScore,
+  SourceGameplan,
+  SlippedTask,
+  EnergyAverage,
+  WeeklyReviewOptions,
+  WeeklyReview,
+} from "./types.js";
+
+/**
+ * Weekly Review
+ * A week's gameplans, completed and slipped work, meetings, ideas and
+ * energy, gathered from Notion and laid out as a Review page
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+const ENERGY_EMOJIS: Record<string, string> = {
+  peak: "⚡",
+  dip: "🌊",
+  groggy: "☕",
+  wind_down: "🌅",
+  melatonin: "🌙",
+};
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/**
+ * Monday and Sunday of the week containing a date
+ */
+export function weekRange(date: string): { weekStart: string; weekEnd: string } {
+  const day = new Date(`${date}T12:00:00.000Z`).getUTCDay();
+  const weekStart = addDays(date, -((day + 6) % 7));
+  return { weekStart, weekEnd: addDays(weekStart, 6) };
+}
+
+/**
+ * "Weekly Review - Week of October 12, 2026"
+ */
+export function weeklyReviewTitle(weekStart: string): string {
+  return `Weekly Review - Week of ${formatLongDate(weekStart)}`;
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * Daily gameplans created between two dates, oldest first, with the
+ * completion score of each reconciled day
+ */
+export async function loadSourceGameplans(
+  startDate: string,
+  endDate: string,
+  timeZone: string,
+  scores: DailyScore[] = []
+): Promise<SourceGameplan[]> {
+  const pages = await queryGameplansByDateRange(
+    startDate,
+    endDate,
+    GameplanCategory.GAMEPLAN,
+    timeZone
+  );
+  const scoreByDate = new Map(
+    scores.map((score) => [score.date, score.completionScore])
+  );
+
+  return pages
+    .map(normalizeGameplanResponse)
+    .map((gameplan) => {
+      const date = zonedDate(Date.parse(gameplan.createdTime), timeZone);
+      return {
+        pageId: gameplan.pageId,
+        url: gameplan.url,
+        title: gameplan.title,
+        date,
+        status: gameplan.status,
+        completionScore: scoreByDate.get(date) ?? null,
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Planned tasks from the gameplans that are still open, with the number
+ * of days each was planned
+ */
+async function findSlippedTasks(
+  gameplans: SourceGameplan[]
+): Promise<SlippedTask[]> {
+  const lines = new Map<string, GameplanTaskLine>();
+  const days = new Map<string, number>();
+
+  for (const gameplan of gameplans) {
+    const markdown = await getPageBlocksAsMarkdown(gameplan.pageId);
+    const keys = new Set(
+      parseGameplanTaskLines(markdown).map((line) => {
+        const key = line.taskId ?? line.title.toLowerCase();
+        if (!lines.has(key)) lines.set(key, line);
+        return key;
+      })
+    );
+    for (const key of keys) days.set(key, (days.get(key) ?? 0) + 1);
+  }
+
+  const keys = [...lines.keys()];
+  const reviews = await reviewPlannedTasks([...lines.values()]);
+
+  return reviews
+    .map((review, index) => ({
+      review,
+      plannedDays: days.get(keys[index]) ?? 1,
+    }))
+    .filter(({ review }) => review.outcome === "slipped")
+    .map(({ review, plannedDays }) => ({
+      taskId: review.taskId,
+      title: review.title,
+      url: review.url,
+      status: review.status,
+      plannedDays,
+    }))
+    .sort((a, b) => b.plannedDays - a.plannedDays);
+}
+
+/**
+ * Average length and start of each energy category over the days that
+ * have energy data, ordered by start
+ */
+export function averageEnergy(
+  energy: EnergyWindow[],
+  timeZone: string
+): { daysWithData: number; averages: EnergyAverage[] } {
+  const byCategory = new Map<string, EnergyWindow[]>();
+  for (const segment of energy) {
+    byCategory.set(segment.category, [
+      ...(byCategory.get(segment.category) ?? []),
+      segment,
+    ]);
+  }
+
+  const averages = [...byCategory.entries()].map(([category, segments]) => {
+    const days = new Set(
+      segments.map((segment) => zonedDate(segment.start, timeZone))
+    ).size;
+    const minutes = segments.reduce(
+      (total, segment) => total + (segment.end - segment.start) / MINUTE_MS,
+      0
+    );
+    const startMinutes =
+      segments.reduce((total, segment) => {
+        const [hours, mins] = toZonedIso(segment.start, timeZone)
+          .slice(11, 16)
+          .split(":")
+          .map(Number);
+        return total + hours * 60 + mins;
+      }, 0) / segments.length;
+
+    const labels = new Map<string, number>();
+    for (const segment of segments) {
+      labels.set(segment.label, (labels.get(segment.label) ?? 0) + 1);
+    }
+    const label = [...labels.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+    const start = Math.round(startMinutes);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return {
+      category,
+      label,
+      days,
+      averageMinutes: Math.round(minutes / days),
+      averageStart: `${pad(Math.floor(start / 60))}:${pad(start % 60)}`,
+    };
+  });
+
+  return {
+    daysWithData: new Set(
+      energy.map((segment) => zonedDate(segment.start, timeZone))
+    ).size,
+    averages: averages.sort((a, b) =>
+      a.averageStart.localeCompare(b.averageStart)
+    ),
+  };
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+/**
+ * Gather a week (Monday-Sunday) of work: the daily gameplans, tasks marked
+ * Done, planned tasks still open, meetings held, ideas captured, energy
+ * averages and the mean completion score of reconciled days
+ */
+export async function buildWeeklyReview(
+  options: WeeklyReviewOptions
+): Promise<WeeklyReview> {
+  const { timeZone, energy = [], scores = [] } = options;
+  const { weekStart, weekEnd } = weekRange(
+    options.weekOf ?? zonedDate(Date.now(), timeZone)
+  );
+  const now = Date.now();
+
+  const gameplans = await loadSourceGameplans(
+    weekStart,
+    weekEnd,
+    timeZone,
+    scores
+  );
+  const slipped = await findSlippedTasks(gameplans);
+  const completed = await getTasksCompletedBetween(
+    weekStart,
+    weekEnd,
+    timeZone
+  );
+
+  const meetings = (await queryMeetingsByDateRange(weekStart, weekEnd))
+    .map(normalizeMeetingResponse)
+    .filter((meeting) => {
+      if (!meeting.eventTime) return false;
+      const start = parseEventTime(meeting.eventTime, timeZone);
+      // All-day meetings count once their day has started
+      return start === null
+        ? meeting.eventTime.slice(0, 10) <= zonedDate(now, timeZone)
+        : start <= now;
+    });
+
+  const weekBounds = zonedDayBounds(weekStart, weekEnd, timeZone);
+  const ideas = (
+    await queryIdeas({
+      hidden: false,
+      createdOnOrAfter: weekBounds.start,
+      createdBefore: weekBounds.end,
+    })
+  ).map(normalizeIdeaResponse);
+
+  const weekScores = scores.filter(
+    (score) =>
+      score.date >= weekStart &&
+      score.date <= weekEnd &&
+      score.completionScore !== null
+  );
+
+  return {
+    title: weeklyReviewTitle(weekStart),
+    weekStart,
+    weekEnd,
+    gameplans,
+    completed,
+    slipped,
+    meetings,
+    ideas,
+    energy: averageEnergy(energy, timeZone),
+    completion: {
+      daysScored: weekScores.length,
+      planned: weekScores.reduce((total, score) => total + score.planned, 0),
+      done: weekScores.reduce((total, score) => total + score.done, 0),
+      averageScore:
+        weekScores.length > 0
+          ? weekScores.reduce(
+              (total, score) => total + (score.completionScore ?? 0),
+              0
+            ) / weekScores.length
+          : null,
+    },
+  };
+}
+
+/**
+ * One-line summary used when the caller doesn't write one
+ */
+export function summarizeWeeklyReview(review: WeeklyReview): string {
+  const score =
+    review.completion.averageScore === null
+      ? "no reconciled days"
+      : `${formatPercent(review.completion.averageScore)} average completion`;
+  return `${review.completed.length} task(s) done, ${review.slipped.length} slipped, ${review.meetings.length} meeting(s), ${review.ideas.length} idea(s); ${score}`;
+}
+
+/**
+ * Page layout for a weekly review: summary callout, scorecard, then one
+ * section per source, with next week's focus at the end
+ */
+export function weeklyReviewToBlocks(
+  review: WeeklyReview,
+  options: { summary?: string; focus?: string[] } = {}
+): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+  const { completion } = review;
+
+  blocks.push(
+    blockBuilders.callout(
+      options.summary ?? summarizeWeeklyReview(review),
+      "🗓️"
+    )
+  );
+  blocks.push(
+    blockBuilders.paragraph(
+      `${formatLongDate(review.weekStart)} – ${formatLongDate(review.weekEnd)}`
+    )
+  );
+  blocks.push(blockBuilders.divider());
+
+  // Scorecard
+  blocks.push(blockBuilders.heading2("Scorecard"));
+  blocks.push(
+    blockBuilders.table([
+      ["Measure", "This week"],
+      [
+        "Planned-task completion",
+        completion.averageScore === null
+          ? "No reconciled days"
+          : `${formatPercent(completion.averageScore)} (${completion.done} of ${completion.planned} over ${completion.daysScored} day(s))`,
+      ],
+      ["Daily gameplans", String(review.gameplans.length)],
+      ["Tasks completed", String(review.completed.length)],
+      ["Tasks slipped", String(review.slipped.length)],
+      ["Meetings held", String(review.meetings.length)],
+      ["Ideas captured", String(review.ideas.length)],
+    ])
+  );
+  blocks.push(blockBuilders.divider());
+
+  // Daily gameplans
+  blocks.push(blockBuilders.heading2("Daily Gameplans"));
+  if (review.gameplans.length === 0) {
+    blocks.push(blockBuilders.paragraph("No daily gameplans this week."));
+  }
+  for (const gameplan of review.gameplans) {
+    blocks.push(
+      blockBuilders.bulletedListItem([
+        link(gameplan.title, gameplan.url),
+        text(
+          ` (${gameplan.status ?? "no status"}${gameplan.completionScore !== null ? `, ${formatPercent(gameplan.completionScore)} done` : ""})`
+        ),
+      ])
+    );
+  }
+
+  // Completed and slipped work
+  blocks.push(blockBuilders.heading2("Completed"));
+  if (review.completed.length === 0) {
+    blocks.push(blockBuilders.paragraph("Nothing marked Done this week."));
+  }
+  for (const task of review.completed) {
+    blocks.push(
+      blockBuilders.bulletedListItem([
+        link(task.title, task.url),
+        ...(task.projectTitle ? [text(` (${task.projectTitle})`)] : []),
+      ])
+    );
+  }
+
+  blocks.push(blockBuilders.heading2("Slipped"));
+  if (review.slipped.length === 0) {
+    blocks.push(blockBuilders.paragraph("Every planned task was closed."));
+  }
+  for (const task of review.slipped) {
+    blocks.push(
+      blockBuilders.bulletedListItem([
+        link(task.title, task.url),
+        text(
+          ` (${task.status ?? "no status"}, planned ${task.plannedDays} day${task.plannedDays === 1 ? "" : "s"})`
+        ),
+      ])
+    );
+  }
+  blocks.push(blockBuilders.divider());
+
+  // Meetings and ideas
+  blocks.push(blockBuilders.heading2("Meetings Held"));
+  if (review.meetings.length === 0) {
+    blocks.push(blockBuilders.paragraph("No meetings this week."));
+  }
+  for (const meeting of review.meetings) {
+    blocks.push(
+      blockBuilders.bulletedListItem([
+        text(`${meeting.eventTime!.slice(0, 10)}: `),
+        link(meeting.title, meeting.url),
+      ])
+    );
+  }
+
+  blocks.push(blockBuilders.heading2("Ideas Captured"));
+  if (review.ideas.length === 0) {
+    blocks.push(blockBuilders.paragraph("No new ideas this week."));
+  }
+  for (const idea of review.ideas) {
+    blocks.push(
+      blockBuilders.bulletedListItem([
+        link(idea.title, idea.url),
+        ...(idea.tags.length > 0 ? [text(` (${idea.tags.join(", ")})`)] : []),
+      ])
+    );
+  }
+  blocks.push(blockBuilders.divider());
+
+  // Energy
+  blocks.push(blockBuilders.heading2("Energy"));
+  if (review.energy.averages.length === 0) {
+    blocks.push(blockBuilders.paragraph("No energy data this week."));
+  } else {
+    blocks.push(
+      blockBuilders.paragraph(
+        `Averages over ${review.energy.daysWithData} day(s) with WHOOP data.`
+      )
+    );
+    blocks.push(
+      blockBuilders.table([
+        ["Window", "Usual start", "Average length", "Days"],
+        ...review.energy.averages.map((average) => [
+          `${ENERGY_EMOJIS[average.category] ?? "•"} ${average.label}`,
+          formatClock(average.averageStart),
+          formatMinutes(average.averageMinutes),
+          String(average.days),
+        ]),
+      ])
+    );
+  }
+
+  // Next week
+  if (options.focus && options.focus.length > 0) {
+    blocks.push(blockBuilders.divider());
+    blocks.push(blockBuilders.heading2("Next Week"));
+    for (const item of options.focus) {
+      blocks.push(blockBuilders.bulletedListItem(item));
+    }
+  }
+
+  return blocks;
+}
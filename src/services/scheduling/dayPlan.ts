@@ -0,0 +1,415 @@
+import { subtractIntervals } from "./slots.js";
+import { zonedTimeToUtc, toZonedIso } from "./time.js";
+import type {
+  TimeInterval,
+  EnergyWindow,
+  TaskDemand,
+  DayPlanTask,
+  DayPlanOptions,
+  DayPlanBlock,
+  UnscheduledTask,
+  DayPlan,
+} from "./types.js";
+
+/**
+ * Day Plan
+ * Deterministic time-blocking for a single day: tasks are placed around
+ * fixed meetings into the energy segments that suit them, with buffers
+ * around meetings and breaks between long runs of focus.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+const PRIORITY_RANK: Record<string, number> = {
+  "very high": 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  "very low": 0,
+};
+
+// Energy categories each kind of task may use, best first. Time outside
+// every segment comes after these; melatonin is never scheduled.
+const DEMAND_ENERGY: Record<TaskDemand, string[]> = {
+  deep: ["peak", "dip"],
+  standard: ["peak", "dip", "groggy"],
+  routine: ["dip", "groggy", "wind_down", "peak"],
+  light: ["groggy", "dip", "wind_down", "peak"],
+  wrap_up: ["wind_down", "dip", "groggy"],
+};
+
+const DEMAND_ORDER: TaskDemand[] = [
+  "deep",
+  "standard",
+  "routine",
+  "light",
+  "wrap_up",
+];
+
+const DEMAND_LABELS: Record<TaskDemand, string> = {
+  deep: "Deep work",
+  standard: "Focused work",
+  routine: "Routine work",
+  light: "Light work",
+  wrap_up: "Wrap-up work",
+};
+
+// Task type / title keywords for each demand, checked in this order
+const DEMAND_KEYWORDS: Array<[TaskDemand, string[]]> = [
+  ["deep", ["development", "design", "discovery", "strategy", "research"]],
+  ["routine", ["communication", "email", "admin", "meeting", "financial"]],
+  ["light", ["review", "planning"]],
+  ["wrap_up", ["documentation", "reflection", "wrap-up"]],
+];
+
+const NEVER_SCHEDULED = ["melatonin"];
+
+interface Slot extends TimeInterval {
+  category: string | null;
+  label: string | null;
+}
+
+// ============================================================================
+// Task Rules
+// ============================================================================
+
+/**
+ * Minutes in a Time Estimates value ("30 min", "1.5 hours", "Half day");
+ * null when it can't be read
+ */
+export function parseTimeEstimate(
+  value: string | null | undefined
+): number | null {
+  if (!value) return null;
+  const text = value.toLowerCase();
+  if (/half\s*(a\s*)?day/.test(text)) return 240;
+
+  const match = text.match(
+    /(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?)\b/
+  );
+  if (!match) return null;
+
+  const amount = Number(match[1]);
+  const unit = match[2][0];
+  const minutes = unit === "d" ? amount * 480 : unit === "h" ? amount * 60 : amount;
+  return minutes > 0 ? Math.round(minutes) : null;
+}
+
+/**
+ * How demanding a task is: task types first, then title keywords, then
+ * priority (high → deep, low → routine)
+ */
+export function classifyTaskDemand(task: DayPlanTask): TaskDemand {
+  const types = (task.taskType ?? []).join(" ").toLowerCase();
+  const title = task.title.toLowerCase();
+
+  for (const source of [types, title]) {
+    for (const [demand, keywords] of DEMAND_KEYWORDS) {
+      if (keywords.some((keyword) => source.includes(keyword))) return demand;
+    }
+  }
+
+  const rank = PRIORITY_RANK[task.priority?.toLowerCase() ?? ""];
+  if (rank >= PRIORITY_RANK.high) return "deep";
+  if (rank <= PRIORITY_RANK.low) return "routine";
+  return "standard";
+}
+
+/**
+ * Energy categories a task may be scheduled into, best first
+ */
+export function preferredEnergy(task: DayPlanTask): string[] {
+  return DEMAND_ENERGY[classifyTaskDemand(task)];
+}
+
+// ============================================================================
+// Intervals
+// ============================================================================
+
+function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const merged: TimeInterval[] = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+function energyAt(
+  instant: number,
+  energy: EnergyWindow[]
+): EnergyWindow | undefined {
+  return energy.find(
+    (segment) => segment.start <= instant && instant < segment.end
+  );
+}
+
+/**
+ * Free intervals cut at energy segment boundaries, each tagged with the
+ * segment it falls in
+ */
+function splitByEnergy(free: TimeInterval[], energy: EnergyWindow[]): Slot[] {
+  const cuts = [
+    ...new Set(energy.flatMap((segment) => [segment.start, segment.end])),
+  ].sort((a, b) => a - b);
+
+  return free.flatMap((interval) => {
+    const points = [
+      interval.start,
+      ...cuts.filter((cut) => cut > interval.start && cut < interval.end),
+      interval.end,
+    ];
+    return points.slice(0, -1).map((start, index) => {
+      const segment = energyAt(start, energy);
+      return {
+        start,
+        end: points[index + 1],
+        category: segment?.category ?? null,
+        label: segment?.label ?? null,
+      };
+    });
+  });
+}
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+/**
+ * Time-block a day
+ *
+ * Tasks are taken in priority order (then due date, then most demanding)
+ * and each goes to the open window whose energy suits it best, earliest
+ * first: deep work to peak, routine and communication to dip, review and
+ * planning to groggy, wrap-up to wind-down, and never into melatonin.
+ * Meetings keep a buffer on both sides, and a break is inserted once
+ * back-to-back task time would pass maxFocusMinutes. Tasks are not split;
+ * anything that doesn't fit is returned with the reason.
+ */
+export function buildDayPlan(options: DayPlanOptions): DayPlan {
+  const {
+    date,
+    timeZone,
+    tasks,
+    meetings,
+    energy = [],
+    workStart = "09:00",
+    workEnd = "18:00",
+    bufferMinutes = 10,
+    maxFocusMinutes = 90,
+    breakMinutes = 15,
+    defaultTaskMinutes = 60,
+  } = options;
+
+  const dayStart = zonedTimeToUtc(date, workStart, timeZone);
+  const dayEnd = zonedTimeToUtc(date, workEnd, timeZone);
+  if (dayEnd <= dayStart) {
+    throw new Error(`workEnd (${workEnd}) must be after workStart (${workStart})`);
+  }
+  const open = Math.max(dayStart, options.notBefore ?? dayStart);
+
+  const iso = (instant: number) => toZonedIso(instant, timeZone);
+  const blocks: DayPlanBlock[] = [];
+  const block = (
+    interval: TimeInterval,
+    fields: Omit<DayPlanBlock, "start" | "end" | "minutes" | "energyCategory" | "energyLabel">
+  ) => {
+    const segment = energyAt(interval.start, energy);
+    blocks.push({
+      start: iso(interval.start),
+      end: iso(interval.end),
+      minutes: Math.round((interval.end - interval.start) / MINUTE_MS),
+      energyCategory: segment?.category ?? null,
+      energyLabel: segment?.label ?? null,
+      ...fields,
+    });
+  };
+
+  // Meetings and the buffers around them
+  const padded = meetings.map((meeting) => ({
+    start: meeting.start - bufferMinutes * MINUTE_MS,
+    end: meeting.end + bufferMinutes * MINUTE_MS,
+  }));
+  for (const meeting of meetings) {
+    block(meeting, {
+      kind: "meeting",
+      title: meeting.title,
+      meetingId: meeting.meetingId,
+      reason: "Fixed meeting",
+    });
+  }
+  const buffers = subtractIntervals(mergeIntervals(padded), meetings)
+    .map((interval) => ({
+      start: Math.max(interval.start, dayStart),
+      end: Math.min(interval.end, dayEnd),
+    }))
+    .filter((interval) => interval.end > interval.start);
+  for (const buffer of buffers) {
+    block(buffer, {
+      kind: "buffer",
+      title: "Buffer",
+      reason: `${bufferMinutes} min kept clear around meetings`,
+    });
+  }
+
+  const avoided = energy.filter((segment) =>
+    NEVER_SCHEDULED.includes(segment.category)
+  );
+  const free =
+    open < dayEnd
+      ? subtractIntervals([{ start: open, end: dayEnd }], [...padded, ...avoided])
+      : [];
+  const slots = splitByEnergy(free, energy);
+
+  // Placed task blocks by end instant, to measure runs of focus
+  const taskEnds = new Map<number, TimeInterval>();
+  const focusRunEndingAt = (instant: number) => {
+    let total = 0;
+    for (let run = taskEnds.get(instant); run; run = taskEnds.get(run.start)) {
+      total += run.end - run.start;
+    }
+    return total;
+  };
+
+  const queue = tasks
+    .map((task, index) => {
+      const demand = classifyTaskDemand(task);
+      return {
+        task,
+        index,
+        demand,
+        rank: PRIORITY_RANK[task.priority?.toLowerCase() ?? ""] ?? 2,
+        minutes:
+          task.estimateMinutes ??
+          parseTimeEstimate(task.timeEstimate) ??
+          defaultTaskMinutes,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.rank - a.rank ||
+        (a.task.dueDate ?? "9999").localeCompare(b.task.dueDate ?? "9999") ||
+        DEMAND_ORDER.indexOf(a.demand) - DEMAND_ORDER.indexOf(b.demand) ||
+        a.index - b.index
+    );
+
+  const unscheduled: UnscheduledTask[] = [];
+  let scheduledMs = 0;
+
+  for (const { task, demand, minutes } of queue) {
+    const allowed = DEMAND_ENERGY[demand];
+    const duration = minutes * MINUTE_MS;
+    let best: { slot: Slot; start: number; fit: number } | null = null;
+
+    for (const slot of slots) {
+      const fit =
+        slot.category === null
+          ? allowed.length
+          : allowed.indexOf(slot.category);
+      if (fit < 0) continue;
+
+      const run = focusRunEndingAt(slot.start);
+      const start =
+        run > 0 && run + duration > maxFocusMinutes * MINUTE_MS
+          ? slot.start + breakMinutes * MINUTE_MS
+          : slot.start;
+      if (start + duration > slot.end) continue;
+
+      if (!best || fit < best.fit || (fit === best.fit && start < best.start)) {
+        best = { slot, start, fit };
+      }
+    }
+
+    if (!best) {
+      unscheduled.push({
+        task,
+        minutes,
+        reason: unscheduledReason(minutes, demand, slots),
+      });
+      continue;
+    }
+
+    const { slot, start, fit } = best;
+    if (start > slot.start) {
+      block(
+        { start: slot.start, end: start },
+        {
+          kind: "break",
+          title: "Break",
+          reason: `After ${Math.round(focusRunEndingAt(slot.start) / MINUTE_MS)} min of focus`,
+        }
+      );
+    }
+
+    const interval = { start, end: start + duration };
+    const where = slot.label
+      ? `${slot.label} (${slot.category})`
+      : slot.category;
+    const reason = !slot.category
+      ? `${DEMAND_LABELS[demand]}; ${energy.length > 0 ? "outside the energy segments" : "no energy data for the day"}`
+      : fit > 0
+        ? `${DEMAND_LABELS[demand]} in ${where}; no ${allowed.slice(0, fit).join("/")} window long enough`
+        : `${DEMAND_LABELS[demand]} in ${where}`;
+
+    block(interval, {
+      kind: "task",
+      title: task.title,
+      taskId: task.taskId,
+      priority: task.priority ?? null,
+      projectName: task.projectName ?? null,
+      reason,
+    });
+    taskEnds.set(interval.end, interval);
+    scheduledMs += duration;
+    slot.start = interval.end;
+  }
+
+  return {
+    date,
+    timeZone,
+    workStart,
+    workEnd,
+    blocks: blocks.sort((a, b) => a.start.localeCompare(b.start)),
+    unscheduled,
+    scheduledMinutes: Math.round(scheduledMs / MINUTE_MS),
+    freeMinutes: Math.round(
+      slots.reduce((total, slot) => total + (slot.end - slot.start), 0) /
+        MINUTE_MS
+    ),
+  };
+}
+
+/**
+ * Why a task found no window: wrong energy, too long, or no time left
+ */
+function unscheduledReason(
+  minutes: number,
+  demand: TaskDemand,
+  slots: Slot[]
+): string {
+  const allowed = DEMAND_ENERGY[demand];
+  const length = (slot: Slot) => Math.round((slot.end - slot.start) / MINUTE_MS);
+  const suitable = slots.filter(
+    (slot) => slot.category === null || allowed.includes(slot.category)
+  );
+  const longest = Math.max(0, ...suitable.map(length));
+
+  if (slots.every((slot) => length(slot) < 1)) {
+    return "No open time left in working hours";
+  }
+  if (longest < minutes && slots.some((slot) => length(slot) >= minutes)) {
+    const other = [
+      ...new Set(
+        slots
+          .filter((slot) => length(slot) >= minutes && !suitable.includes(slot))
+          .map((slot) => slot.category)
+      ),
+    ];
+    return `${DEMAND_LABELS[demand]} needs ${allowed.join("/")} time; only ${other.join("/")} windows are long enough`;
+  }
+  return `Needs ${minutes} min; the longest suitable open window is ${longest} min`;
+}
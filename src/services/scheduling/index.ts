@@ -0,0 +1,79 @@
+/**
+ * Scheduling Service
+ * Calendar math on top of the Notion meetings database and energy segments
+ */
+
+export {
+  timeZoneOffsetMs,
+  zonedTimeToUtc,
+  parseEventTime,
+  toZonedIso,
+  zonedDate,
+  zonedDayBounds,
+  addDays,
+  eachDate,
+} from "./time.js";
+
+export {
+  subtractIntervals,
+  meetingInterval,
+  getBusyIntervals,
+  findMeetingConflicts,
+  findSeriesConflicts,
+  findFreeSlots,
+} from "./slots.js";
+
+export {
+  parseTimeEstimate,
+  classifyTaskDemand,
+  preferredEnergy,
+  buildDayPlan,
+} from "./dayPlan.js";
+
+export {
+  parseRRule,
+  validateRule,
+  formatRRule,
+  describeRule,
+  formatSeriesDefinition,
+  parseSeriesDefinition,
+  expandSeries,
+} from "./recurrence.js";
+
+export {
+  DEFAULT_SERIES_HORIZON_DAYS,
+  describeSeries,
+  buildSeriesDefinition,
+  createMeetingSeries,
+  extendMeetingSeries,
+  projectSeriesMeetings,
+  updateMeetingSeries,
+  cancelMeetingSeries,
+  skipSeriesOccurrence,
+} from "./series.js";
+
+export type {
+  TimeInterval,
+  BusyInterval,
+  EnergyWindow,
+  MeetingConflict,
+  SlotPurpose,
+  FreeSlotOptions,
+  FreeSlot,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesDefinition,
+  SeriesOccurrence,
+  CreateMeetingSeriesInput,
+  UpdateMeetingSeriesInput,
+  SeriesOccurrenceOutcome,
+  SeriesOccurrenceResult,
+  MeetingSeriesResult,
+  TaskDemand,
+  DayPlanTask,
+  DayPlanOptions,
+  DayPlanBlockKind,
+  DayPlanBlock,
+  UnscheduledTask,
+  DayPlan,
+} from "./types.js";
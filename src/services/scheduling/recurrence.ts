@@ -0,0 +1,377 @@
+import { zonedTimeToUtc, toZonedIso, addDays } from "./time.js";
+import type {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesDefinition,
+  SeriesOccurrence,
+} from "./types.js";
+
+/**
+ * Recurrence
+ * RRULE (RFC 5545) subset for meeting series: DAILY, WEEKLY and MONTHLY
+ * with INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL, plus EXDATE
+ * exceptions. Occurrences are expanded in wall-clock time, so a 9:30
+ * standup stays at 9:30 across DST changes.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ORDINALS = ["", "1st", "2nd", "3rd", "4th", "5th"];
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+
+// Stops runaway expansion of rules without COUNT/UNTIL
+const MAX_PERIODS = 5000;
+
+const BY_DAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function expandDate(value: string): string {
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10")
+ * UNTIL is read as a local date; throws on unsupported parts.
+ */
+export function parseRRule(value: string, timeZone: string): RecurrenceRule {
+  const parts = Object.fromEntries(
+    value
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .filter(Boolean)
+      .map((part) => {
+        const [key, ...rest] = part.split("=");
+        return [key.toUpperCase(), rest.join("=").toUpperCase()];
+      })
+  );
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(
+      `Unsupported FREQ "${parts.FREQ ?? ""}"; use ${FREQUENCIES.join(", ")}`
+    );
+  }
+
+  const rule: RecurrenceRule = { freq };
+
+  if (parts.INTERVAL) rule.interval = Number(parts.INTERVAL);
+  if (parts.BYDAY) rule.byDay = parts.BYDAY.split(",");
+  if (parts.BYMONTHDAY) {
+    rule.byMonthDay = parts.BYMONTHDAY.split(",").map(Number);
+  }
+  if (parts.COUNT) rule.count = Number(parts.COUNT);
+  if (parts.UNTIL) {
+    const until = parts.UNTIL.match(/^(\d{8})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!until) throw new Error(`Invalid UNTIL "${parts.UNTIL}"`);
+    rule.until = until[5]
+      ? toZonedIso(
+          Date.parse(
+            `${expandDate(until[1])}T${until[2]}:${until[3]}:${until[4]}Z`
+          ),
+          timeZone
+        ).slice(0, 10)
+      : expandDate(until[1]);
+  }
+
+  validateRule(rule);
+  return rule;
+}
+
+/**
+ * Throw when a rule can't be expanded
+ */
+export function validateRule(rule: RecurrenceRule): void {
+  if (!FREQUENCIES.includes(rule.freq)) {
+    throw new Error(`Unsupported frequency "${rule.freq}"`);
+  }
+  if (rule.interval !== undefined && !(rule.interval >= 1)) {
+    throw new Error("INTERVAL must be 1 or more");
+  }
+  if (rule.count !== undefined && !(rule.count >= 1)) {
+    throw new Error("COUNT must be 1 or more");
+  }
+  if (rule.count !== undefined && rule.until) {
+    throw new Error("Use COUNT or UNTIL, not both");
+  }
+  for (const day of rule.byDay ?? []) {
+    const match = day.match(BY_DAY_PATTERN);
+    if (!match) throw new Error(`Invalid BYDAY value "${day}"`);
+    if (match[1] && rule.freq !== "MONTHLY") {
+      throw new Error(`BYDAY ordinals like "${day}" need FREQ=MONTHLY`);
+    }
+  }
+  for (const day of rule.byMonthDay ?? []) {
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+      throw new Error(`Invalid BYMONTHDAY value "${day}"`);
+    }
+  }
+}
+
+/**
+ * RRULE value for a rule; UNTIL is written as the end of that local day
+ * in UTC, as RFC 5545 requires for timed series
+ */
+export function formatRRule(rule: RecurrenceRule, timeZone: string): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const endOfDay = zonedTimeToUtc(rule.until, "23:59", timeZone) + 59 * 1000;
+    const stamp = new Date(endOfDay).toISOString().replace(/[-:]/g, "");
+    parts.push(`UNTIL=${stamp.slice(0, 15)}Z`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Plain-English summary ("Every 2 weeks on Mon, Wed until 2025-06-30")
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const interval = rule.interval ?? 1;
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  let text =
+    interval === 1
+      ? { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly" }[rule.freq]
+      : `Every ${interval} ${unit}s`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((day) => {
+      const [, ordinal, code] = day.match(BY_DAY_PATTERN) ?? [];
+      const name = WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(code)];
+      if (!ordinal) return name;
+      const n = Number(ordinal);
+      return n < 0 ? `last ${name}` : `${ORDINALS[n] ?? `${n}th`} ${name}`;
+    });
+    text += ` on ${days.join(", ")}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay
+      .map((day) => (day === -1 ? "last" : String(day)))
+      .join(", ")}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += ` until ${rule.until}`;
+  return text;
+}
+
+// ============================================================================
+// Series Definitions
+// ============================================================================
+
+/**
+ * Serialize a series as ICS lines (DTSTART, DURATION, RRULE, EXDATE); this
+ * text is stored on every occurrence's Recurrence property
+ */
+export function formatSeriesDefinition(series: SeriesDefinition): string {
+  const [date, time] = series.start.split("T");
+  const dtstart = `${compactDate(date)}T${time.replace(":", "").slice(0, 4)}00`;
+  const lines = [`DTSTART;TZID=${series.timeZone}:${dtstart}`];
+
+  if (series.durationMinutes) {
+    lines.push(`DURATION:PT${series.durationMinutes}M`);
+  }
+  lines.push(`RRULE:${formatRRule(series.rule, series.timeZone)}`);
+  if (series.exceptions.length > 0) {
+    const dates = [...new Set(series.exceptions)].sort().map(compactDate);
+    lines.push(`EXDATE;VALUE=DATE:${dates.join(",")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Read a series back from its Recurrence text
+ */
+export function parseSeriesDefinition(text: string): SeriesDefinition {
+  let start: string | null = null;
+  let timeZone: string | null = null;
+  let durationMinutes: number | null = null;
+  let rrule: string | null = null;
+  const exceptions: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+    if (!match) continue;
+    const [, name, params, value] = match;
+
+    if (name === "DTSTART") {
+      timeZone = params.match(/TZID=([^;]+)/)?.[1] ?? null;
+      const parts = value.match(/^(\d{8})T(\d{2})(\d{2})/);
+      if (parts) start = `${expandDate(parts[1])}T${parts[2]}:${parts[3]}`;
+    } else if (name === "DURATION") {
+      const parts = value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+      if (parts) {
+        durationMinutes = Number(parts[1] ?? 0) * 60 + Number(parts[2] ?? 0);
+      }
+    } else if (name === "RRULE") {
+      rrule = value;
+    } else if (name === "EXDATE") {
+      exceptions.push(
+        ...value.split(",").map((date) => expandDate(date.slice(0, 8)))
+      );
+    }
+  }
+
+  if (!start || !timeZone || !rrule) {
+    throw new Error("Recurrence is missing DTSTART;TZID or RRULE");
+  }
+
+  return {
+    start,
+    timeZone,
+    durationMinutes: durationMinutes || null,
+    rule: parseRRule(rrule, timeZone),
+    exceptions,
+  };
+}
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Days of a month matching BYMONTHDAY / BYDAY (with ordinals), or the
+ * series' own day of month
+ */
+function monthDays(
+  year: number,
+  month: number,
+  rule: RecurrenceRule,
+  startDay: number
+): number[] {
+  const length = daysInMonth(year, month);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const dateOf = (day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+  if (rule.byMonthDay?.length) {
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length);
+  }
+
+  if (rule.byDay?.length) {
+    const days: number[] = [];
+    for (const entry of rule.byDay) {
+      const [, ordinal, code] = entry.match(BY_DAY_PATTERN) ?? [];
+      const target = WEEKDAY_CODES.indexOf(code);
+      const matching: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (weekday(dateOf(day)) === target) matching.push(day);
+      }
+      if (!ordinal) {
+        days.push(...matching);
+      } else {
+        const n = Number(ordinal);
+        const day = n > 0 ? matching[n - 1] : matching[matching.length + n];
+        if (day) days.push(day);
+      }
+    }
+    return days;
+  }
+
+  // Months without the start's day (the 31st) are skipped, per RFC 5545
+  return startDay <= length ? [startDay] : [];
+}
+
+/**
+ * Candidate dates of one period (day, week or month) of a rule
+ */
+function periodDates(series: SeriesDefinition, period: number): string[] {
+  const { rule } = series;
+  const interval = rule.interval ?? 1;
+  const startDate = series.start.slice(0, 10);
+
+  if (rule.freq === "DAILY") {
+    const date = addDays(startDate, period * interval);
+    const codes = rule.byDay;
+    return !codes?.length || codes.includes(WEEKDAY_CODES[weekday(date)])
+      ? [date]
+      : [];
+  }
+
+  if (rule.freq === "WEEKLY") {
+    // Weeks start on Monday (WKST=MO)
+    const monday = addDays(startDate, -((weekday(startDate) + 6) % 7));
+    const weekStart = addDays(monday, period * interval * 7);
+    const codes = rule.byDay?.length
+      ? rule.byDay
+      : [WEEKDAY_CODES[weekday(startDate)]];
+    return codes
+      .map((code) => addDays(weekStart, (WEEKDAY_CODES.indexOf(code) + 6) % 7))
+      .sort();
+  }
+
+  const [year, month, day] = startDate.split("-").map(Number);
+  const monthIndex = month - 1 + period * interval;
+  const targetYear = year + Math.floor(monthIndex / 12);
+  const targetMonth = (monthIndex % 12) + 1;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return [...new Set(monthDays(targetYear, targetMonth, rule, day))]
+    .sort((a, b) => a - b)
+    .map((d) => `${targetYear}-${pad(targetMonth)}-${pad(d)}`);
+}
+
+/**
+ * Occurrences of a series that start between two dates (inclusive, local)
+ * COUNT counts from the first occurrence, including excepted dates.
+ */
+export function expandSeries(
+  series: SeriesDefinition,
+  fromDate: string,
+  toDate: string
+): SeriesOccurrence[] {
+  const { rule, timeZone } = series;
+  const startDate = series.start.slice(0, 10);
+  const time = series.start.slice(11, 16);
+  const exceptions = new Set(series.exceptions);
+  const occurrences: SeriesOccurrence[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const dates = periodDates(series, period).filter(
+      (date) => date >= startDate
+    );
+    if (dates.length > 0 && dates[0] > toDate) break;
+
+    for (const date of dates) {
+      if (rule.until && date > rule.until) return occurrences;
+      if (rule.count && generated >= rule.count) return occurrences;
+      generated++;
+
+      if (date < fromDate || date > toDate || exceptions.has(date)) continue;
+
+      const start = zonedTimeToUtc(date, time, timeZone);
+      occurrences.push({
+        date,
+        start: toZonedIso(start, timeZone),
+        end: series.durationMinutes
+          ? toZonedIso(start + series.durationMinutes * MINUTE_MS, timeZone)
+          : null,
+      });
+    }
+  }
+
+  return occurrences;
+}
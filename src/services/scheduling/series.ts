@@ -0,0 +1,578 @@
+import { randomUUID } from "node:crypto";
+import {
+  createMeeting,
+  updateMeeting,
+  cancelMeeting,
+  getMeeting,
+  queryMeetingSeries,
+  type MeetingResponse,
+  type UpdateMeetingInput,
+} from "../notion/index.js";
+import { parseEventTime, toZonedIso, zonedDate, addDays } from "./time.js";
+import {
+  parseRRule,
+  describeRule,
+  formatSeriesDefinition,
+  parseSeriesDefinition,
+  expandSeries,
+} from "./recurrence.js";
+import type {
+  SeriesDefinition,
+  SeriesOccurrence,
+  SeriesOccurrenceResult,
+  CreateMeetingSeriesInput,
+  UpdateMeetingSeriesInput,
+  MeetingSeriesResult,
+} from "./types.js";
+
+/**
+ * Meeting Series
+ * Recurring meetings are stored as one Notion page per occurrence, sharing
+ * a Series ID. Occurrences are materialized a rolling horizon ahead; the
+ * series definition (Recurrence property) is read from the latest one.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+// How far ahead occurrences are created
+export const DEFAULT_SERIES_HORIZON_DAYS = 28;
+
+// How far to look for a first occurrence that falls past the horizon
+const FIRST_OCCURRENCE_SEARCH_DAYS = 366;
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Local date of a meeting in the series' time zone
+ */
+function occurrenceDate(meeting: MeetingResponse, timeZone: string): string {
+  if (!meeting.eventTime) return meeting.createdTime.slice(0, 10);
+  const start = parseEventTime(meeting.eventTime, timeZone);
+  return start === null
+    ? meeting.eventTime.slice(0, 10)
+    : zonedDate(start, timeZone);
+}
+
+function sameEventTime(
+  a: string | null,
+  b: string | null,
+  timeZone: string
+): boolean {
+  if (!a || !b) return !a && !b;
+  return parseEventTime(a, timeZone) === parseEventTime(b, timeZone);
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+function today(timeZone: string): string {
+  return zonedDate(Date.now(), timeZone);
+}
+
+function seriesResult(
+  seriesId: string,
+  title: string,
+  series: SeriesDefinition,
+  horizonDate: string,
+  occurrences: SeriesOccurrenceResult[]
+): MeetingSeriesResult {
+  return {
+    seriesId,
+    title,
+    description: describeRule(series.rule),
+    recurrence: formatSeriesDefinition(series),
+    horizonDate,
+    occurrences,
+  };
+}
+
+/**
+ * Occurrences of a series with their local dates, oldest first; throws
+ * when the series has no pages or its definition can't be read
+ */
+async function loadSeries(seriesId: string): Promise<{
+  latest: MeetingResponse;
+  series: SeriesDefinition;
+  occurrences: { meeting: MeetingResponse; date: string }[];
+}> {
+  const meetings = await queryMeetingSeries(seriesId);
+  const latest = meetings[meetings.length - 1];
+  if (!latest) throw new Error(`No meetings found for series ${seriesId}`);
+  if (!latest.recurrence) {
+    throw new Error(`Series ${seriesId} has no Recurrence definition`);
+  }
+
+  const series = parseSeriesDefinition(latest.recurrence);
+  return {
+    latest,
+    series,
+    occurrences: meetings.map((meeting) => ({
+      meeting,
+      date: occurrenceDate(meeting, series.timeZone),
+    })),
+  };
+}
+
+/**
+ * Human-readable rule for a meeting's Recurrence text; null when the
+ * meeting is not part of a series or the text can't be read
+ */
+export function describeSeries(recurrence: string | null): string | null {
+  if (!recurrence) return null;
+  try {
+    return describeRule(parseSeriesDefinition(recurrence).rule);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Create and Extend
+// ============================================================================
+
+/**
+ * Series definition for a first occurrence and an RRULE; the start is
+ * stored as wall-clock time in the given zone
+ */
+export function buildSeriesDefinition(
+  input: Pick<
+    CreateMeetingSeriesInput,
+    "eventTime" | "eventTimeEnd" | "rrule" | "exceptions"
+  >,
+  timeZone: string
+): SeriesDefinition {
+  const start = parseEventTime(input.eventTime, timeZone);
+  if (start === null) {
+    throw new Error("Recurring meetings need a start time, not just a date");
+  }
+  const end = input.eventTimeEnd
+    ? parseEventTime(input.eventTimeEnd, timeZone)
+    : null;
+
+  return {
+    start: toZonedIso(start, timeZone).slice(0, 16),
+    timeZone,
+    durationMinutes:
+      end !== null && end > start ? Math.round((end - start) / MINUTE_MS) : null,
+    rule: parseRRule(input.rrule, timeZone),
+    exceptions: input.exceptions ?? [],
+  };
+}
+
+/**
+ * Create a recurring meeting: one page per occurrence through the horizon
+ * (at least the first occurrence), all sharing a Series ID. Occurrences
+ * start at the series start, or at fromDate when that is later (an
+ * imported series that began long ago). With dryRun the occurrences are
+ * only planned.
+ */
+export async function createMeetingSeries(
+  input: CreateMeetingSeriesInput,
+  options: {
+    timeZone: string;
+    horizonDays?: number;
+    fromDate?: string;
+    dryRun?: boolean;
+  }
+): Promise<MeetingSeriesResult> {
+  const {
+    timeZone,
+    horizonDays = DEFAULT_SERIES_HORIZON_DAYS,
+    dryRun = false,
+  } = options;
+  const series = buildSeriesDefinition(input, timeZone);
+  const startDate = series.start.slice(0, 10);
+  const firstDate =
+    options.fromDate && options.fromDate > startDate
+      ? options.fromDate
+      : startDate;
+  const from = firstDate > today(timeZone) ? firstDate : today(timeZone);
+
+  let horizonDate = addDays(from, horizonDays);
+  let planned = expandSeries(series, firstDate, horizonDate);
+  if (planned.length === 0) {
+    planned = expandSeries(
+      series,
+      firstDate,
+      addDays(firstDate, FIRST_OCCURRENCE_SEARCH_DAYS)
+    ).slice(0, 1);
+    if (planned.length === 0) {
+      throw new Error("The recurrence rule produces no occurrences");
+    }
+    horizonDate = planned[0].date;
+  }
+
+  const seriesId = input.seriesId ?? randomUUID();
+  const recurrence = formatSeriesDefinition(series);
+  const occurrences: SeriesOccurrenceResult[] = [];
+
+  for (const occurrence of planned) {
+    const page = dryRun
+      ? null
+      : await createMeeting({
+          title: input.title,
+          eventTime: occurrence.start,
+          eventTimeEnd: occurrence.end ?? undefined,
+          attendeeIds: input.attendeeIds,
+          seriesId,
+          recurrence,
+        });
+    occurrences.push({
+      ...occurrence,
+      outcome: page ? "created" : "planned",
+      meetingId: page?.pageId ?? null,
+      url: page?.url ?? null,
+    });
+  }
+
+  return seriesResult(seriesId, input.title, series, horizonDate, occurrences);
+}
+
+/**
+ * Latest page of every series (or one), keyed by series ID
+ */
+async function latestSeriesPages(
+  seriesId?: string
+): Promise<Map<string, MeetingResponse>> {
+  const bySeries = new Map<string, MeetingResponse>();
+  for (const meeting of await queryMeetingSeries(seriesId)) {
+    // Oldest first, so the last one kept per series is its latest
+    bySeries.set(meeting.seriesId as string, meeting);
+  }
+  return bySeries;
+}
+
+/**
+ * Roll series forward: create the occurrences between each series' latest
+ * page and the horizon. throughDate can't reach past today plus
+ * DEFAULT_SERIES_HORIZON_DAYS. Series that are already materialized far
+ * enough are left out of the result.
+ */
+export async function extendMeetingSeries(
+  options: { seriesId?: string; horizonDays?: number; throughDate?: string } = {}
+): Promise<MeetingSeriesResult[]> {
+  const { horizonDays = DEFAULT_SERIES_HORIZON_DAYS, throughDate } = options;
+
+  const results: MeetingSeriesResult[] = [];
+  for (const [seriesId, latest] of await latestSeriesPages(options.seriesId)) {
+    if (!latest.recurrence) continue;
+
+    const series = parseSeriesDefinition(latest.recurrence);
+    const defaultHorizon = addDays(today(series.timeZone), horizonDays);
+    const maxHorizon = addDays(
+      today(series.timeZone),
+      DEFAULT_SERIES_HORIZON_DAYS
+    );
+    const requested =
+      throughDate && throughDate > defaultHorizon ? throughDate : defaultHorizon;
+    const horizonDate = requested < maxHorizon ? requested : maxHorizon;
+    const missing = expandSeries(
+      series,
+      addDays(occurrenceDate(latest, series.timeZone), 1),
+      horizonDate
+    );
+    if (missing.length === 0) continue;
+
+    const occurrences: SeriesOccurrenceResult[] = [];
+    for (const occurrence of missing) {
+      const page = await createMeeting({
+        title: latest.title,
+        eventTime: occurrence.start,
+        eventTimeEnd: occurrence.end ?? undefined,
+        attendeeIds: latest.attendeeIds,
+        seriesId,
+        recurrence: latest.recurrence,
+      });
+      occurrences.push({
+        ...occurrence,
+        outcome: "created",
+        meetingId: page.pageId,
+        url: page.url,
+      });
+    }
+
+    results.push(
+      seriesResult(seriesId, latest.title, series, horizonDate, occurrences)
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Occurrences between two dates (inclusive, local) that no page exists for
+ * yet, expanded in memory from each series' latest page. Nothing is
+ * written: calendar readers merge these with the pages they query. Each
+ * carries the page ID, URL and attendees of its series' latest page.
+ */
+export async function projectSeriesMeetings(
+  startDate: string,
+  endDate: string
+): Promise<MeetingResponse[]> {
+  const projected: MeetingResponse[] = [];
+
+  for (const latest of (await latestSeriesPages()).values()) {
+    if (!latest.recurrence) continue;
+
+    let series: SeriesDefinition;
+    try {
+      series = parseSeriesDefinition(latest.recurrence);
+    } catch {
+      continue;
+    }
+    const nextDate = addDays(occurrenceDate(latest, series.timeZone), 1);
+    const fromDate = nextDate > startDate ? nextDate : startDate;
+    if (fromDate > endDate) continue;
+
+    for (const occurrence of expandSeries(series, fromDate, endDate)) {
+      projected.push({
+        ...latest,
+        eventTime: occurrence.start,
+        eventTimeEnd: occurrence.end,
+      });
+    }
+  }
+
+  return projected.sort((a, b) =>
+    (a.eventTime as string).localeCompare(b.eventTime as string)
+  );
+}
+
+// ============================================================================
+// Edit and Cancel
+// ============================================================================
+
+/**
+ * Apply series-wide changes to every occurrence on or after fromDate
+ * (default today); earlier occurrences keep their history.
+ *
+ * Occurrences are matched to the updated rule by date: matches are
+ * updated in place, dates the rule no longer produces are canceled and
+ * new dates are created. A replacement RRULE's COUNT still counts from
+ * the first occurrence of the series.
+ */
+export async function updateMeetingSeries(
+  seriesId: string,
+  changes: UpdateMeetingSeriesInput,
+  options: { fromDate?: string; horizonDays?: number; reason?: string } = {}
+): Promise<MeetingSeriesResult> {
+  const { latest, series: current, occurrences } = await loadSeries(seriesId);
+  const { timeZone } = current;
+  const {
+    fromDate = today(timeZone),
+    horizonDays = DEFAULT_SERIES_HORIZON_DAYS,
+    reason,
+  } = options;
+
+  if (changes.startTime && !TIME_PATTERN.test(changes.startTime)) {
+    throw new Error(`Invalid startTime "${changes.startTime}"; use HH:MM`);
+  }
+  if (changes.durationMinutes !== undefined && !(changes.durationMinutes > 0)) {
+    throw new Error("durationMinutes must be more than 0");
+  }
+
+  const series: SeriesDefinition = {
+    ...current,
+    start: changes.startTime
+      ? `${current.start.slice(0, 10)}T${changes.startTime}`
+      : current.start,
+    durationMinutes: changes.durationMinutes ?? current.durationMinutes,
+    rule: changes.rrule ? parseRRule(changes.rrule, timeZone) : current.rule,
+    exceptions: [
+      ...new Set([...current.exceptions, ...(changes.exceptions ?? [])]),
+    ].sort(),
+  };
+  const recurrence = formatSeriesDefinition(series);
+  const title = changes.title ?? latest.title;
+  const attendeeIds = changes.attendeeIds ?? latest.attendeeIds;
+
+  const lastDate = occurrences[occurrences.length - 1].date;
+  const rollingDate = addDays(today(timeZone), horizonDays);
+  const horizonDate = lastDate > rollingDate ? lastDate : rollingDate;
+
+  const existing = new Map(
+    occurrences
+      .filter((occurrence) => occurrence.date >= fromDate)
+      .map((occurrence) => [occurrence.date, occurrence.meeting])
+  );
+  const results: SeriesOccurrenceResult[] = [];
+
+  for (const occurrence of expandSeries(series, fromDate, horizonDate)) {
+    const meeting = existing.get(occurrence.date);
+    existing.delete(occurrence.date);
+
+    if (!meeting) {
+      const page = await createMeeting({
+        title,
+        eventTime: occurrence.start,
+        eventTimeEnd: occurrence.end ?? undefined,
+        attendeeIds,
+        seriesId,
+        recurrence,
+      });
+      results.push({
+        ...occurrence,
+        outcome: "created",
+        meetingId: page.pageId,
+        url: page.url,
+      });
+      continue;
+    }
+
+    const update: UpdateMeetingInput = { pageId: meeting.pageId };
+    if (title !== meeting.title) update.title = title;
+    if (!sameIds(attendeeIds, meeting.attendeeIds)) {
+      update.attendeeIds = attendeeIds;
+    }
+    if (
+      !sameEventTime(occurrence.start, meeting.eventTime, timeZone) ||
+      !sameEventTime(occurrence.end, meeting.eventTimeEnd, timeZone)
+    ) {
+      update.eventTime = occurrence.start;
+      update.eventTimeEnd = occurrence.end;
+    }
+    const changed = Object.keys(update).length > 1;
+    if (recurrence !== meeting.recurrence) update.recurrence = recurrence;
+
+    if (Object.keys(update).length > 1) {
+      await updateMeeting(update, { reason });
+    }
+    results.push({
+      ...occurrence,
+      outcome: changed ? "updated" : "unchanged",
+      meetingId: meeting.pageId,
+      url: meeting.url,
+    });
+  }
+
+  for (const [date, meeting] of existing) {
+    await cancelMeeting(meeting.pageId, { reason });
+    results.push({
+      date,
+      start: meeting.eventTime ?? date,
+      end: meeting.eventTimeEnd,
+      outcome: "canceled",
+      meetingId: meeting.pageId,
+      url: meeting.url,
+    });
+  }
+
+  results.sort((a, b) => a.date.localeCompare(b.date));
+  return seriesResult(seriesId, title, series, horizonDate, results);
+}
+
+/**
+ * Cancel every occurrence on or after fromDate (default today). Earlier
+ * occurrences stay, and the series is given an UNTIL so it is not
+ * extended again.
+ */
+export async function cancelMeetingSeries(
+  seriesId: string,
+  options: { fromDate?: string; reason?: string } = {}
+): Promise<MeetingSeriesResult> {
+  const { latest, series, occurrences } = await loadSeries(seriesId);
+  const { fromDate = today(series.timeZone), reason } = options;
+
+  const results: SeriesOccurrenceResult[] = [];
+  for (const { meeting, date } of occurrences) {
+    if (date < fromDate) continue;
+    await cancelMeeting(meeting.pageId, { reason });
+    results.push({
+      date,
+      start: meeting.eventTime ?? date,
+      end: meeting.eventTimeEnd,
+      outcome: "canceled",
+      meetingId: meeting.pageId,
+      url: meeting.url,
+    });
+  }
+
+  // End the rule at the last occurrence kept; this also replaces COUNT
+  const lastKept = expandSeries(
+    series,
+    series.start.slice(0, 10),
+    addDays(fromDate, -1)
+  ).pop();
+  const ended: SeriesDefinition = {
+    ...series,
+    rule: {
+      ...series.rule,
+      count: undefined,
+      until: lastKept?.date ?? addDays(fromDate, -1),
+    },
+  };
+
+  const remaining = occurrences.filter(({ date }) => date < fromDate);
+  const newLatest = remaining[remaining.length - 1]?.meeting;
+  if (newLatest) {
+    await updateMeeting({
+      pageId: newLatest.pageId,
+      recurrence: formatSeriesDefinition(ended),
+    });
+  }
+
+  return seriesResult(
+    seriesId,
+    latest.title,
+    ended,
+    addDays(fromDate, -1),
+    results
+  );
+}
+
+/**
+ * Cancel one occurrence of a series and record its date as an exception
+ * on the occurrences still ahead, so extending the series won't bring it
+ * back
+ */
+export async function skipSeriesOccurrence(
+  meetingId: string,
+  options: { reason?: string } = {}
+): Promise<MeetingSeriesResult> {
+  const meeting = await getMeeting(meetingId);
+  if (!meeting.seriesId) {
+    throw new Error(`Meeting ${meetingId} is not part of a series`);
+  }
+
+  await cancelMeeting(meetingId, options);
+
+  const meetings = await queryMeetingSeries(meeting.seriesId);
+  const latest = meetings[meetings.length - 1] ?? meeting;
+  const definitionText = latest.recurrence ?? meeting.recurrence;
+  if (!definitionText) {
+    throw new Error(`Series ${meeting.seriesId} has no Recurrence definition`);
+  }
+
+  const current = parseSeriesDefinition(definitionText);
+  const date = occurrenceDate(meeting, current.timeZone);
+  const series: SeriesDefinition = {
+    ...current,
+    exceptions: [...new Set([...current.exceptions, date])].sort(),
+  };
+  const recurrence = formatSeriesDefinition(series);
+  const from = today(series.timeZone);
+
+  for (const [index, other] of meetings.entries()) {
+    const isLatest = index === meetings.length - 1;
+    if (!isLatest && occurrenceDate(other, series.timeZone) < from) continue;
+    if (other.recurrence === recurrence) continue;
+    await updateMeeting({ pageId: other.pageId, recurrence });
+  }
+
+  const horizonDate = occurrenceDate(latest, series.timeZone);
+  return seriesResult(meeting.seriesId, meeting.title, series, horizonDate, [
+    {
+      date,
+      start: meeting.eventTime ?? date,
+      end: meeting.eventTimeEnd,
+      outcome: "canceled",
+      meetingId: meeting.pageId,
+      url: meeting.url,
+    },
+  ]);
+}
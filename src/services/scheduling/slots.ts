@@ -0,0 +1,364 @@
+import {
+  queryMeetingsByDateRange,
+  normalizeMeetingResponse,
+  type MeetingResponse,
+} from "../notion/index.js";
+import {
+  parseEventTime,
+  toZonedIso,
+  zonedDate,
+  zonedTimeToUtc,
+  addDays,
+  eachDate,
+} from "./time.js";
+import { projectSeriesMeetings } from "./series.js";
+import type {
+  TimeInterval,
+  BusyInterval,
+  MeetingConflict,
+  FreeSlotOptions,
+  FreeSlot,
+  SeriesOccurrence,
+} from "./types.js";
+
+/**
+ * Slots
+ * Meeting conflict detection and ranked free-slot search
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+// Meetings saved without an end time are assumed to last this long
+const DEFAULT_MEETING_MINUTES = 30;
+
+// Energy segments no slot may touch
+const AVOIDED_ENERGY = ["melatonin", "wind_down"];
+
+// ============================================================================
+// Intervals
+// ============================================================================
+
+function overlapMs(a: TimeInterval, b: TimeInterval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+/**
+ * Remove every cut from the base intervals
+ */
+export function subtractIntervals(
+  base: TimeInterval[],
+  cuts: TimeInterval[]
+): TimeInterval[] {
+  let remaining = base;
+  for (const cut of cuts) {
+    remaining = remaining.flatMap((interval) => {
+      if (overlapMs(interval, cut) === 0) return [interval];
+      return [
+        { start: interval.start, end: cut.start },
+        { start: cut.end, end: interval.end },
+      ].filter((part) => part.end > part.start);
+    });
+  }
+  return remaining;
+}
+
+/**
+ * Calendar interval of a meeting; null for all-day or undated meetings
+ */
+export function meetingInterval(
+  meeting: MeetingResponse,
+  timeZone: string
+): BusyInterval | null {
+  if (!meeting.eventTime) return null;
+
+  const start = parseEventTime(meeting.eventTime, timeZone);
+  if (start === null) return null;
+
+  const end = meeting.eventTimeEnd
+    ? parseEventTime(meeting.eventTimeEnd, timeZone)
+    : null;
+
+  return {
+    meetingId: meeting.pageId,
+    title: meeting.title,
+    start,
+    end: end && end > start ? end : start + DEFAULT_MEETING_MINUTES * MINUTE_MS,
+  };
+}
+
+/**
+ * Timed meetings between two dates (inclusive, in timeZone), including
+ * series occurrences that have no page yet. Nothing is written.
+ */
+export async function getBusyIntervals(
+  startDate: string,
+  endDate: string,
+  timeZone: string
+): Promise<BusyInterval[]> {
+  // Stored dates may be in UTC, so widen the query by a day on each side
+  const [pages, projected] = await Promise.all([
+    queryMeetingsByDateRange(addDays(startDate, -1), addDays(endDate, 1)),
+    projectSeriesMeetings(startDate, endDate),
+  ]);
+
+  return [...pages.map(normalizeMeetingResponse), ...projected]
+    .map((meeting) => meetingInterval(meeting, timeZone))
+    .filter((interval): interval is BusyInterval => interval !== null);
+}
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+/**
+ * Proposed start/end as an interval; null for all-day entries
+ */
+function proposedInterval(
+  eventTime: string,
+  eventTimeEnd: string | undefined,
+  timeZone: string
+): TimeInterval | null {
+  const start = parseEventTime(eventTime, timeZone);
+  if (start === null) return null;
+
+  const parsedEnd = eventTimeEnd ? parseEventTime(eventTimeEnd, timeZone) : null;
+  return {
+    start,
+    end:
+      parsedEnd && parsedEnd > start
+        ? parsedEnd
+        : start + DEFAULT_MEETING_MINUTES * MINUTE_MS,
+  };
+}
+
+function conflictsWith(
+  busy: BusyInterval[],
+  proposed: TimeInterval,
+  timeZone: string,
+  ignoreMeetingIds: string[]
+): MeetingConflict[] {
+  return busy
+    .filter(
+      (interval) =>
+        !ignoreMeetingIds.includes(interval.meetingId) &&
+        overlapMs(interval, proposed) > 0
+    )
+    .map((interval) => ({
+      meetingId: interval.meetingId,
+      title: interval.title,
+      start: toZonedIso(interval.start, timeZone),
+      end: toZonedIso(interval.end, timeZone),
+      overlapMinutes: Math.round(overlapMs(interval, proposed) / MINUTE_MS),
+    }));
+}
+
+/**
+ * Meetings that overlap a proposed start/end
+ */
+export async function findMeetingConflicts(
+  eventTime: string,
+  eventTimeEnd: string | undefined,
+  options: { timeZone: string; ignoreMeetingIds?: string[] }
+): Promise<MeetingConflict[]> {
+  const { timeZone, ignoreMeetingIds = [] } = options;
+
+  const proposed = proposedInterval(eventTime, eventTimeEnd, timeZone);
+  // All-day entries never conflict with timed meetings
+  if (!proposed) return [];
+
+  const busy = await getBusyIntervals(
+    zonedDate(proposed.start, timeZone),
+    zonedDate(proposed.end, timeZone),
+    timeZone
+  );
+
+  return conflictsWith(busy, proposed, timeZone, ignoreMeetingIds);
+}
+
+/**
+ * Existing meetings that overlap each occurrence; occurrences without
+ * conflicts are left out. The calendar is read once for the whole span.
+ */
+export async function findSeriesConflicts(
+  occurrences: SeriesOccurrence[],
+  options: { timeZone: string; ignoreMeetingIds?: string[] }
+): Promise<{ date: string; start: string; conflicts: MeetingConflict[] }[]> {
+  const { timeZone, ignoreMeetingIds = [] } = options;
+
+  const proposals = occurrences
+    .map((occurrence) => ({
+      occurrence,
+      proposed: proposedInterval(
+        occurrence.start,
+        occurrence.end ?? undefined,
+        timeZone
+      ),
+    }))
+    .filter(
+      (entry): entry is { occurrence: SeriesOccurrence; proposed: TimeInterval } =>
+        entry.proposed !== null
+    );
+  if (proposals.length === 0) return [];
+
+  const busy = await getBusyIntervals(
+    zonedDate(Math.min(...proposals.map(({ proposed }) => proposed.start)), timeZone),
+    zonedDate(Math.max(...proposals.map(({ proposed }) => proposed.end)), timeZone),
+    timeZone
+  );
+
+  const results = [];
+  for (const { occurrence, proposed } of proposals) {
+    const conflicts = conflictsWith(busy, proposed, timeZone, ignoreMeetingIds);
+    if (conflicts.length > 0) {
+      results.push({ date: occurrence.date, start: occurrence.start, conflicts });
+    }
+  }
+  return results;
+}
+
+// ============================================================================
+// Free Slots
+// ============================================================================
+
+interface SlotCandidate extends TimeInterval {
+  date: string;
+  score: number;
+  energyCategories: string[];
+  reasons: string[];
+}
+
+/**
+ * Ranked open windows of a given length
+ *
+ * Working hours minus meetings (with a buffer) and melatonin/wind-down
+ * segments. Peak segments are kept free for deep work, so meetings only
+ * land in them when "peak" is the requested preference. Slots are scored
+ * 60% energy fit, 30% how soon and 10% whether they leave the rest of the
+ * window in one piece; the best non-overlapping ones are returned.
+ */
+export function findFreeSlots(options: FreeSlotOptions): FreeSlot[] {
+  const {
+    durationMinutes,
+    startDate,
+    endDate,
+    workStart = "09:00",
+    workEnd = "17:00",
+    weekdaysOnly = true,
+    timeZone,
+    busy,
+    energy = [],
+    purpose = "meeting",
+    bufferMinutes = 10,
+    stepMinutes = 30,
+    notBefore = Date.now(),
+    limit = 5,
+  } = options;
+
+  const duration = durationMinutes * MINUTE_MS;
+  const step = stepMinutes * MINUTE_MS;
+  const buffer = bufferMinutes * MINUTE_MS;
+  const preference =
+    options.energyPreference ?? (purpose === "deep_work" ? "peak" : undefined);
+  const protectPeak = purpose === "meeting" && preference !== "peak";
+
+  const blocked: TimeInterval[] = [
+    ...busy.map((interval) => ({
+      start: interval.start - buffer,
+      end: interval.end + buffer,
+    })),
+    ...energy.filter(
+      (segment) =>
+        AVOIDED_ENERGY.includes(segment.category) ||
+        (protectPeak && segment.category === "peak")
+    ),
+  ];
+
+  const dates = eachDate(startDate, endDate).filter((date) => {
+    const day = new Date(`${date}T12:00:00.000Z`).getUTCDay();
+    return !weekdaysOnly || (day !== 0 && day !== 6);
+  });
+
+  const candidates: SlotCandidate[] = [];
+
+  dates.forEach((date, dayIndex) => {
+    const workday = {
+      start: Math.max(zonedTimeToUtc(date, workStart, timeZone), notBefore),
+      end: zonedTimeToUtc(date, workEnd, timeZone),
+    };
+    if (workday.end <= workday.start) return;
+
+    const dayEnergy = energy.filter((segment) => overlapMs(segment, workday) > 0);
+    const soonness = 1 - dayIndex / dates.length;
+
+    for (const window of subtractIntervals([workday], blocked)) {
+      for (
+        let start = Math.ceil(window.start / step) * step;
+        start + duration <= window.end;
+        start += step
+      ) {
+        const slot = { start, end: start + duration };
+        const reasons: string[] = [];
+        const energyCategories = [
+          ...new Set(
+            dayEnergy
+              .filter((segment) => overlapMs(segment, slot) > 0)
+              .map((segment) => segment.category)
+          ),
+        ];
+
+        let energyScore = 0.5;
+        if (dayEnergy.length === 0) {
+          reasons.push("no energy data for this day");
+        } else if (preference) {
+          energyScore =
+            dayEnergy
+              .filter((segment) => segment.category === preference)
+              .reduce((total, segment) => total + overlapMs(segment, slot), 0) /
+            duration;
+          if (energyScore > 0) reasons.push(`in a ${preference} window`);
+        } else {
+          const groggy = dayEnergy
+            .filter((segment) => segment.category === "groggy")
+            .reduce((total, segment) => total + overlapMs(segment, slot), 0);
+          energyScore = 1 - (0.5 * groggy) / duration;
+          if (groggy > 0) reasons.push("overlaps a groggy window");
+        }
+
+        const keepsWindowWhole =
+          slot.start - window.start < step || window.end - slot.end < step;
+        if (keepsWindowWhole) reasons.push("keeps the rest of the window free");
+
+        const score =
+          0.6 * Math.min(1, energyScore) +
+          0.3 * soonness +
+          0.1 * (keepsWindowWhole ? 1 : 0.5);
+
+        candidates.push({
+          ...slot,
+          date,
+          score: Math.round(score * 100) / 100,
+          energyCategories,
+          reasons,
+        });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+
+  const picked: SlotCandidate[] = [];
+  for (const candidate of candidates) {
+    if (picked.length >= limit) break;
+    if (picked.some((slot) => overlapMs(slot, candidate) > 0)) continue;
+    picked.push(candidate);
+  }
+
+  return picked.map((slot) => ({
+    start: toZonedIso(slot.start, timeZone),
+    end: toZonedIso(slot.end, timeZone),
+    date: slot.date,
+    score: slot.score,
+    energyCategories: slot.energyCategories,
+    reasons: slot.reasons,
+  }));
+}
@@ -0,0 +1,133 @@
+/**
+ * Time Zone Helpers
+ * Convert between wall-clock times in a named time zone and UTC instants
+ * without a date library.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EXPLICIT_OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+export function timeZoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a zone
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string
+): number {
+  const [hours, minutes = 0] = time.split(":").map(Number);
+  const wallClock =
+    Date.parse(`${date}T00:00:00.000Z`) + (hours * 60 + minutes) * MINUTE_MS;
+  if (!Number.isFinite(wallClock)) {
+    throw new Error(`Invalid date/time: ${date} ${time}`);
+  }
+
+  // Re-check the offset at the result to land correctly around DST changes
+  const guess = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+  return wallClock - timeZoneOffsetMs(guess, timeZone);
+}
+
+/**
+ * Parse an event timestamp; values without an offset are wall-clock times
+ * in the given zone. Returns null for all-day (date-only) values.
+ */
+export function parseEventTime(value: string, timeZone: string): number | null {
+  if (DATE_ONLY_PATTERN.test(value)) return null;
+
+  if (EXPLICIT_OFFSET_PATTERN.test(value)) {
+    const instant = Date.parse(value);
+    return Number.isFinite(instant) ? instant : null;
+  }
+
+  const [date, time] = value.split("T");
+  return zonedTimeToUtc(date, time.slice(0, 5), timeZone);
+}
+
+/**
+ * ISO 8601 timestamp with the zone's offset, e.g. 2025-01-15T10:00:00-05:00
+ */
+export function toZonedIso(instant: number, timeZone: string): string {
+  const offset = timeZoneOffsetMs(instant, timeZone);
+  const local = new Date(instant + offset).toISOString().slice(0, 19);
+  const sign = offset < 0 ? "-" : "+";
+  const total = Math.abs(offset) / MINUTE_MS;
+  const hours = String(Math.floor(total / 60)).padStart(2, "0");
+  const minutes = String(total % 60).padStart(2, "0");
+  return `${local}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a zone
+ */
+export function zonedDate(instant: number, timeZone: string): string {
+  return toZonedIso(instant, timeZone).split("T")[0];
+}
+
+/**
+ * UTC bounds of whole days in a zone, for timestamp filters: midnight at
+ * the start of startDate up to (not including) midnight after endDate
+ */
+export function zonedDayBounds(
+  startDate: string,
+  endDate: string,
+  timeZone: string
+): { start: string; end: string } {
+  return {
+    start: new Date(zonedTimeToUtc(startDate, "00:00", timeZone)).toISOString(),
+    end: new Date(
+      zonedTimeToUtc(addDays(endDate, 1), "00:00", timeZone)
+    ).toISOString(),
+  };
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS)
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Every date from start to end, inclusive
+ */
+export function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
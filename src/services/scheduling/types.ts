@@ -0,0 +1,282 @@
+/**
+ * Scheduling Types
+ */
+
+/** Half-open interval of UTC epoch milliseconds */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A meeting occupying the calendar
+ */
+export interface BusyInterval extends TimeInterval {
+  meetingId: string;
+  title: string;
+}
+
+/**
+ * An energy segment from the energy_events table
+ */
+export interface EnergyWindow extends TimeInterval {
+  /** peak, dip, groggy, wind_down or melatonin */
+  category: string;
+  label: string;
+}
+
+/**
+ * An existing meeting that overlaps a proposed time
+ */
+export interface MeetingConflict {
+  meetingId: string;
+  title: string;
+  /** ISO timestamps in the scheduling time zone */
+  start: string;
+  end: string;
+  overlapMinutes: number;
+}
+
+/**
+ * What a free slot is for: meetings stay out of peak blocks, deep work
+ * prefers them
+ */
+export type SlotPurpose = "meeting" | "deep_work";
+
+export interface FreeSlotOptions {
+  /** Slot length in minutes */
+  durationMinutes: number;
+  /** YYYY-MM-DD, inclusive, in timeZone */
+  startDate: string;
+  endDate: string;
+  /** HH:MM wall-clock working hours (default 09:00-17:00) */
+  workStart?: string;
+  workEnd?: string;
+  /** Skip Saturdays and Sundays (default true) */
+  weekdaysOnly?: boolean;
+  timeZone: string;
+  busy: BusyInterval[];
+  /** Energy segments for whichever days have them */
+  energy?: EnergyWindow[];
+  /** Energy category to favour, e.g. "peak" or "dip" */
+  energyPreference?: string;
+  purpose?: SlotPurpose;
+  /** Minutes kept clear before and after meetings (default 10) */
+  bufferMinutes?: number;
+  /** Candidate start granularity in minutes (default 30) */
+  stepMinutes?: number;
+  /** Do not return slots starting before this instant (default now) */
+  notBefore?: number;
+  limit?: number;
+}
+
+/**
+ * A ranked open window
+ */
+export interface FreeSlot {
+  /** ISO timestamps in the scheduling time zone */
+  start: string;
+  end: string;
+  date: string;
+  /** 0-1, higher is better */
+  score: number;
+  /** Energy categories the slot overlaps */
+  energyCategories: string[];
+  reasons: string[];
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+/**
+ * The supported subset of an RRULE
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** Every N days/weeks/months (default 1) */
+  interval?: number;
+  /** MO, TU, … or, for MONTHLY, ordinals like 1MO or -1FR */
+  byDay?: string[];
+  /** MONTHLY only; negative values count from the end of the month */
+  byMonthDay?: number[];
+  count?: number;
+  /** Last local date (YYYY-MM-DD) an occurrence may fall on */
+  until?: string;
+}
+
+/**
+ * A meeting series: first start, length, rule and skipped dates
+ */
+export interface SeriesDefinition {
+  /** Wall-clock start of the first occurrence, YYYY-MM-DDTHH:MM */
+  start: string;
+  timeZone: string;
+  durationMinutes: number | null;
+  rule: RecurrenceRule;
+  /** Local dates (YYYY-MM-DD) with no occurrence */
+  exceptions: string[];
+}
+
+/**
+ * One expanded occurrence of a series
+ */
+export interface SeriesOccurrence {
+  date: string;
+  /** ISO timestamps in the series time zone */
+  start: string;
+  end: string | null;
+}
+
+/**
+ * A new recurring meeting; eventTime/eventTimeEnd are the first occurrence
+ */
+export interface CreateMeetingSeriesInput {
+  title: string;
+  eventTime: string;
+  eventTimeEnd?: string;
+  attendeeIds?: string[];
+  /** RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10 */
+  rrule: string;
+  /** Local dates (YYYY-MM-DD) to skip */
+  exceptions?: string[];
+  /** Series ID to use, e.g. the UID of an imported calendar event (default: a new UUID) */
+  seriesId?: string;
+}
+
+/**
+ * Series-wide changes, applied from a date onwards
+ */
+export interface UpdateMeetingSeriesInput {
+  title?: string;
+  attendeeIds?: string[];
+  /** New wall-clock start time, HH:MM */
+  startTime?: string;
+  durationMinutes?: number;
+  /** Replacement RRULE value */
+  rrule?: string;
+  /** Local dates (YYYY-MM-DD) to add as exceptions */
+  exceptions?: string[];
+}
+
+export type SeriesOccurrenceOutcome =
+  | "planned"
+  | "created"
+  | "updated"
+  | "unchanged"
+  | "canceled";
+
+/**
+ * What happened to one occurrence of a series
+ */
+export interface SeriesOccurrenceResult extends SeriesOccurrence {
+  outcome: SeriesOccurrenceOutcome;
+  meetingId: string | null;
+  url: string | null;
+}
+
+/**
+ * Result of creating, extending, editing or canceling a series
+ */
+export interface MeetingSeriesResult {
+  seriesId: string;
+  title: string;
+  /** Plain-English rule, e.g. "Weekly on Mon, Wed" */
+  description: string;
+  recurrence: string;
+  /** Last date occurrences are materialized through */
+  horizonDate: string;
+  occurrences: SeriesOccurrenceResult[];
+}
+
+/**
+ * How demanding a task is, which decides the energy it is scheduled into
+ * - deep: development, design, discovery, strategy → peak
+ * - standard: everything else of medium priority → peak or dip
+ * - routine: communication, email, admin → dip
+ * - light: review and planning → groggy
+ * - wrap_up: documentation and reflection → wind-down
+ */
+export type TaskDemand = "deep" | "standard" | "routine" | "light" | "wrap_up";
+
+/**
+ * A task the day planner may schedule
+ */
+export interface DayPlanTask {
+  taskId?: string;
+  title: string;
+  priority?: string | null;
+  taskType?: string[];
+  /** Minutes; falls back to timeEstimate, then the default length */
+  estimateMinutes?: number;
+  /** Time Estimates select value, e.g. "30 min" or "2 hours" */
+  timeEstimate?: string | null;
+  dueDate?: string | null;
+  projectName?: string | null;
+}
+
+export interface DayPlanOptions {
+  /** YYYY-MM-DD in timeZone */
+  date: string;
+  timeZone: string;
+  tasks: DayPlanTask[];
+  /** Fixed meetings */
+  meetings: BusyInterval[];
+  /** Energy segments for the day; time outside them has no category */
+  energy?: EnergyWindow[];
+  /** HH:MM wall-clock working hours (default 09:00-18:00) */
+  workStart?: string;
+  workEnd?: string;
+  /** Minutes kept clear before and after meetings (default 10) */
+  bufferMinutes?: number;
+  /** Longest run of back-to-back task time before a break (default 90) */
+  maxFocusMinutes?: number;
+  /** Length of those breaks (default 15) */
+  breakMinutes?: number;
+  /** Task length when there is no estimate (default 60) */
+  defaultTaskMinutes?: number;
+  /** Nothing is scheduled before this instant (default: start of day) */
+  notBefore?: number;
+}
+
+export type DayPlanBlockKind = "task" | "meeting" | "buffer" | "break";
+
+/**
+ * One row of the day's timeline
+ */
+export interface DayPlanBlock {
+  kind: DayPlanBlockKind;
+  title: string;
+  /** ISO timestamps in the plan's time zone */
+  start: string;
+  end: string;
+  minutes: number;
+  /** Energy category at the block's start; null outside any segment */
+  energyCategory: string | null;
+  energyLabel: string | null;
+  taskId?: string;
+  meetingId?: string;
+  priority?: string | null;
+  projectName?: string | null;
+  reason: string;
+}
+
+/**
+ * A task that didn't fit, and why
+ */
+export interface UnscheduledTask {
+  task: DayPlanTask;
+  minutes: number;
+  reason: string;
+}
+
+export interface DayPlan {
+  date: string;
+  timeZone: string;
+  workStart: string;
+  workEnd: string;
+  blocks: DayPlanBlock[];
+  unscheduled: UnscheduledTask[];
+  /** Task minutes scheduled */
+  scheduledMinutes: number;
+  /** Working minutes left open */
+  freeMinutes: number;
+}
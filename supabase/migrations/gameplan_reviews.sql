@@ -0,0 +1,29 @@
+-- Migration: gameplan_reviews table for end-of-day gameplan reconciliation
+-- One row per user per day with planned-vs-actual counts for trend analysis.
+
+create table if not exists public.gameplan_reviews (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  day_date date not null,
+  gameplan_id text not null,
+  planned_count integer not null default 0,
+  done_count integer not null default 0,
+  slipped_count integer not null default 0,
+  dropped_count integer not null default 0,
+  unplanned_count integer not null default 0,
+  completion_score numeric(4, 3),
+  carry_over_task_ids text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint gameplan_reviews_score_range check (
+    completion_score is null or (completion_score >= 0 and completion_score <= 1)
+  )
+);
+
+-- Re-running the reconciliation for a day replaces that day's row.
+create unique index if not exists gameplan_reviews_user_day_idx
+  on public.gameplan_reviews (user_id, day_date);
+
+comment on table public.gameplan_reviews is 'Planned-vs-actual results of each daily gameplan.';
+comment on column public.gameplan_reviews.completion_score is 'Planned tasks done divided by planned tasks found in Notion (0-1); null when nothing was planned.';
+comment on column public.gameplan_reviews.carry_over_task_ids is 'Notion IDs of planned tasks still open at the end of the day.';
@@ -0,0 +1,25 @@
+-- Migration: notion_cache table for the optional shared Notion read cache
+-- Used when NOTION_CACHE_STORE=supabase so cache entries survive restarts
+-- and invalidations reach every server instance.
+
+create table if not exists public.notion_cache (
+  key text primary key,
+  value jsonb not null,
+  tags text[] not null default '{}',
+  expires_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Tag lookups for invalidation (e.g. 'db:tasks', 'page:<id>')
+create index if not exists notion_cache_tags_idx
+  on public.notion_cache using gin (tags);
+
+-- Sweeping expired rows
+create index if not exists notion_cache_expires_at_idx
+  on public.notion_cache (expires_at);
+
+comment on table public.notion_cache is 'Read-through cache for Notion queries, pages and page content.';
+comment on column public.notion_cache.key is 'Cache key built from the operation and its arguments.';
+comment on column public.notion_cache.value is 'Cached Notion response (JSON).';
+comment on column public.notion_cache.tags is 'Invalidation tags such as db:<databaseKey>, page:<pageId>, blocks:<pageId>.';
+comment on column public.notion_cache.expires_at is 'Entry is ignored (and may be deleted) after this time.';